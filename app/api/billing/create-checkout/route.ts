@@ -1,14 +1,28 @@
 import { NextResponse } from 'next/server';
+import { verifyToken } from '@clerk/nextjs/server';
 
 const LEMON_SQUEEZY_API_KEY = process.env.LEMONSQUEEZY_API_KEY;
 const LEMON_SQUEEZY_STORE_ID = process.env.LEMONSQUEEZY_STORE_ID;
 const LEMON_SQUEEZY_VARIANT_ID = process.env.LEMONSQUEEZY_VARIANT_ID;
 
+// The Clerk user from the request's bearer session token, or null
+async function getVerifiedUserId(request: Request): Promise<string | null> {
+  const match = (request.headers.get('authorization') || '').match(/^Bearer\s+(.+)$/i);
+  if (!match) return null;
+
+  try {
+    const claims = await verifyToken(match[1], { secretKey: process.env.CLERK_SECRET_KEY });
+    return claims.sub || null;
+  } catch {
+    return null;
+  }
+}
+
 export async function POST(request: Request) {
-  const userId = request.headers.get('x-clerk-user-id');
+  const userId = await getVerifiedUserId(request);
 
   if (!userId) {
-    return NextResponse.json({ error: 'Missing user id' }, { status: 401 });
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
   }
 
   if (!LEMON_SQUEEZY_API_KEY || !LEMON_SQUEEZY_STORE_ID || !LEMON_SQUEEZY_VARIANT_ID) {
@@ -5,8 +5,11 @@ import { UserButton, useUser, useAuth } from '@clerk/nextjs';
 import Link from 'next/link';
 import { ConfirmationModal } from '@/components/ConfirmationModal';
 import { NotificationBell } from '@/components/NotificationBell';
+import { useApiFetch } from '@/lib/api';
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
+
+// Remembers the store picked in the switcher between visits
+const SELECTED_STORE_KEY = 'orderwarden:selectedStore';
 
 interface Order {
   id: string;
@@ -16,10 +19,74 @@ interface Order {
   lastStatus: string | null;
   lastUpdateAt: string | null;
   riskLevel: string | null;
+  riskReasons: RiskReason[] | null;
+  expectedDeliveryAt: string | null;
+  etaSource: 'carrier' | 'history' | 'baseline' | null;
+  deliveredAt: string | null;
+  nextCheckAt: string | null;
+  storeId: string | null;
+  store?: { storeName: string } | null;
+  buyerName: string | null;
+  buyerEmail: string | null;
+  shipToCity: string | null;
+  shipToCountry: string | null;
+  orderTotalCents: number | null;
+  currency: string | null;
+  shippedAt: string | null;
+  messageLocale: string | null;
+  etsyReceiptId: string | null;
+  // Only returned by GET /api/orders/:id
+  items?: OrderItem[];
   createdAt: string;
   updatedAt: string;
 }
 
+interface OrderItem {
+  id: string;
+  title: string;
+  quantity: number;
+  priceCents: number | null;
+  sku: string | null;
+}
+
+function formatMoney(cents: number | null, currency: string | null): string {
+  if (cents === null) return '—';
+  const amount = cents / 100;
+  try {
+    return amount.toLocaleString(undefined, { style: 'currency', currency: currency || 'USD' });
+  } catch {
+    return `${amount.toFixed(2)} ${currency || ''}`.trim();
+  }
+}
+
+// GET /api/orders/summary
+interface OrderSummary {
+  total: number;
+  byRisk: Record<string, number>;
+  byStatus: Record<string, number>;
+}
+
+interface OrderPage {
+  orders: Order[];
+  totalCount: number;
+  pageInfo: { limit: number; hasMore: boolean; nextCursor: string | null };
+}
+
+interface Store {
+  id: string;
+  platform: string;
+  storeName: string;
+  orderCount: number;
+  isDefault: boolean;
+  etsy: { shopName: string; lastSyncAt: string | null; syncEnabled: boolean } | null;
+}
+
+interface RiskReason {
+  code: string;
+  level: string;
+  message: string;
+}
+
 interface BillingStatus {
   planType: 'free' | 'pro';
   subscriptionStatus: string | null;
@@ -36,14 +103,30 @@ interface ImpactSummary {
   riskResolved: number;
   deliveredAfterRisk: number;
   estimatedRefundsAvoided: number;
+  valueAtRisk: number;
   rangeDays: number;
   generatedAt: string;
 }
 
-interface TrackingEvent {
+interface TrackingScan {
+  id: string;
   timestamp: string;
   location: string | null;
   description: string;
+  statusCode: string | null;
+  provider: string;
+}
+
+// Start of a date-range filter ('today', '7days', ...), or null for all time
+function rangeStart(range: string): Date | null {
+  const now = new Date();
+  switch (range) {
+    case 'today': return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    case '7days': return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+    case '30days': return new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+    case '90days': return new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
+    default: return null;
+  }
 }
 
 // Toast notification component
@@ -63,16 +146,11 @@ function Toast({ message, type, onClose }: { message: string; type: 'success' |
   );
 }
 
-function DeliveryRiskOverview({ orders, onOrderClick }: { orders: Order[]; onOrderClick?: (orderId: string) => void }) {
-  const healthyCount = orders.filter(o => o.riskLevel === 'green').length;
-  const attentionCount = orders.filter(o => o.riskLevel === 'yellow').length;
-  const highRiskCount = orders.filter(o => o.riskLevel === 'red').length;
-  const total = orders.length || 1;
-
-  const atRiskOrders = orders
-    .filter(o => o.riskLevel === 'yellow' || o.riskLevel === 'red')
-    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-    .slice(0, 3);
+function DeliveryRiskOverview({ summary, atRiskOrders, onOrderClick }: { summary: OrderSummary | null; atRiskOrders: Order[]; onOrderClick?: (orderId: string) => void }) {
+  const healthyCount = summary?.byRisk.green || 0;
+  const attentionCount = summary?.byRisk.yellow || 0;
+  const highRiskCount = summary?.byRisk.red || 0;
+  const total = summary?.total || 1;
 
   const ProgressBar = ({ label, count, total, color }: { label: string, count: number, total: number, color: string }) => (
     <div>
@@ -129,6 +207,7 @@ function DeliveryRiskOverview({ orders, onOrderClick }: { orders: Order[]; onOrd
 export default function DashboardPage() {
   const { isLoaded, isSignedIn } = useUser();
   const { userId } = useAuth();
+  const apiFetch = useApiFetch();
 
   useEffect(() => {
     if (isLoaded && !isSignedIn) {
@@ -136,15 +215,23 @@ export default function DashboardPage() {
     }
   }, [isLoaded, isSignedIn]);
 
+  // The current page of the orders table; filtering, sorting and paging happen on the server
   const [orders, setOrders] = useState<Order[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [pageLoading, setPageLoading] = useState(false);
+  const ordersRequest = useRef(0);
   const [error, setError] = useState<string | null>(null);
   const [showAddOrder, setShowAddOrder] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
   
   // Search and filter state
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [riskFilter, setRiskFilter] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [dateFilter, setDateFilter] = useState<string>('all');
@@ -156,11 +243,36 @@ export default function DashboardPage() {
   // Bulk selection state
   const [selectedOrders, setSelectedOrders] = useState<Set<string>>(new Set());
   
+  // Store switcher state ('all' shows every store)
+  const [stores, setStores] = useState<Store[]>([]);
+  const [selectedStoreId, setSelectedStoreId] = useState<string>('all');
+  const storeQuery = selectedStoreId === 'all' ? '' : `storeId=${encodeURIComponent(selectedStoreId)}`;
+
+  // Query string for GET /api/orders built from the store switcher, filters and sort
+  const listQuery = useMemo(() => {
+    const params = new URLSearchParams();
+    if (selectedStoreId !== 'all') params.set('storeId', selectedStoreId);
+    if (riskFilter !== 'all') params.set('risk', riskFilter);
+    if (statusFilter !== 'all') params.set('status', statusFilter);
+    const createdFrom = rangeStart(dateFilter);
+    if (createdFrom) params.set('createdFrom', createdFrom.toISOString());
+    if (debouncedSearch) params.set('q', debouncedSearch);
+    params.set('sort', sortField);
+    params.set('order', sortDirection);
+    return params.toString();
+  }, [selectedStoreId, riskFilter, statusFilter, dateFilter, debouncedSearch, sortField, sortDirection]);
+  const hasFilters = Boolean(debouncedSearch) || riskFilter !== 'all' || statusFilter !== 'all' || dateFilter !== 'all';
+  // What the user's role allows in the current workspace (see /api/organizations/current)
+  const [permissions, setPermissions] = useState<string[]>([]);
+  const can = (permission: string) => permissions.includes(permission);
+
   // Etsy connection state
   const [etsyStatus, setEtsyStatus] = useState<{
     connected: boolean;
+    storeId?: string;
     shopName?: string;
     lastSyncAt?: string;
+    disabledReason?: string | null;
     syncing?: boolean;
   }>({ connected: false });
 
@@ -185,105 +297,33 @@ export default function DashboardPage() {
   // Per-order check tracking loading state
   const [checkingOrderIds, setCheckingOrderIds] = useState<Set<string>>(new Set());
 
-  // Pagination state
-  const [currentPage, setCurrentPage] = useState(1);
+  // Pagination state: the cursor of every page visited so far, so Previous
+  // can step back. Starts over whenever the query changes.
   const ORDERS_PER_PAGE = 20;
+  const [pages, setPages] = useState<{ query: string; cursors: (string | null)[] }>({ query: '', cursors: [null] });
+  const pageCursors = pages.query === listQuery ? pages.cursors : [null];
+  const currentPage = pageCursors.length;
+  const pageCursor = pageCursors[pageCursors.length - 1];
+  const totalPages = Math.max(1, Math.ceil(totalCount / ORDERS_PER_PAGE));
+
+  const goToFirstPage = () => setPages({ query: listQuery, cursors: [null] });
+  const goToPreviousPage = () => setPages({ query: listQuery, cursors: pageCursors.slice(0, -1) });
+  const goToNextPage = () => {
+    if (nextCursor) setPages({ query: listQuery, cursors: [...pageCursors, nextCursor] });
+  };
 
   // Dashboard date range state
   const [dashboardRange, setDashboardRange] = useState<'today' | '7days' | '30days' | 'all'>('all');
 
-  // Dashboard filtered orders for stat cards
-  const dashboardOrders = useMemo(() => {
-    if (dashboardRange === 'all') return orders;
-    const now = new Date();
-    const cutoffs: Record<string, Date> = {
-      today: new Date(now.getFullYear(), now.getMonth(), now.getDate()),
-      '7days': new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000),
-      '30days': new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000),
-    };
-    return orders.filter(o => new Date(o.createdAt) >= cutoffs[dashboardRange]);
-  }, [orders, dashboardRange]);
-
-  // Filter and sort orders
-  const filteredOrders = useMemo(() => {
-    let result = [...orders];
-    
-    // Search filter
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      result = result.filter(o => 
-        o.orderId.toLowerCase().includes(query) ||
-        o.trackingNumber.toLowerCase().includes(query) ||
-        (o.carrier && o.carrier.toLowerCase().includes(query))
-      );
-    }
-    
-    // Risk filter
-    if (riskFilter !== 'all') {
-      result = result.filter(o => o.riskLevel === riskFilter);
-    }
-    
-    // Status filter
-    if (statusFilter !== 'all') {
-      result = result.filter(o => o.lastStatus === statusFilter);
-    }
-    
-    // Date filter
-    if (dateFilter !== 'all') {
-      const now = new Date();
-      let cutoff: Date;
-      switch (dateFilter) {
-        case '7days': cutoff = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000); break;
-        case '30days': cutoff = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000); break;
-        case '90days': cutoff = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000); break;
-        default: cutoff = new Date(0);
-      }
-      result = result.filter(o => new Date(o.createdAt) >= cutoff);
-    }
+  // Stat cards and risk overview for the dashboard range
+  const [orderSummary, setOrderSummary] = useState<OrderSummary | null>(null);
+  const [atRiskOrders, setAtRiskOrders] = useState<Order[]>([]);
 
-    
-    // Sorting
-    result.sort((a, b) => {
-      let aVal: any, bVal: any;
-      switch (sortField) {
-        case 'orderId': aVal = a.orderId; bVal = b.orderId; break;
-        case 'trackingNumber': aVal = a.trackingNumber; bVal = b.trackingNumber; break;
-        case 'lastStatus': aVal = a.lastStatus || ''; bVal = b.lastStatus || ''; break;
-        case 'riskLevel': 
-          const riskOrder = { red: 3, yellow: 2, green: 1 };
-          aVal = riskOrder[a.riskLevel as keyof typeof riskOrder] || 0;
-          bVal = riskOrder[b.riskLevel as keyof typeof riskOrder] || 0;
-          break;
-        case 'lastUpdateAt': 
-          aVal = a.lastUpdateAt ? new Date(a.lastUpdateAt).getTime() : 0;
-          bVal = b.lastUpdateAt ? new Date(b.lastUpdateAt).getTime() : 0;
-          break;
-        default: 
-          aVal = new Date(a.createdAt).getTime();
-          bVal = new Date(b.createdAt).getTime();
-      }
-      
-      if (sortDirection === 'asc') {
-        return aVal > bVal ? 1 : -1;
-      } else {
-        return aVal < bVal ? 1 : -1;
-      }
-    });
-    
-    return result;
-  }, [orders, searchQuery, riskFilter, statusFilter, dateFilter, sortField, sortDirection]);
-
-  // Pagination
-  const totalPages = Math.ceil(filteredOrders.length / ORDERS_PER_PAGE);
-  const paginatedOrders = useMemo(() => {
-    const start = (currentPage - 1) * ORDERS_PER_PAGE;
-    return filteredOrders.slice(start, start + ORDERS_PER_PAGE);
-  }, [filteredOrders, currentPage]);
-
-  // Reset to page 1 when filters change
+  // Search once typing pauses rather than on every keystroke
   useEffect(() => {
-    setCurrentPage(1);
-  }, [searchQuery, riskFilter, statusFilter, dateFilter]);
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
 
   const handleSort = (field: string) => {
     if (sortField === field) {
@@ -305,10 +345,10 @@ export default function DashboardPage() {
   };
 
   const toggleSelectAll = () => {
-    if (selectedOrders.size === paginatedOrders.length) {
+    if (selectedOrders.size === orders.length) {
       setSelectedOrders(new Set());
     } else {
-      setSelectedOrders(new Set(paginatedOrders.map(o => o.id)));
+      setSelectedOrders(new Set(orders.map(o => o.id)));
     }
   };
 
@@ -320,17 +360,17 @@ export default function DashboardPage() {
 
   useEffect(() => {
     if (userId) {
-      fetchOrders();
-      fetchEtsyStatus();
+      fetchStores();
       fetchBillingStatus();
-      fetchImpactSummary();
+      fetchPermissions();
 
       const params = new URLSearchParams(window.location.search);
       if (params.get('etsy_connected') === 'true') {
         const shopName = params.get('shop');
         setToast({ message: `Connected to Etsy shop: ${shopName}`, type: 'success' });
+        const connectedStoreId = params.get('storeId');
+        if (connectedStoreId) selectStore(connectedStoreId);
         window.history.replaceState({}, '', window.location.pathname);
-        fetchEtsyStatus();
       } else if (params.get('etsy_error')) {
         setToast({ message: `Etsy connection failed: ${params.get('etsy_error')}`, type: 'error' });
         window.history.replaceState({}, '', window.location.pathname);
@@ -344,20 +384,133 @@ export default function DashboardPage() {
     }
   }, [userId]);
 
+  // Etsy status and metrics follow the store switcher
+  useEffect(() => {
+    if (userId) {
+      fetchEtsyStatus();
+      fetchImpactSummary();
+      setSelectedOrders(new Set());
+    }
+  }, [userId, selectedStoreId]);
+
+  // The orders table follows the store, filters, sort and page
+  useEffect(() => {
+    if (userId) fetchOrders();
+  }, [userId, listQuery, pageCursor]);
+
+  useEffect(() => {
+    if (userId) fetchOrderSummary();
+  }, [userId, selectedStoreId, dashboardRange]);
+
+  const fetchStores = async () => {
+    if (!userId) return;
+    try {
+      const response = await apiFetch(`/api/stores`);
+      const data = await response.json();
+      const list: Store[] = data.stores || [];
+      setStores(list);
+
+      // Restore the last pick if the store still exists
+      const saved = window.localStorage.getItem(SELECTED_STORE_KEY);
+      if (saved && (saved === 'all' || list.some(store => store.id === saved))) {
+        setSelectedStoreId(saved);
+      }
+    } catch (err) {
+      console.error('Failed to fetch stores:', err);
+    }
+  };
+
+  const fetchPermissions = async () => {
+    if (!userId) return;
+    try {
+      const response = await apiFetch(`/api/organizations/current`);
+      const data = await response.json();
+      setPermissions(data.permissions || []);
+    } catch (err) {
+      console.error('Failed to fetch permissions:', err);
+    }
+  };
+
+  const selectStore = (storeId: string) => {
+    setSelectedStoreId(storeId);
+    window.localStorage.setItem(SELECTED_STORE_KEY, storeId);
+  };
+
   const fetchOrders = async () => {
     if (!userId) return;
+    // Only the latest request may update the table
+    const request = ++ordersRequest.current;
     try {
-      setLoading(true);
-      const response = await fetch(`${API_URL}/api/orders`, {
-        headers: { 'x-clerk-user-id': userId }
-      });
+      setPageLoading(true);
+      const params = new URLSearchParams(listQuery);
+      params.set('limit', String(ORDERS_PER_PAGE));
+      if (pageCursor) params.set('cursor', pageCursor);
+      const response = await apiFetch(`/api/orders?${params}`);
       const data = await response.json();
-      setOrders(data.orders || []);
+      if (request !== ordersRequest.current) return;
+      if (!response.ok) throw new Error(data.error || 'Failed to load orders');
+
+      const page = data as OrderPage;
+      if (page.orders.length === 0 && currentPage > 1) {
+        // The page emptied out (e.g. its orders were deleted)
+        goToFirstPage();
+        return;
+      }
+      setOrders(page.orders);
+      setTotalCount(page.totalCount);
+      setNextCursor(page.pageInfo.nextCursor);
       setError(null);
     } catch (err) {
-      setError('Failed to load orders');
+      if (request === ordersRequest.current) setError('Failed to load orders');
     } finally {
-      setLoading(false);
+      if (request === ordersRequest.current) {
+        setLoading(false);
+        setPageLoading(false);
+      }
+    }
+  };
+
+  const fetchOrderSummary = async () => {
+    if (!userId) return;
+    try {
+      const params = new URLSearchParams();
+      if (selectedStoreId !== 'all') params.set('storeId', selectedStoreId);
+      const createdFrom = rangeStart(dashboardRange);
+      if (createdFrom) params.set('createdFrom', createdFrom.toISOString());
+
+      const atRiskParams = new URLSearchParams(params);
+      atRiskParams.set('risk', 'yellow,red');
+      atRiskParams.set('limit', '3');
+
+      const [summaryResponse, atRiskResponse] = await Promise.all([
+        apiFetch(`/api/orders/summary?${params}`),
+        apiFetch(`/api/orders?${atRiskParams}`)
+      ]);
+      if (summaryResponse.ok) setOrderSummary(await summaryResponse.json());
+      if (atRiskResponse.ok) setAtRiskOrders((await atRiskResponse.json()).orders || []);
+    } catch (err) {
+      console.error('Failed to fetch order summary:', err);
+    }
+  };
+
+  // After orders are added, removed or re-checked
+  const refreshOrders = () => {
+    fetchOrders();
+    fetchOrderSummary();
+  };
+
+  // Open an order's details from outside the table (notifications, risk overview)
+  const openOrder = async (orderId: string) => {
+    const loaded = [...orders, ...atRiskOrders].find(o => o.id === orderId || o.orderId === orderId);
+    if (loaded) {
+      setSelectedOrder(loaded);
+      return;
+    }
+    try {
+      const response = await apiFetch(`/api/orders/${encodeURIComponent(orderId)}`);
+      if (response.ok) setSelectedOrder((await response.json()).order);
+    } catch (err) {
+      console.error('Failed to fetch order:', err);
     }
   };
 
@@ -365,9 +518,7 @@ export default function DashboardPage() {
   const fetchEtsyStatus = async () => {
     if (!userId) return;
     try {
-      const response = await fetch(`${API_URL}/api/etsy/status`, {
-        headers: { 'x-clerk-user-id': userId }
-      });
+      const response = await apiFetch(`/api/etsy/status${storeQuery ? `?${storeQuery}` : ''}`);
       const data = await response.json();
       setEtsyStatus({ ...data, syncing: false });
     } catch (err) {
@@ -378,9 +529,7 @@ export default function DashboardPage() {
   const fetchBillingStatus = async () => {
     if (!userId) return;
     try {
-      const response = await fetch(`${API_URL}/api/billing/status`, {
-        headers: { 'x-clerk-user-id': userId }
-      });
+      const response = await apiFetch(`/api/billing/status`);
       const data = await response.json();
       setBillingStatus(data);
     } catch (err) {
@@ -399,9 +548,7 @@ export default function DashboardPage() {
       const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
       const daysSinceMonthStart = Math.ceil((now.getTime() - monthStart.getTime()) / (1000 * 60 * 60 * 24)) || 1;
 
-      const response = await fetch(`${API_URL}/api/metrics/summary?range=${daysSinceMonthStart}d`, {
-        headers: { 'x-clerk-user-id': userId }
-      });
+      const response = await apiFetch(`/api/metrics/summary?range=${daysSinceMonthStart}d${storeQuery ? `&${storeQuery}` : ''}`);
       const data = await response.json();
       if (!response.ok) {
         throw new Error(data.error || 'Failed to load impact summary');
@@ -419,10 +566,7 @@ export default function DashboardPage() {
     if (!userId) return;
     setUpgrading(true);
     try {
-      const response = await fetch(`/api/billing/create-checkout`, {
-        method: 'POST',
-        headers: { 'x-clerk-user-id': userId }
-      });
+      const response = await apiFetch(`/api/billing/create-checkout`, { method: 'POST' }, { local: true });
       const data = await response.json();
       if (data.checkoutUrl) {
         window.location.href = data.checkoutUrl;
@@ -437,9 +581,7 @@ export default function DashboardPage() {
   const handleManageSubscription = async () => {
     if (!userId) return;
     try {
-      const response = await fetch(`${API_URL}/api/billing/portal`, {
-        headers: { 'x-clerk-user-id': userId }
-      });
+      const response = await apiFetch(`/api/billing/portal`);
       const data = await response.json();
       if (data.portalUrl) {
         window.open(data.portalUrl, '_blank');
@@ -449,23 +591,42 @@ export default function DashboardPage() {
     }
   };
 
-  const connectEtsy = () => {
+  // With a storeId the store's shop is reconnected (e.g. to grant messaging)
+  const connectEtsy = async (storeId?: string) => {
     if (!userId) return;
-    window.location.href = `${API_URL}/api/etsy/auth?x-clerk-user-id=${userId}`;
+    try {
+      const response = await apiFetch(`/api/etsy/auth`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ storeId: storeId || (selectedStoreId === 'all' ? null : selectedStoreId) }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to connect Etsy');
+      window.location.href = data.authUrl;
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Failed to connect Etsy', type: 'error' });
+    }
   };
 
   const syncEtsy = async () => {
     if (!userId) return;
     setEtsyStatus(prev => ({ ...prev, syncing: true }));
     try {
-      const response = await fetch(`${API_URL}/api/etsy/sync`, {
+      const response = await apiFetch(`/api/etsy/sync${storeQuery ? `?${storeQuery}` : ''}`, {
         method: 'POST',
-        headers: { 'x-clerk-user-id': userId }
       });
       const data = await response.json();
-      if (data.success) {
-        setToast({ message: `Synced! ${data.imported} new orders imported`, type: 'success' });
-        fetchOrders();
+      if (response.ok) {
+        const failed = (data.stores || []).filter((store: { error?: string }) => store.error).length;
+        const changed = data.trackingChanged > 0 ? `, ${data.trackingChanged} tracking numbers changed` : '';
+        setToast({
+          message: failed > 0
+            ? `Synced ${data.imported} new orders${changed}, ${failed} shop(s) failed`
+            : `Synced! ${data.imported} new orders imported${changed}`,
+          type: failed > 0 ? 'info' : 'success'
+        });
+        refreshOrders();
+        fetchStores();
         fetchEtsyStatus();
       } else {
         setToast({ message: `Sync failed: ${data.error}`, type: 'error' });
@@ -480,13 +641,16 @@ export default function DashboardPage() {
 
   const disconnectEtsy = async () => {
     if (!userId) return;
-    if (!confirm('Are you sure you want to disconnect your Etsy shop?')) return;
+    const message = selectedStoreId === 'all'
+      ? 'Are you sure you want to disconnect all of your Etsy shops?'
+      : 'Are you sure you want to disconnect this store\'s Etsy shop?';
+    if (!confirm(message)) return;
     try {
-      await fetch(`${API_URL}/api/etsy/disconnect`, {
+      await apiFetch(`/api/etsy/disconnect${storeQuery ? `?${storeQuery}` : ''}`, {
         method: 'POST',
-        headers: { 'x-clerk-user-id': userId }
       });
       setEtsyStatus({ connected: false });
+      fetchStores();
       setToast({ message: 'Etsy disconnected', type: 'info' });
     } catch (err) {
       setToast({ message: 'Failed to disconnect', type: 'error' });
@@ -496,12 +660,11 @@ export default function DashboardPage() {
   const deleteOrder = async (orderId: string) => {
     if (!userId) return;
     try {
-      const response = await fetch(`${API_URL}/api/orders/${orderId}`, {
+      const response = await apiFetch(`/api/orders/${orderId}`, {
         method: 'DELETE',
-        headers: { 'x-clerk-user-id': userId }
       });
       if (response.ok) {
-        setOrders(orders.filter(order => order.id !== orderId));
+        refreshOrders();
         setSelectedOrders(prev => { const n = new Set(prev); n.delete(orderId); return n; });
         setToast({ message: 'Order deleted', type: 'success' });
       } else {
@@ -529,15 +692,14 @@ export default function DashboardPage() {
     let deleted = 0;
     for (const orderId of selectedOrders) {
       try {
-        const response = await fetch(`${API_URL}/api/orders/${orderId}`, {
+        const response = await apiFetch(`/api/orders/${orderId}`, {
           method: 'DELETE',
-          headers: { 'x-clerk-user-id': userId }
         });
         if (response.ok) deleted++;
       } catch (err) {}
     }
 
-    setOrders(orders.filter(o => !selectedOrders.has(o.id)));
+    refreshOrders();
     setSelectedOrders(new Set());
     setToast({ message: `Deleted ${deleted} orders`, type: 'success' });
   };
@@ -558,9 +720,8 @@ export default function DashboardPage() {
     if (!userId) return;
     setCheckingOrderIds(prev => new Set(prev).add(orderId));
     try {
-      const response = await fetch(`${API_URL}/api/orders/${orderId}/check`, {
+      const response = await apiFetch(`/api/orders/${orderId}/check`, {
         method: 'POST',
-        headers: { 'x-clerk-user-id': userId }
       });
       const data = await response.json();
 
@@ -568,7 +729,8 @@ export default function DashboardPage() {
         throw new Error(data.error || 'Failed to check tracking');
       }
 
-      setOrders(orders.map(order => order.id === orderId ? data.order : order));
+      setOrders(prev => prev.map(order => order.id === orderId ? { ...order, ...data.order } : order));
+      fetchOrderSummary();
       setToast({ message: 'Tracking updated', type: 'success' });
     } catch (err) {
       setToast({ message: err instanceof Error ? err.message : 'Failed to check tracking', type: 'error' });
@@ -590,9 +752,8 @@ export default function DashboardPage() {
     const orderIds = Array.from(selectedOrders);
     const results = await Promise.allSettled(
       orderIds.map(orderId =>
-        fetch(`${API_URL}/api/orders/${orderId}/check`, {
+        apiFetch(`/api/orders/${orderId}/check`, {
           method: 'POST',
-          headers: { 'x-clerk-user-id': userId }
         }).then(res => res.json())
       )
     );
@@ -600,11 +761,12 @@ export default function DashboardPage() {
     results.forEach((result, index) => {
       if (result.status === 'fulfilled' && result.value.order) {
         checked++;
-        setOrders(prev => prev.map(o => o.id === orderIds[index] ? result.value.order : o));
+        setOrders(prev => prev.map(o => o.id === orderIds[index] ? { ...o, ...result.value.order } : o));
       } else {
         failed++;
       }
     });
+    fetchOrderSummary();
 
     setBulkCheckLoading(false);
     setSelectedOrders(new Set());
@@ -614,39 +776,15 @@ export default function DashboardPage() {
     });
   };
 
-  // CSV Export function
-  const exportToCSV = () => {
-    const headers = ['Order Name', 'Tracking Number', 'Carrier', 'Status', 'Risk Level', 'Last Update'];
-    const rows = filteredOrders.map(o => [
-      o.orderId,
-      o.trackingNumber,
-      o.carrier || '',
-      o.lastStatus || '',
-      getRiskLabel(o.riskLevel),
-      o.lastUpdateAt ? new Date(o.lastUpdateAt).toISOString() : ''
-    ]);
-
-    const csv = [headers, ...rows].map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(',')).join('\n');
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `orderwarden-export-${new Date().toISOString().split('T')[0]}.csv`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-
-    setToast({ message: `Exported ${filteredOrders.length} orders`, type: 'success' });
-  };
-
-  // Scroll to order row and highlight it
+  // Scroll to order row and highlight it, or open it when it is not on this page
   const handleScrollToOrder = (orderId: string) => {
     const row = document.querySelector(`[data-order-id="${orderId}"]`);
     if (row) {
       row.scrollIntoView({ behavior: 'smooth', block: 'center' });
       row.classList.add('highlight-pulse');
       setTimeout(() => row.classList.remove('highlight-pulse'), 2000);
+    } else {
+      openOrder(orderId);
     }
   };
 
@@ -670,6 +808,31 @@ export default function DashboardPage() {
     }
   };
 
+  const getEtaInfo = (order: Order): { label: string; color: string } => {
+    if (order.lastStatus === 'delivered') {
+      const deliveredAt = order.deliveredAt || order.lastUpdateAt;
+      return {
+        label: deliveredAt ? `Delivered ${new Date(deliveredAt).toLocaleDateString()}` : 'Delivered',
+        color: 'text-emerald-400'
+      };
+    }
+    if (!order.expectedDeliveryAt) return { label: '—', color: 'text-slate-500' };
+    const expected = new Date(order.expectedDeliveryAt);
+    if (expected.getTime() < Date.now()) {
+      return { label: `Late · ${expected.toLocaleDateString()}`, color: 'text-red-400' };
+    }
+    return { label: expected.toLocaleDateString(), color: 'text-slate-300' };
+  };
+
+  const getEtaSourceLabel = (source: Order['etaSource']): string => {
+    switch (source) {
+      case 'carrier': return 'Carrier estimate';
+      case 'history': return 'Based on your past deliveries';
+      case 'baseline': return 'Typical transit time for this service';
+      default: return 'Not estimated yet';
+    }
+  };
+
   const getStatusBadge = (status: string | null) => {
     const statusMap: Record<string, { label: string; color: string }> = {
       'pre_transit': { label: 'Pre-Transit', color: 'bg-blue-500 text-white' },
@@ -712,56 +875,69 @@ export default function DashboardPage() {
   // Order Details Modal Component
   const OrderDetailsModal = ({ order, onClose, userId }: { order: Order; onClose: () => void; userId: string }) => {
     const [loading, setLoading] = useState(false);
+    const [refreshing, setRefreshing] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [trackingData, setTrackingData] = useState<{
-      status: string;
-      location: string | null;
-      events: TrackingEvent[];
-    } | null>(null);
+    const [scans, setScans] = useState<TrackingScan[] | null>(null);
     const abortRef = useRef<AbortController | null>(null);
 
-    // Fetch tracking details on mount
+    // Load stored scan history on mount (no tracking API call)
     useEffect(() => {
-      fetchTrackingDetails();
+      fetchTimeline();
       return () => {
         abortRef.current?.abort();
       };
     }, []);
 
-    const fetchTrackingDetails = async () => {
+    const fetchTimeline = async () => {
+      if (!userId) return;
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await apiFetch(`/api/orders/${order.id}/timeline`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch timeline');
+        }
+        const data = await response.json();
+        setScans(data.scans || []);
+      } catch (err) {
+        console.error('Failed to fetch timeline:', err);
+        setError('Failed to load tracking history. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    const refreshTracking = async () => {
       if (!userId) return;
       abortRef.current?.abort();
       const controller = new AbortController();
       abortRef.current = controller;
       const timeoutId = setTimeout(() => controller.abort(), 15000);
-      setLoading(true);
+      setRefreshing(true);
       setError(null);
       try {
-        const response = await fetch(`${API_URL}/api/orders/${order.id}/check`, {
+        const response = await apiFetch(`/api/orders/${order.id}/check`, {
           method: 'POST',
-          headers: { 'x-clerk-user-id': userId },
           signal: controller.signal
         });
         if (!response.ok) {
           throw new Error('Failed to fetch tracking');
         }
         const data = await response.json();
-        if (!data?.tracking) {
-          throw new Error('Tracking data unavailable');
-        }
-        setTrackingData(data.tracking);
         // Update the orders list with the new data
         setOrders(prev => prev.map(o => o.id === order.id ? data.order : o));
+        setSelectedOrder(data.order);
+        await fetchTimeline();
       } catch (err) {
         if (err instanceof Error && err.name === 'AbortError') {
           setError('Tracking request timed out. Please try again.');
         } else {
-          console.error('Failed to fetch tracking:', err);
-          setError('Failed to load tracking history. Please try again.');
+          console.error('Failed to refresh tracking:', err);
+          setError('Failed to refresh tracking. Please try again.');
         }
       } finally {
         clearTimeout(timeoutId);
-        setLoading(false);
+        setRefreshing(false);
       }
     };
 
@@ -811,13 +987,128 @@ export default function DashboardPage() {
             <div className="bg-slate-700/50 rounded-xl p-4">
               <p className="text-slate-400 text-sm mb-1">Last Update</p>
               <p className="text-white text-sm">{order.lastUpdateAt ? new Date(order.lastUpdateAt).toLocaleString() : 'Never'}</p>
+              {order.nextCheckAt && (
+                <p className="text-slate-500 text-xs mt-1">Next check {new Date(order.nextCheckAt).toLocaleString()}</p>
+              )}
+            </div>
+            <div className="bg-slate-700/50 rounded-xl p-4 col-span-2">
+              <p className="text-slate-400 text-sm mb-1">Expected Delivery</p>
+              <p className={`text-sm font-semibold ${getEtaInfo(order).color}`}>{getEtaInfo(order).label}</p>
+              <p className="text-slate-500 text-xs mt-1">{getEtaSourceLabel(order.etaSource)}</p>
+            </div>
+            {(order.buyerName || order.buyerEmail) && (
+              <div className="bg-slate-700/50 rounded-xl p-4">
+                <p className="text-slate-400 text-sm mb-1">Buyer</p>
+                <p className="text-white text-sm">{order.buyerName || order.buyerEmail}</p>
+                {order.buyerName && order.buyerEmail && (
+                  <p className="text-slate-500 text-xs mt-1 break-all">{order.buyerEmail}</p>
+                )}
+              </div>
+            )}
+            {(order.shipToCity || order.shipToCountry) && (
+              <div className="bg-slate-700/50 rounded-xl p-4">
+                <p className="text-slate-400 text-sm mb-1">Ships To</p>
+                <p className="text-white text-sm">{[order.shipToCity, order.shipToCountry].filter(Boolean).join(', ')}</p>
+              </div>
+            )}
+            {order.orderTotalCents !== null && (
+              <div className="bg-slate-700/50 rounded-xl p-4">
+                <p className="text-slate-400 text-sm mb-1">Order Value</p>
+                <p className="text-white text-sm font-semibold">{formatMoney(order.orderTotalCents, order.currency)}</p>
+              </div>
+            )}
+            {order.shippedAt && (
+              <div className="bg-slate-700/50 rounded-xl p-4">
+                <p className="text-slate-400 text-sm mb-1">Shipped</p>
+                <p className="text-white text-sm">{new Date(order.shippedAt).toLocaleDateString()}</p>
+              </div>
+            )}
+          </div>
+
+          {/* Items */}
+          {order.items && order.items.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-lg font-bold text-white mb-3">Items</h3>
+              <ul className="space-y-2">
+                {order.items.map((item) => (
+                  <li key={item.id} className="flex items-center justify-between gap-3 bg-slate-700/30 rounded-xl p-3">
+                    <span className="text-slate-300 text-sm">
+                      {item.quantity > 1 && <span className="text-slate-400">{item.quantity} × </span>}
+                      {item.title}
+                      {item.sku && <span className="text-slate-500 text-xs ml-2 font-mono">{item.sku}</span>}
+                    </span>
+                    {item.priceCents !== null && (
+                      <span className="text-slate-400 text-sm flex-shrink-0">{formatMoney(item.priceCents, order.currency)}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Why this risk level */}
+          {order.riskReasons && order.riskReasons.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-lg font-bold text-white mb-3">Why This Risk Level</h3>
+              <ul className="space-y-2">
+                {order.riskReasons.map((reason) => (
+                  <li key={reason.code} className="flex items-start gap-3 bg-slate-700/30 rounded-xl p-3">
+                    <span className={`mt-1 h-2.5 w-2.5 rounded-full flex-shrink-0 ${reason.level === 'red' ? 'bg-red-500' : 'bg-amber-400'}`}></span>
+                    <span className="text-slate-300 text-sm">{reason.message}</span>
+                  </li>
+                ))}
+              </ul>
             </div>
+          )}
+
+          {/* Buyer Message */}
+          <BuyerMessagePanel order={order} canLog={can('orders:write')} />
+
+          {/* Tracking History */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-lg font-bold text-white">Tracking History</h3>
+              <button onClick={refreshTracking} disabled={refreshing}
+                className="text-blue-400 hover:text-blue-300 text-sm flex items-center gap-1 disabled:opacity-50">
+                <svg className={`w-4 h-4 ${refreshing ? 'animate-spin' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                    d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+                {refreshing ? 'Checking...' : 'Refresh tracking'}
+              </button>
+            </div>
+
+            {error ? (
+              <div className="text-center py-4 text-red-400 bg-red-500/10 rounded-xl">{error}</div>
+            ) : loading && !scans ? (
+              <div className="text-center py-6 text-slate-400">
+                <div className="animate-spin rounded-full h-6 w-6 border-2 border-blue-500 border-t-transparent mx-auto mb-2"></div>
+                Loading tracking history...
+              </div>
+            ) : scans && scans.length > 0 ? (
+              <ol className="relative border-l-2 border-slate-700 ml-2 space-y-4">
+                {scans.map((scan, index) => (
+                  <li key={scan.id} className="ml-4">
+                    <span className={`absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full ${index === 0 ? 'bg-blue-500' : 'bg-slate-600'}`}></span>
+                    <p className="text-white text-sm font-medium">{scan.description}</p>
+                    <p className="text-slate-400 text-xs mt-0.5">
+                      {new Date(scan.timestamp).toLocaleString()}
+                      {scan.location && <> &middot; {scan.location}</>}
+                    </p>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <div className="text-center py-6 text-slate-400 bg-slate-700/30 rounded-xl">
+                No scans recorded yet. Refresh tracking to check with the carrier.
+              </div>
+            )}
           </div>
 
           {/* Quick Links */}
           <div className="flex gap-3 mb-6">
             <a
-              href={`https://www.etsy.com/your/orders/sold/completed?order_id=${order.orderId}`}
+              href={`https://www.etsy.com/your/orders/sold/completed?order_id=${order.etsyReceiptId || order.orderId}`}
               target="_blank"
               rel="noopener noreferrer"
               className="flex-1 bg-orange-500 hover:bg-orange-400 text-white font-bold py-2.5 rounded-xl transition-colors text-center text-sm flex items-center justify-center gap-2"
@@ -908,48 +1199,80 @@ export default function DashboardPage() {
                           </span>
                         </div>
                         <span className="text-xs text-purple-300 font-medium">Unlimited</span>
-                        <button onClick={handleManageSubscription}
-                          className="text-slate-400 hover:text-white text-xs underline">
-                          Manage
-                        </button>
+                        {can('billing:manage') && (
+                          <button onClick={handleManageSubscription}
+                            className="text-slate-400 hover:text-white text-xs underline">
+                            Manage
+                          </button>
+                        )}
                       </>
                     ) : (
                       <>
                         <span className="px-3 py-1 bg-slate-700 text-slate-300 text-xs font-bold rounded-full">
                           Free ({billingStatus.monthlyOrderCount}/{billingStatus.limit})
                         </span>
-                        <button onClick={handleUpgrade} disabled={upgrading}
-                          className="px-3 py-1.5 bg-gradient-to-r from-purple-500 to-pink-500 text-white text-xs font-bold rounded-full hover:from-purple-400 hover:to-pink-400 transition-all shadow-lg disabled:opacity-50">
-                          {upgrading ? '...' : '⚡ Upgrade'}
-                        </button>
+                        {can('billing:manage') && (
+                          <button onClick={handleUpgrade} disabled={upgrading}
+                            className="px-3 py-1.5 bg-gradient-to-r from-purple-500 to-pink-500 text-white text-xs font-bold rounded-full hover:from-purple-400 hover:to-pink-400 transition-all shadow-lg disabled:opacity-50">
+                            {upgrading ? '...' : '⚡ Upgrade'}
+                          </button>
+                        )}
                       </>
                     )}
                   </div>
                 )}
 
+                {/* Store switcher */}
+                {stores.length > 1 && (
+                  <select value={selectedStoreId} onChange={e => selectStore(e.target.value)}
+                    className="bg-slate-800 border border-slate-600 text-white text-sm font-medium rounded-full px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    title="Switch store">
+                    <option value="all">All stores ({stores.reduce((sum, store) => sum + store.orderCount, 0)})</option>
+                    {stores.map(store => (
+                      <option key={store.id} value={store.id}>{store.storeName} ({store.orderCount})</option>
+                    ))}
+                  </select>
+                )}
+
                 {etsyStatus.connected ? (
                   <div className="flex items-center gap-2">
                     <span className="text-sm text-emerald-400 font-medium">🔗 {etsyStatus.shopName}</span>
-                    <button onClick={syncEtsy} disabled={etsyStatus.syncing}
-                      className="bg-orange-500 text-white px-4 py-2 rounded-full font-bold text-sm hover:bg-orange-400 transition-all disabled:opacity-50">
-                      {etsyStatus.syncing ? '⏳ Syncing...' : '🔄 Sync'}
-                    </button>
-                    <button onClick={disconnectEtsy} className="text-slate-400 hover:text-red-400 text-sm" title="Disconnect Etsy">✕</button>
-                  </div>
-                ) : (
-                  <div className="flex items-center gap-2 px-4 py-2 bg-slate-700/50 rounded-full border border-slate-600">
-                    <span className="text-sm text-amber-400 font-medium">🔗 Etsy Sync</span>
-                    <span className="text-xs bg-amber-500/20 text-amber-400 px-2 py-0.5 rounded-full font-bold">Coming Soon</span>
+                    {can('etsy:sync') && (
+                      <button onClick={syncEtsy} disabled={etsyStatus.syncing}
+                        className="bg-orange-500 text-white px-4 py-2 rounded-full font-bold text-sm hover:bg-orange-400 transition-all disabled:opacity-50">
+                        {etsyStatus.syncing ? '⏳ Syncing...' : '🔄 Sync'}
+                      </button>
+                    )}
+                    {can('etsy:manage') && etsyStatus.disabledReason === 'token_revoked' && (
+                      <button onClick={() => connectEtsy(etsyStatus.storeId)}
+                        className="text-red-400 hover:text-red-300 text-sm font-medium"
+                        title="Etsy revoked access to this shop, so automatic sync is off">
+                        ⚠ Reconnect
+                      </button>
+                    )}
+                    {can('etsy:manage') && (
+                      <button onClick={disconnectEtsy} className="text-slate-400 hover:text-red-400 text-sm" title="Disconnect Etsy">✕</button>
+                    )}
                   </div>
+                ) : can('etsy:manage') && (
+                  <button onClick={() => connectEtsy()}
+                    className="flex items-center gap-2 px-4 py-2 bg-slate-700/50 rounded-full border border-slate-600 hover:bg-slate-700 transition-colors">
+                    <span className="text-sm text-amber-400 font-medium">🔗 Connect Etsy</span>
+                  </button>
                 )}
-                <button onClick={() => setShowAddOrder(true)}
-                  className="bg-blue-600 text-white px-6 py-3 rounded-full font-bold text-base hover:bg-blue-500 transform hover:scale-105 transition-all duration-200 shadow-lg hover:shadow-blue-500/50">
-                  + Add Order
-                </button>
-                {userId && <NotificationBell userId={userId} onOrderClick={(orderId) => {
-                  const order = orders.find(o => o.id === orderId || o.orderId === orderId);
-                  if (order) setSelectedOrder(order);
-                }} />}
+                {can('orders:write') && (
+                  <button onClick={() => setShowImport(true)}
+                    className="px-4 py-2 bg-slate-700/50 rounded-full border border-slate-600 hover:bg-slate-700 transition-colors text-sm text-slate-200 font-medium">
+                    ⬆ Import CSV
+                  </button>
+                )}
+                {can('orders:write') && (
+                  <button onClick={() => setShowAddOrder(true)}
+                    className="bg-blue-600 text-white px-6 py-3 rounded-full font-bold text-base hover:bg-blue-500 transform hover:scale-105 transition-all duration-200 shadow-lg hover:shadow-blue-500/50">
+                    + Add Order
+                  </button>
+                )}
+                {userId && <NotificationBell userId={userId} onOrderClick={openOrder} />}
                 <Link href="/settings" className="p-2 rounded-full hover:bg-slate-700 transition-colors" title="Settings">
                   <svg className="w-6 h-6 text-slate-400 hover:text-white transition-colors" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
@@ -1007,10 +1330,12 @@ export default function DashboardPage() {
                       <p className="text-sm text-purple-200">You&apos;ve used all {billingStatus.limit} orders this month. Upgrade to Pro for unlimited orders.</p>
                     </div>
                   </div>
-                  <button onClick={handleUpgrade} disabled={upgrading}
-                    className="px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white font-bold rounded-full hover:from-purple-400 hover:to-pink-400 transition-all shadow-lg disabled:opacity-50">
-                    {upgrading ? 'Loading...' : '⚡ Upgrade to Pro - $19.99/mo'}
-                  </button>
+                  {can('billing:manage') && (
+                    <button onClick={handleUpgrade} disabled={upgrading}
+                      className="px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white font-bold rounded-full hover:from-purple-400 hover:to-pink-400 transition-all shadow-lg disabled:opacity-50">
+                      {upgrading ? 'Loading...' : '⚡ Upgrade to Pro - $19.99/mo'}
+                    </button>
+                  )}
                 </div>
               </div>
             ) : billingStatus.monthlyOrderCount >= billingStatus.limit - 2 ? (
@@ -1022,10 +1347,12 @@ export default function DashboardPage() {
                       You&apos;ve used {billingStatus.monthlyOrderCount} of {billingStatus.limit} free orders this month.
                     </span>
                   </div>
-                  <button onClick={handleUpgrade} disabled={upgrading}
-                    className="px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white font-bold rounded-full text-sm hover:from-purple-400 hover:to-pink-400 transition-all">
-                    Upgrade to Pro
-                  </button>
+                  {can('billing:manage') && (
+                    <button onClick={handleUpgrade} disabled={upgrading}
+                      className="px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white font-bold rounded-full text-sm hover:from-purple-400 hover:to-pink-400 transition-all">
+                      Upgrade to Pro
+                    </button>
+                  )}
                 </div>
               </div>
             ) : null
@@ -1050,13 +1377,13 @@ export default function DashboardPage() {
           {/* Stats Cards */}
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
             <div className="lg:col-span-1 grid grid-cols-2 lg:grid-cols-1 gap-4">
-              <StatCard label="Total Orders" value={dashboardOrders.length} icon="📦" color="from-blue-500 to-sky-600" />
-              <StatCard label="At Risk" value={dashboardOrders.filter(o => o.riskLevel === 'red' || o.riskLevel === 'yellow').length} icon="⚠️" color="from-amber-500 to-yellow-600" />
-              <StatCard label="In Transit" value={dashboardOrders.filter(o => o.lastStatus === 'in_transit').length} icon="🚚" color="from-indigo-500 to-purple-600" />
-              <StatCard label="Delivered" value={dashboardOrders.filter(o => o.lastStatus === 'delivered').length} icon="✅" color="from-emerald-500 to-green-600" />
+              <StatCard label="Total Orders" value={orderSummary?.total || 0} icon="📦" color="from-blue-500 to-sky-600" />
+              <StatCard label="At Risk" value={(orderSummary?.byRisk.red || 0) + (orderSummary?.byRisk.yellow || 0)} icon="⚠️" color="from-amber-500 to-yellow-600" />
+              <StatCard label="In Transit" value={orderSummary?.byStatus.in_transit || 0} icon="🚚" color="from-indigo-500 to-purple-600" />
+              <StatCard label="Delivered" value={orderSummary?.byStatus.delivered || 0} icon="✅" color="from-emerald-500 to-green-600" />
             </div>
             <div className="lg:col-span-2">
-              <DeliveryRiskOverview orders={dashboardOrders} onOrderClick={handleScrollToOrder} />
+              <DeliveryRiskOverview summary={orderSummary} atRiskOrders={atRiskOrders} onOrderClick={handleScrollToOrder} />
             </div>
           </div>
 
@@ -1105,6 +1432,9 @@ export default function DashboardPage() {
                   <div className="text-2xl font-black text-emerald-300 mt-1">
                     ${impactSummary.estimatedRefundsAvoided.toFixed(2)}
                   </div>
+                  {impactSummary.valueAtRisk > 0 && (
+                    <div className="text-xs text-slate-400 mt-1">${impactSummary.valueAtRisk.toFixed(2)} still at risk</div>
+                  )}
                 </div>
               </div>
             ) : (
@@ -1166,56 +1496,60 @@ export default function DashboardPage() {
               
               {/* Export CSV */}
               <button
-                onClick={exportToCSV}
-                disabled={filteredOrders.length === 0}
+                onClick={() => setShowExport(true)}
+                disabled={totalCount === 0}
                 className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-xl font-bold transition-all disabled:opacity-50 flex items-center gap-2"
               >
                 <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
                     d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                 </svg>
-                Export CSV
+                Export
               </button>
 
               {/* Bulk Actions */}
               {selectedOrders.size > 0 && (
                 <>
-                  <button
-                    onClick={checkSelectedTracking}
-                    disabled={bulkCheckLoading}
-                    className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-xl font-bold transition-all disabled:opacity-50 flex items-center gap-2"
-                  >
-                    {bulkCheckLoading ? (
-                      <>
-                        <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent" />
-                        Checking...
-                      </>
-                    ) : (
-                      <>
-                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
-                            d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                        </svg>
-                        Check Tracking ({selectedOrders.size})
-                      </>
-                    )}
-                  </button>
-                  <button onClick={initiateDeleteSelected}
-                    className="px-4 py-2 bg-red-600 hover:bg-red-500 text-white rounded-xl font-bold transition-all flex items-center gap-2">
-                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                      <path strokeLinecap="round" strokeLinejoin="round"
-                        d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                    </svg>
-                    Delete ({selectedOrders.size})
-                  </button>
+                  {can('orders:write') && (
+                    <button
+                      onClick={checkSelectedTracking}
+                      disabled={bulkCheckLoading}
+                      className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-xl font-bold transition-all disabled:opacity-50 flex items-center gap-2"
+                    >
+                      {bulkCheckLoading ? (
+                        <>
+                          <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent" />
+                          Checking...
+                        </>
+                      ) : (
+                        <>
+                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                              d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                          </svg>
+                          Check Tracking ({selectedOrders.size})
+                        </>
+                      )}
+                    </button>
+                  )}
+                  {can('orders:delete') && (
+                    <button onClick={initiateDeleteSelected}
+                      className="px-4 py-2 bg-red-600 hover:bg-red-500 text-white rounded-xl font-bold transition-all flex items-center gap-2">
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                        <path strokeLinecap="round" strokeLinejoin="round"
+                          d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                      Delete ({selectedOrders.size})
+                    </button>
+                  )}
                 </>
               )}
             </div>
             
             {/* Filter summary */}
-            {(searchQuery || riskFilter !== 'all' || statusFilter !== 'all' || dateFilter !== 'all') && (
+            {hasFilters && (
               <div className="mt-3 text-sm text-slate-400">
-                Showing {filteredOrders.length} of {orders.length} orders
+                {totalCount} matching order{totalCount === 1 ? '' : 's'}
                 <button onClick={() => { setSearchQuery(''); setRiskFilter('all'); setStatusFilter('all'); setDateFilter('all'); }}
                   className="ml-2 text-blue-400 hover:text-blue-300">Clear filters</button>
               </div>
@@ -1224,17 +1558,19 @@ export default function DashboardPage() {
 
 
           {/* Orders Table */}
-          {orders.length === 0 ? (
+          {totalCount === 0 && !hasFilters ? (
             <div className="bg-slate-800/50 rounded-2xl shadow-xl p-16 text-center border-2 border-slate-700">
               <div className="text-6xl mb-6">📭</div>
               <h3 className="text-2xl font-bold text-white mb-3">No orders yet</h3>
               <p className="text-slate-400 text-lg mb-6 max-w-md mx-auto">Add your first order to start tracking deliveries</p>
-              <button onClick={() => setShowAddOrder(true)}
-                className="bg-blue-600 text-white px-8 py-4 rounded-full font-bold text-lg hover:bg-blue-500 transform hover:scale-105 transition-all shadow-lg">
-                Add Your First Order
-              </button>
+              {can('orders:write') && (
+                <button onClick={() => setShowAddOrder(true)}
+                  className="bg-blue-600 text-white px-8 py-4 rounded-full font-bold text-lg hover:bg-blue-500 transform hover:scale-105 transition-all shadow-lg">
+                  Add Your First Order
+                </button>
+              )}
             </div>
-          ) : filteredOrders.length === 0 ? (
+          ) : totalCount === 0 ? (
             <div className="bg-slate-800/50 rounded-2xl shadow-xl p-16 text-center border-2 border-slate-700">
               <div className="text-6xl mb-6">🔍</div>
               <h3 className="text-2xl font-bold text-white mb-3">No orders match your filters</h3>
@@ -1245,13 +1581,13 @@ export default function DashboardPage() {
               </button>
             </div>
           ) : (
-            <div className="bg-slate-800/50 rounded-2xl shadow-xl overflow-hidden border-2 border-slate-700">
+            <div className={`bg-slate-800/50 rounded-2xl shadow-xl overflow-hidden border-2 border-slate-700 transition-opacity ${pageLoading ? 'opacity-60' : ''}`}>
               <div className="overflow-x-auto">
                 <table className="min-w-full">
                   <thead className="bg-slate-900">
                     <tr>
                       <th className="px-4 py-4 text-left">
-                        <input type="checkbox" checked={selectedOrders.size === paginatedOrders.length && paginatedOrders.length > 0}
+                        <input type="checkbox" checked={selectedOrders.size === orders.length && orders.length > 0}
                           onChange={toggleSelectAll}
                           className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-blue-500 focus:ring-blue-500" />
                       </th>
@@ -1259,13 +1595,14 @@ export default function DashboardPage() {
                       <SortHeader field="trackingNumber">Tracking</SortHeader>
                       <SortHeader field="lastStatus" center>Status</SortHeader>
                       <SortHeader field="riskLevel" center>Risk</SortHeader>
+                      <SortHeader field="expectedDeliveryAt" center>Expected</SortHeader>
                       <SortHeader field="lastUpdateAt" center>Last Update</SortHeader>
                       <th className="px-6 py-4 text-center text-xs font-bold text-slate-400 uppercase tracking-wider">Actions</th>
                     </tr>
                   </thead>
 
                   <tbody className="divide-y divide-slate-700">
-                    {paginatedOrders.map((order) => (
+                    {orders.map((order) => (
                       <tr key={order.id}
                           data-order-id={order.id}
                           onClick={() => setSelectedOrder(order)}
@@ -1284,7 +1621,12 @@ export default function DashboardPage() {
                               #{order.orderId}
                             </button>
                           </div>
-                          <div className="text-sm text-slate-400 font-medium">{order.carrier || 'Unknown carrier'}</div>
+                          <div className="text-sm text-slate-400 font-medium">
+                            {order.carrier || 'Unknown carrier'}
+                            {selectedStoreId === 'all' && stores.length > 1 && order.store && (
+                              <span className="text-slate-500"> · {order.store.storeName}</span>
+                            )}
+                          </div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap" onClick={e => e.stopPropagation()}>
                           <div className="flex items-center gap-2">
@@ -1307,40 +1649,47 @@ export default function DashboardPage() {
                             </span>
                           ) : <span className="text-slate-500">—</span>}
                         </td>
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm font-semibold text-center ${getEtaInfo(order).color}`}>
+                          {getEtaInfo(order).label}
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-400 text-center">
                           {order.lastUpdateAt ? new Date(order.lastUpdateAt).toLocaleString() : 'Never'}
                         </td>
 
                         <td className="px-6 py-4 whitespace-nowrap" onClick={e => e.stopPropagation()}>
                           <div className="flex items-center justify-center gap-2">
-                            <button
-                              onClick={() => checkTracking(order.id)}
-                              disabled={checkingOrderIds.has(order.id)}
-                              className="group p-1.5 rounded-lg hover:bg-blue-500/20 transition-all disabled:opacity-50"
-                              title="Check tracking">
-                              {checkingOrderIds.has(order.id) ? (
-                                <svg className="w-5 h-5 text-blue-400 animate-spin" fill="none" viewBox="0 0 24 24">
-                                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                                </svg>
-                              ) : (
-                                <svg className="w-5 h-5 text-slate-400 group-hover:text-blue-400 transition-colors"
-                                  xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"
-                                  strokeWidth={1.5} stroke="currentColor">
+                            {can('orders:write') && (
+                              <button
+                                onClick={() => checkTracking(order.id)}
+                                disabled={checkingOrderIds.has(order.id)}
+                                className="group p-1.5 rounded-lg hover:bg-blue-500/20 transition-all disabled:opacity-50"
+                                title="Check tracking">
+                                {checkingOrderIds.has(order.id) ? (
+                                  <svg className="w-5 h-5 text-blue-400 animate-spin" fill="none" viewBox="0 0 24 24">
+                                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                                  </svg>
+                                ) : (
+                                  <svg className="w-5 h-5 text-slate-400 group-hover:text-blue-400 transition-colors"
+                                    xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"
+                                    strokeWidth={1.5} stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round"
+                                      d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 13.803-3.7M4.031 9.865a8.25 8.25 0 0 1 13.803-3.7l3.181 3.182m0-4.991v4.99" />
+                                  </svg>
+                                )}
+                              </button>
+                            )}
+                            {can('orders:delete') && (
+                              <button onClick={() => initiateDeleteOrder(order.id)}
+                                className="group p-1.5 rounded-lg hover:bg-red-500/20 transition-all"
+                                title="Delete order">
+                                <svg className="w-5 h-5 text-slate-400 group-hover:text-red-400 transition-colors"
+                                  fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
                                   <path strokeLinecap="round" strokeLinejoin="round"
-                                    d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 13.803-3.7M4.031 9.865a8.25 8.25 0 0 1 13.803-3.7l3.181 3.182m0-4.991v4.99" />
+                                    d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
                                 </svg>
-                              )}
-                            </button>
-                            <button onClick={() => initiateDeleteOrder(order.id)}
-                              className="group p-1.5 rounded-lg hover:bg-red-500/20 transition-all"
-                              title="Delete order">
-                              <svg className="w-5 h-5 text-slate-400 group-hover:text-red-400 transition-colors"
-                                fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
-                                <path strokeLinecap="round" strokeLinejoin="round"
-                                  d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
-                              </svg>
-                            </button>
+                              </button>
+                            )}
                           </div>
                         </td>
                       </tr>
@@ -1352,11 +1701,11 @@ export default function DashboardPage() {
               {totalPages > 1 && (
                 <div className="flex items-center justify-between px-6 py-4 bg-slate-900/50 border-t border-slate-700">
                   <div className="text-sm text-slate-400">
-                    Showing {((currentPage - 1) * ORDERS_PER_PAGE) + 1}-{Math.min(currentPage * ORDERS_PER_PAGE, filteredOrders.length)} of {filteredOrders.length} orders
+                    Showing {((currentPage - 1) * ORDERS_PER_PAGE) + 1}-{(currentPage - 1) * ORDERS_PER_PAGE + orders.length} of {totalCount} orders
                   </div>
                   <div className="flex items-center gap-2">
                     <button
-                      onClick={() => setCurrentPage(1)}
+                      onClick={goToFirstPage}
                       disabled={currentPage === 1}
                       className="p-2 rounded-lg bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                       aria-label="First page"
@@ -1366,7 +1715,7 @@ export default function DashboardPage() {
                       </svg>
                     </button>
                     <button
-                      onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                      onClick={goToPreviousPage}
                       disabled={currentPage === 1}
                       className="p-2 rounded-lg bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                       aria-label="Previous page"
@@ -1379,8 +1728,8 @@ export default function DashboardPage() {
                       Page {currentPage} of {totalPages}
                     </span>
                     <button
-                      onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
-                      disabled={currentPage === totalPages}
+                      onClick={goToNextPage}
+                      disabled={!nextCursor}
                       className="p-2 rounded-lg bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                       aria-label="Next page"
                     >
@@ -1388,16 +1737,6 @@ export default function DashboardPage() {
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                       </svg>
                     </button>
-                    <button
-                      onClick={() => setCurrentPage(totalPages)}
-                      disabled={currentPage === totalPages}
-                      className="p-2 rounded-lg bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                      aria-label="Last page"
-                    >
-                      <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 5l7 7-7 7M5 5l7 7-7 7" />
-                      </svg>
-                    </button>
                   </div>
                 </div>
               )}
@@ -1406,8 +1745,23 @@ export default function DashboardPage() {
         </main>
 
         {showAddOrder && userId && (
-          <AddOrderModal userId={userId} onClose={() => setShowAddOrder(false)}
-            onSuccess={() => { setShowAddOrder(false); fetchOrders(); setToast({ message: 'Order added!', type: 'success' }); }} />
+          <AddOrderModal userId={userId} storeId={selectedStoreId === 'all' ? null : selectedStoreId}
+            onClose={() => setShowAddOrder(false)}
+            onSuccess={() => { setShowAddOrder(false); refreshOrders(); fetchStores(); setToast({ message: 'Order added!', type: 'success' }); }} />
+        )}
+
+        {showImport && (
+          <ImportOrdersModal storeId={selectedStoreId === 'all' ? null : selectedStoreId}
+            onClose={() => setShowImport(false)}
+            onImported={(created, updated) => {
+              refreshOrders();
+              fetchStores();
+              setToast({ message: `Imported ${created} new and ${updated} updated orders`, type: 'success' });
+            }} />
+        )}
+
+        {showExport && (
+          <ExportOrdersModal query={listQuery} totalCount={totalCount} onClose={() => setShowExport(false)} />
         )}
 
         {selectedOrder && userId && (
@@ -1431,6 +1785,219 @@ export default function DashboardPage() {
 }
 
 
+interface RecommendedMessage {
+  key: string;
+  locale: string;
+  subject: string;
+  message: string;
+  tone: string;
+  custom: boolean;
+}
+
+interface MessageLogEntry {
+  id: string;
+  action: 'copied' | 'sent';
+  channel: 'etsy' | null;
+  templateKey: string | null;
+  subject: string | null;
+  message: string;
+  sentAt: string;
+}
+
+// GET /api/orders/:id/message - whether the message can go out through Etsy
+interface MessageDelivery {
+  channel: 'etsy' | null;
+  ready: boolean;
+  reason: string | null;
+  sent: MessageLogEntry | null;
+}
+
+// Languages with built-in buyer messages (see backend utils/messageTemplates.js)
+const MESSAGE_LANGUAGES: Record<string, string> = {
+  en: 'English',
+  de: 'Deutsch',
+  fr: 'Français',
+  es: 'Español',
+  it: 'Italiano',
+  ja: '日本語',
+};
+
+const LANGUAGE_SOURCES: Record<string, string> = {
+  manual: 'chosen by hand',
+  country: 'from ship-to country',
+  default: 'default',
+};
+
+// Suggested buyer message for an order, with copy / send / mark as sent and the log of earlier ones
+function BuyerMessagePanel({ order, canLog }: { order: Order; canLog: boolean }) {
+  const apiFetch = useApiFetch();
+  const [recommended, setRecommended] = useState<RecommendedMessage | null>(null);
+  const [delivery, setDelivery] = useState<MessageDelivery | null>(null);
+  const [language, setLanguage] = useState<{ locale: string; source: string } | null>(null);
+  const [log, setLog] = useState<MessageLogEntry[]>([]);
+  const [showLog, setShowLog] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const fetchLog = async () => {
+    try {
+      const response = await apiFetch(`/api/orders/${order.id}/messages`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load messages');
+      setLog(data.messages);
+    } catch (err) {
+      console.error('Failed to fetch message log:', err);
+    }
+  };
+
+  const fetchMessage = async () => {
+    try {
+      const response = await apiFetch(`/api/orders/${order.id}/message`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load message');
+      setRecommended(data.recommendedMessage);
+      setDelivery(data.delivery);
+      setLanguage(data.language);
+    } catch (err) {
+      console.error('Failed to fetch recommended message:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchMessage();
+    fetchLog();
+  }, [order.id, order.lastStatus, order.riskLevel]);
+
+  // Saves the language on the order, so later messages (and messaging rules) use it too
+  const changeLanguage = async (locale: string) => {
+    setBusy(true);
+    try {
+      const response = await apiFetch(`/api/orders/${order.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageLocale: locale || null })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to change language');
+      await fetchMessage();
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Failed to change language');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const record = async (action: 'copied' | 'sent') => {
+    if (!recommended) return;
+    if (action === 'copied') {
+      await navigator.clipboard.writeText(recommended.message);
+      setNotice('Message copied');
+    }
+    if (!canLog) return;
+    setBusy(true);
+    try {
+      const response = await apiFetch(`/api/orders/${order.id}/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          templateKey: recommended.key,
+          locale: recommended.locale,
+          subject: recommended.subject,
+          message: recommended.message
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to log message');
+      if (action === 'sent') {
+        setNotice('Marked as sent');
+        setDelivery(prev => prev && { ...prev, sent: data.message });
+      }
+      setLog(prev => [data.message, ...prev]);
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Failed to log message');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!recommended) return null;
+
+  const lastSent = delivery?.sent || log.find(entry => entry.action === 'sent');
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-bold text-white">Buyer Message</h3>
+        <div className="flex items-center gap-3">
+          <select
+            value={language?.source === 'manual' ? language.locale : ''}
+            onChange={(e) => changeLanguage(e.target.value)}
+            disabled={!canLog || busy}
+            title="Language of messages to this buyer"
+            className="px-2 py-1 bg-slate-900 border border-slate-700 rounded-lg text-slate-200 text-sm disabled:opacity-60"
+          >
+            <option value="">
+              Auto{language && language.source !== 'manual'
+                ? ` (${MESSAGE_LANGUAGES[language.locale]}, ${LANGUAGE_SOURCES[language.source]})`
+                : ''}
+            </option>
+            {Object.entries(MESSAGE_LANGUAGES).map(([locale, label]) => (
+              <option key={locale} value={locale}>{label}</option>
+            ))}
+          </select>
+          {log.length > 0 && (
+            <button onClick={() => setShowLog(!showLog)} className="text-blue-400 hover:text-blue-300 text-sm">
+              {showLog ? 'Hide history' : `History (${log.length})`}
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="bg-slate-700/30 rounded-xl p-4">
+        <p className="text-white font-semibold text-sm mb-2">{recommended.subject}</p>
+        <p className="text-slate-300 text-sm whitespace-pre-wrap">{recommended.message}</p>
+        <div className="flex items-center gap-3 mt-4">
+          <button onClick={() => record('copied')} disabled={busy}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-xl text-sm font-bold disabled:opacity-50">
+            Copy message
+          </button>
+          {canLog && !delivery?.sent && (
+            <button onClick={() => record('sent')} disabled={busy}
+              className="px-4 py-2 border border-slate-600 hover:bg-slate-700 text-slate-200 rounded-xl text-sm font-bold disabled:opacity-50">
+              Mark as sent
+            </button>
+          )}
+          {notice ? (
+            <span className="text-xs text-emerald-300">{notice}</span>
+          ) : lastSent && (
+            <span className="text-xs text-slate-400">
+              {lastSent.channel === 'etsy' ? 'Sent on Etsy' : 'Last sent'} {new Date(lastSent.sentAt).toLocaleString()}
+            </span>
+          )}
+        </div>
+        {canLog && delivery?.channel === 'etsy' && !delivery.ready && delivery.reason && (
+          <p className="text-xs text-amber-300 mt-2">{delivery.reason}</p>
+        )}
+      </div>
+      {showLog && (
+        <ul className="mt-3 space-y-2">
+          {log.map(entry => (
+            <li key={entry.id} className="bg-slate-900/50 rounded-xl p-3">
+              <p className="text-xs text-slate-400 mb-1">
+                <span className={entry.action === 'sent' ? 'text-emerald-300' : 'text-slate-300'}>
+                  {entry.action === 'sent' ? (entry.channel === 'etsy' ? 'Sent on Etsy' : 'Sent') : 'Copied'}
+                </span>
+                {' · '}{new Date(entry.sentAt).toLocaleString()}
+              </p>
+              <p className="text-slate-300 text-sm line-clamp-2">{entry.message}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 function StatCard({ label, value, icon, color }: { label: string; value: number; icon: string; color: string }) {
   return (
     <div className={`bg-gradient-to-br ${color} rounded-2xl shadow-lg p-5 transform hover:scale-105 transition-all duration-300 hover:shadow-2xl border border-white/10`}>
@@ -1443,8 +2010,422 @@ function StatCard({ label, value, icon, color }: { label: string; value: number;
   );
 }
 
-function AddOrderModal({ userId, onClose, onSuccess }: { userId: string; onClose: () => void; onSuccess: () => void }) {
+interface ImportResult {
+  row: number;
+  orderId: string | null;
+  status: 'created' | 'updated' | 'skipped' | 'invalid' | 'failed';
+  carrier?: string;
+  carrierDetected?: boolean;
+  message?: string;
+}
+
+// Optional export columns (see backend services/orderExportService.js)
+const EXPORT_COLUMN_LABELS: Record<string, string> = {
+  store: 'Store',
+  createdAt: 'Created date',
+  eta: 'Expected delivery',
+  riskReasons: 'Risk reasons',
+  lastScanLocation: 'Last scan location',
+  statusDays: 'Days in each status',
+  history: 'Status and risk history',
+};
+
+interface ExportJob {
+  id: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  rowCount: number | null;
+  fileName: string | null;
+  error: string | null;
+  downloadUrl: string | null;
+}
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// Exports the orders matching the table's filters and sort. Large exports run
+// as a background job on the server; the modal polls it until the file is ready.
+function ExportOrdersModal({ query, totalCount, onClose }: { query: string; totalCount: number; onClose: () => void }) {
+  const apiFetch = useApiFetch();
+  const [format, setFormat] = useState<'csv' | 'xlsx' | 'ndjson'>('csv');
+  const [columns, setColumns] = useState<Set<string>>(new Set(['store', 'createdAt', 'eta']));
+  const [job, setJob] = useState<ExportJob | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleColumn = (column: string) => {
+    const next = new Set(columns);
+    if (next.has(column)) next.delete(column); else next.add(column);
+    setColumns(next);
+  };
+
+  const download = async (url: string, fallbackName: string) => {
+    const response = await apiFetch(url);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to download export');
+    }
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || fallbackName;
+    saveBlob(await response.blob(), fileName);
+  };
+
+  const startExport = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams(query);
+      params.set('format', format);
+      if (columns.size > 0) params.set('columns', Array.from(columns).join(','));
+
+      const response = await apiFetch(`/api/orders/export?${params}`);
+      if (response.status === 202) {
+        setJob((await response.json()).job);
+        return;
+      }
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to export orders');
+      }
+      const disposition = response.headers.get('Content-Disposition') || '';
+      saveBlob(await response.blob(), disposition.match(/filename="([^"]+)"/)?.[1] || `orderwarden-orders.${format}`);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export orders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Poll a background job until it finishes
+  useEffect(() => {
+    if (!job || job.status === 'completed' || job.status === 'failed') return;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiFetch(`/api/orders/export/jobs/${job.id}`);
+        const data = await response.json();
+        if (response.ok) setJob(data.job);
+      } catch (err) {
+        console.error('Failed to poll export job:', err);
+      }
+    }, 3000);
+    return () => clearTimeout(timer);
+  }, [job]);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fadeInUp">
+      <div className="bg-slate-800 rounded-3xl shadow-2xl max-w-lg w-full p-8 border border-slate-700">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-3xl font-black text-white">Export Orders</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <svg className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-900/50 border-red-500 border-l-4 px-4 py-3 rounded-lg mb-4">
+            <p className="font-semibold text-red-300">{error}</p>
+          </div>
+        )}
+
+        {job ? (
+          <div className="space-y-5">
+            {job.status === 'completed' ? (
+              <p className="text-slate-300">{job.fileName} is ready with {job.rowCount} orders. It can be downloaded for 24 hours.</p>
+            ) : job.status === 'failed' ? (
+              <p className="text-red-300">The export failed{job.error ? `: ${job.error}` : ''}.</p>
+            ) : (
+              <div className="flex items-center gap-3 text-slate-300">
+                <div className="animate-spin rounded-full h-5 w-5 border-2 border-blue-500 border-t-transparent" />
+                <p>Preparing {totalCount} orders. You can close this window; a notification will let you know when it is ready.</p>
+              </div>
+            )}
+            <div className="flex space-x-4 pt-2">
+              <button type="button" onClick={onClose}
+                className="flex-1 px-6 py-3 border-2 border-slate-700 rounded-xl text-slate-300 font-bold hover:bg-slate-700 transition-all">
+                Close
+              </button>
+              {job.status === 'completed' && job.downloadUrl && (
+                <button onClick={() => download(job.downloadUrl as string, job.fileName || 'orderwarden-orders').catch(err => setError(err.message))}
+                  className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-500 transition-all">
+                  Download
+                </button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <p className="text-slate-400">Exports the {totalCount} orders matching your current filters, in the table&apos;s order.</p>
+            <div>
+              <label className="block text-sm font-bold text-slate-300 mb-2">Format</label>
+              <select value={format} onChange={(e) => setFormat(e.target.value as 'csv' | 'xlsx' | 'ndjson')}
+                className="w-full px-4 py-3 bg-slate-900 border-2 border-slate-700 text-white rounded-xl">
+                <option value="csv">CSV</option>
+                <option value="xlsx">Excel (XLSX)</option>
+                <option value="ndjson">NDJSON</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-slate-300 mb-2">Extra columns</label>
+              <div className="grid grid-cols-2 gap-2">
+                {Object.entries(EXPORT_COLUMN_LABELS).map(([column, label]) => (
+                  <label key={column} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                    <input type="checkbox" checked={columns.has(column)} onChange={() => toggleColumn(column)}
+                      className="w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-500 focus:ring-blue-500" />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex space-x-4 pt-2">
+              <button type="button" onClick={onClose}
+                className="flex-1 px-6 py-3 border-2 border-slate-700 rounded-xl text-slate-300 font-bold hover:bg-slate-700 transition-all">
+                Cancel
+              </button>
+              <button onClick={startExport} disabled={loading}
+                className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-500 disabled:opacity-50 transition-all">
+                {loading ? 'Exporting...' : 'Export'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ImportReport {
+  headers: string[];
+  mapping: Record<string, string | null>;
+  dryRun: boolean;
+  limit: { limit: number; remaining: number } | null;
+  summary: { total: number; created: number; updated: number; skipped: number; invalid: number; failed: number };
+  results: ImportResult[];
+}
+
+const IMPORT_FIELD_LABELS: Record<string, string> = {
+  orderId: 'Order ID *',
+  trackingNumber: 'Tracking number *',
+  carrier: 'Carrier',
+};
+
+const IMPORT_STATUS_STYLES: Record<ImportResult['status'], string> = {
+  created: 'bg-emerald-500/20 text-emerald-300',
+  updated: 'bg-blue-500/20 text-blue-300',
+  skipped: 'bg-slate-600/40 text-slate-300',
+  invalid: 'bg-amber-500/20 text-amber-300',
+  failed: 'bg-red-500/20 text-red-300',
+};
+
+// Three steps: pick a file, preview (dry run) with column mapping, import
+function ImportOrdersModal({ storeId, onClose, onImported }: { storeId: string | null; onClose: () => void; onImported: (created: number, updated: number) => void }) {
+  const apiFetch = useApiFetch();
+  const [step, setStep] = useState<'upload' | 'preview' | 'done'>('upload');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState('');
+  const [duplicates, setDuplicates] = useState<'skip' | 'update'>('skip');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<Record<string, string | null>>({});
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runImport = async (dryRun: boolean, columns: Record<string, string | null> = mapping) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await apiFetch('/api/orders/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv, mapping: columns, duplicates, dryRun, ...(storeId ? { storeId } : {}) }),
+      });
+      const data = await response.json();
+      if (data.headers) setHeaders(data.headers);
+      if (data.mapping) setMapping(data.mapping);
+      if (!response.ok) {
+        setReport(null);
+        setError(data.error || 'Import failed');
+        if (data.headers) setStep('preview');
+        return;
+      }
+      setReport(data);
+      setStep(dryRun ? 'preview' : 'done');
+      if (!dryRun) onImported(data.summary.created, data.summary.updated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setCsv(await file.text());
+    setMapping({});
+    setReport(null);
+    setError(null);
+  };
+
+  const changeMapping = (field: string, header: string) => {
+    const next = { ...mapping, [field]: header || null };
+    setMapping(next);
+    runImport(true, next);
+  };
+
+  const writes = report ? report.summary.created + report.summary.updated : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fadeInUp">
+      <div className="bg-slate-800 rounded-3xl shadow-2xl max-w-3xl w-full p-8 border border-slate-700 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-3xl font-black text-white">Import Orders</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <svg className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-900/50 border-red-500 border-l-4 px-4 py-3 rounded-lg mb-4">
+            <p className="font-semibold text-red-300">{error}</p>
+          </div>
+        )}
+
+        {step === 'upload' && (
+          <div className="space-y-5">
+            <p className="text-slate-400">
+              Upload a CSV with a header row and a column for the order ID and the tracking number. A carrier column is
+              optional; missing carriers are detected from the tracking number.
+            </p>
+            <label className="block border-2 border-dashed border-slate-600 rounded-2xl p-8 text-center cursor-pointer hover:border-blue-500 transition-colors">
+              <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+              <span className="text-slate-300 font-medium">{fileName || 'Choose a CSV file'}</span>
+            </label>
+            <div>
+              <label className="block text-sm font-bold text-slate-300 mb-2">Orders that already exist</label>
+              <select value={duplicates} onChange={(e) => setDuplicates(e.target.value as 'skip' | 'update')}
+                className="w-full px-4 py-3 bg-slate-900 border-2 border-slate-700 text-white rounded-xl">
+                <option value="skip">Skip them</option>
+                <option value="update">Update tracking number and carrier</option>
+              </select>
+            </div>
+            <div className="flex space-x-4 pt-2">
+              <button type="button" onClick={onClose}
+                className="flex-1 px-6 py-3 border-2 border-slate-700 rounded-xl text-slate-300 font-bold hover:bg-slate-700 transition-all">
+                Cancel
+              </button>
+              <button onClick={() => runImport(true)} disabled={!csv || loading}
+                className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-500 disabled:opacity-50 transition-all">
+                {loading ? 'Reading...' : 'Preview'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step !== 'upload' && (
+          <div className="flex flex-col min-h-0 flex-1">
+            {step === 'preview' && headers.length > 0 && (
+              <div className="grid grid-cols-3 gap-3 mb-4">
+                {Object.entries(IMPORT_FIELD_LABELS).map(([field, label]) => (
+                  <div key={field}>
+                    <label className="block text-xs font-bold text-slate-400 mb-1">{label}</label>
+                    <select value={mapping[field] || ''} onChange={(e) => changeMapping(field, e.target.value)} disabled={loading}
+                      className="w-full px-3 py-2 bg-slate-900 border border-slate-700 text-white rounded-lg text-sm">
+                      <option value="">Not in file</option>
+                      {headers.map((header) => (
+                        <option key={header} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {report && (
+              <>
+                <p className="text-slate-300 mb-3">
+                  {step === 'preview' ? 'Preview: ' : 'Done: '}
+                  <span className="text-emerald-300">{report.summary.created} {step === 'preview' ? 'to create' : 'created'}</span>,{' '}
+                  <span className="text-blue-300">{report.summary.updated} {step === 'preview' ? 'to update' : 'updated'}</span>,{' '}
+                  {report.summary.skipped} skipped, {report.summary.invalid} invalid, {report.summary.failed} failed
+                  {report.limit && (
+                    <span className="text-purple-300"> · Free plan: {report.limit.remaining} of {report.limit.limit} orders left this month</span>
+                  )}
+                </p>
+                <div className="overflow-y-auto min-h-0 flex-1 border border-slate-700 rounded-xl">
+                  <table className="w-full text-sm">
+                    <thead className="bg-slate-900/80 text-slate-400 sticky top-0">
+                      <tr>
+                        <th className="text-left px-3 py-2">Row</th>
+                        <th className="text-left px-3 py-2">Order</th>
+                        <th className="text-left px-3 py-2">Carrier</th>
+                        <th className="text-left px-3 py-2">Result</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-700">
+                      {report.results.map((result) => (
+                        <tr key={result.row}>
+                          <td className="px-3 py-2 text-slate-500">{result.row}</td>
+                          <td className="px-3 py-2 text-white font-mono">{result.orderId || '-'}</td>
+                          <td className="px-3 py-2 text-slate-300 uppercase">
+                            {result.carrier || '-'}
+                            {result.carrierDetected && <span className="text-slate-500 normal-case"> (detected)</span>}
+                          </td>
+                          <td className="px-3 py-2">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${IMPORT_STATUS_STYLES[result.status]}`}>{result.status}</span>
+                            {result.message && <span className="text-slate-400 ml-2">{result.message}</span>}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+
+            <div className="flex space-x-4 pt-5">
+              {step === 'preview' ? (
+                <>
+                  <button type="button" onClick={() => { setStep('upload'); setError(null); }}
+                    className="flex-1 px-6 py-3 border-2 border-slate-700 rounded-xl text-slate-300 font-bold hover:bg-slate-700 transition-all">
+                    Back
+                  </button>
+                  <button onClick={() => runImport(false)} disabled={!report || writes === 0 || loading}
+                    className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-500 disabled:opacity-50 transition-all">
+                    {loading ? 'Importing...' : `Import ${writes} order${writes === 1 ? '' : 's'}`}
+                  </button>
+                </>
+              ) : (
+                <button onClick={onClose}
+                  className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-500 transition-all">
+                  Close
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function AddOrderModal({ userId, storeId, onClose, onSuccess }: { userId: string; storeId: string | null; onClose: () => void; onSuccess: () => void }) {
+  const apiFetch = useApiFetch();
   const [formData, setFormData] = useState({ orderId: '', trackingNumber: '', carrier: '' });
+  const [details, setDetails] = useState({ buyerName: '', buyerEmail: '', shipToCity: '', shipToCountry: '', orderTotal: '', currency: '', shippedAt: '' });
+  const [showDetails, setShowDetails] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [upgradeRequired, setUpgradeRequired] = useState(false);
@@ -1458,6 +2439,16 @@ function AddOrderModal({ userId, onClose, onSuccess }: { userId: string; onClose
     return Object.keys(errors).length === 0;
   };
 
+  // Only the optional details that were filled in
+  const detailsPayload = () => {
+    const payload: Record<string, string | number> = {};
+    for (const [field, value] of Object.entries(details)) {
+      if (!value.trim()) continue;
+      payload[field] = field === 'orderTotal' ? Number(value) : value.trim();
+    }
+    return payload;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!validateForm()) return;
@@ -1465,10 +2456,11 @@ function AddOrderModal({ userId, onClose, onSuccess }: { userId: string; onClose
     setError(null);
     setUpgradeRequired(false);
     try {
-      const response = await fetch(`${API_URL}/api/orders`, {
+      const response = await apiFetch(`/api/orders`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json', 'x-clerk-user-id': userId },
-        body: JSON.stringify(formData)
+        headers: { 'Content-Type': 'application/json' },
+        // Without a selected store the backend uses the default store
+        body: JSON.stringify({ ...formData, ...detailsPayload(), ...(storeId ? { storeId } : {}) })
       });
       const data = await response.json();
       if (!response.ok) {
@@ -1490,10 +2482,7 @@ function AddOrderModal({ userId, onClose, onSuccess }: { userId: string; onClose
 
   const handleUpgradeFromModal = async () => {
     try {
-      const response = await fetch(`/api/billing/create-checkout`, {
-        method: 'POST',
-        headers: { 'x-clerk-user-id': userId }
-      });
+      const response = await apiFetch(`/api/billing/create-checkout`, { method: 'POST' }, { local: true });
       const data = await response.json();
       if (data.checkoutUrl) {
         window.location.href = data.checkoutUrl;
@@ -1576,6 +2565,39 @@ function AddOrderModal({ userId, onClose, onSuccess }: { userId: string; onClose
               <option value="DHL">DHL</option>
             </select>
           </div>
+          <div>
+            <button type="button" onClick={() => setShowDetails(!showDetails)}
+              className="text-sm font-bold text-blue-400 hover:text-blue-300">
+              {showDetails ? '− Hide order details' : '+ Buyer, destination and value (optional)'}
+            </button>
+            {showDetails && (
+              <div className="grid grid-cols-2 gap-3 mt-3">
+                <input type="text" value={details.buyerName} onChange={(e) => setDetails({ ...details, buyerName: e.target.value })}
+                  className="px-3 py-2 bg-slate-900 border-2 border-slate-700 text-white rounded-xl text-sm focus:border-blue-500"
+                  placeholder="Buyer name" />
+                <input type="email" value={details.buyerEmail} onChange={(e) => setDetails({ ...details, buyerEmail: e.target.value })}
+                  className="px-3 py-2 bg-slate-900 border-2 border-slate-700 text-white rounded-xl text-sm focus:border-blue-500"
+                  placeholder="Buyer email" />
+                <input type="text" value={details.shipToCity} onChange={(e) => setDetails({ ...details, shipToCity: e.target.value })}
+                  className="px-3 py-2 bg-slate-900 border-2 border-slate-700 text-white rounded-xl text-sm focus:border-blue-500"
+                  placeholder="City" />
+                <input type="text" maxLength={2} value={details.shipToCountry} onChange={(e) => setDetails({ ...details, shipToCountry: e.target.value.toUpperCase() })}
+                  className="px-3 py-2 bg-slate-900 border-2 border-slate-700 text-white rounded-xl text-sm focus:border-blue-500"
+                  placeholder="Country (e.g. US)" />
+                <input type="number" min="0" step="0.01" value={details.orderTotal} onChange={(e) => setDetails({ ...details, orderTotal: e.target.value })}
+                  className="px-3 py-2 bg-slate-900 border-2 border-slate-700 text-white rounded-xl text-sm focus:border-blue-500"
+                  placeholder="Order total" />
+                <input type="text" maxLength={3} value={details.currency} onChange={(e) => setDetails({ ...details, currency: e.target.value.toUpperCase() })}
+                  className="px-3 py-2 bg-slate-900 border-2 border-slate-700 text-white rounded-xl text-sm focus:border-blue-500"
+                  placeholder="Currency (e.g. USD)" />
+                <label className="col-span-2 text-xs text-slate-400">
+                  Shipped on
+                  <input type="date" value={details.shippedAt} onChange={(e) => setDetails({ ...details, shippedAt: e.target.value })}
+                    className="mt-1 w-full px-3 py-2 bg-slate-900 border-2 border-slate-700 text-white rounded-xl text-sm focus:border-blue-500" />
+                </label>
+              </div>
+            )}
+          </div>
           <div className="flex space-x-4 pt-4">
             <button type="button" onClick={onClose}
               className="flex-1 px-6 py-3 border-2 border-slate-700 rounded-xl text-slate-300 font-bold hover:bg-slate-700 transition-all">
@@ -0,0 +1,111 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useUser, useAuth, SignInButton } from '@clerk/nextjs';
+import Link from 'next/link';
+import { useApiFetch } from '@/lib/api';
+
+interface InvitationDetails {
+  organization: { id: string; name: string };
+  email: string;
+  role: string;
+  expiresAt: string;
+}
+
+export default function InvitePage({ params }: { params: { token: string } }) {
+  const { isLoaded, isSignedIn } = useUser();
+  const { userId } = useAuth();
+  const apiFetch = useApiFetch();
+
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    const fetchInvitation = async () => {
+      try {
+        const response = await apiFetch(`/api/organizations/invitations/${params.token}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Invitation not found');
+        setInvitation(data.invitation);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Invitation not found');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchInvitation();
+  }, [userId, params.token]);
+
+  const accept = async () => {
+    if (!userId) return;
+    setAccepting(true);
+    try {
+      const response = await apiFetch(`/api/organizations/invitations/${params.token}/accept`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to accept invitation');
+      // The joined workspace is now the active one; its stores replace any saved selection
+      window.localStorage.removeItem('orderwarden:selectedStore');
+      window.location.href = '/dashboard';
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept invitation');
+      setAccepting(false);
+    }
+  };
+
+  const waiting = !isLoaded || (isSignedIn && loading);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center p-4">
+      <div className="bg-slate-800 rounded-3xl shadow-2xl max-w-md w-full p-8 border border-slate-700 text-center">
+        {waiting ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-500 border-t-transparent"></div>
+          </div>
+        ) : !isSignedIn ? (
+          <>
+            <h1 className="text-2xl font-black text-white mb-3">You have been invited</h1>
+            <p className="text-slate-400 mb-8">Sign in or create an account to join the workspace.</p>
+            <SignInButton mode="modal">
+              <button className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 rounded-xl transition-colors">
+                Sign in
+              </button>
+            </SignInButton>
+          </>
+        ) : error || !invitation ? (
+          <>
+            <h1 className="text-2xl font-black text-white mb-3">Invitation unavailable</h1>
+            <p className="text-slate-400 mb-8">{error || 'Invitation not found or expired'}</p>
+            <Link href="/dashboard" className="text-blue-400 hover:text-blue-300 font-bold">
+              Go to your dashboard
+            </Link>
+          </>
+        ) : (
+          <>
+            <h1 className="text-2xl font-black text-white mb-3">Join {invitation.organization.name}</h1>
+            <p className="text-slate-400 mb-2">
+              You were invited as <span className="text-white font-medium capitalize">{invitation.role}</span>.
+            </p>
+            <p className="text-sm text-slate-500 mb-8">
+              Sent to {invitation.email} · expires {new Date(invitation.expiresAt).toLocaleDateString()}
+            </p>
+            <div className="flex gap-3">
+              <Link href="/dashboard"
+                className="flex-1 bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 rounded-xl transition-colors">
+                Not now
+              </Link>
+              <button onClick={accept} disabled={accepting}
+                className="flex-1 bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 rounded-xl transition-colors disabled:opacity-50">
+                {accepting ? 'Joining...' : 'Accept'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
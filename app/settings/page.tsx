@@ -1,10 +1,10 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useUser, useAuth, UserButton } from '@clerk/nextjs';
 import Link from 'next/link';
+import { useApiFetch } from '@/lib/api';
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
 
 interface Settings {
   emailOnRiskChange: boolean;
@@ -12,14 +12,72 @@ interface Settings {
   emailOnException: boolean;
   autoCheckInterval: string;
   riskSensitivity: string;
+  timezone: string;
+  shipFromCountry: string | null;
+  defaultStoreId: string | null;
 }
 
-interface EtsyStatus {
-  connected: boolean;
-  shopName?: string;
-  lastSyncAt?: string;
+interface StoreOption {
+  id: string;
+  storeName: string;
+  platform: string;
+  orderCount: number;
+  etsy: { shopName: string; lastSyncAt: string | null } | null;
 }
 
+interface OrganizationOption {
+  id: string;
+  name: string;
+  role: string;
+  active: boolean;
+}
+
+interface Member {
+  userId: string;
+  email: string | null;
+  role: string;
+  joinedAt: string;
+}
+
+interface PendingInvitation {
+  id: string;
+  email: string;
+  role: string;
+  expiresAt: string;
+}
+
+interface CurrentOrganization {
+  organization: { id: string; name: string };
+  role: string;
+  permissions: string[];
+  members: Member[];
+  invitations: PendingInvitation[];
+}
+
+const INVITABLE_ROLES = [
+  { value: 'admin', label: 'Admin - everything except billing' },
+  { value: 'agent', label: 'Agent - add, check and sync orders' },
+  { value: 'viewer', label: 'Viewer - read only' },
+];
+
+const TIMEZONES = [
+  'UTC',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'America/Anchorage',
+  'Pacific/Honolulu',
+  'America/Toronto',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Paris',
+  'Asia/Jerusalem',
+  'Asia/Kolkata',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+];
+
 interface BillingStatus {
   planType: 'free' | 'pro';
   subscriptionStatus: string | null;
@@ -98,9 +156,1411 @@ function SelectField({
   );
 }
 
+// Stores section: add, rename, delete and connect an Etsy shop per store
+function StoresSection({
+  userId,
+  stores,
+  canManage,
+  canManageEtsy,
+  onChanged,
+  onToast,
+}: {
+  userId: string;
+  stores: StoreOption[];
+  canManage: boolean;
+  canManageEtsy: boolean;
+  onChanged: () => void;
+  onToast: (toast: { message: string; type: 'success' | 'error' }) => void;
+}) {
+  const [newStoreName, setNewStoreName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [moveOrdersTo, setMoveOrdersTo] = useState('');
+  const [busy, setBusy] = useState(false);
+  const apiFetch = useApiFetch();
+
+  const request = async (path: string, init: RequestInit, success: string) => {
+    setBusy(true);
+    try {
+      const response = await apiFetch(path, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || data.error || 'Request failed');
+      onToast({ message: success, type: 'success' });
+      onChanged();
+      return true;
+    } catch (err) {
+      onToast({ message: err instanceof Error ? err.message : 'Request failed', type: 'error' });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addStore = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newStoreName.trim()) return;
+    const ok = await request('/api/stores', {
+      method: 'POST',
+      body: JSON.stringify({ storeName: newStoreName.trim() }),
+    }, 'Store added');
+    if (ok) setNewStoreName('');
+  };
+
+  const renameStore = async (storeId: string) => {
+    const ok = await request(`/api/stores/${storeId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ storeName: editName.trim() }),
+    }, 'Store renamed');
+    if (ok) setEditingId(null);
+  };
+
+  const deleteStore = async (store: StoreOption) => {
+    const query = store.orderCount > 0 ? `?moveOrdersTo=${encodeURIComponent(moveOrdersTo)}` : '';
+    const ok = await request(`/api/stores/${store.id}${query}`, { method: 'DELETE' }, 'Store deleted');
+    if (ok) setDeletingId(null);
+  };
+
+  const disconnectStore = (storeId: string) =>
+    request(`/api/etsy/disconnect?storeId=${encodeURIComponent(storeId)}`, { method: 'POST' }, 'Etsy shop disconnected');
+
+  const connectStore = async (storeId: string) => {
+    try {
+      const response = await apiFetch('/api/etsy/auth', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ storeId }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to connect Etsy');
+      window.location.href = data.authUrl;
+    } catch (err) {
+      onToast({ message: err instanceof Error ? err.message : 'Failed to connect Etsy', type: 'error' });
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 mb-6">
+      <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+        <svg className="w-5 h-5 text-orange-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+            d="M3 9l1-5h16l1 5M3 9h18M3 9v11h18V9M9 20v-6h6v6" />
+        </svg>
+        Stores
+      </h3>
+      <p className="text-slate-400 text-sm mb-4">One store per shop. Each store can sync from its own Etsy shop.</p>
+
+      <div className="divide-y divide-slate-700">
+        {stores.map((store) => (
+          <div key={store.id} className="py-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                {editingId === store.id ? (
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      className="px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button onClick={() => renameStore(store.id)} disabled={busy || !editName.trim()}
+                      className="text-sm text-blue-400 hover:text-blue-300 font-bold disabled:opacity-50">Save</button>
+                    <button onClick={() => setEditingId(null)} className="text-sm text-slate-400 hover:text-white">Cancel</button>
+                  </div>
+                ) : (
+                  <p className="text-white font-medium truncate">{store.storeName}</p>
+                )}
+                <p className="text-sm text-slate-400">
+                  {store.orderCount} orders ·{' '}
+                  {store.etsy ? <span className="text-emerald-400">Etsy: {store.etsy.shopName}</span> : 'No Etsy shop'}
+                </p>
+              </div>
+              <div className="flex items-center gap-3 text-sm shrink-0">
+                {canManageEtsy && (store.etsy ? (
+                  <button onClick={() => disconnectStore(store.id)} disabled={busy}
+                    className="text-slate-400 hover:text-red-400">Disconnect Etsy</button>
+                ) : (
+                  <button onClick={() => connectStore(store.id)} className="text-amber-400 hover:text-amber-300 font-medium">
+                    Connect Etsy
+                  </button>
+                ))}
+                {canManage && (
+                  <>
+                    <button onClick={() => { setEditingId(store.id); setEditName(store.storeName); }}
+                      className="text-slate-400 hover:text-white">Rename</button>
+                    <button onClick={() => { setDeletingId(store.id); setMoveOrdersTo(''); }}
+                      className="text-slate-400 hover:text-red-400">Delete</button>
+                  </>
+                )}
+              </div>
+            </div>
+
+            {deletingId === store.id && (
+              <div className="mt-3 p-3 bg-red-900/20 border border-red-500/30 rounded-xl flex flex-wrap items-center gap-3 text-sm">
+                {store.orderCount > 0 ? (
+                  <>
+                    <span className="text-slate-300">Move its {store.orderCount} orders to</span>
+                    <select value={moveOrdersTo} onChange={(e) => setMoveOrdersTo(e.target.value)}
+                      className="px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-white">
+                      <option value="">Choose a store…</option>
+                      {stores.filter((other) => other.id !== store.id).map((other) => (
+                        <option key={other.id} value={other.id}>{other.storeName}</option>
+                      ))}
+                    </select>
+                  </>
+                ) : (
+                  <span className="text-slate-300">Delete this store and its Etsy connection?</span>
+                )}
+                <button onClick={() => deleteStore(store)} disabled={busy || (store.orderCount > 0 && !moveOrdersTo)}
+                  className="px-3 py-1.5 bg-red-600 hover:bg-red-500 text-white rounded-lg font-bold disabled:opacity-50">
+                  Delete
+                </button>
+                <button onClick={() => setDeletingId(null)} className="text-slate-400 hover:text-white">Cancel</button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {canManage && (
+        <form onSubmit={addStore} className="flex gap-2 mt-4">
+          <input
+            value={newStoreName}
+            onChange={(e) => setNewStoreName(e.target.value)}
+            placeholder="New store name"
+            className="flex-1 px-3 py-2 bg-slate-900 border border-slate-700 rounded-xl text-white focus:ring-2 focus:ring-blue-500"
+          />
+          <button type="submit" disabled={busy || !newStoreName.trim()}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-xl font-bold disabled:opacity-50">
+            Add Store
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+// Team section: switch workspace, manage members and invitations
+function TeamSection({
+  userId,
+  current,
+  organizations,
+  onSwitch,
+  onChanged,
+  onToast,
+}: {
+  userId: string;
+  current: CurrentOrganization;
+  organizations: OrganizationOption[];
+  onSwitch: (organizationId: string) => void;
+  onChanged: () => void;
+  onToast: (toast: { message: string; type: 'success' | 'error' }) => void;
+}) {
+  const [workspaceName, setWorkspaceName] = useState(current.organization.name);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState('agent');
+  const [busy, setBusy] = useState(false);
+  const apiFetch = useApiFetch();
+
+  const canManageMembers = current.permissions.includes('members:manage');
+  const canRename = current.permissions.includes('organization:manage');
+
+  useEffect(() => {
+    setWorkspaceName(current.organization.name);
+  }, [current.organization.name]);
+
+  const request = async (path: string, init: RequestInit, success: string) => {
+    setBusy(true);
+    try {
+      const response = await apiFetch(path, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || data.error || 'Request failed');
+      onToast({ message: success, type: 'success' });
+      onChanged();
+      return data;
+    } catch (err) {
+      onToast({ message: err instanceof Error ? err.message : 'Request failed', type: 'error' });
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renameWorkspace = (e: React.FormEvent) => {
+    e.preventDefault();
+    request('/api/organizations/current', {
+      method: 'PATCH',
+      body: JSON.stringify({ name: workspaceName.trim() }),
+    }, 'Workspace renamed');
+  };
+
+  const invite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await request('/api/organizations/current/invitations', {
+      method: 'POST',
+      body: JSON.stringify({ email: inviteEmail.trim(), role: inviteRole }),
+    }, `Invitation sent to ${inviteEmail.trim()}`);
+    if (data) {
+      setInviteEmail('');
+      if (!data.emailSent) {
+        onToast({ message: 'Invitation created, but the email could not be sent', type: 'error' });
+      }
+    }
+  };
+
+  const changeRole = (memberId: string, role: string) =>
+    request(`/api/organizations/current/members/${memberId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ role }),
+    }, 'Role updated');
+
+  const removeMember = (member: Member) => {
+    const leaving = member.userId === userId;
+    if (!confirm(leaving ? 'Leave this workspace?' : `Remove ${member.email || 'this member'} from the workspace?`)) return;
+    request(`/api/organizations/current/members/${member.userId}`, { method: 'DELETE' },
+      leaving ? 'You left the workspace' : 'Member removed');
+  };
+
+  const revokeInvitation = (invitationId: string) =>
+    request(`/api/organizations/current/invitations/${invitationId}`, { method: 'DELETE' }, 'Invitation revoked');
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 mb-6">
+      <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+        <svg className="w-5 h-5 text-cyan-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+            d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+        </svg>
+        Team
+      </h3>
+      <p className="text-slate-400 text-sm mb-4">
+        Stores, orders and Etsy shops are shared by everyone in the workspace. You are{' '}
+        <span className="text-white font-medium">{current.role}</span> here.
+      </p>
+
+      {organizations.length > 1 && (
+        <SelectField
+          label="Workspace"
+          description="Switch to another workspace you belong to"
+          value={current.organization.id}
+          onChange={onSwitch}
+          options={organizations.map((org) => ({ value: org.id, label: `${org.name} (${org.role})` }))}
+        />
+      )}
+
+      {canRename && (
+        <form onSubmit={renameWorkspace} className="flex gap-2 mb-4">
+          <input
+            value={workspaceName}
+            onChange={(e) => setWorkspaceName(e.target.value)}
+            className="flex-1 px-3 py-2 bg-slate-900 border border-slate-700 rounded-xl text-white focus:ring-2 focus:ring-blue-500"
+          />
+          <button type="submit" disabled={busy || !workspaceName.trim() || workspaceName.trim() === current.organization.name}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-xl font-bold disabled:opacity-50">
+            Rename
+          </button>
+        </form>
+      )}
+
+      <div className="divide-y divide-slate-700">
+        {current.members.map((member) => (
+          <div key={member.userId} className="py-3 flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <p className="text-white font-medium truncate">
+                {member.email || member.userId}
+                {member.userId === userId && <span className="text-slate-500 font-normal ml-2">(you)</span>}
+              </p>
+              <p className="text-sm text-slate-400">Joined {new Date(member.joinedAt).toLocaleDateString()}</p>
+            </div>
+            <div className="flex items-center gap-3 text-sm shrink-0">
+              {canManageMembers && member.role !== 'owner' ? (
+                <select value={member.role} onChange={(e) => changeRole(member.userId, e.target.value)} disabled={busy}
+                  className="px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-white">
+                  {INVITABLE_ROLES.map((role) => (
+                    <option key={role.value} value={role.value}>{role.value}</option>
+                  ))}
+                </select>
+              ) : (
+                <span className="px-2 py-1 rounded-lg bg-slate-700 text-slate-300 capitalize">{member.role}</span>
+              )}
+              {member.role !== 'owner' && (canManageMembers || member.userId === userId) && (
+                <button onClick={() => removeMember(member)} disabled={busy}
+                  className="text-slate-400 hover:text-red-400">
+                  {member.userId === userId ? 'Leave' : 'Remove'}
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {canManageMembers && (
+        <>
+          {current.invitations.length > 0 && (
+            <div className="mt-4">
+              <p className="text-sm font-medium text-slate-300 mb-2">Pending invitations</p>
+              <div className="divide-y divide-slate-700">
+                {current.invitations.map((invitation) => (
+                  <div key={invitation.id} className="py-2 flex items-center justify-between text-sm">
+                    <span className="text-slate-300">
+                      {invitation.email} · <span className="capitalize">{invitation.role}</span>
+                      <span className="text-slate-500 ml-2">expires {new Date(invitation.expiresAt).toLocaleDateString()}</span>
+                    </span>
+                    <button onClick={() => revokeInvitation(invitation.id)} disabled={busy}
+                      className="text-slate-400 hover:text-red-400">Revoke</button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <form onSubmit={invite} className="flex flex-wrap gap-2 mt-4">
+            <input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="teammate@example.com"
+              className="flex-1 min-w-[200px] px-3 py-2 bg-slate-900 border border-slate-700 rounded-xl text-white focus:ring-2 focus:ring-blue-500"
+            />
+            <select value={inviteRole} onChange={(e) => setInviteRole(e.target.value)}
+              className="px-3 py-2 bg-slate-900 border border-slate-700 rounded-xl text-white">
+              {INVITABLE_ROLES.map((role) => (
+                <option key={role.value} value={role.value}>{role.label}</option>
+              ))}
+            </select>
+            <button type="submit" disabled={busy || !inviteEmail.trim()}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-xl font-bold disabled:opacity-50">
+              Invite
+            </button>
+          </form>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  organization: { id: string; name: string };
+}
+
+const API_KEY_SCOPE_LABELS: Record<string, string> = {
+  'orders:read': 'Read orders',
+  'orders:write': 'Add and check orders',
+  'orders:delete': 'Delete orders',
+  'metrics:read': 'Read metrics',
+};
+
+// API keys section: create, list and revoke keys for scripts and integrations
+function ApiKeysSection({
+  organization,
+  onToast,
+}: {
+  organization: { id: string; name: string };
+  onToast: (toast: { message: string; type: 'success' | 'error' }) => void;
+}) {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [grantableScopes, setGrantableScopes] = useState<string[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<string[]>(['orders:read']);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const apiFetch = useApiFetch();
+
+  const fetchApiKeys = async () => {
+    try {
+      const response = await apiFetch('/api/api-keys');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load API keys');
+      setApiKeys(data.apiKeys);
+      setGrantableScopes(data.grantableScopes);
+    } catch (err) {
+      console.error('Failed to fetch API keys:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchApiKeys();
+  }, [organization.id]);
+
+  const toggleScope = (scope: string) =>
+    setScopes((current) => current.includes(scope)
+      ? current.filter((s) => s !== scope)
+      : [...current, scope]);
+
+  const createKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      const response = await apiFetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), scopes }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to create API key');
+      setNewKey(data.key);
+      setName('');
+      fetchApiKeys();
+    } catch (err) {
+      onToast({ message: err instanceof Error ? err.message : 'Failed to create API key', type: 'error' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revokeKey = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Anything using it will stop working.`)) return;
+    setBusy(true);
+    try {
+      const response = await apiFetch(`/api/api-keys/${apiKey.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to revoke API key');
+      onToast({ message: 'API key revoked', type: 'success' });
+      fetchApiKeys();
+    } catch (err) {
+      onToast({ message: err instanceof Error ? err.message : 'Failed to revoke API key', type: 'error' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copyKey = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    onToast({ message: 'API key copied', type: 'success' });
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 mb-6">
+      <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+        <svg className="w-5 h-5 text-amber-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+            d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+        </svg>
+        API Keys
+      </h3>
+      <p className="text-slate-400 text-sm mb-4">
+        Use a key as <code className="text-slate-300">Authorization: Bearer ow_...</code> to call the orders
+        and metrics API. New keys act in <span className="text-white font-medium">{organization.name}</span>.
+      </p>
+
+      {newKey && (
+        <div className="mb-4 p-4 bg-emerald-500/10 border border-emerald-500/30 rounded-xl">
+          <p className="text-sm text-emerald-300 mb-2">Copy this key now. It will not be shown again.</p>
+          <div className="flex gap-2">
+            <code className="flex-1 px-3 py-2 bg-slate-900 rounded-lg text-white text-sm break-all">{newKey}</code>
+            <button onClick={copyKey}
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-xl font-bold">
+              Copy
+            </button>
+            <button onClick={() => setNewKey(null)} className="px-2 text-slate-400 hover:text-white">Done</button>
+          </div>
+        </div>
+      )}
+
+      {apiKeys.length > 0 && (
+        <div className="divide-y divide-slate-700 mb-4">
+          {apiKeys.map((apiKey) => (
+            <div key={apiKey.id} className="py-3 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className={`font-medium truncate ${apiKey.revokedAt ? 'text-slate-500 line-through' : 'text-white'}`}>
+                  {apiKey.name} <code className="text-slate-400 font-normal ml-1">{apiKey.prefix}...</code>
+                </p>
+                <p className="text-sm text-slate-400">
+                  {apiKey.organization.name} · {apiKey.scopes.join(', ')} ·{' '}
+                  {apiKey.revokedAt
+                    ? `revoked ${new Date(apiKey.revokedAt).toLocaleDateString()}`
+                    : apiKey.lastUsedAt
+                      ? `last used ${new Date(apiKey.lastUsedAt).toLocaleString()}`
+                      : 'never used'}
+                </p>
+              </div>
+              {!apiKey.revokedAt && (
+                <button onClick={() => revokeKey(apiKey)} disabled={busy}
+                  className="text-sm text-slate-400 hover:text-red-400 shrink-0">
+                  Revoke
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={createKey} className="space-y-3">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Key name, e.g. Shipping script"
+          maxLength={100}
+          className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-xl text-white focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="flex flex-wrap gap-4">
+          {Object.entries(API_KEY_SCOPE_LABELS).map(([scope, label]) => (
+            <label key={scope} className={`flex items-center gap-2 text-sm ${grantableScopes.includes(scope) ? 'text-slate-300' : 'text-slate-600'}`}>
+              <input
+                type="checkbox"
+                checked={scopes.includes(scope)}
+                disabled={!grantableScopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        <button type="submit" disabled={busy || !name.trim() || scopes.length === 0}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-xl font-bold disabled:opacity-50">
+          Create key
+        </button>
+      </form>
+    </div>
+  );
+}
+
+interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  secret: string;
+  eventTypes: string[];
+  active: boolean;
+  createdAt: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  eventType: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  error: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+const WEBHOOK_EVENT_LABELS: Record<string, string> = {
+  'order.status_changed': 'Status changed (e.g. delivered)',
+  'order.risk_changed': 'Risk level changed (e.g. red)',
+};
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  succeeded: 'text-emerald-400',
+  pending: 'text-amber-400',
+  failed: 'text-red-400',
+};
+
+// Webhooks section: endpoints that receive order events, with their delivery log
+function WebhooksSection({
+  organizationId,
+  onToast,
+}: {
+  organizationId: string;
+  onToast: (toast: { message: string; type: 'success' | 'error' }) => void;
+}) {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [eventTypes, setEventTypes] = useState<string[]>(Object.keys(WEBHOOK_EVENT_LABELS));
+  const [openEndpointId, setOpenEndpointId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [revealedSecretId, setRevealedSecretId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const apiFetch = useApiFetch();
+
+  const fetchEndpoints = async () => {
+    try {
+      const response = await apiFetch('/api/webhooks');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load webhooks');
+      setEndpoints(data.endpoints);
+    } catch (err) {
+      console.error('Failed to fetch webhooks:', err);
+    }
+  };
+
+  const fetchDeliveries = async (endpointId: string) => {
+    try {
+      const response = await apiFetch(`/api/webhooks/${endpointId}/deliveries?limit=20`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load deliveries');
+      setDeliveries(data.deliveries);
+    } catch (err) {
+      console.error('Failed to fetch webhook deliveries:', err);
+    }
+  };
+
+  useEffect(() => {
+    setOpenEndpointId(null);
+    fetchEndpoints();
+  }, [organizationId]);
+
+  const request = async (path: string, init: RequestInit, success: string) => {
+    setBusy(true);
+    try {
+      const response = await apiFetch(path, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+      onToast({ message: success, type: 'success' });
+      fetchEndpoints();
+      return data;
+    } catch (err) {
+      onToast({ message: err instanceof Error ? err.message : 'Request failed', type: 'error' });
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleEventType = (eventType: string) =>
+    setEventTypes((current) => current.includes(eventType)
+      ? current.filter((t) => t !== eventType)
+      : [...current, eventType]);
+
+  const createEndpoint = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await request('/api/webhooks', {
+      method: 'POST',
+      body: JSON.stringify({ url: url.trim(), description: description.trim() || null, eventTypes }),
+    }, 'Webhook added');
+    if (data) {
+      setUrl('');
+      setDescription('');
+      setRevealedSecretId(data.endpoint.id);
+    }
+  };
+
+  const updateEndpoint = (endpoint: WebhookEndpoint, changes: Record<string, unknown>, success: string) =>
+    request(`/api/webhooks/${endpoint.id}`, { method: 'PATCH', body: JSON.stringify(changes) }, success);
+
+  const deleteEndpoint = (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Delete the webhook for ${endpoint.url}? Its delivery log is deleted too.`)) return;
+    request(`/api/webhooks/${endpoint.id}`, { method: 'DELETE' }, 'Webhook deleted');
+  };
+
+  const toggleDeliveries = (endpointId: string) => {
+    if (openEndpointId === endpointId) {
+      setOpenEndpointId(null);
+      return;
+    }
+    setDeliveries([]);
+    setOpenEndpointId(endpointId);
+    fetchDeliveries(endpointId);
+  };
+
+  const redeliver = async (endpointId: string, deliveryId: string) => {
+    const data = await request(`/api/webhooks/${endpointId}/deliveries/${deliveryId}/redeliver`, { method: 'POST' },
+      'Redelivery sent');
+    if (data) fetchDeliveries(endpointId);
+  };
+
+  const copySecret = async (secret: string) => {
+    await navigator.clipboard.writeText(secret);
+    onToast({ message: 'Signing secret copied', type: 'success' });
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 mb-6">
+      <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+        <svg className="w-5 h-5 text-pink-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+            d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+        </svg>
+        Webhooks
+      </h3>
+      <p className="text-slate-400 text-sm mb-4">
+        OrderWarden POSTs order events to these URLs, signed with the endpoint&apos;s secret in the{' '}
+        <code className="text-slate-300">X-OrderWarden-Signature</code> header. Failed deliveries are retried with backoff.
+      </p>
+
+      {endpoints.length > 0 && (
+        <div className="divide-y divide-slate-700 mb-4">
+          {endpoints.map((endpoint) => (
+            <div key={endpoint.id} className="py-3">
+              <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className={`font-medium truncate ${endpoint.active ? 'text-white' : 'text-slate-500'}`}>{endpoint.url}</p>
+                  <p className="text-sm text-slate-400">
+                    {endpoint.description ? `${endpoint.description} · ` : ''}
+                    {endpoint.eventTypes.join(', ')}
+                    {!endpoint.active && ' · disabled'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 text-sm shrink-0">
+                  <button onClick={() => toggleDeliveries(endpoint.id)} className="text-slate-400 hover:text-white">
+                    {openEndpointId === endpoint.id ? 'Hide log' : 'Deliveries'}
+                  </button>
+                  <button onClick={() => setRevealedSecretId(revealedSecretId === endpoint.id ? null : endpoint.id)}
+                    className="text-slate-400 hover:text-white">
+                    Secret
+                  </button>
+                  <button disabled={busy}
+                    onClick={() => updateEndpoint(endpoint, { active: !endpoint.active },
+                      endpoint.active ? 'Webhook disabled' : 'Webhook enabled')}
+                    className="text-slate-400 hover:text-white">
+                    {endpoint.active ? 'Disable' : 'Enable'}
+                  </button>
+                  <button onClick={() => deleteEndpoint(endpoint)} disabled={busy}
+                    className="text-slate-400 hover:text-red-400">Delete</button>
+                </div>
+              </div>
+
+              {revealedSecretId === endpoint.id && (
+                <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+                  <code className="px-3 py-1.5 bg-slate-900 rounded-lg text-white break-all">{endpoint.secret}</code>
+                  <button onClick={() => copySecret(endpoint.secret)} className="text-slate-400 hover:text-white">Copy</button>
+                  <button disabled={busy}
+                    onClick={() => confirm('Rotate the signing secret? The old one stops working immediately.')
+                      && updateEndpoint(endpoint, { rotateSecret: true }, 'Signing secret rotated')}
+                    className="text-slate-400 hover:text-amber-400">
+                    Rotate
+                  </button>
+                </div>
+              )}
+
+              {openEndpointId === endpoint.id && (
+                <div className="mt-3 bg-slate-900/50 rounded-xl p-3 text-sm">
+                  {deliveries.length === 0 ? (
+                    <p className="text-slate-500">No deliveries yet</p>
+                  ) : (
+                    <div className="divide-y divide-slate-800">
+                      {deliveries.map((delivery) => (
+                        <div key={delivery.id} className="py-2 flex items-center justify-between gap-4">
+                          <div className="min-w-0">
+                            <p className="text-slate-300">
+                              <span className={`font-medium capitalize ${DELIVERY_STATUS_STYLES[delivery.status]}`}>{delivery.status}</span>
+                              {' · '}{delivery.eventType}
+                              {delivery.responseStatus !== null && ` · HTTP ${delivery.responseStatus}`}
+                            </p>
+                            <p className="text-slate-500 truncate">
+                              {new Date(delivery.createdAt).toLocaleString()} · {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                              {delivery.status === 'pending' && delivery.nextAttemptAt &&
+                                ` · next ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+                              {delivery.error && ` · ${delivery.error}`}
+                            </p>
+                          </div>
+                          <button onClick={() => redeliver(endpoint.id, delivery.id)} disabled={busy}
+                            className="text-slate-400 hover:text-white shrink-0">
+                            Redeliver
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={createEndpoint} className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/orderwarden-webhook"
+            className="flex-1 min-w-[240px] px-3 py-2 bg-slate-900 border border-slate-700 rounded-xl text-white focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (optional)"
+            maxLength={200}
+            className="flex-1 min-w-[160px] px-3 py-2 bg-slate-900 border border-slate-700 rounded-xl text-white focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {Object.entries(WEBHOOK_EVENT_LABELS).map(([eventType, label]) => (
+            <label key={eventType} className="flex items-center gap-2 text-sm text-slate-300">
+              <input type="checkbox" checked={eventTypes.includes(eventType)} onChange={() => toggleEventType(eventType)} />
+              {label}
+            </label>
+          ))}
+        </div>
+        <button type="submit" disabled={busy || !url.trim() || eventTypes.length === 0}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-xl font-bold disabled:opacity-50">
+          Add webhook
+        </button>
+      </form>
+    </div>
+  );
+}
+
+interface MessageTemplate {
+  key: string;
+  when: string;
+  tone: string;
+  subject: string;
+  body: string;
+  custom: boolean;
+  updatedAt: string | null;
+  defaultSubject: string;
+  defaultBody: string;
+}
+
+// Buyer message templates: edit the wording of each template, per language, with a live preview
+function MessageTemplatesSection({
+  organizationId,
+  onToast,
+}: {
+  organizationId: string;
+  onToast: (toast: { message: string; type: 'success' | 'error' }) => void;
+}) {
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [variables, setVariables] = useState<Record<string, string>>({});
+  const [locales, setLocales] = useState<Record<string, string>>({});
+  const [locale, setLocale] = useState('en');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [preview, setPreview] = useState<{ subject: string; message: string } | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const bodyRef = useRef<HTMLTextAreaElement | null>(null);
+  const apiFetch = useApiFetch();
+
+  const selected = templates.find((template) => template.key === selectedKey) || null;
+  const edited = Boolean(selected && (subject !== selected.subject || body !== selected.body));
+
+  const fetchTemplates = async () => {
+    try {
+      const response = await apiFetch(`/api/message-templates?locale=${locale}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load message templates');
+      setTemplates(data.templates);
+      setVariables(data.variables);
+      setLocales(data.locales);
+      return data.templates as MessageTemplate[];
+    } catch (err) {
+      console.error('Failed to fetch message templates:', err);
+      return [];
+    }
+  };
+
+  const selectTemplate = (template: MessageTemplate) => {
+    setSelectedKey(template.key);
+    setSubject(template.subject);
+    setBody(template.body);
+  };
+
+  // Keeps the same template open when switching language
+  useEffect(() => {
+    fetchTemplates().then((loaded) => {
+      const current = loaded.find((template) => template.key === selectedKey) || loaded[0];
+      if (current) selectTemplate(current);
+    });
+  }, [organizationId, locale]);
+
+  // Live preview, a moment after typing stops
+  useEffect(() => {
+    if (!selectedKey || !subject.trim() || !body.trim()) {
+      setPreview(null);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiFetch('/api/message-templates/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ key: selectedKey, locale, subject, body }),
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Preview failed');
+        setPreview(data.preview);
+        setPreviewError(null);
+      } catch (err) {
+        setPreviewError(err instanceof Error ? err.message : 'Preview failed');
+      }
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [selectedKey, locale, subject, body]);
+
+  const insertVariable = (name: string) => {
+    const placeholder = `{{${name}}}`;
+    const textarea = bodyRef.current;
+    if (!textarea) {
+      setBody((current) => current + placeholder);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    setBody(body.slice(0, selectionStart) + placeholder + body.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + placeholder.length, selectionStart + placeholder.length);
+    });
+  };
+
+  const request = async (init: RequestInit, success: string) => {
+    if (!selectedKey) return;
+    setBusy(true);
+    try {
+      const response = await apiFetch(`/api/message-templates/${selectedKey}?locale=${locale}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+      onToast({ message: success, type: 'success' });
+      setTemplates((current) => current.map((template) => template.key === selectedKey ? data.template : template));
+      selectTemplate(data.template);
+    } catch (err) {
+      onToast({ message: err instanceof Error ? err.message : 'Request failed', type: 'error' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 mb-6">
+      <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+        <svg className="w-5 h-5 text-pink-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+            d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+        </svg>
+        Buyer Messages
+      </h3>
+      <p className="text-slate-400 text-sm mb-4">
+        The message suggested for an order depends on its status and risk. Change the wording of any of them;
+        placeholders like <code className="text-slate-300">{'{{buyerFirstName|there}}'}</code> use the text after
+        the bar when an order has no value. Each language has its own wording; buyers get theirs from the
+        order&apos;s ship-to country unless a language is picked on the order.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <span className="text-sm text-slate-400">Language</span>
+        {Object.entries(locales).map(([code, label]) => (
+          <button key={code} onClick={() => setLocale(code)} disabled={edited}
+            title={edited ? 'Save or discard your changes first' : undefined}
+            className={`px-3 py-1 rounded-lg text-sm border disabled:opacity-50 ${code === locale
+              ? 'bg-slate-200 border-slate-200 text-slate-900 font-semibold'
+              : 'bg-slate-900 border-slate-700 text-slate-300 hover:border-slate-500'}`}>
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {templates.map((template) => (
+          <button key={template.key} onClick={() => selectTemplate(template)}
+            className={`px-3 py-1.5 rounded-full text-sm font-medium border ${template.key === selectedKey
+              ? 'bg-blue-600 border-blue-500 text-white'
+              : 'bg-slate-900 border-slate-700 text-slate-300 hover:border-slate-500'}`}>
+            {template.when}{template.custom && <span className="ml-1 text-amber-300">•</span>}
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="grid lg:grid-cols-2 gap-4">
+          <div className="space-y-3">
+            <input
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              maxLength={200}
+              placeholder="Subject"
+              className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-xl text-white focus:ring-2 focus:ring-blue-500"
+            />
+            <textarea
+              ref={bodyRef}
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              maxLength={5000}
+              rows={8}
+              className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-xl text-white text-sm focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex flex-wrap gap-1.5">
+              {Object.entries(variables).map(([name, label]) => (
+                <button key={name} type="button" onClick={() => insertVariable(name)} title={label}
+                  className="px-2 py-1 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-lg text-xs font-mono">
+                  {`{{${name}}}`}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button onClick={() => request({ method: 'PUT', body: JSON.stringify({ subject, body }) }, 'Template saved')}
+                disabled={busy || !edited || !subject.trim() || !body.trim()}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-xl font-bold disabled:opacity-50">
+                Save
+              </button>
+              {edited && (
+                <button onClick={() => selectTemplate(selected)} disabled={busy}
+                  className="px-4 py-2 text-slate-300 hover:text-white">
+                  Discard changes
+                </button>
+              )}
+              {selected.custom && (
+                <button onClick={() => request({ method: 'DELETE' }, 'Default wording restored')} disabled={busy}
+                  className="px-4 py-2 text-slate-400 hover:text-red-400 ml-auto">
+                  Restore default
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-slate-900/60 rounded-xl p-4 border border-slate-700">
+            <p className="text-xs text-slate-500 uppercase tracking-wide mb-2">Preview with sample order</p>
+            {previewError ? (
+              <p className="text-sm text-red-400">{previewError}</p>
+            ) : preview ? (
+              <>
+                <p className="text-white font-semibold mb-2">{preview.subject}</p>
+                <p className="text-slate-300 text-sm whitespace-pre-wrap">{preview.message}</p>
+              </>
+            ) : (
+              <p className="text-sm text-slate-500">Subject and message are required.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface MessagingRule {
+  id: string;
+  name: string;
+  trigger: 'risk_changed' | 'status_changed';
+  toValues: string[];
+  statuses: string[];
+  templateKey: string | null;
+  delayHours: number;
+  quietHoursStart: number | null;
+  quietHoursEnd: number | null;
+  timezone: string;
+  maxPerOrder: number;
+  requireApproval: boolean;
+  active: boolean;
+  sentCount: number;
+}
+
+interface QueuedMessage {
+  id: string;
+  status: string;
+  sendAfter: string;
+  error: string | null;
+  rule: { id: string; name: string; templateKey: string | null };
+  order: { id: string; orderId: string; buyerName: string | null; lastStatus: string | null; riskLevel: string | null };
+  preview: { key: string; subject: string; message: string } | null;
+}
+
+const RULE_TRIGGER_LABELS: Record<MessagingRule['trigger'], string> = {
+  risk_changed: 'Risk level turns',
+  status_changed: 'Status changes to',
+};
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+const EMPTY_RULE = {
+  name: '',
+  trigger: 'risk_changed' as MessagingRule['trigger'],
+  toValues: ['yellow'],
+  statuses: [] as string[],
+  templateKey: '',
+  delayHours: 0,
+  quietHoursStart: '' as number | '',
+  quietHoursEnd: '' as number | '',
+  maxPerOrder: 1,
+  requireApproval: false,
+};
+
+// Messaging rules: buyer messages sent when an order's risk or status changes,
+// and the queue of messages waiting for approval
+function MessagingRulesSection({
+  organizationId,
+  timezone,
+  canManage,
+  canApprove,
+  onToast,
+}: {
+  organizationId: string;
+  timezone: string;
+  canManage: boolean;
+  canApprove: boolean;
+  onToast: (toast: { message: string; type: 'success' | 'error' }) => void;
+}) {
+  const [rules, setRules] = useState<MessagingRule[]>([]);
+  const [options, setOptions] = useState<{ riskLevels: string[]; statuses: string[] }>({ riskLevels: [], statuses: [] });
+  const [templates, setTemplates] = useState<{ key: string; when: string }[]>([]);
+  const [queue, setQueue] = useState<QueuedMessage[]>([]);
+  const [draft, setDraft] = useState(EMPTY_RULE);
+  const [busy, setBusy] = useState(false);
+  const apiFetch = useApiFetch();
+
+  const templateLabel = (key: string | null) =>
+    key ? templates.find((template) => template.key === key)?.when || key : 'Template for the order\'s status and risk';
+
+  const fetchRules = async () => {
+    try {
+      const [rulesRes, queueRes, templatesRes] = await Promise.all([
+        apiFetch('/api/messaging-rules'),
+        apiFetch('/api/messaging-rules/queue?status=pending_approval'),
+        apiFetch('/api/message-templates'),
+      ]);
+      const [rulesData, queueData, templatesData] = await Promise.all([rulesRes.json(), queueRes.json(), templatesRes.json()]);
+      if (!rulesRes.ok) throw new Error(rulesData.error || 'Failed to load messaging rules');
+      setRules(rulesData.rules);
+      setOptions({ riskLevels: rulesData.riskLevels, statuses: rulesData.statuses });
+      if (queueRes.ok) setQueue(queueData.messages);
+      if (templatesRes.ok) setTemplates(templatesData.templates);
+    } catch (err) {
+      console.error('Failed to fetch messaging rules:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, [organizationId]);
+
+  const request = async (path: string, init: RequestInit, success: string) => {
+    setBusy(true);
+    try {
+      const response = await apiFetch(path, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+      onToast({ message: success, type: 'success' });
+      fetchRules();
+      return data;
+    } catch (err) {
+      onToast({ message: err instanceof Error ? err.message : 'Request failed', type: 'error' });
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleIn = (list: string[], value: string) =>
+    list.includes(value) ? list.filter((entry) => entry !== value) : [...list, value];
+
+  const changeTrigger = (trigger: MessagingRule['trigger']) =>
+    setDraft({ ...draft, trigger, toValues: trigger === 'risk_changed' ? ['yellow'] : ['delivered'] });
+
+  const createRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const quietHours = draft.quietHoursStart !== '' && draft.quietHoursEnd !== '';
+    const data = await request('/api/messaging-rules', {
+      method: 'POST',
+      body: JSON.stringify({
+        ...draft,
+        name: draft.name.trim(),
+        templateKey: draft.templateKey || null,
+        quietHoursStart: quietHours ? draft.quietHoursStart : null,
+        quietHoursEnd: quietHours ? draft.quietHoursEnd : null,
+        timezone,
+      }),
+    }, 'Messaging rule added');
+    if (data) setDraft(EMPTY_RULE);
+  };
+
+  const deleteRule = (rule: MessagingRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"? Messages it has not sent yet are dropped.`)) return;
+    request(`/api/messaging-rules/${rule.id}`, { method: 'DELETE' }, 'Messaging rule deleted');
+  };
+
+  const describeRule = (rule: MessagingRule) => [
+    `${RULE_TRIGGER_LABELS[rule.trigger]} ${rule.toValues.join(' or ')}`,
+    rule.statuses.length > 0 && `while ${rule.statuses.join(' or ')}`,
+    rule.delayHours > 0 ? `after ${rule.delayHours}h` : 'right away',
+    templateLabel(rule.templateKey),
+    rule.quietHoursStart !== null && rule.quietHoursEnd !== null &&
+      `quiet ${formatHour(rule.quietHoursStart)}–${formatHour(rule.quietHoursEnd)} ${rule.timezone}`,
+    `max ${rule.maxPerOrder} per order`,
+    rule.requireApproval && 'needs approval',
+  ].filter(Boolean).join(' · ');
+
+  const selectClass = 'px-3 py-2 bg-slate-900 border border-slate-700 rounded-xl text-white text-sm focus:ring-2 focus:ring-blue-500';
+  const chipClass = (on: boolean) => `px-3 py-1 rounded-full text-xs font-medium border capitalize ${on
+    ? 'bg-blue-600 border-blue-500 text-white'
+    : 'bg-slate-900 border-slate-700 text-slate-300 hover:border-slate-500'}`;
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 mb-6">
+      <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+        <svg className="w-5 h-5 text-pink-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+            d="M13 10V3L4 14h7v7l9-11h-7z" />
+        </svg>
+        Messaging Rules
+      </h3>
+      <p className="text-slate-400 text-sm mb-4">
+        Send a buyer message through Etsy when an order&apos;s risk or status changes. Messages held by quiet hours go
+        out when they end; rules that need approval wait in the queue below. Etsy&apos;s API cannot send buyer
+        messages yet, so due messages are marked failed with that reason.
+      </p>
+
+      {queue.length > 0 && (
+        <div className="mb-4 bg-slate-900/50 rounded-xl p-3">
+          <p className="text-sm font-medium text-amber-300 mb-2">Waiting for approval ({queue.length})</p>
+          <div className="divide-y divide-slate-800">
+            {queue.map((item) => (
+              <div key={item.id} className="py-2 text-sm">
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-slate-300 min-w-0 truncate">
+                    <span className="text-white font-medium">#{item.order.orderId}</span>
+                    {item.order.buyerName && ` · ${item.order.buyerName}`} · {item.rule.name}
+                  </p>
+                  {canApprove && (
+                    <div className="flex items-center gap-3 shrink-0">
+                      <button disabled={busy}
+                        onClick={() => request(`/api/messaging-rules/queue/${item.id}/approve`, { method: 'POST' }, 'Message approved')}
+                        className="text-emerald-400 hover:text-emerald-300">
+                        Approve
+                      </button>
+                      <button disabled={busy}
+                        onClick={() => request(`/api/messaging-rules/queue/${item.id}/reject`, { method: 'POST' }, 'Message rejected')}
+                        className="text-slate-400 hover:text-red-400">
+                        Reject
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {item.preview && (
+                  <p className="text-slate-500 mt-1 line-clamp-2">
+                    <span className="text-slate-400">{item.preview.subject}</span> — {item.preview.message}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {rules.length > 0 && (
+        <div className="divide-y divide-slate-700 mb-4">
+          {rules.map((rule) => (
+            <div key={rule.id} className="py-3 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className={`font-medium ${rule.active ? 'text-white' : 'text-slate-500'}`}>
+                  {rule.name}{!rule.active && ' · off'}
+                </p>
+                <p className="text-sm text-slate-400">{describeRule(rule)}</p>
+                <p className="text-xs text-slate-500">{rule.sentCount} sent</p>
+              </div>
+              {canManage && (
+                <div className="flex items-center gap-3 text-sm shrink-0">
+                  <button disabled={busy}
+                    onClick={() => request(`/api/messaging-rules/${rule.id}`, {
+                      method: 'PATCH',
+                      body: JSON.stringify({ active: !rule.active }),
+                    }, rule.active ? 'Rule turned off' : 'Rule turned on')}
+                    className="text-slate-400 hover:text-white">
+                    {rule.active ? 'Turn off' : 'Turn on'}
+                  </button>
+                  <button onClick={() => deleteRule(rule)} disabled={busy}
+                    className="text-slate-400 hover:text-red-400">Delete</button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canManage && (
+        <form onSubmit={createRule} className="space-y-3">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Rule name (e.g. Reassure delayed buyers)"
+            maxLength={100}
+            className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-xl text-white focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={draft.trigger} onChange={(e) => changeTrigger(e.target.value as MessagingRule['trigger'])}
+              className={selectClass}>
+              {Object.entries(RULE_TRIGGER_LABELS).map(([trigger, label]) => (
+                <option key={trigger} value={trigger}>{label}</option>
+              ))}
+            </select>
+            {(draft.trigger === 'risk_changed' ? options.riskLevels : options.statuses).map((value) => (
+              <button key={value} type="button" className={chipClass(draft.toValues.includes(value))}
+                onClick={() => setDraft({ ...draft, toValues: toggleIn(draft.toValues, value) })}>
+                {value.replace(/_/g, ' ')}
+              </button>
+            ))}
+          </div>
+          {draft.trigger === 'risk_changed' && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-slate-400">Only while</span>
+              {options.statuses.map((status) => (
+                <button key={status} type="button" className={chipClass(draft.statuses.includes(status))}
+                  onClick={() => setDraft({ ...draft, statuses: toggleIn(draft.statuses, status) })}>
+                  {status.replace(/_/g, ' ')}
+                </button>
+              ))}
+              {draft.statuses.length === 0 && <span className="text-xs text-slate-500">any status</span>}
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-2 text-sm text-slate-300">
+            <span>Send</span>
+            <select value={draft.templateKey} onChange={(e) => setDraft({ ...draft, templateKey: e.target.value })}
+              className={selectClass}>
+              <option value="">{templateLabel(null)}</option>
+              {templates.map((template) => (
+                <option key={template.key} value={template.key}>{template.when}</option>
+              ))}
+            </select>
+            <span>after</span>
+            <input type="number" min={0} max={720} value={draft.delayHours}
+              onChange={(e) => setDraft({ ...draft, delayHours: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+              className={`${selectClass} w-20`} />
+            <span>hours, at most</span>
+            <input type="number" min={1} max={10} value={draft.maxPerOrder}
+              onChange={(e) => setDraft({ ...draft, maxPerOrder: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className={`${selectClass} w-16`} />
+            <span>per order</span>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-slate-300">
+            <span>Quiet hours</span>
+            {(['quietHoursStart', 'quietHoursEnd'] as const).map((field) => (
+              <select key={field} value={draft[field]}
+                onChange={(e) => setDraft({ ...draft, [field]: e.target.value === '' ? '' : Number(e.target.value) })}
+                className={selectClass}>
+                <option value="">{field === 'quietHoursStart' ? 'Off' : '—'}</option>
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <option key={hour} value={hour}>{formatHour(hour)}</option>
+                ))}
+              </select>
+            ))}
+            <span className="text-slate-500">{timezone.replace(/_/g, ' ')}</span>
+            <label className="flex items-center gap-2 ml-auto">
+              <input type="checkbox" checked={draft.requireApproval}
+                onChange={(e) => setDraft({ ...draft, requireApproval: e.target.checked })} />
+              Approve each message before it is sent
+            </label>
+          </div>
+          <button type="submit" disabled={busy || !draft.name.trim() || draft.toValues.length === 0}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-xl font-bold disabled:opacity-50">
+            Add rule
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
 export default function SettingsPage() {
   const { user, isLoaded: userLoaded } = useUser();
   const { userId } = useAuth();
+  const apiFetch = useApiFetch();
 
   const [settings, setSettings] = useState<Settings>({
     emailOnRiskChange: true,
@@ -108,14 +1568,21 @@ export default function SettingsPage() {
     emailOnException: true,
     autoCheckInterval: '6hours',
     riskSensitivity: 'medium',
+    timezone: 'UTC',
+    shipFromCountry: null,
+    defaultStoreId: null,
   });
+  const [stores, setStores] = useState<StoreOption[]>([]);
   const [originalSettings, setOriginalSettings] = useState<Settings | null>(null);
-  const [etsyStatus, setEtsyStatus] = useState<EtsyStatus>({ connected: false });
   const [billingStatus, setBillingStatus] = useState<BillingStatus | null>(null);
   const [saving, setSaving] = useState(false);
   const [loading, setLoading] = useState(true);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const [showDisconnectConfirm, setShowDisconnectConfirm] = useState(false);
+  const [organization, setOrganization] = useState<CurrentOrganization | null>(null);
+  const [organizations, setOrganizations] = useState<OrganizationOption[]>([]);
+
+  const can = (permission: string) => Boolean(organization?.permissions.includes(permission));
 
   const hasChanges = originalSettings && JSON.stringify(settings) !== JSON.stringify(originalSettings);
 
@@ -129,27 +1596,24 @@ export default function SettingsPage() {
     if (!userId) return;
     setLoading(true);
     try {
-      // Fetch Etsy status
-      const etsyRes = await fetch(`${API_URL}/api/etsy/status`, {
-        headers: { 'x-clerk-user-id': userId },
-      });
-      if (etsyRes.ok) {
-        const etsyData = await etsyRes.json();
-        setEtsyStatus(etsyData);
-      }
-
       // Fetch billing status
-      const billingRes = await fetch(`${API_URL}/api/billing/status`, {
-        headers: { 'x-clerk-user-id': userId },
-      });
+      const billingRes = await apiFetch(`/api/billing/status`);
       if (billingRes.ok) {
         const billingData = await billingRes.json();
         setBillingStatus(billingData);
       }
 
-      // TODO: Fetch user settings from API when endpoint is available
-      // For now, use default settings
-      setOriginalSettings(settings);
+      // Fetch saved settings
+      const settingsRes = await apiFetch(`/api/settings`);
+      if (settingsRes.ok) {
+        const settingsData = await settingsRes.json();
+        setSettings(settingsData.settings);
+        setOriginalSettings(settingsData.settings);
+      } else {
+        setOriginalSettings(settings);
+      }
+
+      await Promise.all([fetchStores(), fetchOrganization()]);
     } catch (err) {
       console.error('Failed to fetch data:', err);
     } finally {
@@ -157,23 +1621,56 @@ export default function SettingsPage() {
     }
   };
 
+  const fetchStores = async () => {
+    if (!userId) return;
+    const storesRes = await apiFetch(`/api/stores`);
+    if (storesRes.ok) {
+      const storesData = await storesRes.json();
+      setStores(storesData.stores);
+    }
+  };
+
+  const fetchOrganization = async () => {
+    if (!userId) return;
+    const [currentRes, listRes] = await Promise.all([
+      apiFetch(`/api/organizations/current`),
+      apiFetch(`/api/organizations`),
+    ]);
+    if (currentRes.ok) setOrganization(await currentRes.json());
+    if (listRes.ok) setOrganizations((await listRes.json()).organizations);
+  };
+
+  const switchOrganization = async (organizationId: string) => {
+    if (!userId) return;
+    const response = await apiFetch(`/api/organizations/${organizationId}/activate`, {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      setToast({ message: 'Failed to switch workspace', type: 'error' });
+      return;
+    }
+    // Stores belong to the workspace, so a saved store selection no longer applies
+    localStorage.removeItem('orderwarden:selectedStore');
+    await fetchData();
+  };
+
   const saveSettings = async () => {
     if (!userId || !hasChanges) return;
     setSaving(true);
     try {
-      // TODO: Save settings to backend when endpoint is available
-      // const response = await fetch(`${API_URL}/api/settings`, {
-      //   method: 'PUT',
-      //   headers: { 'Content-Type': 'application/json', 'x-clerk-user-id': userId },
-      //   body: JSON.stringify(settings),
-      // });
-
-      // Settings are saved locally for now (backend integration coming soon)
-      await new Promise(resolve => setTimeout(resolve, 500));
-      setOriginalSettings(settings);
-      setToast({ message: 'Settings saved for this session', type: 'success' });
+      const response = await apiFetch(`/api/settings`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save settings');
+
+      setSettings(data.settings);
+      setOriginalSettings(data.settings);
+      setToast({ message: 'Settings saved', type: 'success' });
     } catch (err) {
-      setToast({ message: 'Failed to save settings', type: 'error' });
+      setToast({ message: err instanceof Error ? err.message : 'Failed to save settings', type: 'error' });
     } finally {
       setSaving(false);
     }
@@ -182,22 +1679,17 @@ export default function SettingsPage() {
   const disconnectEtsy = async () => {
     if (!userId) return;
     try {
-      await fetch(`${API_URL}/api/etsy/disconnect`, {
+      await apiFetch(`/api/etsy/disconnect`, {
         method: 'POST',
-        headers: { 'x-clerk-user-id': userId },
       });
-      setEtsyStatus({ connected: false });
       setShowDisconnectConfirm(false);
+      fetchStores();
       setToast({ message: 'Etsy shop disconnected', type: 'success' });
     } catch (err) {
       setToast({ message: 'Failed to disconnect Etsy', type: 'error' });
     }
   };
 
-  const connectEtsy = () => {
-    window.location.href = `${API_URL}/api/etsy/auth?x-clerk-user-id=${userId}`;
-  };
-
   // Toast auto-dismiss
   useEffect(() => {
     if (toast) {
@@ -235,8 +1727,7 @@ export default function SettingsPage() {
 
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Notification Preferences */}
-        <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 mb-6 relative">
-          <span className="absolute top-4 right-4 px-2 py-1 bg-amber-500/20 text-amber-400 text-xs font-bold rounded-full">Coming Soon</span>
+        <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 mb-6">
           <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
             <svg className="w-5 h-5 text-blue-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
@@ -268,8 +1759,7 @@ export default function SettingsPage() {
         </div>
 
         {/* Tracking Preferences */}
-        <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 mb-6 relative">
-          <span className="absolute top-4 right-4 px-2 py-1 bg-amber-500/20 text-amber-400 text-xs font-bold rounded-full">Coming Soon</span>
+        <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 mb-6">
           <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
             <svg className="w-5 h-5 text-emerald-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
@@ -284,9 +1774,9 @@ export default function SettingsPage() {
               value={settings.autoCheckInterval}
               onChange={(v) => setSettings({ ...settings, autoCheckInterval: v })}
               options={[
-                { value: '6hours', label: 'Every 6 hours' },
+                { value: '6hours', label: 'Every 6 hours (default)' },
                 { value: '12hours', label: 'Every 12 hours' },
-                { value: '24hours', label: 'Every 24 hours (default)' },
+                { value: '24hours', label: 'Every 24 hours' },
                 { value: '48hours', label: 'Every 48 hours' },
               ]}
             />
@@ -301,9 +1791,87 @@ export default function SettingsPage() {
                 { value: 'high', label: 'High - Flag any anomaly early' },
               ]}
             />
+            <SelectField
+              label="Time zone"
+              description="Used for expected delivery dates and alert timing"
+              value={settings.timezone}
+              onChange={(v) => setSettings({ ...settings, timezone: v })}
+              options={(TIMEZONES.includes(settings.timezone) ? TIMEZONES : [settings.timezone, ...TIMEZONES])
+                .map((tz) => ({ value: tz, label: tz.replace(/_/g, ' ') }))}
+            />
+            <div className="py-3">
+              <label className="block">
+                <p className="text-white font-medium mb-1">Ship-from country</p>
+                <p className="text-sm text-slate-400 mb-2">Orders to another country count as international for delivery estimates and risk rules</p>
+                <input
+                  type="text"
+                  maxLength={2}
+                  value={settings.shipFromCountry || ''}
+                  onChange={(e) => setSettings({ ...settings, shipFromCountry: e.target.value.toUpperCase() || null })}
+                  placeholder="e.g. US"
+                  className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-xl text-white focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+            </div>
+            {stores.length > 0 && (
+              <SelectField
+                label="Default store"
+                description="Store that new orders are added to when none is chosen"
+                value={settings.defaultStoreId || ''}
+                onChange={(v) => setSettings({ ...settings, defaultStoreId: v || null })}
+                options={[
+                  { value: '', label: 'First store (automatic)' },
+                  ...stores.map((store) => ({ value: store.id, label: store.storeName })),
+                ]}
+              />
+            )}
           </div>
         </div>
 
+        {userId && organization && (
+          <TeamSection
+            userId={userId}
+            current={organization}
+            organizations={organizations}
+            onSwitch={switchOrganization}
+            onChanged={fetchData}
+            onToast={setToast}
+          />
+        )}
+
+        {userId && (
+          <StoresSection
+            userId={userId}
+            stores={stores}
+            canManage={can('stores:manage')}
+            canManageEtsy={can('etsy:manage')}
+            onChanged={fetchStores}
+            onToast={setToast}
+          />
+        )}
+
+        {organization && (
+          <ApiKeysSection organization={organization.organization} onToast={setToast} />
+        )}
+
+        {organization && can('webhooks:manage') && (
+          <WebhooksSection organizationId={organization.organization.id} onToast={setToast} />
+        )}
+
+        {organization && can('messages:manage') && (
+          <MessageTemplatesSection organizationId={organization.organization.id} onToast={setToast} />
+        )}
+
+        {organization && (
+          <MessagingRulesSection
+            organizationId={organization.organization.id}
+            timezone={originalSettings?.timezone || 'UTC'}
+            canManage={can('messages:manage')}
+            canApprove={can('orders:write')}
+            onToast={setToast}
+          />
+        )}
+
         {/* Account Info */}
         <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 mb-6">
           <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
@@ -330,23 +1898,20 @@ export default function SettingsPage() {
               </span>
             </div>
             <div className="flex justify-between items-center py-3">
-              <span className="text-slate-400">Connected Etsy Shop</span>
-              {etsyStatus.connected ? (
-                <span className="text-emerald-400 font-medium">{etsyStatus.shopName}</span>
-              ) : (
-                <span className="text-amber-400 font-medium flex items-center gap-2">
-                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                  </svg>
-                  Coming Soon
+              <span className="text-slate-400">Connected Etsy Shops</span>
+              {stores.some((store) => store.etsy) ? (
+                <span className="text-emerald-400 font-medium">
+                  {stores.filter((store) => store.etsy).map((store) => store.etsy?.shopName).join(', ')}
                 </span>
+              ) : (
+                <span className="text-slate-500 font-medium">None yet (connect one under Stores)</span>
               )}
             </div>
           </div>
         </div>
 
         {/* Danger Zone */}
-        {etsyStatus.connected && (
+        {can('etsy:manage') && stores.some((store) => store.etsy) && (
           <div className="bg-red-900/20 rounded-2xl p-6 border border-red-500/30 mb-6">
             <h3 className="text-xl font-bold text-red-400 mb-4 flex items-center gap-2">
               <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -357,8 +1922,8 @@ export default function SettingsPage() {
             </h3>
             <div className="flex justify-between items-center">
               <div>
-                <p className="text-white font-medium">Disconnect Etsy Shop</p>
-                <p className="text-sm text-slate-400">Remove the connection to your Etsy shop</p>
+                <p className="text-white font-medium">Disconnect Etsy Shops</p>
+                <p className="text-sm text-slate-400">Remove the connection to every Etsy shop</p>
               </div>
               <button
                 onClick={() => setShowDisconnectConfirm(true)}
@@ -422,9 +1987,9 @@ export default function SettingsPage() {
                 </svg>
               </div>
             </div>
-            <h2 className="text-2xl font-black text-white text-center mb-3">Disconnect Etsy Shop?</h2>
+            <h2 className="text-2xl font-black text-white text-center mb-3">Disconnect Etsy Shops?</h2>
             <p className="text-slate-400 text-center mb-8">
-              Are you sure you want to disconnect your Etsy shop? You'll need to reconnect to sync orders again.
+              Are you sure you want to disconnect all of your Etsy shops? You'll need to reconnect to sync orders again.
             </p>
             <div className="flex gap-3">
               <button
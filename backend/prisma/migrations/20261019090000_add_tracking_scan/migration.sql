@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "TrackingScan" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "location" TEXT,
+    "description" TEXT NOT NULL,
+    "statusCode" TEXT,
+    "provider" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TrackingScan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TrackingScan_orderId_idx" ON "TrackingScan"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TrackingScan_orderId_timestamp_description_key" ON "TrackingScan"("orderId", "timestamp", "description");
+
+-- AddForeignKey
+ALTER TABLE "TrackingScan" ADD CONSTRAINT "TrackingScan_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "deliveredAt" TIMESTAMP(3),
+ADD COLUMN     "etaSource" TEXT,
+ADD COLUMN     "expectedDeliveryAt" TIMESTAMP(3);
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "UserSettings" ADD COLUMN     "emailOnDelivery" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "emailOnException" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "emailOnRiskChange" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "EmailAlert" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "orderId" TEXT,
+    "type" TEXT NOT NULL,
+    "dedupeKey" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "delivery" TEXT,
+    "error" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmailAlert_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EmailAlert_userId_status_idx" ON "EmailAlert"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "EmailAlert_status_createdAt_idx" ON "EmailAlert"("status", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailAlert_userId_dedupeKey_key" ON "EmailAlert"("userId", "dedupeKey");
+
+-- AddForeignKey
+ALTER TABLE "EmailAlert" ADD CONSTRAINT "EmailAlert_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "UserSettings" ADD COLUMN     "autoCheckInterval" TEXT NOT NULL DEFAULT '6hours',
+ADD COLUMN     "defaultStoreId" TEXT,
+ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- AddForeignKey
+ALTER TABLE "UserSettings" ADD CONSTRAINT "UserSettings_defaultStoreId_fkey" FOREIGN KEY ("defaultStoreId") REFERENCES "Store"("id") ON DELETE SET NULL ON UPDATE CASCADE;
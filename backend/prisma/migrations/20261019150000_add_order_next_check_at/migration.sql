@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "nextCheckAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Order_nextCheckAt_idx" ON "Order"("nextCheckAt");
@@ -0,0 +1,28 @@
+-- DropIndex
+DROP INDEX "EtsyConnection_userId_key";
+
+-- AlterTable
+ALTER TABLE "EtsyConnection" ADD COLUMN     "storeId" TEXT;
+
+-- Backfill: give connected users without a store one named after the shop
+INSERT INTO "Store" ("id", "userId", "platform", "storeName", "createdAt", "updatedAt")
+SELECT 'store_' || c."id", c."userId", 'etsy', c."shopName", CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "EtsyConnection" c
+WHERE c."etsyShopId" <> ''
+  AND NOT EXISTS (SELECT 1 FROM "Store" s WHERE s."userId" = c."userId");
+
+-- Backfill: link each existing connection to the store sync used (the user's first)
+UPDATE "EtsyConnection" c
+SET "storeId" = (
+  SELECT s."id" FROM "Store" s
+  WHERE s."userId" = c."userId"
+  ORDER BY s."createdAt" ASC
+  LIMIT 1
+)
+WHERE c."etsyShopId" <> '';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EtsyConnection_storeId_key" ON "EtsyConnection"("storeId");
+
+-- AddForeignKey
+ALTER TABLE "EtsyConnection" ADD CONSTRAINT "EtsyConnection_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE CASCADE ON UPDATE CASCADE;
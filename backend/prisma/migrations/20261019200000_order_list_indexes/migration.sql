@@ -0,0 +1,17 @@
+-- AlterTable
+-- riskLevel as a number so order lists can sort by severity. Prisma does not
+-- model generated columns; the schema declares it as a plain optional Int.
+ALTER TABLE "Order" ADD COLUMN "riskRank" INTEGER GENERATED ALWAYS AS (
+    CASE "riskLevel"
+        WHEN 'red' THEN 3
+        WHEN 'yellow' THEN 2
+        WHEN 'green' THEN 1
+        ELSE 0
+    END
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Order_storeId_createdAt_idx" ON "Order"("storeId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Order_storeId_riskRank_idx" ON "Order"("storeId", "riskRank");
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "ExportJob" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "columns" TEXT[],
+    "filters" JSONB NOT NULL,
+    "storeIds" TEXT[],
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "rowCount" INTEGER,
+    "fileName" TEXT,
+    "file" BYTEA,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExportJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExportJob_organizationId_userId_createdAt_idx" ON "ExportJob"("organizationId", "userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ExportJob_status_createdAt_idx" ON "ExportJob"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ExportJob" ADD CONSTRAINT "ExportJob_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExportJob" ADD CONSTRAINT "ExportJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "buyerEmail" TEXT,
+ADD COLUMN     "buyerName" TEXT,
+ADD COLUMN     "currency" TEXT,
+ADD COLUMN     "orderTotalCents" INTEGER,
+ADD COLUMN     "shipToCity" TEXT,
+ADD COLUMN     "shipToCountry" TEXT,
+ADD COLUMN     "shippedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "OrderItem" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "priceCents" INTEGER,
+    "sku" TEXT,
+    "externalId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderItem_orderId_idx" ON "OrderItem"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
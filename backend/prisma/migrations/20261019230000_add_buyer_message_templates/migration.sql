@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "BuyerMessageTemplate" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "updatedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BuyerMessageTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BuyerMessageTemplate_organizationId_key_key" ON "BuyerMessageTemplate"("organizationId", "key");
+
+-- AddForeignKey
+ALTER TABLE "BuyerMessageTemplate" ADD CONSTRAINT "BuyerMessageTemplate_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "MessageTemplate" ADD COLUMN     "action" TEXT NOT NULL DEFAULT 'sent',
+ADD COLUMN     "custom" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "subject" TEXT,
+ADD COLUMN     "templateKey" TEXT,
+ADD COLUMN     "userId" TEXT;
+
+-- Rows for orders that no longer exist would block the foreign key
+DELETE FROM "MessageTemplate" WHERE "orderId" NOT IN (SELECT "id" FROM "Order");
+
+-- AddForeignKey
+ALTER TABLE "MessageTemplate" ADD CONSTRAINT "MessageTemplate_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "EtsyConnection" ADD COLUMN     "scopes" TEXT[];
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "etsyBuyerId" TEXT;
+
+-- AlterTable
+ALTER TABLE "MessageTemplate" ADD COLUMN     "channel" TEXT,
+ADD COLUMN     "dedupeKey" TEXT,
+ADD COLUMN     "externalId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MessageTemplate_orderId_dedupeKey_key" ON "MessageTemplate"("orderId", "dedupeKey");
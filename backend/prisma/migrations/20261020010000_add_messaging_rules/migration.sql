@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "MessagingRule" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "name" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "toValues" TEXT[],
+    "statuses" TEXT[],
+    "templateKey" TEXT,
+    "delayHours" INTEGER NOT NULL DEFAULT 0,
+    "quietHoursStart" INTEGER,
+    "quietHoursEnd" INTEGER,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "maxPerOrder" INTEGER NOT NULL DEFAULT 1,
+    "requireApproval" BOOLEAN NOT NULL DEFAULT false,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MessagingRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ScheduledMessage" (
+    "id" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'scheduled',
+    "sendAfter" TIMESTAMP(3) NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "messageId" TEXT,
+    "error" TEXT,
+    "decidedById" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScheduledMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MessagingRule_organizationId_active_idx" ON "MessagingRule"("organizationId", "active");
+
+-- CreateIndex
+CREATE INDEX "ScheduledMessage_status_sendAfter_idx" ON "ScheduledMessage"("status", "sendAfter");
+
+-- CreateIndex
+CREATE INDEX "ScheduledMessage_ruleId_orderId_idx" ON "ScheduledMessage"("ruleId", "orderId");
+
+-- CreateIndex
+CREATE INDEX "ScheduledMessage_orderId_idx" ON "ScheduledMessage"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "MessagingRule" ADD CONSTRAINT "MessagingRule_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScheduledMessage" ADD CONSTRAINT "ScheduledMessage_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "MessagingRule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScheduledMessage" ADD CONSTRAINT "ScheduledMessage_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "buyerLanguage" TEXT,
+ADD COLUMN "messageLocale" TEXT;
+
+-- AlterTable
+ALTER TABLE "BuyerMessageTemplate" ADD COLUMN "locale" TEXT NOT NULL DEFAULT 'en';
+
+-- AlterTable
+ALTER TABLE "MessageTemplate" ADD COLUMN "locale" TEXT;
+
+-- DropIndex
+DROP INDEX "BuyerMessageTemplate_organizationId_key_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BuyerMessageTemplate_organizationId_key_locale_key" ON "BuyerMessageTemplate"("organizationId", "key", "locale");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "etsyReceiptId" TEXT,
+ADD COLUMN "etsyShipmentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Order_etsyReceiptId_idx" ON "Order"("etsyReceiptId");
+
+-- Orders synced before this were keyed by receipt id
+UPDATE "Order" o SET "etsyReceiptId" = o."orderId"
+FROM "EtsyConnection" c
+WHERE c."storeId" = o."storeId" AND o."orderId" ~ '^[0-9]+$';
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "EtsyConnection" ADD COLUMN "nextSyncAt" TIMESTAMP(3),
+ADD COLUMN "syncFailures" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "lastSyncError" TEXT,
+ADD COLUMN "disabledReason" TEXT;
+
+-- CreateIndex
+CREATE INDEX "EtsyConnection_syncEnabled_nextSyncAt_idx" ON "EtsyConnection"("syncEnabled", "nextSyncAt");
@@ -0,0 +1,2 @@
+-- Receivers' responses are no longer kept
+ALTER TABLE "WebhookDelivery" DROP COLUMN "responseBody";
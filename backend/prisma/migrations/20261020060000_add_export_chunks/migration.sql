@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ExportChunk" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "data" BYTEA NOT NULL,
+
+    CONSTRAINT "ExportChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExportChunk_jobId_index_key" ON "ExportChunk"("jobId", "index");
+
+-- AddForeignKey
+ALTER TABLE "ExportChunk" ADD CONSTRAINT "ExportChunk_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "ExportJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Files already built become a single chunk
+INSERT INTO "ExportChunk" ("id", "jobId", "index", "data")
+SELECT "id" || '_0', "id", 0, "file" FROM "ExportJob" WHERE "file" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "ExportJob" DROP COLUMN "file";
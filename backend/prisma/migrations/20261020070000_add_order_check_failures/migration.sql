@@ -0,0 +1,2 @@
+-- Failed tracking lookups in a row, used to back off the next check
+ALTER TABLE "Order" ADD COLUMN "checkFailures" INTEGER NOT NULL DEFAULT 0;
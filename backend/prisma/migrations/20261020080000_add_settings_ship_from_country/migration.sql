@@ -0,0 +1,2 @@
+-- Country the seller ships from, compared with Order.shipToCountry
+ALTER TABLE "UserSettings" ADD COLUMN "shipFromCountry" TEXT;
@@ -0,0 +1,2 @@
+-- Etsy never supplies the buyer's language; message language is picked by hand or by country
+ALTER TABLE "Order" DROP COLUMN "buyerLanguage";
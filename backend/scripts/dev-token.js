@@ -0,0 +1,14 @@
+// scripts/dev-token.js - Print a session token from the local stand-in signer
+//
+//   AUTH_LOCAL_SIGNER=true npm run dev      # server trusts the local key
+//   npm run dev-token -- user_123 [hours]   # curl -H "Authorization: Bearer <token>"
+const { getLocalSigner } = require('../src/services/auth');
+
+const [userId, hours = '12'] = process.argv.slice(2);
+if (!userId) {
+  console.error('Usage: npm run dev-token -- <userId> [hours]');
+  process.exit(1);
+}
+
+const signer = getLocalSigner();
+console.log(signer.sign({ sub: userId }, { expiresInSeconds: Number(hours) * 60 * 60 }));
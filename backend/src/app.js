@@ -5,14 +5,18 @@ const app = express();
 // Middleware
 // Preserve raw body for LemonSqueezy webhooks
 app.use("/api/billing/webhook", express.raw({ type: "application/json" }));
+// Same for carrier tracking pushes
+app.use("/api/tracking/webhook", express.raw({ type: "application/json" }));
+// CSV imports arrive as text inside JSON; allow them more than the default 100kb
+app.use("/api/orders/import", express.json({ limit: "5mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
 // CORS (if needed for frontend)
 app.use((req, res, next) => {
   res.header("Access-Control-Allow-Origin", "*");
-  res.header("Access-Control-Allow-Headers", "Origin, X-Requested-With, Content-Type, Accept, Authorization, x-clerk-user-id");
-  res.header("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
+  res.header("Access-Control-Allow-Headers", "Origin, X-Requested-With, Content-Type, Accept, Authorization, x-organization-id");
+  res.header("Access-Control-Allow-Methods", "GET, POST, PUT, PATCH, DELETE, OPTIONS");
   if (req.method === "OPTIONS") {
     return res.sendStatus(200);
   }
@@ -45,13 +49,28 @@ app.get("/debug/env", (req, res) => {
   });
 });
 
+// Verify Clerk session tokens (sets req.auth); webhooks and cron use their own secrets
+app.use("/api", require("./middleware/authenticate").authenticate);
+
 // ⚠️ CRITICAL: Routes must be mounted - DO NOT COMMENT OUT
+// Before /api/orders so "export" is not taken for an order id
+app.use("/api/orders/export", require("./routes/orderExports"));
 app.use("/api/orders", require("./routes/orders"));
 app.use("/api", require("./routes/me"));
 app.use("/api/etsy", require("./routes/etsy"));
 app.use("/api/cron", require("./routes/cron"));
 app.use("/api/metrics", require("./routes/metrics"));
 app.use("/api/billing", require("./routes/billing"));
+app.use("/api/settings", require("./routes/settings"));
+app.use("/api/risk-rules", require("./routes/riskRules"));
+app.use("/api/notifications", require("./routes/notifications"));
+app.use("/api/tracking", require("./routes/tracking"));
+app.use("/api/stores", require("./routes/stores"));
+app.use("/api/organizations", require("./routes/organizations"));
+app.use("/api/api-keys", require("./routes/apiKeys"));
+app.use("/api/webhooks", require("./routes/webhooks"));
+app.use("/api/message-templates", require("./routes/messageTemplates"));
+app.use("/api/messaging-rules", require("./routes/messagingRules"));
 
 // 404 handler
 app.use((req, res) => {
@@ -0,0 +1,72 @@
+// middleware/authenticate.js - Verifies the bearer credential on every API request
+//
+// `Authorization: Bearer <token>` is either a Clerk session token, which sets
+// req.auth to { userId, sessionId, claims }, or an API key (ow_...), which
+// sets { userId, apiKeyId, organizationId, scopes }. Requests without one pass
+// through unauthenticated; routes that need a user reject them with
+// requireAuth/authorize. A bad credential is a 401 straight away rather than
+// being treated as anonymous.
+const { getSessionVerifier } = require("../services/auth");
+const { InvalidTokenError } = require("../services/auth/sessionTokens");
+const { isApiKey, verifyApiKey } = require("../services/apiKeyService");
+const { syncUserEmail } = require("../services/auth/userEmail");
+
+function getBearerToken(req) {
+  const header = req.headers.authorization || "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+async function authenticateApiKey(req, res, next, key) {
+  try {
+    const apiKey = await verifyApiKey(key);
+    if (!apiKey) {
+      return res.status(401).json({ error: "Invalid API key" });
+    }
+
+    req.auth = {
+      userId: apiKey.userId,
+      apiKeyId: apiKey.id,
+      organizationId: apiKey.organizationId,
+      scopes: apiKey.scopes
+    };
+    next();
+  } catch (error) {
+    console.error("[Auth] API key lookup error:", error);
+    res.status(500).json({ error: "Failed to verify API key" });
+  }
+}
+
+async function authenticate(req, res, next) {
+  const token = getBearerToken(req);
+  if (!token) return next();
+
+  if (isApiKey(token)) {
+    return authenticateApiKey(req, res, next, token);
+  }
+
+  const verifier = getSessionVerifier();
+  if (!verifier) {
+    console.error("[Auth] No session verifier configured (set CLERK_JWKS_URL)");
+    return res.status(503).json({ error: "Authentication is not configured" });
+  }
+
+  try {
+    req.auth = await verifier.verify(token);
+    // Alert emails need the real address; a failed sync must not fail the request
+    syncUserEmail(req.auth.userId, req.auth.claims)
+      .catch((error) => console.error("[Auth] Email sync error:", error.message));
+    next();
+  } catch (error) {
+    if (error instanceof InvalidTokenError) {
+      return res.status(401).json({ error: "Invalid session token", message: error.message });
+    }
+    console.error("[Auth] Token verification error:", error);
+    res.status(503).json({ error: "Failed to verify session token" });
+  }
+}
+
+module.exports = {
+  getBearerToken,
+  authenticate
+};
@@ -0,0 +1,97 @@
+// middleware/authorize.js - Authentication and role-based access to a workspace
+//
+//   router.get("/", authorize("orders:read"), handler)
+//
+// sets req.userId (from req.auth, see middleware/authenticate.js),
+// req.organization ({ id, name }), req.membership ({ role })
+// and req.storeIds (the organization's stores). Permissions per role live in
+// services/organizationService.js.
+//
+// API keys only get through authorize(permission) for a permission among their
+// scopes, and always act in the organization they were created in. Routes
+// using requireAuth or authorize() without a permission need a session.
+const { resolveMembership, hasPermission } = require("../services/organizationService");
+const { getOrganizationStoreIds } = require("../services/storeService");
+
+// Helper: Get authenticated user ID from the verified session token
+function getAuthUserId(req) {
+  return req.auth?.userId || null;
+}
+
+// A session or an API key
+function requireUser(req, res, next) {
+  const userId = getAuthUserId(req);
+  if (!userId) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  req.userId = userId;
+  next();
+}
+
+// A session only
+function requireAuth(req, res, next) {
+  if (req.auth?.apiKeyId) {
+    return res.status(403).json({ error: "API keys cannot access this endpoint" });
+  }
+  requireUser(req, res, next);
+}
+
+// Resolve the organization the request acts in (x-organization-id, else the active one)
+async function loadOrganization(req, res, next) {
+  try {
+    const requested = req.auth?.organizationId
+      || req.headers["x-organization-id"]
+      || req.query.organizationId
+      || null;
+    const membership = await resolveMembership(req.userId, requested);
+
+    if (!membership) {
+      return res.status(403).json({ error: "You are not a member of this organization" });
+    }
+
+    req.organization = membership.organization;
+    req.membership = { role: membership.role };
+    req.storeIds = await getOrganizationStoreIds(membership.organization.id);
+    next();
+  } catch (error) {
+    console.error("[Auth] Organization lookup error:", error);
+    res.status(500).json({ error: "Failed to resolve organization" });
+  }
+}
+
+function requirePermission(permission) {
+  return (req, res, next) => {
+    if (!hasPermission(req.membership?.role, permission)) {
+      return res.status(403).json({
+        error: "Insufficient permissions",
+        required: permission,
+        role: req.membership?.role || null
+      });
+    }
+    if (req.auth?.scopes && !req.auth.scopes.includes(permission)) {
+      return res.status(403).json({
+        error: "API key is missing the required scope",
+        required: permission
+      });
+    }
+    next();
+  };
+}
+
+/**
+ * Authenticate, load the organization and, when given, check a permission
+ */
+function authorize(permission) {
+  const chain = [permission ? requireUser : requireAuth, loadOrganization];
+  if (permission) chain.push(requirePermission(permission));
+  return chain;
+}
+
+module.exports = {
+  getAuthUserId,
+  requireUser,
+  requireAuth,
+  loadOrganization,
+  requirePermission,
+  authorize
+};
@@ -0,0 +1,69 @@
+// routes/apiKeys.js - API keys for programmatic access (managed from a session only)
+const express = require("express");
+const router = express.Router();
+
+const {
+  API_KEY_SCOPES,
+  scopesBeyondRole,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey
+} = require("../services/apiKeyService");
+const { authorize } = require("../middleware/authorize");
+const { validateApiKeyCreate } = require("../utils/validation");
+
+// GET /api/api-keys - The user's keys across workspaces, plus the scopes a new
+// key in the current workspace may be given
+router.get("/", authorize(), async (req, res) => {
+  try {
+    const apiKeys = await listApiKeys(req.userId);
+    const grantable = API_KEY_SCOPES.filter(
+      scope => scopesBeyondRole(req.membership.role, [scope]).length === 0
+    );
+    res.json({ apiKeys, scopes: API_KEY_SCOPES, grantableScopes: grantable });
+  } catch (error) {
+    console.error("[ApiKeys] List error:", error);
+    res.status(500).json({ error: "Failed to fetch API keys" });
+  }
+});
+
+// POST /api/api-keys - Create a key in the current workspace.
+// The key itself is only returned here.
+router.post("/", authorize(), async (req, res) => {
+  try {
+    const validation = validateApiKeyCreate(req.body);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const denied = scopesBeyondRole(req.membership.role, validation.value.scopes);
+    if (denied.length > 0) {
+      return res.status(403).json({
+        error: "Your role cannot grant these scopes",
+        scopes: denied
+      });
+    }
+
+    const { apiKey, key } = await createApiKey(req.userId, req.organization.id, validation.value);
+    res.status(201).json({ apiKey, key });
+  } catch (error) {
+    console.error("[ApiKeys] Create error:", error);
+    res.status(500).json({ error: "Failed to create API key" });
+  }
+});
+
+// DELETE /api/api-keys/:id - Revoke a key
+router.delete("/:id", authorize(), async (req, res) => {
+  try {
+    const revoked = await revokeApiKey(req.userId, req.params.id);
+    if (!revoked) {
+      return res.status(404).json({ error: "API key not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("[ApiKeys] Revoke error:", error);
+    res.status(500).json({ error: "Failed to revoke API key" });
+  }
+});
+
+module.exports = router;
@@ -3,6 +3,8 @@ const express = require("express");
 const router = express.Router();
 const crypto = require("crypto");
 const prisma = require("../db/prisma");
+const { getOrganizationOwnerId } = require("../services/organizationService");
+const { authorize } = require("../middleware/authorize");
 
 // LemonSqueezy config from environment
 const LEMONSQUEEZY_API_KEY = process.env.LEMONSQUEEZY_API_KEY;
@@ -12,11 +14,6 @@ const LEMONSQUEEZY_WEBHOOK_SECRET = process.env.LEMONSQUEEZY_WEBHOOK_SECRET || "
 
 const FREE_ORDER_LIMIT = 10;
 
-// Helper: Get authenticated user ID from Clerk
-function getAuthUserId(req) {
-  return req.auth?.userId || req.headers["x-clerk-user-id"] || null;
-}
-
 // Helper: Get or create user with subscription defaults
 async function getOrCreateUser(userId) {
   return await prisma.user.upsert({
@@ -51,14 +48,12 @@ function getNextMonthStart() {
 
 /**
  * GET /api/billing/status
- * Returns user's current subscription status and order usage
+ * Returns the workspace's subscription status and order usage. The plan is
+ * the organization owner's, shared by every member.
  */
-router.get("/status", async (req, res) => {
+router.get("/status", authorize("billing:read"), async (req, res) => {
   try {
-    const userId = getAuthUserId(req);
-    if (!userId) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
+    const userId = (await getOrganizationOwnerId(req.organization.id)) || req.userId;
 
     const user = await getOrCreateUser(userId);
 
@@ -93,14 +88,11 @@ router.get("/status", async (req, res) => {
 
 /**
  * POST /api/billing/create-checkout
- * Creates a LemonSqueezy checkout URL for the Pro plan
+ * Creates a LemonSqueezy checkout URL for the Pro plan (owners only)
  */
-router.post("/create-checkout", async (req, res) => {
+router.post("/create-checkout", authorize("billing:manage"), async (req, res) => {
   try {
-    const userId = getAuthUserId(req);
-    if (!userId) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
+    const { userId } = req;
 
     const user = await getOrCreateUser(userId);
 
@@ -124,14 +116,11 @@ router.post("/create-checkout", async (req, res) => {
 
 /**
  * GET /api/billing/portal
- * Returns the customer portal URL for managing subscription
+ * Returns the customer portal URL for managing subscription (owners only)
  */
-router.get("/portal", async (req, res) => {
+router.get("/portal", authorize("billing:manage"), async (req, res) => {
   try {
-    const userId = getAuthUserId(req);
-    if (!userId) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
+    const { userId } = req;
 
     const user = await prisma.user.findUnique({
       where: { id: userId },
@@ -2,11 +2,21 @@
 const express = require('express');
 const router = express.Router();
 const prisma = require('../db/prisma');
-const { checkTrackingStatus } = require('../services/trackingService');
+const { checkTrackingStatusBatch } = require('../services/trackingService');
+const { dueOrdersWhere, deferFailedCheck } = require('../services/checkScheduler');
+const { createTrackingContextLoader, applyTrackingResult } = require('../services/orderTrackingService');
+const { sendDigests } = require('../services/email');
+const { retryDueDeliveries } = require('../services/webhookService');
+const { processExportJobs } = require('../services/orderExportService');
+const { processScheduledMessages } = require('../services/messagingRuleService');
+const { syncDueConnections } = require('../services/etsySyncService');
 
 // Secret key to protect cron endpoints (set in Railway env vars)
 const CRON_SECRET = process.env.CRON_SECRET || 'default-cron-secret';
 
+// Max orders swept per run - lookups are batched, so this can be large
+const CRON_MAX_ORDERS = Number(process.env.CRON_MAX_ORDERS || 1000);
+
 // Middleware to verify cron requests
 function verifyCronSecret(req, res, next) {
   const providedSecret = req.headers['x-cron-secret'] || req.query.secret;
@@ -21,33 +31,22 @@ function verifyCronSecret(req, res, next) {
 
 /**
  * POST /api/cron/check-tracking
- * Automated tracking check for all non-delivered orders
- * Should be called by Railway cron every 2-4 hours
+ * Automated tracking check for every order whose nextCheckAt has passed
+ * (see services/checkScheduler.js). Carrier push webhooks update orders as
+ * scans happen; this sweep is the safety net for missed or unsupported pushes.
+ * Should be called by Railway cron every hour
  */
 router.post('/check-tracking', verifyCronSecret, async (req, res) => {
   const startTime = Date.now();
   console.log('[Cron] Starting automated tracking check...');
   
   try {
-    // Get all orders that aren't delivered and haven't been checked in the last 2 hours
-    const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
-    
+    // Get all orders that are due a check
     const orders = await prisma.order.findMany({
-      where: {
-        AND: [
-          // Not delivered
-          { lastStatus: { not: 'delivered' } },
-          // Either never checked OR checked more than 2 hours ago
-          {
-            OR: [
-              { lastUpdateAt: null },
-              { lastUpdateAt: { lt: twoHoursAgo } }
-            ]
-          }
-        ]
-      },
-      take: 100, // Process max 100 orders per run to avoid timeouts
-      orderBy: { lastUpdateAt: 'asc' } // Oldest first
+      where: dueOrdersWhere(),
+      include: { store: { select: { userId: true } } },
+      take: CRON_MAX_ORDERS,
+      orderBy: { nextCheckAt: { sort: 'asc', nulls: 'first' } } // Most overdue first
     });
 
     console.log(`[Cron] Found ${orders.length} orders to check`);
@@ -56,31 +55,42 @@ router.post('/check-tracking', verifyCronSecret, async (req, res) => {
     let checked = 0;
     let updated = 0;
     let errors = 0;
+    let notificationsCreated = 0;
     const riskChanges = [];
 
-    for (const order of orders) {
+    // Risk rules and check interval are per user; load each user's once per run
+    const contextFor = createTrackingContextLoader();
+
+    // Look up every order in batched provider calls
+    const trackingResults = await checkTrackingStatusBatch(
+      orders.map(order => ({ trackingNumber: order.trackingNumber, carrier: order.carrier }))
+    );
+
+    for (const [index, order] of orders.entries()) {
+      const trackingResult = trackingResults[index];
+
       try {
-        console.log(`[Cron] Checking order ${order.orderId} (${order.trackingNumber})`);
-        
-        // Check tracking status
-        const trackingResult = await checkTrackingStatus(order.trackingNumber, order.carrier);
-        
-        // Track if risk level changed
+        // Leave the order as-is on provider failure and retry it later
+        if (trackingResult.error) {
+          console.error(`[Cron] Tracking failed for ${order.orderId}: ${trackingResult.error}`);
+          errors++;
+          await deferFailedCheck(order);
+          continue;
+        }
+
+        const userId = order.store?.userId;
         const oldRisk = order.riskLevel;
-        const newRisk = trackingResult.riskLevel;
+        const { risk, notificationsCreated: created } = await applyTrackingResult(
+          order,
+          trackingResult,
+          await contextFor(userId)
+        );
+        notificationsCreated += created;
+
+        // Track if risk level changed
+        const newRisk = risk.riskLevel;
         const riskChanged = oldRisk !== newRisk;
         
-        // Update order in database
-        await prisma.order.update({
-          where: { id: order.id },
-          data: {
-            lastStatus: trackingResult.status,
-            riskLevel: trackingResult.riskLevel,
-            lastUpdateAt: new Date(),
-            carrier: trackingResult.carrier || order.carrier
-          }
-        });
-        
         checked++;
         
         if (riskChanged) {
@@ -90,18 +100,19 @@ router.post('/check-tracking', verifyCronSecret, async (req, res) => {
             trackingNumber: order.trackingNumber,
             oldRisk,
             newRisk,
-            status: trackingResult.status
+            status: trackingResult.status,
+            reasons: risk.reasons.map(reason => reason.code)
           });
           
           console.log(`[Cron] Risk changed for ${order.orderId}: ${oldRisk} → ${newRisk}`);
         }
         
-        // Small delay to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
       } catch (err) {
-        console.error(`[Cron] Error checking order ${order.orderId}:`, err.message);
+        console.error(`[Cron] Error updating order ${order.orderId}:`, err.message);
         errors++;
+        await deferFailedCheck(order).catch(deferError => {
+          console.error(`[Cron] Could not defer order ${order.orderId}:`, deferError.message);
+        });
       }
     }
 
@@ -122,7 +133,8 @@ router.post('/check-tracking', verifyCronSecret, async (req, res) => {
         totalChecked: checked,
         riskUpdated: updated,
         errors,
-        highRiskAlerts: highRiskOrders.length
+        highRiskAlerts: highRiskOrders.length,
+        notifications: notificationsCreated
       },
       riskChanges: riskChanges.slice(0, 10) // Only return first 10 changes
     };
@@ -138,6 +150,148 @@ router.post('/check-tracking', verifyCronSecret, async (req, res) => {
 });
 
 
+/**
+ * POST /api/cron/email-digest
+ * Email each user the alerts held back by the hourly instant-email limit
+ * Should be called by Railway cron once or twice a day
+ */
+router.post('/email-digest', verifyCronSecret, async (req, res) => {
+  const startTime = Date.now();
+  console.log('[Cron] Sending email digests...');
+
+  try {
+    const summary = await sendDigests();
+    const duration = Date.now() - startTime;
+
+    console.log(`[Cron] Digests: ${summary.emails} emails covering ${summary.alerts} alerts, ${summary.errors} errors in ${duration}ms`);
+
+    res.json({
+      success: true,
+      duration: `${duration}ms`,
+      summary
+    });
+
+  } catch (error) {
+    console.error('[Cron] Digest error:', error);
+    res.status(500).json({ error: 'Digest job failed', message: error.message });
+  }
+});
+
+
+/**
+ * POST /api/cron/webhook-deliveries
+ * Retry outbound webhook deliveries whose backoff has elapsed
+ * (see services/webhookService.js). Should be called by Railway cron every
+ * few minutes; retries are never sooner than the call interval.
+ */
+router.post('/webhook-deliveries', verifyCronSecret, async (req, res) => {
+  const startTime = Date.now();
+
+  try {
+    const summary = await retryDueDeliveries();
+    const duration = Date.now() - startTime;
+
+    console.log(`[Cron] Webhooks: ${summary.due} due, ${summary.succeeded} delivered, ${summary.retrying} retrying, ${summary.failed} failed in ${duration}ms`);
+
+    res.json({
+      success: true,
+      duration: `${duration}ms`,
+      summary
+    });
+
+  } catch (error) {
+    console.error('[Cron] Webhook retry error:', error);
+    res.status(500).json({ error: 'Webhook retry job failed', message: error.message });
+  }
+});
+
+
+/**
+ * POST /api/cron/export-jobs
+ * Run order export jobs that a restart left pending or stalled, and delete
+ * exports past their 24 hour download window (see services/orderExportService.js).
+ * Should be called by Railway cron every 15 minutes.
+ */
+router.post('/export-jobs', verifyCronSecret, async (req, res) => {
+  const startTime = Date.now();
+
+  try {
+    const summary = await processExportJobs();
+    const duration = Date.now() - startTime;
+
+    console.log(`[Cron] Exports: ${summary.due} due, ${summary.completed} completed, ${summary.failed} failed, ${summary.purged} purged in ${duration}ms`);
+
+    res.json({
+      success: true,
+      duration: `${duration}ms`,
+      summary
+    });
+
+  } catch (error) {
+    console.error('[Cron] Export job error:', error);
+    res.status(500).json({ error: 'Export job sweep failed', message: error.message });
+  }
+});
+
+
+/**
+ * POST /api/cron/messaging-rules
+ * Send the buyer messages queued by messaging rules whose delay has passed,
+ * holding back any that fall in their rule's quiet hours
+ * (see services/messagingRuleService.js). Should be called by Railway cron
+ * every 15 minutes.
+ */
+router.post('/messaging-rules', verifyCronSecret, async (req, res) => {
+  const startTime = Date.now();
+
+  try {
+    const summary = await processScheduledMessages();
+    const duration = Date.now() - startTime;
+
+    console.log(`[Cron] Messaging rules: ${summary.due} due, ${summary.sent} sent, ${summary.deferred} deferred, ${summary.skipped} skipped, ${summary.failed} failed in ${duration}ms`);
+
+    res.json({
+      success: true,
+      duration: `${duration}ms`,
+      summary
+    });
+
+  } catch (error) {
+    console.error('[Cron] Messaging rule error:', error);
+    res.status(500).json({ error: 'Messaging rule sweep failed', message: error.message });
+  }
+});
+
+
+/**
+ * POST /api/cron/sync-etsy
+ * Sync every Etsy shop with syncEnabled that is due, refreshing access tokens
+ * before they expire. Failing shops back off; a shop whose refresh token was
+ * revoked is disabled and its owner notified (see services/etsySyncService.js).
+ * Should be called by Railway cron every 15 minutes.
+ */
+router.post('/sync-etsy', verifyCronSecret, async (req, res) => {
+  const startTime = Date.now();
+
+  try {
+    const summary = await syncDueConnections();
+    const duration = Date.now() - startTime;
+
+    console.log(`[Cron] Etsy sync: ${summary.due} due, ${summary.synced} synced, ${summary.failed} failed, ${summary.disabled} disabled, ${summary.imported} imported in ${duration}ms`);
+
+    res.json({
+      success: true,
+      duration: `${duration}ms`,
+      summary
+    });
+
+  } catch (error) {
+    console.error('[Cron] Etsy sync error:', error);
+    res.status(500).json({ error: 'Etsy sync failed', message: error.message });
+  }
+});
+
+
 /**
  * GET /api/cron/status
  * Get status of recent cron runs and system health
@@ -162,6 +316,9 @@ router.get('/status', verifyCronSecret, async (req, res) => {
       }
     });
     
+    // Orders whose scheduled check has come due
+    const dueNow = await prisma.order.count({ where: dueOrdersWhere() });
+    
     // Total active orders (not delivered)
     const activeOrders = await prisma.order.count({
       where: { lastStatus: { not: 'delivered' } }
@@ -172,6 +329,7 @@ router.get('/status', verifyCronSecret, async (req, res) => {
       stats: {
         activeOrders,
         staleOrders,
+        dueNow,
         byRisk: orderStats.reduce((acc, curr) => {
           acc[curr.riskLevel || 'unknown'] = curr._count.id;
           return acc;
@@ -3,69 +3,86 @@ const express = require('express');
 const router = express.Router();
 const prisma = require('../db/prisma');
 const etsyService = require('../services/etsyService');
-
-// Helper: Get authenticated user ID from request
-function getAuthUserId(req) {
-  return req.auth?.userId || req.headers['x-clerk-user-id'] || req.query['x-clerk-user-id'];
-}
+const { syncEtsyConnection } = require('../services/etsySyncService');
+const { authorize } = require('../middleware/authorize');
 
 // Dashboard URL for redirects
 const DASHBOARD_URL = process.env.DASHBOARD_URL || 'https://orderwarden.com';
 
 /**
- * GET /api/etsy/auth
- * Start OAuth flow - generates PKCE and redirects to Etsy
+ * POST /api/etsy/auth { storeId? }
+ * Start OAuth flow - generates PKCE and returns the Etsy authorization URL
+ * for the dashboard to navigate to (a plain redirect could not carry the
+ * session token). With storeId the shop is connected to that store; without
+ * it the callback creates a new store for the shop in the organization.
  */
-router.get('/auth', async (req, res) => {
+router.post('/auth', authorize('etsy:manage'), async (req, res) => {
   try {
-    const userId = getAuthUserId(req);
-    if (!userId) {
-      return res.status(401).json({ error: 'Authentication required' });
-    }
+    const { userId } = req;
+    const organizationId = req.organization.id;
     
-    console.log(`[Etsy] Starting OAuth for user ${userId}`);
+    const storeId = req.body?.storeId || req.query.storeId || null;
+    console.log(`[Etsy] Starting OAuth for user ${userId} in organization ${organizationId}${storeId ? ` (store ${storeId})` : ''}`);
     
     // Generate PKCE challenge
     const { verifier, challenge } = etsyService.generatePKCE();
     const state = etsyService.generateState();
 
-    // Ensure user exists
-    await prisma.user.upsert({
-      where: { id: userId },
-      update: {},
-      create: { id: userId, email: `${userId}@orderwarden.local` }
-    });
-    
-    // Store PKCE verifier temporarily (will be used in callback)
-    // Using upsert in case user already has a partial connection
-    await prisma.etsyConnection.upsert({
-      where: { userId },
-      update: {
-        codeVerifier: verifier,
-        oauthState: state
-      },
-      create: {
-        userId,
-        codeVerifier: verifier,
-        oauthState: state,
-        // Placeholder values - will be updated in callback
-        etsyUserId: '',
-        etsyShopId: '',
-        shopName: '',
-        accessToken: '',
-        refreshToken: '',
-        tokenExpiresAt: new Date()
+    if (storeId) {
+      const store = await prisma.store.findFirst({
+        where: { id: storeId, organizationId },
+        select: { id: true }
+      });
+      if (!store) {
+        return res.status(404).json({ error: 'Store not found' });
       }
+    }
+
+    // Drop abandoned flows (never completed, so no shop data)
+    await prisma.etsyConnection.deleteMany({
+      where: { organizationId, etsyShopId: '' }
     });
+
+    const existing = storeId
+      ? await prisma.etsyConnection.findUnique({ where: { storeId } })
+      : null;
+    
+    // Store PKCE verifier temporarily (will be used in callback).
+    // Reconnecting a store reuses its connection row.
+    if (existing) {
+      await prisma.etsyConnection.update({
+        where: { id: existing.id },
+        data: {
+          codeVerifier: verifier,
+          oauthState: state
+        }
+      });
+    } else {
+      await prisma.etsyConnection.create({
+        data: {
+          userId,
+          organizationId,
+          storeId,
+          codeVerifier: verifier,
+          oauthState: state,
+          // Placeholder values - will be updated in callback
+          etsyUserId: '',
+          etsyShopId: '',
+          shopName: '',
+          accessToken: '',
+          refreshToken: '',
+          tokenExpiresAt: new Date()
+        }
+      });
+    }
     
-    // Build and redirect to Etsy authorization URL
+    // Build the Etsy authorization URL; the dashboard sends the browser there
     const authUrl = etsyService.getAuthorizationUrl(state, challenge);
-    console.log(`[Etsy] Redirecting to Etsy OAuth`);
-    res.redirect(authUrl);
+    res.json({ authUrl });
     
   } catch (error) {
     console.error('[Etsy] Auth start error:', error);
-    res.redirect(`${DASHBOARD_URL}?etsy_error=auth_failed`);
+    res.status(500).json({ error: 'Failed to start Etsy connection' });
   }
 });
 
@@ -126,16 +143,64 @@ router.get('/callback', async (req, res) => {
     const expiresAt = new Date(Date.now() + (tokens.expires_in * 1000));
 
     
+    // A shop can only feed one of the organization's stores
+    const etsyShopId = shop.shop_id.toString();
+    const duplicate = await prisma.etsyConnection.findFirst({
+      where: {
+        organizationId: connection.organizationId,
+        etsyShopId,
+        id: { not: connection.id }
+      }
+    });
+
+    let target = connection;
+    if (duplicate) {
+      // Connecting it to a different store is refused
+      if (connection.storeId && connection.storeId !== duplicate.storeId) {
+        console.error(`[Etsy] Shop ${shop.shop_name} is already connected to another store`);
+        if (!connection.etsyShopId) {
+          await prisma.etsyConnection.delete({ where: { id: connection.id } });
+        }
+        return res.redirect(`${DASHBOARD_URL}?etsy_error=shop_already_connected`);
+      }
+
+      // Without a target store it is a reconnect: refresh the existing connection
+      await prisma.etsyConnection.delete({ where: { id: connection.id } });
+      target = duplicate;
+    }
+
+    // New shop without a target store gets a store of its own
+    let storeId = target.storeId;
+    if (!storeId) {
+      const store = await prisma.store.create({
+        data: {
+          userId: connection.userId,
+          organizationId: connection.organizationId,
+          platform: 'etsy',
+          storeName: shop.shop_name
+        }
+      });
+      storeId = store.id;
+    }
+    
     // Update connection with real data
     await prisma.etsyConnection.update({
-      where: { id: connection.id },
+      where: { id: target.id },
       data: {
+        storeId,
         etsyUserId: etsyUser.user_id.toString(),
-        etsyShopId: shop.shop_id.toString(),
+        etsyShopId,
         shopName: shop.shop_name,
         accessToken: tokens.access_token,
         refreshToken: tokens.refresh_token,
         tokenExpiresAt: expiresAt,
+        scopes: etsyService.SCOPES,
+        // A reconnect restarts scheduled sync, even after a revoked token
+        syncEnabled: true,
+        nextSyncAt: null,
+        syncFailures: 0,
+        lastSyncError: null,
+        disabledReason: null,
         // Clear temporary PKCE data
         codeVerifier: null,
         oauthState: null
@@ -143,7 +208,7 @@ router.get('/callback', async (req, res) => {
     });
     
     console.log(`[Etsy] Successfully connected shop ${shop.shop_name} for user ${connection.userId}`);
-    res.redirect(`${DASHBOARD_URL}?etsy_connected=true&shop=${encodeURIComponent(shop.shop_name)}`);
+    res.redirect(`${DASHBOARD_URL}?etsy_connected=true&shop=${encodeURIComponent(shop.shop_name)}&storeId=${storeId}`);
     
   } catch (error) {
     console.error('[Etsy] Callback error:', error);
@@ -153,36 +218,63 @@ router.get('/callback', async (req, res) => {
 
 
 /**
- * GET /api/etsy/status
- * Check if user has connected Etsy
+ * GET /api/etsy/status?storeId=
+ * Connected shops of the organization. The top-level fields describe the given
+ * store's shop, or the first connected shop when no store is given.
  */
-router.get('/status', async (req, res) => {
+router.get('/status', authorize('etsy:read'), async (req, res) => {
   try {
-    const userId = getAuthUserId(req);
-    if (!userId) {
-      return res.status(401).json({ error: 'Authentication required' });
-    }
+    const organizationId = req.organization.id;
     
-    const connection = await prisma.etsyConnection.findUnique({
-      where: { userId },
+    // Only real connections (have shop data)
+    const connections = await prisma.etsyConnection.findMany({
+      where: { organizationId, etsyShopId: { not: '' }, storeId: { not: null } },
       select: {
+        storeId: true,
         shopName: true,
-        etsyShopId: true,
         lastSyncAt: true,
-        syncEnabled: true
-      }
+        syncEnabled: true,
+        syncFailures: true,
+        lastSyncError: true,
+        nextSyncAt: true,
+        disabledReason: true,
+        store: { select: { storeName: true } }
+      },
+      orderBy: { createdAt: 'asc' }
     });
     
-    // Check if it's a real connection (has shop data)
-    if (!connection || !connection.etsyShopId) {
-      return res.json({ connected: false });
+    const list = connections.map(connection => ({
+      storeId: connection.storeId,
+      storeName: connection.store?.storeName || null,
+      shopName: connection.shopName,
+      lastSyncAt: connection.lastSyncAt,
+      syncEnabled: connection.syncEnabled,
+      syncFailures: connection.syncFailures,
+      lastSyncError: connection.lastSyncError,
+      nextSyncAt: connection.nextSyncAt,
+      disabledReason: connection.disabledReason
+    }));
+
+    const { storeId } = req.query;
+    const current = storeId
+      ? list.find(connection => connection.storeId === storeId)
+      : list[0];
+    
+    if (!current) {
+      return res.json({ connected: false, connections: list });
     }
     
     res.json({
       connected: true,
-      shopName: connection.shopName,
-      lastSyncAt: connection.lastSyncAt,
-      syncEnabled: connection.syncEnabled
+      storeId: current.storeId,
+      shopName: current.shopName,
+      lastSyncAt: current.lastSyncAt,
+      syncEnabled: current.syncEnabled,
+      syncFailures: current.syncFailures,
+      lastSyncError: current.lastSyncError,
+      nextSyncAt: current.nextSyncAt,
+      disabledReason: current.disabledReason,
+      connections: list
     });
     
   } catch (error) {
@@ -194,128 +286,60 @@ router.get('/status', async (req, res) => {
 
 /**
  * POST /api/etsy/sync
- * Manually trigger order sync from Etsy
+ * Manually trigger order sync from Etsy. Body/query storeId syncs that
+ * store's shop; without it every connected shop is synced. `stores` holds
+ * each shop's sync report, with one result per receipt shipment.
  */
-router.post('/sync', async (req, res) => {
+router.post('/sync', authorize('etsy:sync'), async (req, res) => {
   try {
-    const userId = getAuthUserId(req);
-    if (!userId) {
-      return res.status(401).json({ error: 'Authentication required' });
-    }
-    
-    const connection = await prisma.etsyConnection.findUnique({
-      where: { userId }
-    });
-    
-    if (!connection || !connection.etsyShopId) {
-      return res.status(400).json({ error: 'Etsy not connected' });
-    }
-    
-    console.log(`[Etsy] Starting sync for shop ${connection.shopName}`);
+    const organizationId = req.organization.id;
     
-    // Check if token needs refresh
-    let accessToken = connection.accessToken;
-    if (new Date() >= connection.tokenExpiresAt) {
-      console.log('[Etsy] Token expired, refreshing...');
-      const tokens = await etsyService.refreshAccessToken(connection.refreshToken);
-      accessToken = tokens.access_token;
-      
-      // Update stored tokens
-      await prisma.etsyConnection.update({
-        where: { id: connection.id },
-        data: {
-          accessToken: tokens.access_token,
-          refreshToken: tokens.refresh_token,
-          tokenExpiresAt: new Date(Date.now() + (tokens.expires_in * 1000))
-        }
-      });
-    }
-
+    const storeId = req.body?.storeId || req.query.storeId || null;
     
-    // Get user's store for orders
-    let store = await prisma.store.findFirst({
-      where: { userId }
+    const connections = await prisma.etsyConnection.findMany({
+      where: {
+        organizationId,
+        etsyShopId: { not: '' },
+        storeId: storeId || { not: null }
+      },
+      orderBy: { createdAt: 'asc' }
     });
     
-    if (!store) {
-      // Create store if doesn't exist
-      store = await prisma.store.create({
-        data: {
-          userId,
-          platform: 'etsy',
-          storeName: connection.shopName
-        }
-      });
+    if (connections.length === 0) {
+      return res.status(400).json({ error: 'Etsy not connected' });
     }
     
-    // Fetch receipts from Etsy (last 30 days by default)
-    const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000);
-    const receiptsResponse = await etsyService.getShopReceipts(
-      accessToken,
-      connection.etsyShopId,
-      { minCreated: thirtyDaysAgo }
-    );
-    
-    console.log(`[Etsy] Found ${receiptsResponse.count} receipts`);
-    
-    let imported = 0;
-    let skipped = 0;
-
-    
-    // Process each receipt
-    for (const receipt of receiptsResponse.results || []) {
-      // Skip if no shipments
-      if (!receipt.shipments || receipt.shipments.length === 0) {
-        skipped++;
-        continue;
-      }
-      
-      const shipment = receipt.shipments[0];
-      if (!shipment.tracking_code) {
-        skipped++;
-        continue;
-      }
-      
-      const orderId = receipt.receipt_id.toString();
-      
-      // Check if order already exists
-      const existing = await prisma.order.findUnique({
-        where: { orderId }
-      });
-      
-      if (existing) {
-        skipped++;
-        continue;
+    // One shop failing should not stop the others
+    const stores = [];
+    for (const connection of connections) {
+      try {
+        stores.push(await syncEtsyConnection(connection));
+      } catch (error) {
+        console.error(`[Etsy] Sync error for shop ${connection.shopName}:`, error);
+        stores.push({
+          storeId: connection.storeId,
+          shopName: connection.shopName,
+          error: error.message
+        });
       }
-      
-      // Create new order
-      await prisma.order.create({
-        data: {
-          storeId: store.id,
-          orderId,
-          trackingNumber: shipment.tracking_code,
-          carrier: etsyService.mapEtsyCarrier(shipment.carrier_name),
-          riskLevel: 'green'  // Default, will be updated by tracking check
-        }
-      });
-      
-      imported++;
     }
-
     
-    // Update last sync time
-    await prisma.etsyConnection.update({
-      where: { id: connection.id },
-      data: { lastSyncAt: new Date() }
-    });
+    const failed = stores.filter(result => result.error);
+    if (failed.length === stores.length) {
+      return res.status(500).json({ error: 'Sync failed', message: failed[0].error, stores });
+    }
     
-    console.log(`[Etsy] Sync complete: ${imported} imported, ${skipped} skipped`);
+    const sum = key => stores.reduce((total, result) => total + (result[key] || 0), 0);
     
     res.json({
-      success: true,
-      imported,
-      skipped,
-      total: receiptsResponse.count
+      success: failed.length === 0,
+      imported: sum('imported'),
+      updated: sum('updated'),
+      trackingChanged: sum('trackingChanged'),
+      skipped: sum('skipped'),
+      failed: sum('failed'),
+      total: sum('total'),
+      stores
     });
     
   } catch (error) {
@@ -326,21 +350,21 @@ router.post('/sync', async (req, res) => {
 
 /**
  * POST /api/etsy/disconnect
- * Remove Etsy connection
+ * Remove the Etsy connection of one store (body/query storeId), or all of them
  */
-router.post('/disconnect', async (req, res) => {
+router.post('/disconnect', authorize('etsy:manage'), async (req, res) => {
   try {
-    const userId = getAuthUserId(req);
-    if (!userId) {
-      return res.status(401).json({ error: 'Authentication required' });
-    }
+    const { userId } = req;
+    const organizationId = req.organization.id;
     
-    await prisma.etsyConnection.deleteMany({
-      where: { userId }
+    const storeId = req.body?.storeId || req.query.storeId || null;
+    
+    const { count } = await prisma.etsyConnection.deleteMany({
+      where: storeId ? { organizationId, storeId } : { organizationId }
     });
     
-    console.log(`[Etsy] Disconnected for user ${userId}`);
-    res.json({ success: true });
+    console.log(`[Etsy] Disconnected ${count} shop(s) from organization ${organizationId} by ${userId}`);
+    res.json({ success: true, disconnected: count });
     
   } catch (error) {
     console.error('[Etsy] Disconnect error:', error);
@@ -1,48 +1,20 @@
 const express = require("express");
-const prisma = require("../db/prisma");
+const { getUserSettings } = require("../services/settingsService");
+const { ensureOrganizationStore } = require("../services/storeService");
+const { authorize } = require("../middleware/authorize");
 
 const router = express.Router();
 
-router.get("/me/store", async (req, res, next) => {
+router.get("/me/store", authorize(), async (req, res, next) => {
   try {
-    const clerkUserId = req.auth?.userId || req.headers["x-clerk-user-id"];
-
-    if (!clerkUserId) {
-      return res.status(401).json({ error: "No user id provided" });
-    }
-
-    // Ensure User exists (User.email is required in your schema)
-    await prisma.user.upsert({
-      where: { id: clerkUserId },
-      update: {},
-      create: {
-        id: clerkUserId,
-        email: `${clerkUserId}@orderwarden.local`,
-      },
-      select: { id: true },
-    });
-
-    // Find store for this user + platform
-    const existing = await prisma.store.findFirst({
-      where: { userId: clerkUserId, platform: "etsy" },
-      select: { id: true },
-    });
-
-    if (existing) {
-      return res.json({ storeId: existing.id });
-    }
-
-    // Create store
-    const created = await prisma.store.create({
-      data: {
-        userId: clerkUserId,
-        platform: "etsy",
-        storeName: "My Store",
-      },
-      select: { id: true },
-    });
-
-    return res.json({ storeId: created.id });
+    // The user's default store (settings) if it is in the organization, else
+    // the organization's oldest store, created when it has none.
+    // GET /api/stores lists all of them.
+    const storeIds = await ensureOrganizationStore(req.organization.id, req.userId);
+    const { defaultStoreId } = await getUserSettings(req.userId);
+
+    const storeId = storeIds.includes(defaultStoreId) ? defaultStoreId : storeIds[0];
+    return res.json({ storeId });
   } catch (err) {
     return next(err);
   }
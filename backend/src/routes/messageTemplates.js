@@ -0,0 +1,133 @@
+// routes/messageTemplates.js - Buyer message templates: wording per workspace and language, and live preview
+const express = require("express");
+const router = express.Router();
+
+const prisma = require("../db/prisma");
+const {
+  listMessageTemplates,
+  saveMessageTemplate,
+  resetMessageTemplate,
+  loadTemplateOverrides,
+  loadMessageDetails
+} = require("../services/messageTemplateService");
+const {
+  MESSAGE_TEMPLATE_KEYS,
+  MESSAGE_TEMPLATE_VARIABLES,
+  MESSAGE_LOCALES,
+  DEFAULT_LOCALE,
+  PREVIEW_DETAILS,
+  detectOrderLocale,
+  getMessageTemplate
+} = require("../utils/messageTemplates");
+const { authorize } = require("../middleware/authorize");
+const {
+  validateMessageLocale,
+  validateMessageTemplate,
+  validateMessagePreview
+} = require("../utils/validation");
+
+// GET /api/message-templates?locale=de - Every template with the wording in effect in
+// a language (English by default), the variables and the languages available
+router.get("/", authorize("orders:read"), async (req, res) => {
+  try {
+    const locale = validateMessageLocale(req.query.locale);
+    if (!locale.ok) {
+      return res.status(400).json({ error: locale.error });
+    }
+
+    const templates = await listMessageTemplates(req.organization.id, locale.value);
+    res.json({ templates, variables: MESSAGE_TEMPLATE_VARIABLES, locales: MESSAGE_LOCALES });
+  } catch (error) {
+    console.error("[MessageTemplates] List error:", error);
+    res.status(500).json({ error: "Failed to fetch message templates" });
+  }
+});
+
+// POST /api/message-templates/preview - Render a template, saved or as being edited,
+// for one of the workspace's orders or for sample data, in the order's language
+// unless locale is given
+router.post("/preview", authorize("orders:read"), async (req, res) => {
+  try {
+    const validation = validateMessagePreview(req.body);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+    const { key, template, orderId } = validation.value;
+
+    let order = null;
+    if (orderId) {
+      order = await prisma.order.findFirst({ where: { id: orderId, storeId: { in: req.storeIds } } });
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+    }
+
+    const locale = validation.value.locale || (order ? detectOrderLocale(order).locale : DEFAULT_LOCALE);
+    const templates = template ? { [key]: template } : await loadTemplateOverrides(req.organization.id, locale);
+    const details = order ? await loadMessageDetails(order, { userId: req.userId }) : PREVIEW_DETAILS;
+    const preview = getMessageTemplate(
+      order?.lastStatus,
+      order?.riskLevel,
+      order ? order.orderId : PREVIEW_DETAILS.orderId,
+      { ...details, templates, key, locale }
+    );
+
+    res.json({ preview, sample: !order });
+  } catch (error) {
+    console.error("[MessageTemplates] Preview error:", error);
+    res.status(500).json({ error: "Failed to preview message template" });
+  }
+});
+
+// PUT /api/message-templates/:key?locale=de - Replace the wording of one template
+// in one language (English by default)
+router.put("/:key", authorize("messages:manage"), async (req, res) => {
+  try {
+    if (!MESSAGE_TEMPLATE_KEYS.includes(req.params.key)) {
+      return res.status(404).json({ error: "Template not found" });
+    }
+
+    const locale = validateMessageLocale(req.query.locale);
+    if (!locale.ok) {
+      return res.status(400).json({ error: locale.error });
+    }
+    const validation = validateMessageTemplate(req.body);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const template = await saveMessageTemplate(
+      req.organization.id,
+      req.params.key,
+      locale.value,
+      validation.value,
+      req.userId
+    );
+    res.json({ template });
+  } catch (error) {
+    console.error("[MessageTemplates] Update error:", error);
+    res.status(500).json({ error: "Failed to save message template" });
+  }
+});
+
+// DELETE /api/message-templates/:key?locale=de - Go back to the built-in wording
+router.delete("/:key", authorize("messages:manage"), async (req, res) => {
+  try {
+    if (!MESSAGE_TEMPLATE_KEYS.includes(req.params.key)) {
+      return res.status(404).json({ error: "Template not found" });
+    }
+
+    const locale = validateMessageLocale(req.query.locale);
+    if (!locale.ok) {
+      return res.status(400).json({ error: locale.error });
+    }
+
+    const template = await resetMessageTemplate(req.organization.id, req.params.key, locale.value);
+    res.json({ template });
+  } catch (error) {
+    console.error("[MessageTemplates] Reset error:", error);
+    res.status(500).json({ error: "Failed to reset message template" });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,136 @@
+// routes/messagingRules.js - Messaging rules and the queue of messages they send
+const express = require("express");
+const router = express.Router();
+
+const {
+  RULE_TRIGGERS,
+  ORDER_STATUSES,
+  SCHEDULED_MESSAGE_STATUSES,
+  listMessagingRules,
+  createMessagingRule,
+  updateMessagingRule,
+  deleteMessagingRule,
+  listScheduledMessages,
+  decideScheduledMessage
+} = require("../services/messagingRuleService");
+const { RISK_LEVELS } = require("../services/riskEngine");
+const { authorize } = require("../middleware/authorize");
+const { validateMessagingRule } = require("../utils/validation");
+
+const MAX_QUEUE_LIMIT = 100;
+
+// GET /api/messaging-rules - The workspace's rules and the values they can match
+router.get("/", authorize("orders:read"), async (req, res) => {
+  try {
+    const rules = await listMessagingRules(req.organization.id);
+    res.json({ rules, triggers: RULE_TRIGGERS, riskLevels: RISK_LEVELS, statuses: ORDER_STATUSES });
+  } catch (error) {
+    console.error("[MessagingRules] List error:", error);
+    res.status(500).json({ error: "Failed to fetch messaging rules" });
+  }
+});
+
+// POST /api/messaging-rules - Add a rule; messages go out on behalf of its creator
+router.post("/", authorize("messages:manage"), async (req, res) => {
+  try {
+    const validation = validateMessagingRule(req.body);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const rule = await createMessagingRule(req.organization.id, validation.value, req.userId);
+    res.status(201).json({ rule });
+  } catch (error) {
+    console.error("[MessagingRules] Create error:", error);
+    res.status(500).json({ error: "Failed to create messaging rule" });
+  }
+});
+
+// PATCH /api/messaging-rules/:id - Change a rule, or turn it on or off
+router.patch("/:id", authorize("messages:manage"), async (req, res) => {
+  try {
+    const validation = validateMessagingRule(req.body, { partial: true });
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const rule = await updateMessagingRule(req.organization.id, req.params.id, validation.value);
+    if (!rule) {
+      return res.status(404).json({ error: "Messaging rule not found" });
+    }
+    res.json({ rule });
+  } catch (error) {
+    console.error("[MessagingRules] Update error:", error);
+    res.status(500).json({ error: "Failed to update messaging rule" });
+  }
+});
+
+// DELETE /api/messaging-rules/:id - Remove a rule and the messages it has not sent
+router.delete("/:id", authorize("messages:manage"), async (req, res) => {
+  try {
+    const deleted = await deleteMessagingRule(req.organization.id, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: "Messaging rule not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("[MessagingRules] Delete error:", error);
+    res.status(500).json({ error: "Failed to delete messaging rule" });
+  }
+});
+
+// GET /api/messaging-rules/queue?status=pending_approval&limit=50 - Messages the
+// rules queued or sent, newest first
+router.get("/queue", authorize("orders:read"), async (req, res) => {
+  try {
+    const status = req.query.status || null;
+    if (status && !SCHEDULED_MESSAGE_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of: ${SCHEDULED_MESSAGE_STATUSES.join(", ")}.` });
+    }
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 50, 1), MAX_QUEUE_LIMIT);
+
+    const messages = await listScheduledMessages(req.organization.id, { storeIds: req.storeIds, status, limit });
+    res.json({ messages });
+  } catch (error) {
+    console.error("[MessagingRules] Queue error:", error);
+    res.status(500).json({ error: "Failed to fetch message queue" });
+  }
+});
+
+// POST /api/messaging-rules/queue/:id/approve - Send a message waiting for approval
+router.post("/queue/:id/approve", authorize("orders:write"), async (req, res) => {
+  try {
+    const result = await decideScheduledMessage(req.organization.id, req.params.id, {
+      approve: true,
+      userId: req.userId,
+      storeIds: req.storeIds
+    });
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json({ message: result.value });
+  } catch (error) {
+    console.error("[MessagingRules] Approve error:", error);
+    res.status(500).json({ error: "Failed to approve message" });
+  }
+});
+
+// POST /api/messaging-rules/queue/:id/reject - Drop a message waiting for approval
+router.post("/queue/:id/reject", authorize("orders:write"), async (req, res) => {
+  try {
+    const result = await decideScheduledMessage(req.organization.id, req.params.id, {
+      approve: false,
+      userId: req.userId,
+      storeIds: req.storeIds
+    });
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json({ message: result.value });
+  } catch (error) {
+    console.error("[MessagingRules] Reject error:", error);
+    res.status(500).json({ error: "Failed to reject message" });
+  }
+});
+
+module.exports = router;
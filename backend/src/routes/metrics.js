@@ -2,20 +2,8 @@
 const express = require("express");
 const router = express.Router();
 const prisma = require("../db/prisma");
-
-// Helper: Get authenticated user ID from Clerk
-function getAuthUserId(req) {
-  return req.auth?.userId || req.headers["x-clerk-user-id"] || null;
-}
-
-// Helper: Get all store IDs belonging to a user
-async function getUserStoreIds(userId) {
-  const stores = await prisma.store.findMany({
-    where: { userId },
-    select: { id: true }
-  });
-  return stores.map(s => s.id);
-}
+const { scopeStoreIds } = require("../services/storeService");
+const { authorize } = require("../middleware/authorize");
 
 function parseRangeDays(rangeParam) {
   if (!rangeParam) return 30;
@@ -31,17 +19,27 @@ function toNumberOrDefault(value, fallback) {
   return Number.isFinite(num) ? num : fallback;
 }
 
-function buildSummary(events) {
+// Order total in major units, or null when the order has none recorded
+function orderValue(order) {
+  return typeof order?.orderTotalCents === "number" ? order.orderTotalCents / 100 : null;
+}
+
+/**
+ * Impact figures for the events of `orders` ({ id, riskLevel, orderTotalCents }).
+ * Refund estimates use each order's total, or AVG_ORDER_VALUE when unknown.
+ */
+function buildSummary(events, orders = []) {
   const trackingChecks = events.filter(e => e.type === "tracking_checked").length;
   const riskFlagged = events.filter(e =>
     e.type === "risk_changed" &&
     ["yellow", "red"].includes(e.metadata?.to)
   ).length;
-  const riskResolved = events.filter(e =>
+  const resolvedEvents = events.filter(e =>
     e.type === "risk_changed" &&
     ["yellow", "red"].includes(e.metadata?.from) &&
     e.metadata?.to === "green"
-  ).length;
+  );
+  const riskResolved = resolvedEvents.length;
 
   const eventsByOrder = new Map();
   for (const event of events) {
@@ -67,31 +65,43 @@ function buildSummary(events) {
 
   const avgOrderValue = toNumberOrDefault(process.env.AVG_ORDER_VALUE, 45);
   const refundRateEstimate = toNumberOrDefault(process.env.REFUND_RATE_ESTIMATE, 0.1);
-  const estimatedRefundsAvoided = Number((riskResolved * avgOrderValue * refundRateEstimate).toFixed(2));
+  const ordersById = new Map(orders.map(order => [order.id, order]));
+  const resolvedValue = resolvedEvents.reduce(
+    (sum, event) => sum + (orderValue(ordersById.get(event.orderId)) ?? avgOrderValue),
+    0
+  );
+  const estimatedRefundsAvoided = Number((resolvedValue * refundRateEstimate).toFixed(2));
+
+  // What refunds could cost right now: recorded totals of orders still at risk
+  const valueAtRisk = Number(orders
+    .filter(order => ["yellow", "red"].includes(order.riskLevel))
+    .reduce((sum, order) => sum + (orderValue(order) ?? 0), 0)
+    .toFixed(2));
 
   return {
     trackingChecks,
     riskFlagged,
     riskResolved,
     deliveredAfterRisk,
-    estimatedRefundsAvoided
+    estimatedRefundsAvoided,
+    valueAtRisk
   };
 }
 
-router.get("/summary", async (req, res) => {
+// GET /api/metrics/summary?range=30d&storeId= - Impact summary, all stores or one
+router.get("/summary", authorize("metrics:read"), async (req, res) => {
   try {
-    const userId = getAuthUserId(req);
-    if (!userId) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
-
     const rangeDays = parseRangeDays(req.query.range);
     const since = new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000);
 
-    const storeIds = await getUserStoreIds(userId);
+    const storeIds = scopeStoreIds(req.storeIds, req.query.storeId);
+    if (!storeIds) {
+      return res.status(404).json({ error: "Store not found" });
+    }
+
     const orders = await prisma.order.findMany({
       where: { storeId: { in: storeIds } },
-      select: { id: true }
+      select: { id: true, riskLevel: true, orderTotalCents: true }
     });
     const orderIds = orders.map(o => o.id);
 
@@ -102,6 +112,7 @@ router.get("/summary", async (req, res) => {
         riskResolved: 0,
         deliveredAfterRisk: 0,
         estimatedRefundsAvoided: 0,
+        valueAtRisk: 0,
         rangeDays,
         generatedAt: new Date().toISOString()
       });
@@ -120,7 +131,7 @@ router.get("/summary", async (req, res) => {
       }
     });
 
-    const summary = buildSummary(events);
+    const summary = buildSummary(events, orders);
     res.json({
       ...summary,
       rangeDays,
@@ -132,4 +143,75 @@ router.get("/summary", async (req, res) => {
   }
 });
 
+// GET /api/metrics/stores?range=30d - Impact summary and risk breakdown per store
+router.get("/stores", authorize("metrics:read"), async (req, res) => {
+  try {
+    const rangeDays = parseRangeDays(req.query.range);
+    const since = new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000);
+
+    const stores = await prisma.store.findMany({
+      where: { organizationId: req.organization.id },
+      select: { id: true, storeName: true, platform: true },
+      orderBy: { createdAt: "asc" }
+    });
+    const storeIds = stores.map(s => s.id);
+
+    const [orders, riskCounts] = await Promise.all([
+      prisma.order.findMany({
+        where: { storeId: { in: storeIds } },
+        select: { id: true, storeId: true, riskLevel: true, orderTotalCents: true }
+      }),
+      prisma.order.groupBy({
+        by: ["storeId", "riskLevel"],
+        where: { storeId: { in: storeIds } },
+        _count: { id: true }
+      })
+    ]);
+    const storeByOrder = new Map(orders.map(o => [o.id, o.storeId]));
+
+    const events = orders.length === 0 ? [] : await prisma.orderEvent.findMany({
+      where: {
+        orderId: { in: orders.map(o => o.id) },
+        createdAt: { gte: since }
+      },
+      select: {
+        orderId: true,
+        type: true,
+        metadata: true,
+        createdAt: true
+      }
+    });
+
+    const results = stores.map(store => {
+      const byRisk = { green: 0, yellow: 0, red: 0 };
+      for (const row of riskCounts) {
+        if (row.storeId === store.id) {
+          byRisk[row.riskLevel || "green"] = (byRisk[row.riskLevel || "green"] || 0) + row._count.id;
+        }
+      }
+
+      return {
+        storeId: store.id,
+        storeName: store.storeName,
+        platform: store.platform,
+        totalOrders: Object.values(byRisk).reduce((sum, count) => sum + count, 0),
+        byRisk,
+        ...buildSummary(
+          events.filter(e => storeByOrder.get(e.orderId) === store.id),
+          orders.filter(o => o.storeId === store.id)
+        )
+      };
+    });
+
+    res.json({
+      stores: results,
+      rangeDays,
+      generatedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error("[Metrics] Store breakdown error:", error);
+    res.status(500).json({ error: "Failed to fetch store metrics" });
+  }
+});
+
 module.exports = router;
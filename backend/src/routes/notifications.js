@@ -0,0 +1,58 @@
+// routes/notifications.js - In-app notifications for the dashboard bell
+const express = require("express");
+const router = express.Router();
+
+const {
+  listNotifications,
+  markNotificationRead,
+  markAllNotificationsRead
+} = require("../services/notificationService");
+const { requireAuth } = require("../middleware/authorize");
+
+// GET /api/notifications - Newest first (?limit=20&unread=true)
+router.get("/", requireAuth, async (req, res) => {
+  try {
+    const { userId } = req;
+
+    const limit = Number(req.query.limit) || undefined;
+    const unreadOnly = req.query.unread === "true";
+
+    const result = await listNotifications(userId, { limit, unreadOnly });
+    res.json(result);
+  } catch (error) {
+    console.error("[Notifications] List error:", error);
+    res.status(500).json({ error: "Failed to fetch notifications" });
+  }
+});
+
+// POST /api/notifications/read-all - Mark every notification read
+router.post("/read-all", requireAuth, async (req, res) => {
+  try {
+    const { userId } = req;
+
+    const updated = await markAllNotificationsRead(userId);
+    res.json({ success: true, updated });
+  } catch (error) {
+    console.error("[Notifications] Read-all error:", error);
+    res.status(500).json({ error: "Failed to update notifications" });
+  }
+});
+
+// POST /api/notifications/:id/read - Mark one notification read
+router.post("/:id/read", requireAuth, async (req, res) => {
+  try {
+    const { userId } = req;
+
+    const found = await markNotificationRead(userId, req.params.id);
+    if (!found) {
+      return res.status(404).json({ error: "Notification not found" });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error("[Notifications] Read error:", error);
+    res.status(500).json({ error: "Failed to update notification" });
+  }
+});
+
+module.exports = router;
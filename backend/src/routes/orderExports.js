@@ -0,0 +1,119 @@
+// routes/orderExports.js - Order exports (CSV, XLSX, NDJSON) and background export jobs
+const express = require("express");
+const router = express.Router();
+
+const {
+  EXPORT_FORMATS,
+  EXPORT_SYNC_MAX_ROWS,
+  writeOrderExport,
+  exportFileName,
+  createExportJob,
+  listExportJobs,
+  findExportJob,
+  getExportFile
+} = require("../services/orderExportService");
+const { countOrders } = require("../services/orderQueryService");
+const { scopeStoreIds } = require("../services/storeService");
+const { authorize } = require("../middleware/authorize");
+const { validateOrderExport } = require("../utils/validation");
+
+// Writer for a response that waits for the socket to drain, so large exports
+// are not buffered in memory
+const drainingWriter = (res) => async (chunk) => {
+  if (res.destroyed) throw new Error("Client disconnected");
+  if (!res.write(chunk)) {
+    await new Promise((resolve) => {
+      res.once("drain", resolve);
+      res.once("close", resolve);
+    });
+  }
+};
+
+// GET /api/orders/export?format=csv|xlsx|ndjson&columns=store,eta,...
+// Takes the same filters and sort as GET /api/orders. Up to
+// ORDER_EXPORT_SYNC_MAX_ROWS orders stream back as the file; larger exports
+// (or background=true) respond 202 with a job to poll.
+router.get("/", authorize("orders:read"), async (req, res) => {
+  try {
+    const validation = validateOrderExport(req.query);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+    const { format, columns, filters, background } = validation.value;
+
+    const scopedStoreIds = scopeStoreIds(req.storeIds, filters.storeId);
+    if (!scopedStoreIds) {
+      return res.status(404).json({ error: "Store not found" });
+    }
+
+    const total = await countOrders(scopedStoreIds, filters);
+    if (background || total > EXPORT_SYNC_MAX_ROWS) {
+      const job = await createExportJob(req.organization.id, req.userId, scopedStoreIds, { format, columns, filters });
+      return res.status(202).json({ job, total });
+    }
+
+    res.setHeader("Content-Type", EXPORT_FORMATS[format].contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${exportFileName(format)}"`);
+
+    await writeOrderExport(scopedStoreIds, { format, columns, filters }, drainingWriter(res));
+    res.end();
+  } catch (error) {
+    console.error("[Export] Export error:", error);
+    if (res.headersSent) {
+      return res.destroy(error);
+    }
+    res.status(500).json({ error: "Failed to export orders" });
+  }
+});
+
+// GET /api/orders/export/jobs - The user's recent export jobs, newest first
+router.get("/jobs", authorize("orders:read"), async (req, res) => {
+  try {
+    const jobs = await listExportJobs(req.organization.id, req.userId);
+    res.json({ jobs });
+  } catch (error) {
+    console.error("[Export] List jobs error:", error);
+    res.status(500).json({ error: "Failed to fetch export jobs" });
+  }
+});
+
+// GET /api/orders/export/jobs/:id - Job status; downloadUrl is set once it completes
+router.get("/jobs/:id", authorize("orders:read"), async (req, res) => {
+  try {
+    const job = await findExportJob(req.organization.id, req.userId, req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: "Export not found" });
+    }
+    res.json({ job });
+  } catch (error) {
+    console.error("[Export] Get job error:", error);
+    res.status(500).json({ error: "Failed to fetch export job" });
+  }
+});
+
+// GET /api/orders/export/jobs/:id/download - The finished file (kept for 24 hours)
+router.get("/jobs/:id/download", authorize("orders:read"), async (req, res) => {
+  try {
+    const file = await getExportFile(req.organization.id, req.userId, req.params.id);
+    if (!file) {
+      return res.status(404).json({ error: "Export not found, not finished or expired" });
+    }
+
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.fileName}"`);
+
+    const write = drainingWriter(res);
+    for await (const chunk of file.read()) {
+      await write(chunk);
+    }
+    res.end();
+  } catch (error) {
+    console.error("[Export] Download error:", error);
+    if (res.headersSent) {
+      return res.destroy(error);
+    }
+    res.status(500).json({ error: "Failed to download export" });
+  }
+});
+
+module.exports = router;
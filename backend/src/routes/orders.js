@@ -1,76 +1,50 @@
-// routes/orders.js - Per-user filtering enabled
+// routes/orders.js - Orders of the organization's stores
 const express = require("express");
 const router = express.Router();
 const prisma = require("../db/prisma");
 
 // Import tracking service
 const { checkTrackingStatus } = require("../services/trackingService");
-
-// Import message templates helper
-const { getMessageTemplate } = require("../utils/messageTemplates");
+const { getTrackingScans } = require("../services/trackingScanService");
+const { getUserSettings } = require("../services/settingsService");
+const { loadTrackingContext, applyTrackingResult } = require("../services/orderTrackingService");
+const { deferFailedCheck } = require("../services/checkScheduler");
+const { ensureOrganizationStore, scopeStoreIds } = require("../services/storeService");
+const { getOrganizationOwnerId } = require("../services/organizationService");
+const { authorize } = require("../middleware/authorize");
+const {
+  validateMessageLocale,
+  validateMessageLog,
+  validateMessageSend,
+  validateOrderDetails,
+  validateOrderImport,
+  validateOrderList
+} = require("../utils/validation");
+const { listOrders, summarizeOrders } = require("../services/orderQueryService");
+const { readImportCsv, importOrders } = require("../services/orderImportService");
+const { recommendMessage, logMessage, listMessageLog } = require("../services/messageTemplateService");
+const { describeDelivery, sendBuyerMessage } = require("../services/buyerMessageService");
+const { MESSAGE_TEMPLATE_KEYS, detectOrderLocale } = require("../utils/messageTemplates");
 
 // Constants
 const FREE_ORDER_LIMIT = 10;
 
-// Helper: Get authenticated user ID from Clerk
-function getAuthUserId(req) {
-  return req.auth?.userId || req.headers["x-clerk-user-id"] || null;
-}
-
-// Helper: Get all store IDs belonging to a user
-async function getUserStoreIds(userId) {
-  const stores = await prisma.store.findMany({
-    where: { userId },
-    select: { id: true }
-  });
-  return stores.map(s => s.id);
-}
-
-// Helper: Ensure user and store exist, then return store IDs
-async function ensureUserAndGetStoreIds(userId) {
-  // Upsert user (same pattern as /api/me/store)
-  await prisma.user.upsert({
-    where: { id: userId },
-    update: {},
-    create: {
-      id: userId,
-      email: `${userId}@orderwarden.local`,
-    },
-  });
-
-  // Find existing stores
-  let stores = await prisma.store.findMany({
-    where: { userId },
-    select: { id: true }
-  });
-
-  // Auto-create default store if none exists
-  if (stores.length === 0) {
-    const newStore = await prisma.store.create({
-      data: {
-        userId,
-        platform: "etsy",
-        storeName: "My Store",
-      },
-      select: { id: true },
-    });
-    stores = [newStore];
-  }
-
-  return stores.map(s => s.id);
-}
-
-// GET /api/orders - List orders for authenticated user only
-router.get("/", async (req, res) => {
+// GET /api/orders - One page of the organization's orders.
+// Query: storeId, risk (green,yellow,red), status, carrier (comma-separated),
+// createdFrom / createdTo (ISO dates), q (searches orderId and tracking number),
+// sort (createdAt, orderId, trackingNumber, lastStatus, riskLevel, lastUpdateAt,
+// expectedDeliveryAt), order (asc|desc), limit (max 200) and cursor from
+// pageInfo.nextCursor. Responds with { orders, totalCount, pageInfo }.
+router.get("/", authorize("orders:read"), async (req, res) => {
   try {
-    const userId = getAuthUserId(req);
-    if (!userId) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
+    const { storeIds } = req;
 
-    const storeIds = await getUserStoreIds(userId);
+    const validation = validateOrderList(req.query);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
 
-    // Auto-assign orphaned orders (no storeId) to user's default store
+    // Auto-assign orphaned orders (no storeId) to the organization's first store
     const defaultStoreId = storeIds[0];
     if (defaultStoreId) {
       await prisma.order.updateMany({
@@ -79,34 +53,53 @@ router.get("/", async (req, res) => {
       });
     }
 
-    const orders = await prisma.order.findMany({
-      where: { storeId: { in: storeIds } },
-      orderBy: { createdAt: "desc" }
-    });
+    const scopedStoreIds = scopeStoreIds(storeIds, validation.value.storeId);
+    if (!scopedStoreIds) {
+      return res.status(404).json({ error: "Store not found" });
+    }
 
-    res.json({ orders });
+    const page = await listOrders(scopedStoreIds, validation.value);
+    res.json(page);
   } catch (error) {
     console.error("[Orders] List error:", error);
     res.status(500).json({ error: "Failed to fetch orders" });
   }
 });
 
-// GET /api/orders/:id - Get single order (only if user owns it)
-router.get("/:id", async (req, res) => {
+// GET /api/orders/summary - Counts by risk level and status for the orders
+// matching the same filters as GET /api/orders (sort and paging are ignored)
+router.get("/summary", authorize("orders:read"), async (req, res) => {
   try {
-    const userId = getAuthUserId(req);
-    if (!userId) {
-      return res.status(401).json({ error: "Authentication required" });
+    const validation = validateOrderList(req.query);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
     }
 
-    const storeIds = await getUserStoreIds(userId);
+    const scopedStoreIds = scopeStoreIds(req.storeIds, validation.value.storeId);
+    if (!scopedStoreIds) {
+      return res.status(404).json({ error: "Store not found" });
+    }
+
+    const summary = await summarizeOrders(scopedStoreIds, validation.value);
+    res.json(summary);
+  } catch (error) {
+    console.error("[Orders] Summary error:", error);
+    res.status(500).json({ error: "Failed to summarize orders" });
+  }
+});
+
+// GET /api/orders/:id - Get single order (only if it is in the organization)
+router.get("/:id", authorize("orders:read"), async (req, res) => {
+  try {
+    const { storeIds } = req;
     const { id } = req.params;
 
     const order = await prisma.order.findFirst({
       where: {
         id,
         storeId: { in: storeIds }
-      }
+      },
+      include: { items: { orderBy: { createdAt: "asc" } } }
     });
 
     if (!order) {
@@ -120,6 +113,36 @@ router.get("/:id", async (req, res) => {
   }
 });
 
+// GET /api/orders/:id/timeline - Stored carrier scan history (no tracking API call)
+router.get("/:id/timeline", authorize("orders:read"), async (req, res) => {
+  try {
+    const { storeIds } = req;
+    const { id } = req.params;
+
+    const order = await prisma.order.findFirst({
+      where: {
+        id,
+        storeId: { in: storeIds }
+      },
+      select: { id: true, lastUpdateAt: true }
+    });
+
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const scans = await getTrackingScans(order.id);
+
+    res.json({
+      scans,
+      lastCheckedAt: order.lastUpdateAt
+    });
+  } catch (error) {
+    console.error("[Orders] Timeline error:", error);
+    res.status(500).json({ error: "Failed to fetch timeline" });
+  }
+});
+
 // Helper: Check if we need to reset monthly order count
 function shouldResetOrderCount(orderCountResetAt) {
   if (!orderCountResetAt) return true;
@@ -132,14 +155,48 @@ function shouldResetOrderCount(orderCountResetAt) {
          now.getFullYear() !== resetDate.getFullYear();
 }
 
-// POST /api/orders - Create new order (authenticated, auto-assigns to user's store)
-router.post("/", async (req, res) => {
-  try {
-    const userId = getAuthUserId(req);
-    if (!userId) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
+// Helper: The user whose plan covers the organization (its owner), with the
+// monthly order count reset when a new month has started
+async function loadBillingUser(organizationId, userId) {
+  const billingUserId = (await getOrganizationOwnerId(organizationId)) || userId;
+  let user = await prisma.user.findUnique({
+    where: { id: billingUserId },
+  });
+
+  // Reset monthly count if needed
+  if (user && shouldResetOrderCount(user.orderCountResetAt)) {
+    user = await prisma.user.update({
+      where: { id: billingUserId },
+      data: {
+        monthlyOrderCount: 0,
+        orderCountResetAt: new Date(),
+      },
+    });
+  }
 
+  return { billingUserId, user };
+}
+
+// Helper: New orders remaining this month (Infinity on Pro)
+function remainingOrderQuota(user) {
+  if (!user || user.planType === "pro") return Infinity;
+  return Math.max(FREE_ORDER_LIMIT - user.monthlyOrderCount, 0);
+}
+
+// Helper: The store new orders go to: `storeId` when it is in the organization,
+// else the user's default store, else the first one. Null for a foreign store.
+async function resolveTargetStore(storeIds, storeId, userId) {
+  if (storeId) {
+    return storeIds.includes(storeId) ? storeId : null;
+  }
+  const { defaultStoreId } = await getUserSettings(userId);
+  return storeIds.includes(defaultStoreId) ? defaultStoreId : storeIds[0];
+}
+
+// POST /api/orders - Create new order (auto-assigns to the default store)
+router.post("/", authorize("orders:write"), async (req, res) => {
+  try {
+    const { userId } = req;
     const { orderId, trackingNumber, carrier, storeId } = req.body;
 
     // Validation
@@ -149,27 +206,21 @@ router.post("/", async (req, res) => {
       });
     }
 
-    // Ensure user and store exist (auto-creates if missing)
-    const storeIds = await ensureUserAndGetStoreIds(userId);
+    // Optional buyer, destination, total, ship date and items
+    const details = validateOrderDetails(req.body);
+    if (!details.ok) {
+      return res.status(400).json({ error: details.error });
+    }
+    const { items, ...detailFields } = details.value;
 
-    // Get user to check subscription status and order count
-    let user = await prisma.user.findUnique({
-      where: { id: userId },
-    });
+    // Ensure the organization has a store (auto-creates if missing)
+    const storeIds = await ensureOrganizationStore(req.organization.id, userId);
 
-    // Reset monthly count if needed
-    if (user && shouldResetOrderCount(user.orderCountResetAt)) {
-      user = await prisma.user.update({
-        where: { id: userId },
-        data: {
-          monthlyOrderCount: 0,
-          orderCountResetAt: new Date(),
-        },
-      });
-    }
+    // The organization owner's subscription and order count cover the workspace
+    const { billingUserId, user } = await loadBillingUser(req.organization.id, userId);
 
     // Check order limit for free users
-    if (user && user.planType !== "pro" && user.monthlyOrderCount >= FREE_ORDER_LIMIT) {
+    if (remainingOrderQuota(user) === 0) {
       return res.status(403).json({
         error: "Monthly order limit reached",
         message: `Free plan allows ${FREE_ORDER_LIMIT} orders per month. Upgrade to Pro for unlimited orders.`,
@@ -179,16 +230,10 @@ router.post("/", async (req, res) => {
       });
     }
 
-    // Determine which store to use
-    let assignedStoreId = storeId;
-    if (storeId) {
-      // Verify user owns this store
-      if (!storeIds.includes(storeId)) {
-        return res.status(403).json({ error: "You don't own this store" });
-      }
-    } else {
-      // Auto-assign to user's default store
-      assignedStoreId = storeIds[0];
+    // Determine which store to use (verifying a given one is in the organization)
+    const assignedStoreId = await resolveTargetStore(storeIds, storeId, userId);
+    if (!assignedStoreId) {
+      return res.status(403).json({ error: "Store is not in this organization" });
     }
 
     // Create order
@@ -198,13 +243,16 @@ router.post("/", async (req, res) => {
         trackingNumber,
         carrier: carrier || null,
         storeId: assignedStoreId,
-        riskLevel: "green" // Default to green until first check
-      }
+        riskLevel: "green", // Default to green until first check
+        ...detailFields,
+        ...(items ? { items: { create: items } } : {})
+      },
+      include: { items: true }
     });
 
     // Increment monthly order count
     await prisma.user.update({
-      where: { id: userId },
+      where: { id: billingUserId },
       data: {
         monthlyOrderCount: { increment: 1 },
         orderCountResetAt: user?.orderCountResetAt || new Date(),
@@ -228,25 +276,121 @@ router.post("/", async (req, res) => {
   }
 });
 
-// POST /api/orders/:id/check - Check tracking and update risk (only if user owns it)
-router.post("/:id/check", async (req, res) => {
+// POST /api/orders/import - Import orders from a CSV file.
+// Body: { csv, mapping?: { orderId, trackingNumber, carrier }, storeId?,
+//         duplicates?: "skip" | "update", dryRun? }
+// Responds with the column mapping used and a result per row; with dryRun
+// nothing is saved (the dashboard's preview step).
+router.post("/import", authorize("orders:write"), async (req, res) => {
   try {
-    const userId = getAuthUserId(req);
-    if (!userId) {
-      return res.status(401).json({ error: "Authentication required" });
+    const { userId } = req;
+
+    const validation = validateOrderImport(req.body);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+    const { csv, mapping, storeId, duplicates, dryRun } = validation.value;
+
+    const parsed = readImportCsv(csv, mapping);
+    if (!parsed.ok) {
+      return res.status(400).json({
+        error: parsed.error,
+        headers: parsed.headers || null,
+        mapping: parsed.mapping || null
+      });
     }
 
-    const storeIds = await getUserStoreIds(userId);
+    const storeIds = await ensureOrganizationStore(req.organization.id, userId);
+    const targetStoreId = await resolveTargetStore(storeIds, storeId, userId);
+    if (!targetStoreId) {
+      return res.status(403).json({ error: "Store is not in this organization" });
+    }
+
+    const { billingUserId, user } = await loadBillingUser(req.organization.id, userId);
+    const quota = remainingOrderQuota(user);
+
+    const report = await importOrders(parsed.value.rows, {
+      storeId: targetStoreId,
+      storeIds,
+      duplicates,
+      quota,
+      dryRun
+    });
+
+    if (!dryRun && report.summary.created > 0) {
+      await prisma.user.update({
+        where: { id: billingUserId },
+        data: {
+          monthlyOrderCount: { increment: report.summary.created },
+          orderCountResetAt: user?.orderCountResetAt || new Date(),
+        },
+      });
+      console.log(`[Orders] Imported ${report.summary.created} orders into store ${targetStoreId} (user: ${userId})`);
+    }
+
+    res.json({
+      headers: parsed.value.headers,
+      mapping: parsed.value.mapping,
+      storeId: targetStoreId,
+      limit: quota === Infinity ? null : { limit: FREE_ORDER_LIMIT, remaining: quota },
+      ...report
+    });
+  } catch (error) {
+    console.error("[Orders] Import error:", error);
+    res.status(500).json({ error: "Failed to import orders" });
+  }
+});
+
+// PATCH /api/orders/:id - Edit buyer, destination, language, total, ship date and
+// items. Send only the fields to change; items, when sent, replace the order's
+// items. messageLocale picks the buyer message language (null: detect it).
+router.patch("/:id", authorize("orders:write"), async (req, res) => {
+  try {
+    const validation = validateOrderDetails(req.body);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+    const { items, ...fields } = validation.value;
+
+    const existing = await prisma.order.findFirst({
+      where: { id: req.params.id, storeId: { in: req.storeIds } },
+      select: { id: true }
+    });
+    if (!existing) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const order = await prisma.order.update({
+      where: { id: existing.id },
+      data: {
+        ...fields,
+        ...(items ? { items: { deleteMany: {}, create: items } } : {})
+      },
+      include: { items: { orderBy: { createdAt: "asc" } } }
+    });
+
+    res.json({ order });
+  } catch (error) {
+    console.error("[Orders] Update error:", error);
+    res.status(500).json({ error: "Failed to update order" });
+  }
+});
+
+// POST /api/orders/:id/check - Check tracking and update risk (only if it is in the organization)
+router.post("/:id/check", authorize("orders:write"), async (req, res) => {
+  try {
+    const { userId, storeIds } = req;
     const { id } = req.params;
 
     console.log(`[Orders] Checking tracking for order ${id} (user: ${userId})`);
 
-    // 1. Get order (only if user owns it)
+    // 1. Get order (only if it is in the organization)
     const order = await prisma.order.findFirst({
       where: {
         id,
         storeId: { in: storeIds }
-      }
+      },
+      include: { store: { select: { userId: true } } }
     });
 
     if (!order) {
@@ -257,58 +401,30 @@ router.post("/:id/check", async (req, res) => {
     console.log(`[Orders] Fetching tracking for ${order.trackingNumber}`);
     const trackingResult = await checkTrackingStatus(order.trackingNumber, order.carrier);
 
-    console.log(`[Orders] Tracking result - Status: ${trackingResult.status}, Risk: ${trackingResult.riskLevel}`);
+    // A failed lookup says nothing about the parcel: keep the order as it is
+    // and push its next check back, as the cron sweep does
+    if (trackingResult.error) {
+      await deferFailedCheck(order);
+      return res.status(502).json({ error: "Tracking lookup failed", message: trackingResult.error });
+    }
 
-    // 3. Update database with tracking info
-    const updatedOrder = await prisma.order.update({
-      where: { id },
-      data: {
-        lastStatus: trackingResult.status,
-        lastUpdateAt: new Date(),
-        riskLevel: trackingResult.riskLevel,
-        carrier: trackingResult.carrier || order.carrier // Update carrier if detected
-      }
+    // 3. Estimate delivery, apply the store owner's risk rules (as the cron
+    //    sweep does, whoever clicks), save the order and log scans, events
+    //    and notifications
+    const context = await loadTrackingContext(order.store.userId);
+    const { order: updatedOrder, risk, eta } = await applyTrackingResult(order, trackingResult, context);
+
+    console.log(`[Orders] Tracking result - Status: ${trackingResult.status}, Risk: ${risk.riskLevel}`);
+
+    // 4. Get recommended message in the organization's wording
+    const recommendedMessage = await recommendMessage(updatedOrder, {
+      organizationId: req.organization.id,
+      userId,
+      status: trackingResult.status,
+      riskLevel: risk.riskLevel,
+      location: trackingResult.location
     });
 
-    // 4. Get recommended message template
-    const recommendedMessage = getMessageTemplate(
-      trackingResult.status,
-      trackingResult.riskLevel,
-      order.orderId
-    );
-
-    // 4b. Log tracking events for impact metrics (non-blocking)
-    const eventData = [];
-    eventData.push({
-      orderId: order.id,
-      type: "tracking_checked",
-      metadata: {
-        status: trackingResult.status,
-        carrier: trackingResult.carrier || order.carrier || null
-      }
-    });
-    if (order.lastStatus !== trackingResult.status) {
-      eventData.push({
-        orderId: order.id,
-        type: "status_changed",
-        metadata: { from: order.lastStatus, to: trackingResult.status }
-      });
-    }
-    if (order.riskLevel !== trackingResult.riskLevel) {
-      eventData.push({
-        orderId: order.id,
-        type: "risk_changed",
-        metadata: { from: order.riskLevel, to: trackingResult.riskLevel }
-      });
-    }
-    if (eventData.length > 0) {
-      try {
-        await prisma.orderEvent.createMany({ data: eventData });
-      } catch (eventError) {
-        console.error("[Orders] Event log error:", eventError);
-      }
-    }
-
     console.log(`[Orders] Updated order ${id} - Risk: ${updatedOrder.riskLevel}`);
 
     // 5. Return everything
@@ -318,7 +434,10 @@ router.post("/:id/check", async (req, res) => {
         status: trackingResult.status,
         lastUpdate: trackingResult.lastUpdate,
         location: trackingResult.location,
-        riskLevel: trackingResult.riskLevel,
+        riskLevel: risk.riskLevel,
+        riskReasons: risk.reasons,
+        expectedDeliveryAt: eta.expectedDeliveryAt,
+        etaSource: eta.source,
         carrier: trackingResult.carrier,
         events: trackingResult.events || []
       },
@@ -334,18 +453,129 @@ router.post("/:id/check", async (req, res) => {
   }
 });
 
-// DELETE /api/orders/:id - Delete order (only if user owns it)
-router.delete("/:id", async (req, res) => {
+// GET /api/orders/:id/message?key=delivered&locale=de - Buyer message for the order's
+// current status and risk (or the template named by key) in the order's language (or
+// locale), without checking tracking, and whether it can be sent through Etsy or
+// already was. `language` is the detected language and where it came from.
+router.get("/:id/message", authorize("orders:read"), async (req, res) => {
+  try {
+    const key = req.query.key || null;
+    if (key && !MESSAGE_TEMPLATE_KEYS.includes(key)) {
+      return res.status(400).json({ error: `key must be one of: ${MESSAGE_TEMPLATE_KEYS.join(", ")}.` });
+    }
+    const locale = validateMessageLocale(req.query.locale, { fallback: null });
+    if (!locale.ok) {
+      return res.status(400).json({ error: locale.error });
+    }
+
+    const order = await prisma.order.findFirst({
+      where: { id: req.params.id, storeId: { in: req.storeIds } }
+    });
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const recommendedMessage = await recommendMessage(order, {
+      organizationId: req.organization.id,
+      userId: req.userId,
+      key,
+      locale: locale.value
+    });
+    const delivery = await describeDelivery(order, recommendedMessage.key);
+    res.json({ recommendedMessage, delivery, language: detectOrderLocale(order) });
+  } catch (error) {
+    console.error("[Orders] Message error:", error);
+    res.status(500).json({ error: "Failed to build message" });
+  }
+});
+
+// GET /api/orders/:id/messages - Messages copied or sent for the order, newest first
+router.get("/:id/messages", authorize("orders:read"), async (req, res) => {
+  try {
+    const order = await prisma.order.findFirst({
+      where: { id: req.params.id, storeId: { in: req.storeIds } },
+      select: { id: true }
+    });
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const messages = await listMessageLog(order.id);
+    res.json({ messages });
+  } catch (error) {
+    console.error("[Orders] Message log error:", error);
+    res.status(500).json({ error: "Failed to fetch messages" });
+  }
+});
+
+// POST /api/orders/:id/messages - Log a message copied or sent to the buyer
+router.post("/:id/messages", authorize("orders:write"), async (req, res) => {
+  try {
+    const validation = validateMessageLog(req.body);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const order = await prisma.order.findFirst({
+      where: { id: req.params.id, storeId: { in: req.storeIds } }
+    });
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const result = await logMessage(order, {
+      organizationId: req.organization.id,
+      userId: req.userId,
+      ...validation.value
+    });
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, message: result.sent });
+    }
+    res.status(201).json({ message: result.value });
+  } catch (error) {
+    console.error("[Orders] Log message error:", error);
+    res.status(500).json({ error: "Failed to log message" });
+  }
+});
+
+// POST /api/orders/:id/messages/send - Send the message for the order's current
+// state to the buyer through Etsy, once per update
+router.post("/:id/messages/send", authorize("orders:write"), async (req, res) => {
   try {
-    const userId = getAuthUserId(req);
-    if (!userId) {
-      return res.status(401).json({ error: "Authentication required" });
+    const validation = validateMessageSend(req.body);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
     }
 
-    const storeIds = await getUserStoreIds(userId);
+    const order = await prisma.order.findFirst({
+      where: { id: req.params.id, storeId: { in: req.storeIds } }
+    });
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const result = await sendBuyerMessage(order, {
+      organizationId: req.organization.id,
+      userId: req.userId,
+      ...validation.value
+    });
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, message: result.sent || null });
+    }
+    res.status(201).json({ message: result.value });
+  } catch (error) {
+    console.error("[Orders] Send message error:", error);
+    res.status(500).json({ error: "Failed to send message" });
+  }
+});
+
+// DELETE /api/orders/:id - Delete order (only if it is in the organization)
+router.delete("/:id", authorize("orders:delete"), async (req, res) => {
+  try {
+    const { userId, storeIds } = req;
     const { id } = req.params;
 
-    // Verify user owns this order before deleting
+    // Verify the order is in the organization before deleting
     const order = await prisma.order.findFirst({
       where: {
         id,
@@ -361,6 +591,9 @@ router.delete("/:id", async (req, res) => {
       prisma.orderEvent.deleteMany({
         where: { orderId: id }
       }),
+      prisma.trackingScan.deleteMany({
+        where: { orderId: id }
+      }),
       prisma.order.delete({
         where: { id }
       })
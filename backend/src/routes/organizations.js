@@ -0,0 +1,242 @@
+// routes/organizations.js - Workspaces, members and invitations
+const express = require("express");
+const router = express.Router();
+const prisma = require("../db/prisma");
+
+const {
+  hasPermission,
+  permissionsFor,
+  setActiveOrganization,
+  listMemberships,
+  listMembers,
+  updateMemberRole,
+  removeMember,
+  listPendingInvitations,
+  createInvitation,
+  revokeInvitation,
+  findOpenInvitation,
+  acceptInvitation
+} = require("../services/organizationService");
+const { sendInvitationEmail } = require("../services/email");
+const { authorize, requireAuth, requirePermission } = require("../middleware/authorize");
+const {
+  validateInvitation,
+  validateMemberUpdate,
+  validateOrganizationUpdate
+} = require("../utils/validation");
+
+// GET /api/organizations - Every workspace the user belongs to
+router.get("/", authorize(), async (req, res) => {
+  try {
+    const organizations = await listMemberships(req.userId);
+    res.json({ organizations, currentOrganizationId: req.organization.id });
+  } catch (error) {
+    console.error("[Organizations] List error:", error);
+    res.status(500).json({ error: "Failed to fetch organizations" });
+  }
+});
+
+// GET /api/organizations/current - The workspace the request acts in, with the
+// caller's role and permissions. Members and pending invitations are included
+// for those who may manage them.
+router.get("/current", authorize(), async (req, res) => {
+  try {
+    const { role } = req.membership;
+    const canManageMembers = hasPermission(role, "members:manage");
+
+    const [members, invitations] = await Promise.all([
+      listMembers(req.organization.id),
+      canManageMembers ? listPendingInvitations(req.organization.id) : []
+    ]);
+
+    res.json({
+      organization: req.organization,
+      role,
+      permissions: permissionsFor(role),
+      members,
+      invitations
+    });
+  } catch (error) {
+    console.error("[Organizations] Current error:", error);
+    res.status(500).json({ error: "Failed to fetch organization" });
+  }
+});
+
+// PATCH /api/organizations/current - Rename the workspace
+router.patch("/current", authorize("organization:manage"), async (req, res) => {
+  try {
+    const validation = validateOrganizationUpdate(req.body);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const organization = await prisma.organization.update({
+      where: { id: req.organization.id },
+      data: validation.value,
+      select: { id: true, name: true }
+    });
+
+    res.json({ organization });
+  } catch (error) {
+    console.error("[Organizations] Update error:", error);
+    res.status(500).json({ error: "Failed to update organization" });
+  }
+});
+
+// POST /api/organizations/current/invitations - Invite someone by email
+router.post("/current/invitations", authorize("members:manage"), async (req, res) => {
+  try {
+    const validation = validateInvitation(req.body);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const existingMember = await prisma.membership.findFirst({
+      where: {
+        organizationId: req.organization.id,
+        user: { email: { equals: validation.value.email, mode: "insensitive" } }
+      },
+      select: { id: true }
+    });
+    if (existingMember) {
+      return res.status(409).json({ error: "Already a member of this organization" });
+    }
+
+    const invitation = await createInvitation(req.organization.id, validation.value, req.userId);
+
+    // The invitation stands even if the email fails; it can be re-sent
+    let emailSent = true;
+    try {
+      await sendInvitationEmail(invitation, req.userId);
+    } catch (error) {
+      console.error(`[Organizations] Invitation email to ${invitation.email} failed:`, error.message);
+      emailSent = false;
+    }
+
+    console.log(`[Organizations] ${req.userId} invited ${invitation.email} to ${req.organization.id} as ${invitation.role}`);
+    res.status(201).json({
+      invitation: {
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+        createdAt: invitation.createdAt
+      },
+      emailSent
+    });
+  } catch (error) {
+    console.error("[Organizations] Invite error:", error);
+    res.status(500).json({ error: "Failed to create invitation" });
+  }
+});
+
+// DELETE /api/organizations/current/invitations/:id - Revoke a pending invitation
+router.delete("/current/invitations/:id", authorize("members:manage"), async (req, res) => {
+  try {
+    const revoked = await revokeInvitation(req.organization.id, req.params.id);
+    if (!revoked) {
+      return res.status(404).json({ error: "Invitation not found" });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error("[Organizations] Revoke invitation error:", error);
+    res.status(500).json({ error: "Failed to revoke invitation" });
+  }
+});
+
+// PATCH /api/organizations/current/members/:userId - Change a member's role
+router.patch("/current/members/:userId", authorize("members:manage"), async (req, res) => {
+  try {
+    const validation = validateMemberUpdate(req.body);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const result = await updateMemberRole(req.organization.id, req.params.userId, validation.value.role);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    res.json({ member: result.value });
+  } catch (error) {
+    console.error("[Organizations] Update member error:", error);
+    res.status(500).json({ error: "Failed to update member" });
+  }
+});
+
+// DELETE /api/organizations/current/members/:userId - Remove a member, or leave
+// the workspace when it is the caller
+router.delete("/current/members/:userId", authorize(), (req, res, next) => {
+  if (req.params.userId === req.userId) return next();
+  return requirePermission("members:manage")(req, res, next);
+}, async (req, res) => {
+  try {
+    const result = await removeMember(req.organization.id, req.params.userId);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    console.log(`[Organizations] ${req.userId} removed ${req.params.userId} from ${req.organization.id}`);
+    res.json({ success: true });
+  } catch (error) {
+    console.error("[Organizations] Remove member error:", error);
+    res.status(500).json({ error: "Failed to remove member" });
+  }
+});
+
+// POST /api/organizations/:id/activate - Make a workspace the active one
+router.post("/:id/activate", requireAuth, async (req, res) => {
+  try {
+    const membership = await setActiveOrganization(req.userId, req.params.id);
+    if (!membership) {
+      return res.status(403).json({ error: "You are not a member of this organization" });
+    }
+
+    res.json({ organization: membership.organization, role: membership.role });
+  } catch (error) {
+    console.error("[Organizations] Activate error:", error);
+    res.status(500).json({ error: "Failed to switch organization" });
+  }
+});
+
+// GET /api/organizations/invitations/:token - What an invitation is for
+router.get("/invitations/:token", requireAuth, async (req, res) => {
+  try {
+    const invitation = await findOpenInvitation(req.params.token);
+    if (!invitation) {
+      return res.status(404).json({ error: "Invitation not found or expired" });
+    }
+
+    res.json({
+      invitation: {
+        organization: invitation.organization,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt
+      }
+    });
+  } catch (error) {
+    console.error("[Organizations] Invitation lookup error:", error);
+    res.status(500).json({ error: "Failed to fetch invitation" });
+  }
+});
+
+// POST /api/organizations/invitations/:token/accept - Join the workspace.
+// Holding the token is the proof: Clerk users may not have their email on file.
+router.post("/invitations/:token/accept", requireAuth, async (req, res) => {
+  try {
+    const result = await acceptInvitation(req.params.token, req.userId);
+    if (!result.ok) {
+      return res.status(404).json({ error: result.error });
+    }
+
+    console.log(`[Organizations] ${req.userId} joined ${result.value.organization.id} as ${result.value.role}`);
+    res.json(result.value);
+  } catch (error) {
+    console.error("[Organizations] Accept invitation error:", error);
+    res.status(500).json({ error: "Failed to accept invitation" });
+  }
+});
+
+module.exports = router;
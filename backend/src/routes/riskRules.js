@@ -0,0 +1,44 @@
+// routes/riskRules.js - Per-user risk rule configuration
+const express = require("express");
+const router = express.Router();
+
+const { DEFAULT_RULES } = require("../services/riskEngine");
+const { getRiskRuleSet, saveRiskRuleSet } = require("../services/settingsService");
+const { validateRiskRuleSet } = require("../utils/validation");
+const { requireAuth } = require("../middleware/authorize");
+
+// GET /api/risk-rules - Active rule set plus the defaults it can be reset to
+router.get("/", requireAuth, async (req, res) => {
+  try {
+    const { userId } = req;
+
+    const ruleSet = await getRiskRuleSet(userId);
+
+    res.json({ ...ruleSet, defaults: DEFAULT_RULES });
+  } catch (error) {
+    console.error("[RiskRules] Get error:", error);
+    res.status(500).json({ error: "Failed to fetch risk rules" });
+  }
+});
+
+// PUT /api/risk-rules - Update sensitivity and/or rules (rules: null restores defaults)
+router.put("/", requireAuth, async (req, res) => {
+  try {
+    const { userId } = req;
+
+    const validation = validateRiskRuleSet(req.body);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const ruleSet = await saveRiskRuleSet(userId, validation.value);
+
+    console.log(`[RiskRules] Updated rules for user ${userId} (custom: ${ruleSet.custom})`);
+    res.json({ ...ruleSet, defaults: DEFAULT_RULES });
+  } catch (error) {
+    console.error("[RiskRules] Update error:", error);
+    res.status(500).json({ error: "Failed to update risk rules" });
+  }
+});
+
+module.exports = router;
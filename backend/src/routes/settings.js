@@ -0,0 +1,72 @@
+// routes/settings.js - Persisted user settings
+const express = require("express");
+const router = express.Router();
+const prisma = require("../db/prisma");
+
+const {
+  AUTO_CHECK_INTERVALS,
+  getUserSettings,
+  saveUserSettings
+} = require("../services/settingsService");
+const { applyIntervalChange } = require("../services/checkScheduler");
+const { validateSettingsUpdate } = require("../utils/validation");
+const { authorize } = require("../middleware/authorize");
+
+// Helper: Stores of the organization the user can pick as default
+async function getOrganizationStores(organizationId) {
+  return prisma.store.findMany({
+    where: { organizationId },
+    select: { id: true, storeName: true, platform: true },
+    orderBy: { createdAt: "asc" }
+  });
+}
+
+// GET /api/settings - Settings (defaults when never saved) plus the organization's stores
+router.get("/", authorize(), async (req, res) => {
+  try {
+    const { userId } = req;
+
+    const [settings, stores] = await Promise.all([
+      getUserSettings(userId),
+      getOrganizationStores(req.organization.id)
+    ]);
+
+    res.json({ settings, stores });
+  } catch (error) {
+    console.error("[Settings] Get error:", error);
+    res.status(500).json({ error: "Failed to fetch settings" });
+  }
+});
+
+// PUT /api/settings - Update any subset of the settings
+router.put("/", authorize(), async (req, res) => {
+  try {
+    const { userId } = req;
+
+    const validation = validateSettingsUpdate(req.body);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const stores = await getOrganizationStores(req.organization.id);
+    const { defaultStoreId } = validation.value;
+    if (defaultStoreId && !stores.some(store => store.id === defaultStoreId)) {
+      return res.status(403).json({ error: "Store is not in this organization" });
+    }
+
+    const settings = await saveUserSettings(userId, validation.value);
+
+    // A shorter interval should take effect now, not after the next scheduled check
+    if (validation.value.autoCheckInterval) {
+      await applyIntervalChange(userId, AUTO_CHECK_INTERVALS[settings.autoCheckInterval]);
+    }
+
+    console.log(`[Settings] Updated settings for user ${userId}: ${Object.keys(validation.value).join(", ")}`);
+    res.json({ settings, stores });
+  } catch (error) {
+    console.error("[Settings] Update error:", error);
+    res.status(500).json({ error: "Failed to update settings" });
+  }
+});
+
+module.exports = router;
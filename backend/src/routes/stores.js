@@ -0,0 +1,144 @@
+// routes/stores.js - Store management (one store per shop)
+const express = require("express");
+const router = express.Router();
+const prisma = require("../db/prisma");
+
+const { getUserSettings } = require("../services/settingsService");
+const { listStores, getStore } = require("../services/storeService");
+const { validateStoreCreate, validateStoreUpdate } = require("../utils/validation");
+const { authorize } = require("../middleware/authorize");
+
+// GET /api/stores - The organization's stores with order counts and Etsy status
+router.get("/", authorize("stores:read"), async (req, res) => {
+  try {
+    const { userId } = req;
+    const organizationId = req.organization.id;
+
+    const { defaultStoreId } = await getUserSettings(userId);
+    const stores = await listStores(organizationId, defaultStoreId);
+
+    res.json({ stores, defaultStoreId });
+  } catch (error) {
+    console.error("[Stores] List error:", error);
+    res.status(500).json({ error: "Failed to fetch stores" });
+  }
+});
+
+// POST /api/stores - Create a store
+router.post("/", authorize("stores:manage"), async (req, res) => {
+  try {
+    const { userId } = req;
+    const organizationId = req.organization.id;
+
+    const validation = validateStoreCreate(req.body);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const created = await prisma.store.create({
+      data: { userId, organizationId, ...validation.value },
+      select: { id: true }
+    });
+
+    const { defaultStoreId } = await getUserSettings(userId);
+    const store = await getStore(organizationId, created.id, defaultStoreId);
+
+    console.log(`[Stores] Created store ${created.id} in organization ${organizationId} by ${userId}`);
+    res.status(201).json({ store });
+  } catch (error) {
+    console.error("[Stores] Create error:", error);
+    res.status(500).json({ error: "Failed to create store" });
+  }
+});
+
+// PATCH /api/stores/:id - Rename a store (only if it is in the organization)
+router.patch("/:id", authorize("stores:manage"), async (req, res) => {
+  try {
+    const { userId } = req;
+    const organizationId = req.organization.id;
+
+    const validation = validateStoreUpdate(req.body);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const { id } = req.params;
+    const { count } = await prisma.store.updateMany({
+      where: { id, organizationId },
+      data: validation.value
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: "Store not found" });
+    }
+
+    const { defaultStoreId } = await getUserSettings(userId);
+    const store = await getStore(organizationId, id, defaultStoreId);
+
+    res.json({ store });
+  } catch (error) {
+    console.error("[Stores] Update error:", error);
+    res.status(500).json({ error: "Failed to update store" });
+  }
+});
+
+// DELETE /api/stores/:id?moveOrdersTo=<storeId> - Delete a store and its Etsy connection.
+// A store with orders can only be deleted once they have somewhere to go.
+router.delete("/:id", authorize("stores:manage"), async (req, res) => {
+  try {
+    const { userId } = req;
+    const organizationId = req.organization.id;
+
+    const { id } = req.params;
+    const moveOrdersTo = req.query.moveOrdersTo || req.body?.moveOrdersTo || null;
+
+    const store = await prisma.store.findFirst({
+      where: { id, organizationId },
+      select: { id: true, _count: { select: { orders: true } } }
+    });
+
+    if (!store) {
+      return res.status(404).json({ error: "Store not found" });
+    }
+
+    const orderCount = store._count.orders;
+
+    if (orderCount > 0) {
+      if (!moveOrdersTo) {
+        return res.status(409).json({
+          error: "Store has orders",
+          message: "Pass moveOrdersTo with another store of the organization to keep them.",
+          orderCount
+        });
+      }
+
+      if (moveOrdersTo === id) {
+        return res.status(400).json({ error: "moveOrdersTo must be a different store" });
+      }
+
+      const target = await prisma.store.findFirst({
+        where: { id: moveOrdersTo, organizationId },
+        select: { id: true }
+      });
+      if (!target) {
+        return res.status(403).json({ error: "Store is not in this organization" });
+      }
+    }
+
+    await prisma.$transaction([
+      prisma.order.updateMany({
+        where: { storeId: id },
+        data: { storeId: moveOrdersTo }
+      }),
+      prisma.store.delete({ where: { id } })
+    ]);
+
+    console.log(`[Stores] Deleted store ${id} in organization ${organizationId} by ${userId} (${orderCount} orders moved)`);
+    res.json({ success: true, movedOrders: orderCount });
+  } catch (error) {
+    console.error("[Stores] Delete error:", error);
+    res.status(500).json({ error: "Failed to delete store" });
+  }
+});
+
+module.exports = router;
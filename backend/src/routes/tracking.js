@@ -0,0 +1,117 @@
+// routes/tracking.js - Carrier push updates
+const express = require("express");
+const router = express.Router();
+const crypto = require("crypto");
+const prisma = require("../db/prisma");
+const { getProvider } = require("../services/tracking/providers");
+const { signaturesMatch } = require("../services/tracking/common");
+const { createTrackingContextLoader, applyTrackingResult } = require("../services/orderTrackingService");
+
+// Shared secret a relay signs the raw body with, for providers that do not
+// sign pushes themselves
+const TRACKING_WEBHOOK_SECRET = process.env.TRACKING_WEBHOOK_SECRET;
+
+/**
+ * Whether a push for a provider without its own verifyWebhook carries a valid
+ * x-signature: the hex HMAC-SHA256 of the raw body keyed with TRACKING_WEBHOOK_SECRET
+ */
+function verifySharedSecret(rawBody, headers) {
+  const expected = crypto.createHmac("sha256", TRACKING_WEBHOOK_SECRET).update(rawBody).digest("hex");
+  return signaturesMatch(headers["x-signature"], expected);
+}
+
+/**
+ * POST /api/tracking/webhook?provider=17track
+ * Applies pushed tracking updates to every order with a matching tracking
+ * number. The cron sweep still catches anything a push misses.
+ */
+router.post("/webhook", async (req, res) => {
+  try {
+    const providerName = String(req.query.provider || "17track").toLowerCase();
+    const provider = getProvider(providerName);
+
+    if (!provider || !provider.parseWebhook) {
+      return res.status(400).json({ error: `Provider ${providerName} does not support push updates` });
+    }
+
+    // Raw body, as it was signed
+    const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.from(JSON.stringify(req.body));
+
+    // Providers that sign their pushes are checked their way (17TRACK: `sign`
+    // with the API key); the rest need the shared secret
+    if (provider.verifyWebhook) {
+      if (!provider.isConfigured()) {
+        console.warn(`[Tracking] Webhook received but ${provider.name} is not configured`);
+        return res.status(503).json({ error: "Webhook not configured" });
+      }
+      if (!provider.verifyWebhook(rawBody, req.headers)) {
+        console.warn(`[Tracking] Webhook signature mismatch for ${provider.name}`);
+        return res.status(401).json({ error: "Invalid signature" });
+      }
+    } else {
+      if (!TRACKING_WEBHOOK_SECRET) {
+        console.warn("[Tracking] Webhook received but TRACKING_WEBHOOK_SECRET is not set");
+        return res.status(503).json({ error: "Webhook not configured" });
+      }
+      if (!req.headers["x-signature"]) {
+        console.warn("[Tracking] Webhook missing signature");
+        return res.status(400).json({ error: "Missing signature" });
+      }
+      if (!verifySharedSecret(rawBody, req.headers)) {
+        console.warn("[Tracking] Webhook signature mismatch");
+        return res.status(401).json({ error: "Invalid signature" });
+      }
+    }
+
+    let payload;
+    try {
+      payload = Buffer.isBuffer(req.body) ? JSON.parse(req.body.toString("utf8")) : req.body;
+    } catch (parseError) {
+      return res.status(400).json({ error: "Invalid JSON payload" });
+    }
+
+    const updates = provider.parseWebhook(payload);
+    console.log(`[Tracking] Webhook received from ${provider.name}: ${updates.length} update(s)`);
+
+    const contextFor = createTrackingContextLoader();
+    let updated = 0;
+    let unmatched = 0;
+    let errors = 0;
+
+    for (const { trackingNumber, result } of updates) {
+      // The same number can be tracked by more than one seller
+      const orders = await prisma.order.findMany({
+        where: { trackingNumber },
+        include: { store: { select: { userId: true } } }
+      });
+
+      if (orders.length === 0) {
+        unmatched++;
+        continue;
+      }
+
+      for (const order of orders) {
+        try {
+          const { risk } = await applyTrackingResult(
+            order,
+            { ...result, provider: provider.name },
+            await contextFor(order.store?.userId)
+          );
+          updated++;
+          console.log(`[Tracking] Pushed update for ${order.orderId} - Status: ${result.status}, Risk: ${risk.riskLevel}`);
+        } catch (orderError) {
+          console.error(`[Tracking] Error updating order ${order.orderId}:`, orderError);
+          errors++;
+        }
+      }
+    }
+
+    // Always acknowledge a verified push so the provider does not retry it
+    res.json({ received: true, updated, unmatched, errors });
+  } catch (error) {
+    console.error("[Tracking] Webhook error:", error);
+    res.status(500).json({ error: "Webhook processing failed" });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,137 @@
+// routes/webhooks.js - Outbound webhook endpoints and their delivery log
+const express = require("express");
+const router = express.Router();
+
+const {
+  WEBHOOK_EVENT_TYPES,
+  checkEndpointUrl,
+  listEndpoints,
+  findEndpoint,
+  createEndpoint,
+  updateEndpoint,
+  deleteEndpoint,
+  listDeliveries,
+  redeliver
+} = require("../services/webhookService");
+const { authorize } = require("../middleware/authorize");
+const { validateWebhookEndpoint } = require("../utils/validation");
+
+const DELIVERY_STATUSES = ["pending", "succeeded", "failed"];
+const MAX_DELIVERY_LIMIT = 100;
+
+// GET /api/webhooks - The workspace's endpoints and the event types they can subscribe to
+router.get("/", authorize("webhooks:manage"), async (req, res) => {
+  try {
+    const endpoints = await listEndpoints(req.organization.id);
+    res.json({ endpoints, eventTypes: Object.values(WEBHOOK_EVENT_TYPES) });
+  } catch (error) {
+    console.error("[Webhooks] List error:", error);
+    res.status(500).json({ error: "Failed to fetch webhooks" });
+  }
+});
+
+// POST /api/webhooks - Register an endpoint; its signing secret is generated
+router.post("/", authorize("webhooks:manage"), async (req, res) => {
+  try {
+    const validation = validateWebhookEndpoint(req.body);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const target = await checkEndpointUrl(validation.value.url);
+    if (!target.ok) {
+      return res.status(400).json({ error: target.error });
+    }
+
+    const endpoint = await createEndpoint(req.organization.id, validation.value);
+    res.status(201).json({ endpoint });
+  } catch (error) {
+    console.error("[Webhooks] Create error:", error);
+    res.status(500).json({ error: "Failed to create webhook" });
+  }
+});
+
+// PATCH /api/webhooks/:id - Change the URL, events, description or active flag,
+// or rotate the secret
+router.patch("/:id", authorize("webhooks:manage"), async (req, res) => {
+  try {
+    const validation = validateWebhookEndpoint(req.body, { partial: true });
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    if (validation.value.url) {
+      const target = await checkEndpointUrl(validation.value.url);
+      if (!target.ok) {
+        return res.status(400).json({ error: target.error });
+      }
+    }
+
+    const endpoint = await updateEndpoint(req.organization.id, req.params.id, validation.value);
+    if (!endpoint) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    res.json({ endpoint });
+  } catch (error) {
+    console.error("[Webhooks] Update error:", error);
+    res.status(500).json({ error: "Failed to update webhook" });
+  }
+});
+
+// DELETE /api/webhooks/:id - Remove an endpoint and its delivery log
+router.delete("/:id", authorize("webhooks:manage"), async (req, res) => {
+  try {
+    const deleted = await deleteEndpoint(req.organization.id, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("[Webhooks] Delete error:", error);
+    res.status(500).json({ error: "Failed to delete webhook" });
+  }
+});
+
+// GET /api/webhooks/:id/deliveries?status=failed&limit=50 - Newest deliveries first
+router.get("/:id/deliveries", authorize("webhooks:manage"), async (req, res) => {
+  try {
+    const endpoint = await findEndpoint(req.organization.id, req.params.id);
+    if (!endpoint) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+
+    const status = req.query.status || null;
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of: ${DELIVERY_STATUSES.join(", ")}.` });
+    }
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 50, 1), MAX_DELIVERY_LIMIT);
+
+    const deliveries = await listDeliveries(endpoint.id, { status, limit });
+    res.json({ deliveries });
+  } catch (error) {
+    console.error("[Webhooks] Deliveries error:", error);
+    res.status(500).json({ error: "Failed to fetch deliveries" });
+  }
+});
+
+// POST /api/webhooks/:id/deliveries/:deliveryId/redeliver - Send the same event
+// again as a new delivery, and return it after the first attempt
+router.post("/:id/deliveries/:deliveryId/redeliver", authorize("webhooks:manage"), async (req, res) => {
+  try {
+    const endpoint = await findEndpoint(req.organization.id, req.params.id);
+    if (!endpoint) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+
+    const delivery = await redeliver(endpoint, req.params.deliveryId);
+    if (!delivery) {
+      return res.status(404).json({ error: "Delivery not found" });
+    }
+    res.status(201).json({ delivery });
+  } catch (error) {
+    console.error("[Webhooks] Redeliver error:", error);
+    res.status(500).json({ error: "Failed to redeliver webhook" });
+  }
+});
+
+module.exports = router;
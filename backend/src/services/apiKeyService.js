@@ -0,0 +1,122 @@
+// services/apiKeyService.js
+// API keys for scripts and integrations (Authorization: Bearer ow_...).
+// A key acts as the user who created it, in the organization it was created
+// in, and only for its scopes: a request needs both the scope and the
+// permission through the user's current role (middleware/authorize.js).
+
+const crypto = require('crypto');
+const prisma = require('../db/prisma');
+const { hasPermission } = require('./organizationService');
+
+const API_KEY_PREFIX = 'ow_';
+
+// Permissions a key can be granted; everything else needs a browser session
+const API_KEY_SCOPES = ['orders:read', 'orders:write', 'orders:delete', 'metrics:read'];
+
+// Characters of the key kept in clear to tell keys apart in the list
+const DISPLAY_PREFIX_LENGTH = 11;
+
+// lastUsedAt is written at most this often per key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const API_KEY_SELECT = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+  organization: { select: { id: true, name: true } }
+};
+
+function hashKey(key) {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function isApiKey(token) {
+  return typeof token === 'string' && token.startsWith(API_KEY_PREFIX);
+}
+
+/**
+ * Scopes the role may not grant (a key can never do more than its creator)
+ */
+function scopesBeyondRole(role, scopes) {
+  return scopes.filter(scope => !hasPermission(role, scope));
+}
+
+/**
+ * Create a key. Returns the stored row and the key itself, which is not
+ * kept anywhere and cannot be shown again.
+ */
+async function createApiKey(userId, organizationId, { name, scopes }) {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      userId,
+      organizationId,
+      name,
+      scopes,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      hashedKey: hashKey(key)
+    },
+    select: API_KEY_SELECT
+  });
+
+  return { apiKey, key };
+}
+
+/**
+ * The user's keys, newest first, revoked ones included
+ */
+async function listApiKeys(userId) {
+  return prisma.apiKey.findMany({
+    where: { userId },
+    select: API_KEY_SELECT,
+    orderBy: { createdAt: 'desc' }
+  });
+}
+
+/**
+ * Revoke one of the user's keys. Returns false when there was no such active key.
+ */
+async function revokeApiKey(userId, apiKeyId) {
+  const { count } = await prisma.apiKey.updateMany({
+    where: { id: apiKeyId, userId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+  return count > 0;
+}
+
+/**
+ * The active key matching `key`, or null. Records when it was last used.
+ */
+async function verifyApiKey(key) {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { hashedKey: hashKey(key) },
+    select: { id: true, userId: true, organizationId: true, scopes: true, lastUsedAt: true, revokedAt: true }
+  });
+
+  if (!apiKey || apiKey.revokedAt) return null;
+
+  const lastUsed = apiKey.lastUsedAt ? apiKey.lastUsedAt.getTime() : 0;
+  if (Date.now() - lastUsed > LAST_USED_RESOLUTION_MS) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() }
+    });
+  }
+
+  return apiKey;
+}
+
+module.exports = {
+  API_KEY_SCOPES,
+  isApiKey,
+  scopesBeyondRole,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  verifyApiKey
+};
@@ -0,0 +1,65 @@
+// services/auth/index.js
+// The session verifier used by middleware/authenticate.js, picked from env:
+//   CLERK_JWKS_URL      - Clerk's JWKS (https://<frontend-api>/.well-known/jwks.json)
+//   CLERK_ISSUER        - optional, the expected `iss` (your Clerk frontend API URL)
+//   CLERK_AUTHORIZED_PARTIES - optional, comma-separated origins allowed as `azp`
+//   AUTH_LOCAL_SIGNER=true - trust the local stand-in signer instead (never in production)
+
+const path = require('path');
+const { createSessionVerifier } = require('./sessionTokens');
+const { createLocalSigner } = require('./localSigner');
+
+const LOCAL_KEY_FILE = process.env.AUTH_LOCAL_KEY_FILE
+  || path.join(process.cwd(), 'tmp', 'auth', 'local-signing-key.pem');
+
+let verifier;
+
+function useLocalSigner() {
+  return process.env.AUTH_LOCAL_SIGNER === 'true' && process.env.NODE_ENV !== 'production';
+}
+
+function getLocalSigner() {
+  return createLocalSigner({ keyFile: LOCAL_KEY_FILE });
+}
+
+function createVerifierFromEnv() {
+  if (useLocalSigner()) {
+    const signer = getLocalSigner();
+    console.warn('[Auth] AUTH_LOCAL_SIGNER is on: accepting locally signed session tokens');
+    return createSessionVerifier({ jwks: signer.jwks, issuer: signer.issuer });
+  }
+
+  if (!process.env.CLERK_JWKS_URL) {
+    return null;
+  }
+
+  return createSessionVerifier({
+    jwksUrl: process.env.CLERK_JWKS_URL,
+    issuer: process.env.CLERK_ISSUER || null,
+    authorizedParties: (process.env.CLERK_AUTHORIZED_PARTIES || '')
+      .split(',')
+      .map(party => party.trim())
+      .filter(Boolean)
+  });
+}
+
+/**
+ * The configured verifier, or null when authentication is not configured
+ */
+function getSessionVerifier() {
+  if (verifier === undefined) {
+    verifier = createVerifierFromEnv();
+  }
+  return verifier;
+}
+
+// Tests swap in a verifier for a createLocalSigner() key set
+function setSessionVerifier(next) {
+  verifier = next;
+}
+
+module.exports = {
+  getSessionVerifier,
+  setSessionVerifier,
+  getLocalSigner
+};
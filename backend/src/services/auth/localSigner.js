@@ -0,0 +1,67 @@
+// services/auth/localSigner.js
+// Stand-in for Clerk when testing: signs session tokens with a local RSA key
+// and publishes the matching JWKS, so the real verifier checks them.
+//
+//   const signer = createLocalSigner();
+//   setSessionVerifier(createSessionVerifier({ jwks: signer.jwks, issuer: signer.issuer }));
+//   headers: { Authorization: `Bearer ${signer.sign({ sub: 'user_123' })}` }
+//
+// With `keyFile` the key is kept on disk so a running server (AUTH_LOCAL_SIGNER)
+// and scripts/dev-token.js sign with the same key.
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const LOCAL_ISSUER = 'https://local.orderwarden.dev';
+
+function loadOrCreateKey(keyFile) {
+  if (keyFile && fs.existsSync(keyFile)) {
+    return crypto.createPrivateKey(fs.readFileSync(keyFile, 'utf8'));
+  }
+
+  const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  if (keyFile) {
+    fs.mkdirSync(path.dirname(keyFile), { recursive: true });
+    fs.writeFileSync(keyFile, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+  }
+  return privateKey;
+}
+
+function encodeSegment(value) {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function createLocalSigner({ keyFile = null, kid = 'local-1', issuer = LOCAL_ISSUER } = {}) {
+  const privateKey = loadOrCreateKey(keyFile);
+  const publicJwk = crypto.createPublicKey(privateKey).export({ format: 'jwk' });
+
+  /**
+   * Sign a session token. `claims` needs at least `sub` (the user ID);
+   * pass `exp`/`iat` to override the defaults, e.g. to test expiry.
+   */
+  function sign(claims, { expiresInSeconds = 3600 } = {}) {
+    const now = Math.floor(Date.now() / 1000);
+    const header = encodeSegment({ alg: 'RS256', typ: 'JWT', kid });
+    const payload = encodeSegment({
+      iss: issuer,
+      iat: now,
+      nbf: now,
+      exp: now + expiresInSeconds,
+      ...claims
+    });
+    const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKey);
+    return `${header}.${payload}.${signature.toString('base64url')}`;
+  }
+
+  return {
+    issuer,
+    jwks: { keys: [{ ...publicJwk, kid, alg: 'RS256', use: 'sig' }] },
+    sign
+  };
+}
+
+module.exports = {
+  LOCAL_ISSUER,
+  createLocalSigner
+};
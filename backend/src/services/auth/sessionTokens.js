@@ -0,0 +1,147 @@
+// services/auth/sessionTokens.js
+// Verifies Clerk session tokens: RS256 JWTs signed by a key from a JWKS.
+//
+// createSessionVerifier({ jwksUrl | jwks, issuer, authorizedParties })
+//   .verify(token) => Promise<{ userId, sessionId, claims }>
+// throws InvalidTokenError when the token is malformed, badly signed,
+// expired, or from the wrong issuer / authorized party.
+
+const crypto = require('crypto');
+
+// Allowed difference between our clock and the issuer's
+const CLOCK_SKEW_SECONDS = 5;
+
+// Remote key sets are cached; an unknown kid refetches at most once a minute
+const JWKS_CACHE_MS = 60 * 60 * 1000;
+const JWKS_REFETCH_MIN_MS = 60 * 1000;
+const JWKS_TIMEOUT_MS = 5000;
+
+class InvalidTokenError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'InvalidTokenError';
+  }
+}
+
+function decodeSegment(segment, label) {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch (error) {
+    throw new InvalidTokenError(`Malformed token ${label}`);
+  }
+}
+
+function toKeyMap(jwks) {
+  const keys = new Map();
+  for (const jwk of jwks?.keys || []) {
+    if (jwk.kty !== 'RSA' || !jwk.kid) continue;
+    keys.set(jwk.kid, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+  }
+  return keys;
+}
+
+/**
+ * Key lookup by kid over a remote JWKS endpoint
+ */
+function createRemoteKeySource(jwksUrl) {
+  let keys = new Map();
+  let fetchedAt = 0;
+  let pending = null;
+
+  async function refresh() {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), JWKS_TIMEOUT_MS);
+    try {
+      const response = await fetch(jwksUrl, { signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`JWKS request failed with ${response.status}`);
+      }
+      keys = toKeyMap(await response.json());
+      fetchedAt = Date.now();
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  return async function getKey(kid) {
+    const age = Date.now() - fetchedAt;
+    const stale = age > JWKS_CACHE_MS;
+    const unknownKid = !keys.has(kid) && age > JWKS_REFETCH_MIN_MS;
+
+    if (stale || unknownKid) {
+      // Concurrent requests share one fetch
+      pending = pending || refresh().finally(() => { pending = null; });
+      await pending;
+    }
+    return keys.get(kid) || null;
+  };
+}
+
+function createStaticKeySource(jwks) {
+  const keys = toKeyMap(jwks);
+  return async kid => keys.get(kid) || null;
+}
+
+function createSessionVerifier({ jwksUrl, jwks, issuer = null, authorizedParties = [] }) {
+  if (!jwksUrl && !jwks) {
+    throw new Error('createSessionVerifier needs jwksUrl or jwks');
+  }
+  const getKey = jwks ? createStaticKeySource(jwks) : createRemoteKeySource(jwksUrl);
+
+  async function verify(token) {
+    const parts = String(token || '').split('.');
+    if (parts.length !== 3) {
+      throw new InvalidTokenError('Malformed token');
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+    const header = decodeSegment(encodedHeader, 'header');
+    if (header.alg !== 'RS256') {
+      throw new InvalidTokenError(`Unsupported algorithm ${header.alg}`);
+    }
+
+    const key = await getKey(header.kid);
+    if (!key) {
+      throw new InvalidTokenError(`Unknown signing key ${header.kid}`);
+    }
+
+    const signed = crypto.verify(
+      'RSA-SHA256',
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      key,
+      Buffer.from(encodedSignature, 'base64url')
+    );
+    if (!signed) {
+      throw new InvalidTokenError('Invalid signature');
+    }
+
+    const claims = decodeSegment(encodedPayload, 'payload');
+    const now = Math.floor(Date.now() / 1000);
+
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+      throw new InvalidTokenError('Token expired');
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+      throw new InvalidTokenError('Token not yet valid');
+    }
+    if (issuer && claims.iss !== issuer) {
+      throw new InvalidTokenError('Unexpected issuer');
+    }
+    // Clerk sets azp to the origin that requested the token
+    if (authorizedParties.length > 0 && claims.azp && !authorizedParties.includes(claims.azp)) {
+      throw new InvalidTokenError('Unexpected authorized party');
+    }
+    if (!claims.sub) {
+      throw new InvalidTokenError('Token has no subject');
+    }
+
+    return { userId: claims.sub, sessionId: claims.sid || null, claims };
+  }
+
+  return { verify };
+}
+
+module.exports = {
+  InvalidTokenError,
+  createSessionVerifier
+};
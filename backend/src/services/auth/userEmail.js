@@ -0,0 +1,76 @@
+// services/auth/userEmail.js
+// Keeps User.email in step with the user's Clerk primary email, so alert and
+// invitation emails have somewhere to go. Rows created before the address is
+// known hold a placeholder (<userId>@orderwarden.local).
+//
+// The address comes from the session token's `email` claim (add
+// { "email": "{{user.primary_email_address}}" } to Clerk's session token
+// template), or else from the Clerk API when CLERK_SECRET_KEY is set.
+
+const prisma = require('../../db/prisma');
+
+const PLACEHOLDER_DOMAIN = '@orderwarden.local';
+const CLERK_API_URL = process.env.CLERK_API_URL || 'https://api.clerk.com/v1';
+
+// A user synced this recently is not looked at again by this process
+const SYNC_INTERVAL_MS = 60 * 60 * 1000;
+const lastSynced = new Map(); // userId -> { email, at }
+
+function isPlaceholderEmail(email) {
+  return !email || email.endsWith(PLACEHOLDER_DOMAIN);
+}
+
+function emailFromClaims(claims) {
+  const email = claims?.email || claims?.primary_email_address || claims?.email_address;
+  return typeof email === 'string' && email.includes('@') ? email.trim().toLowerCase() : null;
+}
+
+/**
+ * Primary email of a Clerk user, or null when the API is not configured or
+ * the user has none
+ */
+async function fetchClerkEmail(userId) {
+  if (!process.env.CLERK_SECRET_KEY) return null;
+
+  const response = await fetch(`${CLERK_API_URL}/users/${encodeURIComponent(userId)}`, {
+    headers: { 'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}` }
+  });
+  if (!response.ok) {
+    throw new Error(`Clerk user lookup failed with ${response.status}`);
+  }
+
+  const user = await response.json();
+  const primary = (user.email_addresses || []).find(address => address.id === user.primary_email_address_id);
+  return primary?.email_address ? primary.email_address.toLowerCase() : null;
+}
+
+/**
+ * Store the signed-in user's real email address. `claims` are the verified
+ * session token claims.
+ */
+async function syncUserEmail(userId, claims) {
+  const claimed = emailFromClaims(claims);
+  const recent = lastSynced.get(userId);
+  if (recent && Date.now() - recent.at < SYNC_INTERVAL_MS && (!claimed || claimed === recent.email)) {
+    return;
+  }
+
+  let email = claimed;
+  if (!email) {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+    email = user && !isPlaceholderEmail(user.email) ? user.email : await fetchClerkEmail(userId);
+  }
+  lastSynced.set(userId, { email, at: Date.now() });
+  if (!email) return;
+
+  await prisma.user.upsert({
+    where: { id: userId },
+    update: { email },
+    create: { id: userId, email }
+  });
+}
+
+module.exports = {
+  isPlaceholderEmail,
+  syncUserEmail
+};
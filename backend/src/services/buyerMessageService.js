@@ -0,0 +1,57 @@
+// services/buyerMessageService.js
+// Whether a buyer message can be sent for the seller, and the send itself.
+//
+// Etsy's Open API v3 has no endpoint for sending conversation messages, so
+// nothing can be sent yet: messages are copied, sent from Etsy by hand and
+// logged with "Mark as sent" (messageTemplateService.logMessage). Sends answer
+// 501 until Etsy offers a way.
+
+const prisma = require('../db/prisma');
+const { messageDedupeKey, findMessageByDedupeKey } = require('./messageTemplateService');
+
+const MESSAGING_UNSUPPORTED = "Etsy's API does not let apps send buyer messages. Copy the message, send it from Etsy and mark it as sent.";
+
+/**
+ * Whether the order can be messaged through Etsy right now.
+ * @returns {Promise<{ channel: 'etsy' | null, ready: boolean, reason: string | null }>}
+ */
+async function getMessageChannel(order) {
+  const connection = order.storeId
+    ? await prisma.etsyConnection.findUnique({ where: { storeId: order.storeId }, select: { etsyShopId: true } })
+    : null;
+
+  if (!connection || !connection.etsyShopId) {
+    return { channel: null, ready: false, reason: 'Only orders from a connected Etsy shop can be sent through Etsy' };
+  }
+  return { channel: 'etsy', ready: false, reason: MESSAGING_UNSUPPORTED };
+}
+
+/**
+ * What the dashboard needs to offer "send to buyer" for the message about the
+ * order's current state: { channel, ready, reason, sent } where `sent` is the
+ * message already sent about it, if any
+ */
+async function describeDelivery(order, templateKey) {
+  const { channel, ready, reason } = await getMessageChannel(order);
+  const dedupeKey = await messageDedupeKey(order, templateKey);
+  const sent = await findMessageByDedupeKey(order.id, dedupeKey);
+
+  return { channel, ready, reason, sent: sent && sent.action === 'sent' ? sent : null };
+}
+
+/**
+ * Send the message for the order's current state to the buyer through Etsy.
+ * Always refused for now (see above); nothing is logged.
+ * @returns {Promise<{ ok: false, status: number, error: string }>}
+ */
+async function sendBuyerMessage(order) {
+  const { channel, reason } = await getMessageChannel(order);
+  return { ok: false, status: channel ? 501 : 400, error: reason };
+}
+
+module.exports = {
+  MESSAGING_UNSUPPORTED,
+  getMessageChannel,
+  describeDelivery,
+  sendBuyerMessage
+};
@@ -0,0 +1,118 @@
+// services/checkScheduler.js
+// Decides when each order is next due a tracking check (Order.nextCheckAt).
+//
+// The user's autoCheckInterval is the base. Orders that need watching are
+// polled sooner (red, yellow, out for delivery), in-transit orders whose
+// delivery is still days away back off, and delivered orders get one last
+// look during a grace window before checks stop (nextCheckAt = null).
+// A lookup that fails is retried after 1h, doubling per failure in a row, so
+// numbers that keep failing do not crowd the front of the sweep.
+
+const prisma = require('../db/prisma');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const MIN_CHECK_HOURS = 1;
+const MAX_CHECK_HOURS = 72;
+
+// Keep watching delivered orders this long for reversals (misdelivery, return to sender)
+const DELIVERED_GRACE_HOURS = Number(process.env.DELIVERED_GRACE_HOURS || 48);
+
+// In-transit orders whose ETA is further away than this poll at half speed
+const BACKOFF_ETA_HOURS = 72;
+
+function clampHours(hours) {
+  return Math.min(Math.max(hours, MIN_CHECK_HOURS), MAX_CHECK_HOURS);
+}
+
+/**
+ * When an order should next be checked, or null to stop checking
+ * @param {object} order - { status, riskLevel, expectedDeliveryAt, deliveredAt }
+ * @param {number} intervalHours - the user's autoCheckInterval in hours
+ * @returns {Date|null}
+ */
+function computeNextCheckAt({ status, riskLevel, expectedDeliveryAt, deliveredAt }, intervalHours, now = Date.now()) {
+  if (status === 'delivered') {
+    const graceEnds = new Date(deliveredAt || now).getTime() + DELIVERED_GRACE_HOURS * HOUR_MS;
+    if (graceEnds <= now) return null;
+    return new Date(Math.min(now + clampHours(intervalHours) * HOUR_MS, graceEnds));
+  }
+
+  let hours = intervalHours;
+
+  if (riskLevel === 'red') {
+    hours = intervalHours / 4;
+  } else if (status === 'out_for_delivery') {
+    hours = Math.min(intervalHours, 2);
+  } else if (riskLevel === 'yellow') {
+    hours = intervalHours / 2;
+  } else if (status === 'in_transit' && expectedDeliveryAt) {
+    const hoursToEta = (new Date(expectedDeliveryAt).getTime() - now) / HOUR_MS;
+    if (hoursToEta > BACKOFF_ETA_HOURS) {
+      hours = intervalHours * 2;
+    }
+  }
+
+  return new Date(now + clampHours(hours) * HOUR_MS);
+}
+
+/**
+ * Push a failed check back: 1h after the first failure in a row, doubling up
+ * to MAX_CHECK_HOURS. A successful check resets checkFailures.
+ */
+async function deferFailedCheck(order, now = Date.now()) {
+  const checkFailures = (order.checkFailures || 0) + 1;
+  const hours = clampHours(MIN_CHECK_HOURS * 2 ** (checkFailures - 1));
+  return prisma.order.update({
+    where: { id: order.id },
+    data: { checkFailures, nextCheckAt: new Date(now + hours * HOUR_MS) },
+    select: { id: true, checkFailures: true, nextCheckAt: true }
+  });
+}
+
+/**
+ * Filter for orders due a check: scheduled in the past, or never scheduled
+ * and not delivered (new orders and orders from before scheduling existed)
+ */
+function dueOrdersWhere(now = new Date()) {
+  return {
+    OR: [
+      { nextCheckAt: { lte: now } },
+      {
+        nextCheckAt: null,
+        OR: [
+          { lastStatus: null },
+          { lastStatus: { not: 'delivered' } }
+        ]
+      }
+    ]
+  };
+}
+
+/**
+ * Pull forward checks scheduled further out than a (shorter) new interval, in
+ * every store `userId` owns: checks of a store use its owner's settings
+ * (Store.userId), in whichever workspace it is
+ */
+async function applyIntervalChange(userId, intervalHours) {
+  const latest = new Date(Date.now() + intervalHours * HOUR_MS);
+  const stores = await prisma.store.findMany({ where: { userId }, select: { id: true } });
+  if (stores.length === 0) return 0;
+
+  const { count } = await prisma.order.updateMany({
+    where: {
+      storeId: { in: stores.map(store => store.id) },
+      nextCheckAt: { gt: latest }
+    },
+    data: { nextCheckAt: latest }
+  });
+  return count;
+}
+
+module.exports = {
+  DELIVERED_GRACE_HOURS,
+  computeNextCheckAt,
+  dueOrdersWhere,
+  deferFailedCheck,
+  applyIntervalChange
+};
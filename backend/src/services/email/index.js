@@ -0,0 +1,198 @@
+// services/email/index.js
+// Alert emails for tracking transitions.
+//
+// Alerts are stored as EmailAlert rows first, keyed by the OrderEvent of the
+// transition, so a transition is never emailed twice while a later move to the
+// same state still is. Up to
+// EMAIL_MAX_PER_HOUR alerts per user go out instantly; the rest wait for the
+// digest sent by POST /api/cron/email-digest.
+//
+// Workspace invitations go out through the same transport.
+
+const prisma = require('../../db/prisma');
+const { getTransport } = require('./transports');
+const { renderInstantAlert, renderDigest, renderInvitation } = require('./templates');
+const { getEmailPreferences } = require('../settingsService');
+const { isPlaceholderEmail } = require('../auth/userEmail');
+
+const DASHBOARD_URL = process.env.DASHBOARD_URL || 'https://orderwarden.com';
+const EMAIL_MAX_PER_HOUR = Number(process.env.EMAIL_MAX_PER_HOUR || 5);
+const DIGEST_MAX_ALERTS = 50;
+
+// Which settings toggle controls each alert type
+const PREFERENCE_BY_TYPE = {
+  risk_alert: 'emailOnRiskChange',
+  delivery: 'emailOnDelivery',
+  exception: 'emailOnException'
+};
+
+// Users whose Clerk email is not known yet have a placeholder address
+// (see services/auth/userEmail.js)
+function isDeliverable(email) {
+  return !isPlaceholderEmail(email);
+}
+
+function dedupeKeyFor(alert) {
+  if (alert.metadata?.eventId) {
+    return `event:${alert.metadata.eventId}:${alert.type}`;
+  }
+  const state = alert.metadata?.to || alert.metadata?.status || '';
+  return `${alert.orderId}:${alert.type}:${state}`;
+}
+
+/**
+ * Store alerts the user opted into, then send what the hourly limit allows.
+ * `alerts` are notification rows: { orderId, type, title, message, metadata }.
+ * Returns the number of new (non-duplicate) alerts.
+ */
+async function queueAlertEmails(userId, alerts) {
+  const preferences = await getEmailPreferences(userId);
+  const wanted = alerts.filter(alert => preferences[PREFERENCE_BY_TYPE[alert.type]]);
+
+  let queued = 0;
+  for (const alert of wanted) {
+    try {
+      await prisma.emailAlert.create({
+        data: {
+          userId,
+          orderId: alert.orderId || null,
+          type: alert.type,
+          dedupeKey: dedupeKeyFor(alert),
+          title: alert.title,
+          message: alert.message
+        }
+      });
+      queued++;
+    } catch (error) {
+      // Already emailed (or queued) for this transition
+      if (error.code !== 'P2002') throw error;
+    }
+  }
+
+  if (queued > 0) {
+    await sendInstantAlerts(userId);
+  }
+
+  return queued;
+}
+
+/**
+ * Send pending alerts one by one while the user is under the hourly limit
+ */
+async function sendInstantAlerts(userId) {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+  if (!isDeliverable(user?.email)) {
+    await prisma.emailAlert.updateMany({
+      where: { userId, status: 'pending' },
+      data: { status: 'skipped', error: 'No email address on file' }
+    });
+    return 0;
+  }
+
+  const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+  const sentLastHour = await prisma.emailAlert.count({
+    where: { userId, status: 'sent', delivery: 'instant', sentAt: { gt: hourAgo } }
+  });
+  const allowance = EMAIL_MAX_PER_HOUR - sentLastHour;
+  if (allowance <= 0) return 0;
+
+  const pending = await prisma.emailAlert.findMany({
+    where: { userId, status: 'pending' },
+    orderBy: { createdAt: 'asc' },
+    take: allowance
+  });
+
+  let sent = 0;
+  for (const alert of pending) {
+    try {
+      await getTransport().send({ to: user.email, ...renderInstantAlert(alert) });
+      await prisma.emailAlert.update({
+        where: { id: alert.id },
+        data: { status: 'sent', delivery: 'instant', sentAt: new Date(), error: null }
+      });
+      sent++;
+    } catch (error) {
+      // Stays pending so the digest retries it
+      console.error(`[Email] Instant alert ${alert.id} failed:`, error.message);
+      await prisma.emailAlert.update({
+        where: { id: alert.id },
+        data: { error: error.message }
+      });
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Send one digest per user with everything still pending
+ */
+async function sendDigests() {
+  const users = await prisma.emailAlert.groupBy({
+    by: ['userId'],
+    where: { status: 'pending' }
+  });
+
+  const summary = { users: users.length, emails: 0, alerts: 0, errors: 0 };
+
+  for (const { userId } of users) {
+    try {
+      const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+      if (!isDeliverable(user?.email)) {
+        await prisma.emailAlert.updateMany({
+          where: { userId, status: 'pending' },
+          data: { status: 'skipped', error: 'No email address on file' }
+        });
+        continue;
+      }
+
+      const alerts = await prisma.emailAlert.findMany({
+        where: { userId, status: 'pending' },
+        orderBy: { createdAt: 'asc' },
+        take: DIGEST_MAX_ALERTS
+      });
+
+      await getTransport().send({ to: user.email, ...renderDigest(alerts) });
+      await prisma.emailAlert.updateMany({
+        where: { id: { in: alerts.map(alert => alert.id) } },
+        data: { status: 'sent', delivery: 'digest', sentAt: new Date(), error: null }
+      });
+
+      summary.emails++;
+      summary.alerts += alerts.length;
+    } catch (error) {
+      console.error(`[Email] Digest for user ${userId} failed:`, error.message);
+      summary.errors++;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Email an invitation (Invitation row with organization.name) to its address.
+ * Invitations are not rate limited or deduplicated: each one is a new token.
+ */
+async function sendInvitationEmail(invitation, inviterId) {
+  const inviter = inviterId
+    ? await prisma.user.findUnique({ where: { id: inviterId }, select: { email: true } })
+    : null;
+
+  await getTransport().send({
+    to: invitation.email,
+    ...renderInvitation({
+      organizationName: invitation.organization.name,
+      role: invitation.role,
+      inviterEmail: isDeliverable(inviter?.email) ? inviter.email : null,
+      acceptUrl: `${DASHBOARD_URL}/invite/${invitation.token}`,
+      expiresAt: invitation.expiresAt
+    })
+  });
+}
+
+module.exports = {
+  queueAlertEmails,
+  sendInstantAlerts,
+  sendDigests,
+  sendInvitationEmail
+};
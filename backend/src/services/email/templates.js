@@ -0,0 +1,99 @@
+// services/email/templates.js
+// Alert and invitation email templates. Alerts are { type, title, message }.
+
+const DASHBOARD_URL = process.env.DASHBOARD_URL || 'https://orderwarden.com';
+
+const TYPE_LABELS = {
+  risk_alert: 'Risk alert',
+  exception: 'Delivery exception',
+  delivery: 'Delivered'
+};
+
+const TYPE_COLORS = {
+  risk_alert: '#f59e0b',
+  exception: '#ef4444',
+  delivery: '#10b981'
+};
+
+function escapeHtml(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function layout(heading, body) {
+  return `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#0f172a;font-family:Arial,sans-serif;color:#e2e8f0">
+    <div style="max-width:560px;margin:0 auto;background:#1e293b;border-radius:16px;padding:24px">
+      <h1 style="margin:0 0 16px;font-size:20px;color:#ffffff">${escapeHtml(heading)}</h1>
+      ${body}
+      <p style="margin:24px 0 0">
+        <a href="${DASHBOARD_URL}/dashboard" style="color:#60a5fa">Open your dashboard</a>
+      </p>
+      <p style="margin:16px 0 0;font-size:12px;color:#64748b">
+        You can change which alerts you get in <a href="${DASHBOARD_URL}/settings" style="color:#64748b">Settings</a>.
+      </p>
+    </div>
+  </body>
+</html>`;
+}
+
+function alertHtml(alert) {
+  const color = TYPE_COLORS[alert.type] || '#3b82f6';
+  return `<div style="border-left:4px solid ${color};padding:8px 12px;margin:0 0 12px;background:#0f172a;border-radius:8px">
+        <div style="font-size:12px;color:${color};text-transform:uppercase;font-weight:bold">${escapeHtml(TYPE_LABELS[alert.type] || 'Update')}</div>
+        <div style="font-weight:bold;color:#ffffff;margin-top:4px">${escapeHtml(alert.title)}</div>
+        <div style="color:#cbd5e1;margin-top:4px">${escapeHtml(alert.message)}</div>
+      </div>`;
+}
+
+/**
+ * One email per alert
+ */
+function renderInstantAlert(alert) {
+  return {
+    subject: `[OrderWarden] ${alert.title}`,
+    text: `${alert.title}\n\n${alert.message}\n\nOpen your dashboard: ${DASHBOARD_URL}/dashboard`,
+    html: layout(alert.title, alertHtml(alert))
+  };
+}
+
+/**
+ * One email summarising several alerts
+ */
+function renderDigest(alerts) {
+  const heading = `${alerts.length} order update${alerts.length === 1 ? '' : 's'}`;
+  const lines = alerts.map(alert => `- ${alert.title}: ${alert.message}`).join('\n');
+
+  return {
+    subject: `[OrderWarden] ${heading}`,
+    text: `${heading}\n\n${lines}\n\nOpen your dashboard: ${DASHBOARD_URL}/dashboard`,
+    html: layout(heading, alerts.map(alertHtml).join('\n      '))
+  };
+}
+
+/**
+ * Invitation to join a workspace. `acceptUrl` carries the invitation token.
+ */
+function renderInvitation({ organizationName, role, inviterEmail, acceptUrl, expiresAt }) {
+  const heading = `Join ${organizationName} on OrderWarden`;
+  const invitedBy = inviterEmail ? `${inviterEmail} invited you` : 'You have been invited';
+  const expires = new Date(expiresAt).toDateString();
+
+  return {
+    subject: `[OrderWarden] ${heading}`,
+    text: `${invitedBy} to join ${organizationName} as ${role}.\n\nAccept the invitation: ${acceptUrl}\n\nThe link expires on ${expires}.`,
+    html: layout(heading, `<p style="margin:0 0 16px;color:#cbd5e1">${escapeHtml(invitedBy)} to join <strong style="color:#ffffff">${escapeHtml(organizationName)}</strong> as ${escapeHtml(role)}.</p>
+      <p style="margin:0 0 16px"><a href="${escapeHtml(acceptUrl)}" style="display:inline-block;padding:10px 16px;background:#3b82f6;color:#ffffff;border-radius:8px;text-decoration:none">Accept invitation</a></p>
+      <p style="margin:0;font-size:12px;color:#64748b">The link expires on ${escapeHtml(expires)}.</p>`)
+  };
+}
+
+module.exports = {
+  renderInstantAlert,
+  renderDigest,
+  renderInvitation
+};
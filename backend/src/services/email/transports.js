@@ -0,0 +1,82 @@
+// services/email/transports.js
+// Email transports. EMAIL_TRANSPORT picks one:
+//   smtp    - real delivery through SMTP_HOST/SMTP_PORT/SMTP_USER/SMTP_PASS
+//   file    - writes each message as JSON under EMAIL_FILE_DIR (local testing)
+//   console - logs each message (default when SMTP_HOST is not set)
+//
+// Every transport exports send({ to, subject, text, html }) => Promise<{ id }>
+
+const fs = require('fs/promises');
+const path = require('path');
+const crypto = require('crypto');
+const nodemailer = require('nodemailer');
+
+const EMAIL_FROM = process.env.EMAIL_FROM || 'OrderWarden <alerts@orderwarden.com>';
+
+function createSmtpTransport() {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const info = await transporter.sendMail({ from: EMAIL_FROM, ...message });
+      return { id: info.messageId };
+    }
+  };
+}
+
+function createFileTransport() {
+  const dir = process.env.EMAIL_FILE_DIR || path.join(process.cwd(), 'tmp', 'emails');
+
+  return {
+    name: 'file',
+    async send(message) {
+      const id = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(
+        path.join(dir, `${id}.json`),
+        JSON.stringify({ from: EMAIL_FROM, ...message, createdAt: new Date().toISOString() }, null, 2)
+      );
+      return { id };
+    }
+  };
+}
+
+function createConsoleTransport() {
+  return {
+    name: 'console',
+    async send(message) {
+      const id = crypto.randomBytes(6).toString('hex');
+      console.log(`[Email] (console) ${id} to ${message.to}: ${message.subject}\n${message.text}`);
+      return { id };
+    }
+  };
+}
+
+let transport = null;
+
+/**
+ * Transport chosen by EMAIL_TRANSPORT, created once
+ */
+function getTransport() {
+  if (transport) return transport;
+
+  const name = (process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console')).toLowerCase();
+  if (name === 'smtp') transport = createSmtpTransport();
+  else if (name === 'file') transport = createFileTransport();
+  else transport = createConsoleTransport();
+
+  console.log(`[Email] Using ${transport.name} transport`);
+  return transport;
+}
+
+module.exports = {
+  getTransport
+};
@@ -0,0 +1,249 @@
+// services/etaService.js
+// Expected delivery estimates. In order of preference:
+//   1. the carrier's own estimate, when the provider returns one
+//   2. our delivered-order history for the same carrier, service level and scope
+//   3. a baseline transit table per carrier and service level
+
+const prisma = require('../db/prisma');
+const { isInternationalShipment, isS10Number } = require('./riskEngine');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Typical door-to-door transit in calendar days
+const BASELINE_TRANSIT_DAYS = {
+  usps: { express: 2, priority: 3, standard: 5, economy: 8 },
+  ups: { express: 1, priority: 3, standard: 5, economy: 7 },
+  fedex: { express: 1, priority: 3, standard: 5, economy: 7 },
+  dhl: { express: 3, priority: 5, standard: 7, economy: 10 },
+  default: { express: 3, priority: 5, standard: 7, economy: 10 }
+};
+
+const INTERNATIONAL_TRANSIT_DAYS = { express: 5, priority: 10, standard: 15, economy: 25 };
+
+// History only replaces the baseline once there are enough deliveries to trust
+const MIN_HISTORY_SAMPLES = 5;
+const HISTORY_SIZE = 50;
+
+/**
+ * Best guess at the service level from the tracking number format
+ */
+function detectServiceLevel(carrier, trackingNumber) {
+  const number = String(trackingNumber || '').trim().toUpperCase();
+
+  // UPU S10 numbers: the first letter is the mail class
+  if (isS10Number(number)) {
+    if (number.startsWith('E')) return 'express';
+    if (/^[LRU]/.test(number)) return 'economy';
+    return 'standard';
+  }
+
+  if (carrier === 'usps') {
+    // IMpb service type code follows the routing prefix
+    if (/^9270/.test(number)) return 'express';
+    if (/^9(205|255|405|505)/.test(number)) return 'priority';
+    return 'standard';
+  }
+
+  if (carrier === 'ups' && /^1Z/.test(number)) {
+    // 1Z + 6-character shipper number + 2-digit service code
+    const service = number.slice(8, 10);
+    if (['01', '13', '14'].includes(service)) return 'express';
+    if (['02', '12', '59'].includes(service)) return 'priority';
+    return 'standard';
+  }
+
+  return 'standard';
+}
+
+/**
+ * Country from a scan location, only when it is unambiguous
+ * ("CITY, STATE, COUNTRY"); "CITY, ST 12345" has no country part.
+ */
+function locationCountry(location) {
+  const parts = String(location || '').split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length < 3) return null;
+  return parts[parts.length - 1].toUpperCase();
+}
+
+/**
+ * Carrier, service level and scope (domestic/international) for a shipment.
+ * Scope comes from `countries` ({ shipToCountry, shipFromCountry }) when both
+ * are known; otherwise from the number and the scans, where origin is the
+ * oldest scan and the destination side the most recent one.
+ */
+function getShipmentProfile(carrier, trackingNumber, events = [], countries = {}) {
+  const carrierName = String(carrier || 'unknown').toLowerCase();
+
+  let international;
+  if (countries.shipToCountry && countries.shipFromCountry) {
+    international = isInternationalShipment(trackingNumber, countries);
+  } else {
+    const scans = events.filter(evt => !evt.synthetic && evt.location);
+    const origin = scans.length > 0 ? locationCountry(scans[scans.length - 1].location) : null;
+    const latest = scans.length > 0 ? locationCountry(scans[0].location) : null;
+
+    const crossesBorder = Boolean(origin && latest && origin !== latest);
+    international = isInternationalShipment(trackingNumber) || crossesBorder;
+  }
+
+  return {
+    carrier: carrierName,
+    serviceLevel: detectServiceLevel(carrierName, trackingNumber),
+    scope: international ? 'international' : 'domestic'
+  };
+}
+
+/**
+ * Last millisecond of the calendar day `date` falls on in `timeZone`
+ */
+function endOfDay(date, timeZone = 'UTC') {
+  let day;
+  try {
+    day = new Intl.DateTimeFormat('en-CA', { timeZone }).format(date);
+  } catch (error) {
+    timeZone = 'UTC';
+    day = date.toISOString().slice(0, 10);
+  }
+
+  // 23:59:59.999 on that day as if it were UTC, shifted by the zone's offset
+  const naive = new Date(`${day}T23:59:59.999Z`);
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(naive).map(part => [part.type, part.value])
+  );
+  const zoned = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, 999);
+  return new Date(naive.getTime() - (zoned - naive.getTime()));
+}
+
+function median(values) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Transit days (first scan to delivery) of a user's recent deliveries
+ * that match the shipment profile. `shipFromCountry` scopes them the same way.
+ */
+async function getTransitHistory(userId, profile, { shipFromCountry = null } = {}) {
+  if (!userId) return [];
+
+  const delivered = await prisma.order.findMany({
+    where: {
+      store: { userId },
+      carrier: { equals: profile.carrier, mode: 'insensitive' },
+      deliveredAt: { not: null }
+    },
+    select: { id: true, trackingNumber: true, carrier: true, shipToCountry: true, deliveredAt: true },
+    orderBy: { deliveredAt: 'desc' },
+    take: HISTORY_SIZE * 2
+  });
+
+  const matching = delivered
+    .filter(order => {
+      const other = getShipmentProfile(order.carrier, order.trackingNumber, [], {
+        shipToCountry: order.shipToCountry,
+        shipFromCountry
+      });
+      return other.serviceLevel === profile.serviceLevel && other.scope === profile.scope;
+    })
+    .slice(0, HISTORY_SIZE);
+
+  if (matching.length === 0) return [];
+
+  const firstScans = await prisma.trackingScan.groupBy({
+    by: ['orderId'],
+    where: { orderId: { in: matching.map(order => order.id) } },
+    _min: { timestamp: true }
+  });
+  const shippedAt = new Map(firstScans.map(row => [row.orderId, row._min.timestamp]));
+
+  return matching
+    .filter(order => shippedAt.has(order.id))
+    .map(order => (order.deliveredAt - shippedAt.get(order.id)) / DAY_MS)
+    .filter(days => days > 0 && days < 90);
+}
+
+/**
+ * Estimate delivery for one shipment
+ * @param {object} profile - from getShipmentProfile
+ * @param {object} shipment - { events, carrierEstimate, createdAt, timezone }
+ * @param {number[]} history - transit days from getTransitHistory
+ * @returns {{ expectedDeliveryAt: Date, source: string, transitDays: number|null }}
+ */
+function estimateDelivery(profile, { events = [], carrierEstimate = null, createdAt = null, timezone = 'UTC' }, history = []) {
+  if (carrierEstimate && !Number.isNaN(new Date(carrierEstimate).getTime())) {
+    return { expectedDeliveryAt: new Date(carrierEstimate), source: 'carrier', transitDays: null };
+  }
+
+  // Clock starts at the first carrier scan, or order creation before pickup
+  const scans = events.filter(evt => !evt.synthetic && evt.timestamp);
+  const shippedAt = scans.length > 0
+    ? new Date(Math.min(...scans.map(evt => new Date(evt.timestamp).getTime())))
+    : new Date(createdAt || Date.now());
+
+  let transitDays;
+  let source;
+  if (history.length >= MIN_HISTORY_SAMPLES) {
+    transitDays = Math.ceil(median(history));
+    source = 'history';
+  } else {
+    const table = profile.scope === 'international'
+      ? INTERNATIONAL_TRANSIT_DAYS
+      : BASELINE_TRANSIT_DAYS[profile.carrier] || BASELINE_TRANSIT_DAYS.default;
+    transitDays = table[profile.serviceLevel] || table.standard;
+    source = 'baseline';
+  }
+
+  // Deliveries are expected by end of day in the seller's time zone
+  const expectedDeliveryAt = endOfDay(new Date(shippedAt.getTime() + transitDays * DAY_MS), timezone);
+
+  return { expectedDeliveryAt, source, transitDays };
+}
+
+/**
+ * ETA for an order after a tracking check. Delivered orders keep the
+ * estimate they already had so lateness can still be measured.
+ * `historyCache` (a Map) lets batch callers share history lookups.
+ */
+async function estimateOrderDelivery(order, trackingResult, { userId, timezone, shipFromCountry = null, historyCache = new Map() }) {
+  if (trackingResult.status === 'delivered' && order.expectedDeliveryAt) {
+    return { expectedDeliveryAt: order.expectedDeliveryAt, source: order.etaSource };
+  }
+
+  const carrier = trackingResult.carrier && trackingResult.carrier !== 'unknown'
+    ? trackingResult.carrier
+    : order.carrier;
+  const profile = getShipmentProfile(carrier, order.trackingNumber, trackingResult.events, {
+    shipToCountry: order.shipToCountry,
+    shipFromCountry
+  });
+
+  const key = `${userId}:${profile.carrier}:${profile.serviceLevel}:${profile.scope}`;
+  if (!historyCache.has(key)) {
+    historyCache.set(key, await getTransitHistory(userId, profile, { shipFromCountry }));
+  }
+
+  return estimateDelivery(profile, {
+    events: trackingResult.events,
+    carrierEstimate: trackingResult.deliveryDate,
+    createdAt: order.createdAt,
+    timezone
+  }, historyCache.get(key));
+}
+
+module.exports = {
+  detectServiceLevel,
+  getShipmentProfile,
+  getTransitHistory,
+  estimateDelivery,
+  estimateOrderDelivery
+};
@@ -3,7 +3,8 @@ const crypto = require('crypto');
 
 const ETSY_CLIENT_ID = process.env.ETSY_CLIENT_ID;
 const ETSY_REDIRECT_URI = process.env.ETSY_REDIRECT_URI || 'https://api.orderwarden.com/api/etsy/callback';
-const ETSY_API_BASE = 'https://api.etsy.com/v3';
+// Overridable so a mock Etsy server can stand in outside production
+const ETSY_API_BASE = process.env.ETSY_API_BASE_URL || 'https://api.etsy.com/v3';
 const ETSY_AUTH_BASE = 'https://www.etsy.com/oauth';
 
 // Required scopes for OrderWarden
@@ -79,7 +80,8 @@ async function exchangeCodeForTokens(code, codeVerifier) {
 }
 
 /**
- * Refresh an expired access token
+ * Refresh an expired access token. Errors carry the Etsy HTTP status as
+ * `status`, and `revoked` when the refresh token itself is no longer valid.
  */
 async function refreshAccessToken(refreshToken) {
   const response = await fetch(`${ETSY_API_BASE}/public/oauth/token`, {
@@ -95,9 +97,13 @@ async function refreshAccessToken(refreshToken) {
   });
   
   if (!response.ok) {
-    const error = await response.text();
-    console.error('[Etsy] Token refresh failed:', error);
-    throw new Error(`Token refresh failed: ${error}`);
+    const text = await response.text();
+    console.error('[Etsy] Token refresh failed:', text);
+    const error = new Error(`Token refresh failed: ${text}`);
+    error.status = response.status;
+    // invalid_grant: the refresh token expired or the seller revoked access
+    error.revoked = response.status === 400 && text.includes('invalid_grant');
+    throw error;
   }
   
   return response.json();
@@ -148,7 +154,7 @@ async function getShop(accessToken, etsyUserId) {
  * Get shop receipts (orders) with optional filters
  * @param {string} accessToken
  * @param {string} shopId
- * @param {object} options - { minCreated, limit, offset }
+ * @param {object} options - { minCreated, minLastModified, sortOn, sortOrder, limit, offset }
  */
 async function getShopReceipts(accessToken, shopId, options = {}) {
   const params = new URLSearchParams({
@@ -160,6 +166,13 @@ async function getShopReceipts(accessToken, shopId, options = {}) {
   if (options.minCreated) {
     params.set('min_created', Math.floor(options.minCreated / 1000)); // Unix timestamp
   }
+  if (options.minLastModified) {
+    params.set('min_last_modified', Math.floor(options.minLastModified / 1000));
+  }
+  if (options.sortOn) {
+    params.set('sort_on', options.sortOn);  // created, updated or receipt_id
+    params.set('sort_order', options.sortOrder || 'asc');
+  }
   
   const response = await fetch(
     `${ETSY_API_BASE}/application/shops/${shopId}/receipts?${params.toString()}`,
@@ -201,6 +214,40 @@ function mapEtsyCarrier(etsyCarrier) {
   return carrierMap[normalized] || etsyCarrier.toLowerCase();
 }
 
+// Etsy Money ({ amount, divisor, currency_code }) in hundredths of the currency
+function moneyToCents(money) {
+  if (!money || typeof money.amount !== 'number' || !money.divisor) return null;
+  return Math.round((money.amount / money.divisor) * 100);
+}
+
+/**
+ * Order details from a receipt: buyer, ship-to address, grand total, ship
+ * date (of `shipment`, else the first one) and line items
+ */
+function mapReceiptDetails(receipt, shipment = receipt.shipments?.[0]) {
+  const shippedAt = shipment?.shipment_notification_timestamp
+    ? new Date(shipment.shipment_notification_timestamp * 1000)
+    : null;
+
+  return {
+    buyerName: receipt.name || null,
+    etsyBuyerId: receipt.buyer_user_id ? String(receipt.buyer_user_id) : null,
+    buyerEmail: receipt.buyer_email || null,
+    shipToCity: receipt.city || null,
+    shipToCountry: receipt.country_iso ? receipt.country_iso.toUpperCase() : null,
+    orderTotalCents: moneyToCents(receipt.grandtotal),
+    currency: receipt.grandtotal?.currency_code || null,
+    shippedAt,
+    items: (receipt.transactions || []).map(transaction => ({
+      title: transaction.title || 'Item',
+      quantity: transaction.quantity || 1,
+      priceCents: moneyToCents(transaction.price),
+      sku: transaction.sku || null,
+      externalId: transaction.transaction_id ? String(transaction.transaction_id) : null
+    }))
+  };
+}
+
 module.exports = {
   generatePKCE,
   generateState,
@@ -211,5 +258,7 @@ module.exports = {
   getShop,
   getShopReceipts,
   mapEtsyCarrier,
-  ETSY_CLIENT_ID
+  mapReceiptDetails,
+  ETSY_CLIENT_ID,
+  SCOPES
 };
@@ -0,0 +1,401 @@
+// services/etsySyncService.js
+// Imports shipped Etsy receipts as orders of the store a shop is connected to,
+// with the buyer, destination, total, ship date and items of each receipt.
+//
+// Each shipment of a receipt is its own order (parcel): the first keeps the
+// receipt id as orderId, later ones get "<receipt id>-2", "-3", ... Orders
+// imported earlier get their details refreshed, and a shipment whose tracking
+// code changed has its order switched to the new code and checked again.
+//
+// The first sync reads the last 30 days; later ones only receipts modified
+// since lastSyncAt, paging through getShopReceipts 100 at a time.
+//
+// syncDueConnections runs from cron for every shop with syncEnabled. A failed
+// sync is retried later and later (nextSyncAt); a revoked refresh token turns
+// sync off and tells the user who connected the shop to reconnect it.
+
+const prisma = require('../db/prisma');
+const etsyService = require('./etsyService');
+
+// How far back the first sync of a shop looks for receipts
+const SYNC_WINDOW_DAYS = 30;
+// Later syncs re-read receipts modified this long before lastSyncAt, so an
+// update that landed while the previous sync was paging is not missed
+const SYNC_OVERLAP_MS = 60 * 60 * 1000;
+const PAGE_SIZE = 100;
+// Pages per run; a shop with more picks up where it stopped on the next sync
+const MAX_PAGES = 50;
+
+// Access tokens this close to expiry are refreshed before use, so a sync never
+// starts with one that lapses while it pages
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Scheduled sync retries after 15 minutes, doubling per failure up to a day
+const SYNC_BACKOFF_BASE_MS = 15 * 60 * 1000;
+const SYNC_BACKOFF_MAX_MS = 24 * 60 * 60 * 1000;
+// Shops synced per cron run, least recently synced first
+const SCHEDULED_SYNC_LIMIT = Number(process.env.ETSY_SYNC_MAX_SHOPS || 50);
+
+// Reset when a shipment's tracking code changes, as for a re-imported order
+const TRACKING_RESET = {
+  lastStatus: null,
+  riskLevel: 'green',
+  riskReasons: [],
+  expectedDeliveryAt: null,
+  etaSource: null,
+  deliveredAt: null,
+  nextCheckAt: null
+};
+
+/**
+ * Turn off sync for a connection whose refresh token Etsy rejected and notify
+ * the user who connected it, once
+ */
+async function disableRevokedConnection(connection) {
+  const { count } = await prisma.etsyConnection.updateMany({
+    where: { id: connection.id, disabledReason: null },
+    data: {
+      syncEnabled: false,
+      nextSyncAt: null,
+      disabledReason: 'token_revoked',
+      lastSyncError: 'Etsy revoked access to the shop'
+    }
+  });
+  if (count === 0) return;
+
+  console.log(`[EtsySync] Refresh token revoked for shop ${connection.shopName}, sync disabled`);
+  await prisma.notification.create({
+    data: {
+      userId: connection.userId,
+      type: 'system',
+      title: `Reconnect your Etsy shop ${connection.shopName}`,
+      message: 'Etsy no longer accepts our access to this shop, so automatic sync was turned off. Reconnect the shop to resume syncing.',
+      metadata: { storeId: connection.storeId, reason: 'token_revoked' }
+    }
+  });
+}
+
+/**
+ * Access token for a connection, refreshed (and saved) when it expires within
+ * TOKEN_REFRESH_MARGIN_MS. A revoked refresh token disables the connection;
+ * the error is rethrown with `revoked` set.
+ */
+async function getAccessToken(connection) {
+  if (Date.now() < connection.tokenExpiresAt.getTime() - TOKEN_REFRESH_MARGIN_MS) {
+    return connection.accessToken;
+  }
+
+  console.log(`[EtsySync] Token for shop ${connection.shopName} expires soon, refreshing...`);
+  let tokens;
+  try {
+    tokens = await etsyService.refreshAccessToken(connection.refreshToken);
+  } catch (error) {
+    if (!error.revoked) throw error;
+
+    // A concurrent sync or send may have rotated the refresh token first
+    const current = await prisma.etsyConnection.findUnique({ where: { id: connection.id } });
+    if (current && current.refreshToken !== connection.refreshToken && new Date() < current.tokenExpiresAt) {
+      return current.accessToken;
+    }
+
+    await disableRevokedConnection(connection);
+    throw error;
+  }
+
+  await prisma.etsyConnection.update({
+    where: { id: connection.id },
+    data: {
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      tokenExpiresAt: new Date(Date.now() + (tokens.expires_in * 1000))
+    }
+  });
+
+  return tokens.access_token;
+}
+
+/**
+ * Shipments of a receipt that can be tracked, oldest first, each with the
+ * orderId its parcel is stored under
+ */
+function receiptParcels(receipt) {
+  const receiptId = receipt.receipt_id.toString();
+  const shipments = [...(receipt.shipments || [])]
+    .sort((a, b) => (a.shipment_notification_timestamp || 0) - (b.shipment_notification_timestamp || 0));
+
+  return shipments.map((shipment, index) => ({
+    shipment,
+    orderId: index === 0 ? receiptId : `${receiptId}-${index + 1}`,
+    shipmentId: shipment.receipt_shipping_id ? String(shipment.receipt_shipping_id) : null
+  }));
+}
+
+/**
+ * Import or refresh the parcels of one receipt. Returns one result per
+ * shipment: { receiptId, orderId, trackingNumber, status, previousTrackingNumber?, message? }
+ * with status imported|updated|tracking_changed|skipped|failed.
+ */
+async function syncReceipt(connection, receipt) {
+  const receiptId = receipt.receipt_id.toString();
+  const parcels = receiptParcels(receipt);
+
+  if (parcels.length === 0) {
+    return [{ receiptId, orderId: receiptId, trackingNumber: null, status: 'skipped', message: 'No shipment' }];
+  }
+
+  const existing = await prisma.order.findMany({
+    where: {
+      OR: [
+        { etsyReceiptId: receiptId, storeId: connection.storeId },
+        { orderId: { in: parcels.map(parcel => parcel.orderId) } }
+      ]
+    },
+    select: {
+      id: true,
+      orderId: true,
+      storeId: true,
+      trackingNumber: true,
+      etsyShipmentId: true,
+      _count: { select: { items: true } }
+    }
+  });
+
+  const results = [];
+  for (const { shipment, orderId, shipmentId } of parcels) {
+    const trackingNumber = shipment.tracking_code || null;
+    const base = { receiptId, orderId, trackingNumber };
+
+    if (!trackingNumber) {
+      results.push({ ...base, status: 'skipped', message: 'No tracking code' });
+      continue;
+    }
+
+    // Orders synced before shipments were stored only match by orderId
+    const current = (shipmentId && existing.find(order => order.etsyShipmentId === shipmentId))
+      || existing.find(order => order.orderId === orderId && (!order.etsyShipmentId || !shipmentId));
+    const { items, ...details } = etsyService.mapReceiptDetails(receipt, shipment);
+    const carrier = etsyService.mapEtsyCarrier(shipment.carrier_name);
+
+    try {
+      if (current) {
+        // Only refresh orders that belong to this shop's store
+        if (current.storeId !== connection.storeId) {
+          results.push({ ...base, status: 'skipped', message: 'orderId is already used by another store' });
+          continue;
+        }
+
+        const trackingChanged = current.trackingNumber !== trackingNumber;
+        await prisma.order.update({
+          where: { id: current.id },
+          data: {
+            ...details,
+            etsyReceiptId: receiptId,
+            etsyShipmentId: shipmentId,
+            ...(trackingChanged ? { trackingNumber, carrier, ...TRACKING_RESET } : {}),
+            // Items entered by hand are kept
+            ...(current._count.items === 0 && items.length > 0 ? { items: { create: items } } : {})
+          }
+        });
+
+        results.push(trackingChanged
+          ? { ...base, orderId: current.orderId, status: 'tracking_changed', previousTrackingNumber: current.trackingNumber }
+          : { ...base, orderId: current.orderId, status: 'updated' });
+        continue;
+      }
+
+      if (existing.some(order => order.orderId === orderId)) {
+        results.push({ ...base, status: 'skipped', message: 'orderId is already used by another shipment' });
+        continue;
+      }
+
+      await prisma.order.create({
+        data: {
+          storeId: connection.storeId,
+          orderId,
+          trackingNumber,
+          carrier,
+          riskLevel: 'green',  // Default, will be updated by tracking check
+          etsyReceiptId: receiptId,
+          etsyShipmentId: shipmentId,
+          ...details,
+          items: { create: items }
+        }
+      });
+      results.push({ ...base, status: 'imported' });
+    } catch (error) {
+      console.error(`[EtsySync] Receipt ${receiptId} (${orderId}) failed:`, error.message);
+      results.push({
+        ...base,
+        status: error.code === 'P2002' ? 'skipped' : 'failed',
+        message: error.code === 'P2002' ? 'orderId is already used by another order' : 'Could not save order'
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Sync one connected shop into its store
+ * @param {object} connection - EtsyConnection row with storeId set
+ * @returns {Promise<object>} sync report: { storeId, shopName, mode: 'full'|'incremental', since,
+ *   pages, receipts, total, truncated, imported, updated, trackingChanged, skipped, failed, results }
+ */
+async function syncEtsyConnection(connection) {
+  if (!connection.storeId || !connection.etsyShopId) {
+    throw new Error(`Etsy connection ${connection.id} is not linked to a store`);
+  }
+
+  console.log(`[EtsySync] Starting sync for shop ${connection.shopName} into store ${connection.storeId}`);
+
+  const accessToken = await getAccessToken(connection);
+  const startedAt = new Date();
+
+  const mode = connection.lastSyncAt ? 'incremental' : 'full';
+  const since = new Date(mode === 'incremental'
+    ? connection.lastSyncAt.getTime() - SYNC_OVERLAP_MS
+    : startedAt.getTime() - (SYNC_WINDOW_DAYS * 24 * 60 * 60 * 1000));
+
+  // Oldest change first, so a run cut short at MAX_PAGES can resume from the
+  // last receipt it saw
+  const filter = mode === 'incremental'
+    ? { minLastModified: since.getTime() }
+    : { minCreated: since.getTime() };
+
+  const results = [];
+  let pages = 0;
+  let receipts = 0;
+  let total = 0;
+  let lastModifiedAt = null;
+
+  while (pages < MAX_PAGES) {
+    const page = await etsyService.getShopReceipts(accessToken, connection.etsyShopId, {
+      ...filter,
+      sortOn: 'updated',
+      sortOrder: 'asc',
+      limit: PAGE_SIZE,
+      offset: pages * PAGE_SIZE
+    });
+    pages++;
+    total = page.count || 0;
+
+    const pageReceipts = page.results || [];
+    for (const receipt of pageReceipts) {
+      results.push(...await syncReceipt(connection, receipt));
+      if (receipt.updated_timestamp) {
+        lastModifiedAt = new Date(receipt.updated_timestamp * 1000);
+      }
+    }
+    receipts += pageReceipts.length;
+
+    if (pageReceipts.length < PAGE_SIZE || receipts >= total) break;
+  }
+
+  const truncated = receipts < total;
+  if (truncated) {
+    console.log(`[EtsySync] Stopped after ${pages} pages (${receipts} of ${total} receipts) for ${connection.shopName}`);
+  }
+
+  await prisma.etsyConnection.update({
+    where: { id: connection.id },
+    data: {
+      // A partial run resumes from the last receipt it saw, kept within the overlap
+      lastSyncAt: truncated && lastModifiedAt
+        ? new Date(lastModifiedAt.getTime() + SYNC_OVERLAP_MS)
+        : startedAt,
+      // Any successful sync ends a failure streak
+      nextSyncAt: null,
+      syncFailures: 0,
+      lastSyncError: null
+    }
+  });
+
+  const count = status => results.filter(result => result.status === status).length;
+  const report = {
+    storeId: connection.storeId,
+    shopName: connection.shopName,
+    mode,
+    since,
+    pages,
+    receipts,
+    total,
+    truncated,
+    imported: count('imported'),
+    updated: count('updated'),
+    trackingChanged: count('tracking_changed'),
+    skipped: count('skipped'),
+    failed: count('failed'),
+    results
+  };
+
+  console.log(`[EtsySync] Sync complete for ${connection.shopName}: ${report.imported} imported, ${report.updated} updated, ${report.trackingChanged} tracking changed, ${report.skipped} skipped, ${report.failed} failed`);
+
+  return report;
+}
+
+/**
+ * Delay before the next scheduled sync after `failures` failures in a row
+ */
+function syncBackoffMs(failures) {
+  return Math.min(SYNC_BACKOFF_BASE_MS * (2 ** (failures - 1)), SYNC_BACKOFF_MAX_MS);
+}
+
+/**
+ * Sync every shop with syncEnabled whose nextSyncAt has passed. A failure
+ * counts against the shop and pushes its next attempt back; a revoked token
+ * disables it (see getAccessToken).
+ * @returns {Promise<{ due: number, synced: number, failed: number, disabled: number, imported: number, updated: number, trackingChanged: number, stores: object[] }>}
+ */
+async function syncDueConnections({ limit = SCHEDULED_SYNC_LIMIT } = {}) {
+  const now = new Date();
+  const connections = await prisma.etsyConnection.findMany({
+    where: {
+      syncEnabled: true,
+      etsyShopId: { not: '' },
+      storeId: { not: null },
+      OR: [{ nextSyncAt: null }, { nextSyncAt: { lte: now } }]
+    },
+    orderBy: { lastSyncAt: { sort: 'asc', nulls: 'first' } },
+    take: limit
+  });
+
+  const summary = { due: connections.length, synced: 0, failed: 0, disabled: 0, imported: 0, updated: 0, trackingChanged: 0, stores: [] };
+
+  // One shop failing should not stop the others
+  for (const connection of connections) {
+    const base = { storeId: connection.storeId, shopName: connection.shopName };
+    try {
+      const { results, ...report } = await syncEtsyConnection(connection);
+      summary.synced++;
+      summary.imported += report.imported;
+      summary.updated += report.updated;
+      summary.trackingChanged += report.trackingChanged;
+      summary.stores.push(report);
+    } catch (error) {
+      if (error.revoked) {
+        summary.disabled++;
+        summary.stores.push({ ...base, disabled: true, error: 'Etsy revoked access to the shop' });
+        continue;
+      }
+
+      const syncFailures = connection.syncFailures + 1;
+      const nextSyncAt = new Date(Date.now() + syncBackoffMs(syncFailures));
+      await prisma.etsyConnection.update({
+        where: { id: connection.id },
+        data: { syncFailures, nextSyncAt, lastSyncError: error.message.slice(0, 500) }
+      });
+
+      console.error(`[EtsySync] Scheduled sync failed for ${connection.shopName} (${syncFailures} in a row), next try ${nextSyncAt.toISOString()}:`, error.message);
+      summary.failed++;
+      summary.stores.push({ ...base, error: error.message, syncFailures, nextSyncAt });
+    }
+  }
+
+  return summary;
+}
+
+module.exports = {
+  getAccessToken,
+  syncEtsyConnection,
+  syncDueConnections
+};
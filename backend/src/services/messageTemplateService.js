@@ -0,0 +1,250 @@
+// services/messageTemplateService.js
+// Buyer message templates per organization, and the log of messages copied
+// or sent for each order.
+//
+// The wording lives in utils/messageTemplates.js; an organization can replace
+// the subject and body of any template key, per language, with a
+// BuyerMessageTemplate row. Deleting the row restores the built-in text.
+// Messages are written in the order's language (see detectOrderLocale) unless
+// the caller names one.
+//
+// Sent messages carry a dedupeKey of "<templateKey>:<latest status or risk
+// OrderEvent id>", unique per order, so a buyer hears about each update once
+// whether the message went through Etsy or was marked sent by hand.
+
+const prisma = require('../db/prisma');
+const {
+  BUILT_IN_TEMPLATES,
+  MESSAGE_TEMPLATE_KEYS,
+  DEFAULT_LOCALE,
+  normalizeLocale,
+  detectOrderLocale,
+  localizedTemplate,
+  getMessageTemplate
+} = require('../utils/messageTemplates');
+const { getUserSettings } = require('./settingsService');
+
+const MESSAGE_ACTIONS = ['copied', 'sent'];
+
+const DEFAULT_LOG_LIMIT = 50;
+
+const LOG_SELECT = {
+  id: true,
+  userId: true,
+  action: true,
+  channel: true,
+  externalId: true,
+  templateKey: true,
+  custom: true,
+  locale: true,
+  status: true,
+  riskLevel: true,
+  subject: true,
+  message: true,
+  sentAt: true
+};
+
+function describeTemplate(key, locale, override) {
+  const builtIn = BUILT_IN_TEMPLATES[key];
+  const text = localizedTemplate(key, locale);
+  return {
+    key,
+    locale,
+    when: builtIn.when,
+    tone: builtIn.tone,
+    subject: override ? override.subject : text.subject,
+    body: override ? override.body : text.body,
+    custom: Boolean(override),
+    updatedAt: override ? override.updatedAt : null,
+    defaultSubject: text.subject,
+    defaultBody: text.body
+  };
+}
+
+/**
+ * The organization's wording in one language by key
+ * ({ [key]: { subject, body, updatedAt } }), only for keys it has changed
+ */
+async function loadTemplateOverrides(organizationId, locale = DEFAULT_LOCALE) {
+  const rows = await prisma.buyerMessageTemplate.findMany({
+    where: { organizationId, locale, key: { in: MESSAGE_TEMPLATE_KEYS } },
+    select: { key: true, subject: true, body: true, updatedAt: true }
+  });
+  return Object.fromEntries(rows.map(row => [row.key, row]));
+}
+
+/**
+ * Every template key with the text in effect for the organization in a language
+ */
+async function listMessageTemplates(organizationId, locale = DEFAULT_LOCALE) {
+  const overrides = await loadTemplateOverrides(organizationId, locale);
+  return MESSAGE_TEMPLATE_KEYS.map(key => describeTemplate(key, locale, overrides[key]));
+}
+
+/**
+ * Replace the wording of one template in one language (validated subject and body)
+ */
+async function saveMessageTemplate(organizationId, key, locale, { subject, body }, userId) {
+  const row = await prisma.buyerMessageTemplate.upsert({
+    where: { organizationId_key_locale: { organizationId, key, locale } },
+    update: { subject, body, updatedById: userId },
+    create: { organizationId, key, locale, subject, body, updatedById: userId }
+  });
+  return describeTemplate(key, locale, row);
+}
+
+/**
+ * Go back to the built-in wording for a key in one language
+ */
+async function resetMessageTemplate(organizationId, key, locale) {
+  await prisma.buyerMessageTemplate.deleteMany({ where: { organizationId, key, locale } });
+  return describeTemplate(key, locale, null);
+}
+
+/**
+ * Everything the template variables need for an order: buyer, shop name,
+ * tracking, ETA in the user's timezone and the latest scan location.
+ * `location` (from a tracking result just fetched) saves the scan lookup.
+ */
+async function loadMessageDetails(order, { userId, location } = {}) {
+  const [store, lastScan, settings] = await Promise.all([
+    order.storeId
+      ? prisma.store.findUnique({
+          where: { id: order.storeId },
+          select: { storeName: true, etsyConnection: { select: { shopName: true } } }
+        })
+      : null,
+    location
+      ? null
+      : prisma.trackingScan.findFirst({
+          where: { orderId: order.id, location: { not: null } },
+          orderBy: { timestamp: 'desc' },
+          select: { location: true }
+        }),
+    getUserSettings(userId)
+  ]);
+
+  return {
+    buyerName: order.buyerName,
+    shopName: store?.etsyConnection?.shopName || store?.storeName || null,
+    carrier: order.carrier,
+    trackingNumber: order.trackingNumber,
+    expectedDeliveryAt: order.expectedDeliveryAt,
+    lastLocation: location || lastScan?.location || null,
+    timezone: settings.timezone
+  };
+}
+
+/**
+ * Message for an order in its current state (or `status`/`riskLevel` when
+ * given), in the organization's wording and the order's language. `key`
+ * picks another template and `locale` another language.
+ */
+async function recommendMessage(order, { organizationId, userId, status, riskLevel, location, key, locale } = {}) {
+  const messageLocale = normalizeLocale(locale) || detectOrderLocale(order).locale;
+  const [templates, details] = await Promise.all([
+    organizationId ? loadTemplateOverrides(organizationId, messageLocale) : {},
+    loadMessageDetails(order, { userId, location })
+  ]);
+
+  return getMessageTemplate(
+    status || order.lastStatus,
+    riskLevel || order.riskLevel,
+    order.orderId,
+    { ...details, templates, key, locale: messageLocale }
+  );
+}
+
+/**
+ * Dedupe key for a message about the order's current state
+ */
+async function messageDedupeKey(order, templateKey) {
+  const event = await prisma.orderEvent.findFirst({
+    where: { orderId: order.id, type: { in: ['status_changed', 'risk_changed'] } },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true }
+  });
+  return `${templateKey}:${event ? event.id : 'created'}`;
+}
+
+/**
+ * The message logged under a dedupe key, if any
+ */
+async function findMessageByDedupeKey(orderId, dedupeKey) {
+  return prisma.messageTemplate.findUnique({
+    where: { orderId_dedupeKey: { orderId, dedupeKey } },
+    select: LOG_SELECT
+  });
+}
+
+/**
+ * Record that a message was copied or sent (by hand) for an order. A second
+ * "sent" for the same template and update is refused.
+ * @param {object} entry - { action, templateKey, locale, subject, message } (validated)
+ * @returns {Promise<{ ok: true, value: object } | { ok: false, status: number, error: string, sent: object }>}
+ */
+async function logMessage(order, { organizationId, userId, action, templateKey = null, locale = null, subject = null, message }) {
+  const messageLocale = locale || detectOrderLocale(order).locale;
+  const custom = templateKey && organizationId
+    ? Boolean(await prisma.buyerMessageTemplate.findUnique({
+        where: { organizationId_key_locale: { organizationId, key: templateKey, locale: messageLocale } },
+        select: { id: true }
+      }))
+    : false;
+  const dedupeKey = action === 'sent' && templateKey ? await messageDedupeKey(order, templateKey) : null;
+
+  try {
+    const entry = await prisma.messageTemplate.create({
+      data: {
+        orderId: order.id,
+        userId,
+        action,
+        templateKey,
+        custom,
+        locale: messageLocale,
+        dedupeKey,
+        status: order.lastStatus || 'unknown',
+        riskLevel: order.riskLevel || 'green',
+        subject,
+        message
+      },
+      select: LOG_SELECT
+    });
+    return { ok: true, value: entry };
+  } catch (error) {
+    if (error.code !== 'P2002') throw error;
+    return {
+      ok: false,
+      status: 409,
+      error: 'The buyer was already sent a message about this update',
+      sent: await findMessageByDedupeKey(order.id, dedupeKey)
+    };
+  }
+}
+
+/**
+ * Messages copied or sent for an order, newest first
+ */
+async function listMessageLog(orderId, { limit = DEFAULT_LOG_LIMIT } = {}) {
+  return prisma.messageTemplate.findMany({
+    where: { orderId, action: { in: MESSAGE_ACTIONS } },
+    orderBy: { sentAt: 'desc' },
+    take: limit,
+    select: LOG_SELECT
+  });
+}
+
+module.exports = {
+  MESSAGE_ACTIONS,
+  LOG_SELECT,
+  loadTemplateOverrides,
+  listMessageTemplates,
+  saveMessageTemplate,
+  resetMessageTemplate,
+  loadMessageDetails,
+  recommendMessage,
+  messageDedupeKey,
+  findMessageByDedupeKey,
+  logMessage,
+  listMessageLog
+};
@@ -0,0 +1,437 @@
+// services/messagingRuleService.js
+// Messaging rules: buyer messages that send themselves when an order's risk
+// or status changes, e.g. the reassuring template once an order turns yellow
+// in transit, or a review request two days after delivery.
+//
+// applyTrackingResult hands each check's events to scheduleRuleMessages, which
+// queues a ScheduledMessage for every matching rule: "scheduled" to go out
+// once the rule's delay has passed, or "pending_approval" when the rule wants
+// a person to approve each message first. processScheduledMessages (the
+// POST /api/cron/messaging-rules sweep) sends the due ones through
+// buyerMessageService, outside the rule's quiet hours and up to its per-order
+// cap. Sends keep the usual dedupe, so a rule never repeats a message someone
+// already sent about the same update. Etsy's API cannot send buyer messages
+// yet, so for now those sends fail (see buyerMessageService).
+
+const prisma = require('../db/prisma');
+const { sendBuyerMessage } = require('./buyerMessageService');
+const { recommendMessage } = require('./messageTemplateService');
+
+const RULE_TRIGGERS = ['risk_changed', 'status_changed'];
+
+// Normalized tracking statuses a rule can match
+const ORDER_STATUSES = [
+  'pre_transit',
+  'in_transit',
+  'out_for_delivery',
+  'delivered',
+  'exception',
+  'delivery_failed',
+  'lost',
+  'unknown'
+];
+
+const SCHEDULED_MESSAGE_STATUSES = [
+  'pending_approval',
+  'scheduled',
+  'sending',
+  'sent',
+  'skipped',
+  'failed',
+  'rejected'
+];
+
+// Messages that count towards a rule's maxPerOrder
+const CAPPED_STATUSES = ['pending_approval', 'scheduled', 'sending', 'sent'];
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_SEND_ATTEMPTS = 3;
+const RETRY_DELAY_MS = HOUR_MS;
+// Wait for a send someone else has in flight for the same update to finish
+const IN_FLIGHT_DELAY_MS = 15 * 60 * 1000;
+// A claim this old belongs to a sweep that died midway
+const SENDING_STALE_MS = 10 * 60 * 1000;
+const SEND_BATCH_SIZE = 100;
+const DEFAULT_QUEUE_LIMIT = 50;
+
+const RULE_SELECT = {
+  id: true,
+  name: true,
+  trigger: true,
+  toValues: true,
+  statuses: true,
+  templateKey: true,
+  delayHours: true,
+  quietHoursStart: true,
+  quietHoursEnd: true,
+  timezone: true,
+  maxPerOrder: true,
+  requireApproval: true,
+  active: true,
+  createdById: true,
+  createdAt: true,
+  updatedAt: true
+};
+
+const QUEUE_SELECT = {
+  id: true,
+  status: true,
+  sendAfter: true,
+  attempts: true,
+  messageId: true,
+  error: true,
+  decidedById: true,
+  decidedAt: true,
+  createdAt: true,
+  rule: { select: { id: true, name: true, templateKey: true, organizationId: true, createdById: true } },
+  order: true
+};
+
+// Hour of day (0-23) at `date` in a time zone
+function localHour(date, timeZone) {
+  const options = { hour: 'numeric', hourCycle: 'h23' };
+  try {
+    return Number(new Intl.DateTimeFormat('en-US', { ...options, timeZone }).format(date));
+  } catch (error) {
+    return Number(new Intl.DateTimeFormat('en-US', { ...options, timeZone: 'UTC' }).format(date));
+  }
+}
+
+/**
+ * Whether `date` falls in the rule's quiet hours. The window may wrap
+ * midnight (22 to 8 is quiet from 10pm to 8am).
+ */
+function isQuietHour(rule, date) {
+  const { quietHoursStart: start, quietHoursEnd: end } = rule;
+  if (start === null || end === null || start === end) return false;
+
+  const hour = localHour(date, rule.timezone);
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * The first time at or after `date` outside the rule's quiet hours
+ */
+function nextSendTime(rule, date) {
+  let time = date;
+  for (let hours = 0; hours < 24 && isQuietHour(rule, time); hours++) {
+    time = new Date((Math.floor(time.getTime() / HOUR_MS) + 1) * HOUR_MS);
+  }
+  return time;
+}
+
+// The order's status is one the rule is limited to (if it is limited)
+function matchesStatusFilter(rule, order) {
+  return rule.statuses.length === 0 || rule.statuses.includes(order.lastStatus);
+}
+
+/**
+ * Whether the order is still in the state the rule reacts to, checked again
+ * before sending so a delayed message never goes out after things moved on
+ */
+function orderMatchesRule(rule, order) {
+  const current = rule.trigger === 'risk_changed' ? order.riskLevel : order.lastStatus;
+  return rule.toValues.includes(current) && matchesStatusFilter(rule, order);
+}
+
+async function listMessagingRules(organizationId) {
+  const rules = await prisma.messagingRule.findMany({
+    where: { organizationId },
+    select: {
+      ...RULE_SELECT,
+      _count: { select: { scheduled: { where: { status: 'sent' } } } }
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+  return rules.map(({ _count, ...rule }) => ({ ...rule, sentCount: _count.scheduled }));
+}
+
+async function findMessagingRule(organizationId, ruleId) {
+  return prisma.messagingRule.findFirst({
+    where: { id: ruleId, organizationId },
+    select: RULE_SELECT
+  });
+}
+
+async function createMessagingRule(organizationId, rule, userId) {
+  return prisma.messagingRule.create({
+    data: { ...rule, organizationId, createdById: userId },
+    select: RULE_SELECT
+  });
+}
+
+/**
+ * Update a rule. Returns null when the rule is not in the organization.
+ */
+async function updateMessagingRule(organizationId, ruleId, changes) {
+  const existing = await findMessagingRule(organizationId, ruleId);
+  if (!existing) return null;
+
+  return prisma.messagingRule.update({
+    where: { id: ruleId },
+    data: changes,
+    select: RULE_SELECT
+  });
+}
+
+/**
+ * Delete a rule; messages it has not sent yet go with it
+ */
+async function deleteMessagingRule(organizationId, ruleId) {
+  const { count } = await prisma.messagingRule.deleteMany({
+    where: { id: ruleId, organizationId }
+  });
+  return count > 0;
+}
+
+/**
+ * Queue the messages the organization's rules call for after a tracking
+ * check. `order` is the updated order and `events` the check's OrderEvents.
+ * @returns {Promise<number>} messages queued
+ */
+async function scheduleRuleMessages(order, events) {
+  const changes = events.filter(event => RULE_TRIGGERS.includes(event.type));
+  if (changes.length === 0 || !order.storeId) return 0;
+
+  const store = await prisma.store.findUnique({
+    where: { id: order.storeId },
+    select: { organizationId: true }
+  });
+  if (!store?.organizationId) return 0;
+
+  const rules = await prisma.messagingRule.findMany({
+    where: {
+      organizationId: store.organizationId,
+      active: true,
+      trigger: { in: changes.map(event => event.type) }
+    }
+  });
+
+  let queued = 0;
+  for (const rule of rules) {
+    const triggered = changes.some(event =>
+      event.type === rule.trigger && rule.toValues.includes(event.metadata?.to)
+    );
+    if (!triggered || !matchesStatusFilter(rule, order)) continue;
+
+    const existing = await prisma.scheduledMessage.count({
+      where: { ruleId: rule.id, orderId: order.id, status: { in: CAPPED_STATUSES } }
+    });
+    if (existing >= rule.maxPerOrder) continue;
+
+    await prisma.scheduledMessage.create({
+      data: {
+        ruleId: rule.id,
+        orderId: order.id,
+        status: rule.requireApproval ? 'pending_approval' : 'scheduled',
+        sendAfter: new Date(Date.now() + rule.delayHours * HOUR_MS)
+      }
+    });
+    queued++;
+  }
+
+  if (queued > 0) {
+    console.log(`[MessagingRules] Queued ${queued} message(s) for order ${order.orderId}`);
+  }
+  return queued;
+}
+
+/**
+ * Send one scheduled message if it is still due, claiming it first so two
+ * sweeps cannot both send it
+ * @returns {Promise<'sent' | 'deferred' | 'skipped' | 'failed' | null>} null when another sweep has it
+ */
+async function deliverScheduledMessage(scheduledId) {
+  const now = new Date();
+  const { count } = await prisma.scheduledMessage.updateMany({
+    where: { id: scheduledId, status: 'scheduled', sendAfter: { lte: now } },
+    data: { status: 'sending' }
+  });
+  if (count === 0) return null;
+
+  const scheduled = await prisma.scheduledMessage.findUnique({
+    where: { id: scheduledId },
+    include: { rule: true, order: true }
+  });
+  const { rule, order } = scheduled;
+  const finish = (status, data = {}) =>
+    prisma.scheduledMessage.update({ where: { id: scheduledId }, data: { status, ...data } });
+
+  if (!rule.active) {
+    await finish('skipped', { error: 'The rule was turned off' });
+    return 'skipped';
+  }
+  if (!orderMatchesRule(rule, order)) {
+    await finish('skipped', { error: 'The order no longer matches the rule' });
+    return 'skipped';
+  }
+
+  const sentCount = await prisma.scheduledMessage.count({
+    where: { ruleId: rule.id, orderId: order.id, status: 'sent' }
+  });
+  if (sentCount >= rule.maxPerOrder) {
+    await finish('skipped', { error: 'The rule already sent its limit for this order' });
+    return 'skipped';
+  }
+
+  if (isQuietHour(rule, now)) {
+    await finish('scheduled', { sendAfter: nextSendTime(rule, now) });
+    return 'deferred';
+  }
+
+  const result = await sendBuyerMessage(order, {
+    organizationId: rule.organizationId,
+    userId: rule.createdById,
+    key: rule.templateKey
+  });
+  const attempts = scheduled.attempts + 1;
+
+  if (result.ok) {
+    await finish('sent', { attempts, messageId: result.value.id, error: null });
+    return 'sent';
+  }
+  if (result.sent?.action === 'sent') {
+    await finish('skipped', { attempts, error: result.error });
+    return 'skipped';
+  }
+  if (result.sent) {
+    // Another send holds the update; if it fails the message is still owed
+    await finish('scheduled', { sendAfter: new Date(now.getTime() + IN_FLIGHT_DELAY_MS), error: result.error });
+    return 'deferred';
+  }
+  if (result.status === 502 && attempts < MAX_SEND_ATTEMPTS) {
+    await finish('scheduled', { attempts, sendAfter: new Date(now.getTime() + RETRY_DELAY_MS), error: result.error });
+    return 'deferred';
+  }
+
+  await finish('failed', { attempts, error: result.error });
+  return 'failed';
+}
+
+/**
+ * Send every scheduled message that has come due
+ * @returns {Promise<{ due: number, sent: number, deferred: number, skipped: number, failed: number }>}
+ */
+async function processScheduledMessages({ limit = SEND_BATCH_SIZE } = {}) {
+  await prisma.scheduledMessage.updateMany({
+    where: { status: 'sending', updatedAt: { lt: new Date(Date.now() - SENDING_STALE_MS) } },
+    data: { status: 'scheduled' }
+  });
+
+  const due = await prisma.scheduledMessage.findMany({
+    where: { status: 'scheduled', sendAfter: { lte: new Date() } },
+    orderBy: { sendAfter: 'asc' },
+    take: limit,
+    select: { id: true }
+  });
+
+  const summary = { due: due.length, sent: 0, deferred: 0, skipped: 0, failed: 0 };
+  for (const { id } of due) {
+    try {
+      const outcome = await deliverScheduledMessage(id);
+      if (outcome) summary[outcome]++;
+    } catch (error) {
+      console.error(`[MessagingRules] Send error for scheduled message ${id}:`, error);
+      await prisma.scheduledMessage.update({
+        where: { id },
+        data: { status: 'failed', error: 'Unexpected error while sending' }
+      }).catch(() => {});
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+function describeScheduledMessage({ rule, order, ...scheduled }, preview = null) {
+  return {
+    ...scheduled,
+    rule: { id: rule.id, name: rule.name, templateKey: rule.templateKey },
+    order: {
+      id: order.id,
+      orderId: order.orderId,
+      buyerName: order.buyerName,
+      lastStatus: order.lastStatus,
+      riskLevel: order.riskLevel
+    },
+    preview
+  };
+}
+
+/**
+ * The organization's rule messages in the stores a member can see, newest
+ * first. Messages waiting for approval come with the text they would send.
+ */
+async function listScheduledMessages(organizationId, { storeIds, status = null, limit = DEFAULT_QUEUE_LIMIT }) {
+  const rows = await prisma.scheduledMessage.findMany({
+    where: {
+      rule: { organizationId },
+      order: { storeId: { in: storeIds } },
+      ...(status ? { status } : {})
+    },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    select: QUEUE_SELECT
+  });
+
+  return Promise.all(rows.map(async row => {
+    if (row.status !== 'pending_approval') return describeScheduledMessage(row);
+    const preview = await recommendMessage(row.order, {
+      organizationId,
+      userId: row.rule.createdById,
+      key: row.rule.templateKey
+    });
+    return describeScheduledMessage(row, { key: preview.key, subject: preview.subject, message: preview.message });
+  }));
+}
+
+/**
+ * Approve or reject a message waiting for approval. An approved message that
+ * is already due is sent right away (quiet hours permitting).
+ * @returns {Promise<{ ok: true, value: object } | { ok: false, status: number, error: string }>}
+ */
+async function decideScheduledMessage(organizationId, scheduledId, { approve, userId, storeIds }) {
+  const existing = await prisma.scheduledMessage.findFirst({
+    where: { id: scheduledId, rule: { organizationId }, order: { storeId: { in: storeIds } } },
+    select: { id: true }
+  });
+  if (!existing) {
+    return { ok: false, status: 404, error: 'Scheduled message not found' };
+  }
+
+  const { count } = await prisma.scheduledMessage.updateMany({
+    where: { id: scheduledId, status: 'pending_approval' },
+    data: {
+      status: approve ? 'scheduled' : 'rejected',
+      decidedById: userId,
+      decidedAt: new Date()
+    }
+  });
+  if (count === 0) {
+    return { ok: false, status: 409, error: 'This message is no longer waiting for approval' };
+  }
+
+  if (approve) {
+    await deliverScheduledMessage(scheduledId);
+  }
+
+  const row = await prisma.scheduledMessage.findUnique({ where: { id: scheduledId }, select: QUEUE_SELECT });
+  return { ok: true, value: describeScheduledMessage(row) };
+}
+
+module.exports = {
+  RULE_TRIGGERS,
+  ORDER_STATUSES,
+  SCHEDULED_MESSAGE_STATUSES,
+  isQuietHour,
+  nextSendTime,
+  listMessagingRules,
+  findMessagingRule,
+  createMessagingRule,
+  updateMessagingRule,
+  deleteMessagingRule,
+  scheduleRuleMessages,
+  processScheduledMessages,
+  listScheduledMessages,
+  decideScheduledMessage
+};
@@ -0,0 +1,144 @@
+// services/notificationService.js
+// In-app notifications shown by the dashboard bell
+
+const prisma = require('../db/prisma');
+const { queueAlertEmails } = require('./email');
+
+const EXCEPTION_STATUSES = ['exception', 'delivery_failed', 'lost'];
+
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+function describeStatus(status) {
+  return String(status || 'unknown').replace(/_/g, ' ');
+}
+
+/**
+ * Notifications for the events logged by a tracking check:
+ *   status_changed to delivered      -> delivery
+ *   status_changed to an exception   -> exception
+ *   risk_changed to yellow/red       -> risk_alert (skipped when an exception
+ *                                       already explains the change)
+ */
+function buildNotifications(userId, order, events, risk) {
+  const notifications = [];
+  const statusChange = events.find(evt => evt.type === 'status_changed');
+  const riskChange = events.find(evt => evt.type === 'risk_changed');
+  const base = { userId, orderId: order.id };
+
+  if (statusChange?.metadata.to === 'delivered') {
+    notifications.push({
+      ...base,
+      type: 'delivery',
+      title: `Order ${order.orderId} delivered`,
+      message: `Tracking ${order.trackingNumber} was delivered.`,
+      metadata: { status: 'delivered', eventId: statusChange.id }
+    });
+  }
+
+  const isException = EXCEPTION_STATUSES.includes(statusChange?.metadata.to);
+  if (isException) {
+    notifications.push({
+      ...base,
+      type: 'exception',
+      title: `Order ${order.orderId}: ${describeStatus(statusChange.metadata.to)}`,
+      message: risk.reasons[0]?.message || `The carrier reported ${describeStatus(statusChange.metadata.to)}.`,
+      metadata: { status: statusChange.metadata.to, eventId: statusChange.id }
+    });
+  }
+
+  if (!isException && ['yellow', 'red'].includes(riskChange?.metadata.to)) {
+    const level = riskChange.metadata.to;
+    notifications.push({
+      ...base,
+      type: 'risk_alert',
+      title: level === 'red'
+        ? `Order ${order.orderId} is high risk`
+        : `Order ${order.orderId} needs attention`,
+      message: risk.reasons[0]?.message || `Risk changed from ${riskChange.metadata.from || 'unknown'} to ${level}.`,
+      metadata: { from: riskChange.metadata.from, to: level, reasons: riskChange.metadata.reasons, eventId: riskChange.id }
+    });
+  }
+
+  return notifications;
+}
+
+/**
+ * Create notifications for a tracking check's events and email the ones the
+ * user opted into. Returns how many notifications were created.
+ */
+async function notifyTrackingEvents(userId, order, events, risk) {
+  if (!userId) return 0;
+
+  const notifications = buildNotifications(userId, order, events, risk);
+  if (notifications.length === 0) return 0;
+
+  const { count } = await prisma.notification.createMany({ data: notifications });
+
+  // Email problems must not lose the in-app notification
+  try {
+    await queueAlertEmails(userId, notifications);
+  } catch (error) {
+    console.error('[Notifications] Alert email error:', error.message);
+  }
+
+  return count;
+}
+
+/**
+ * Newest notifications for a user
+ */
+async function listNotifications(userId, { limit = DEFAULT_LIST_LIMIT, unreadOnly = false } = {}) {
+  const where = { userId };
+  if (unreadOnly) where.read = false;
+
+  const [notifications, unreadCount] = await Promise.all([
+    prisma.notification.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(Math.max(limit, 1), MAX_LIST_LIMIT),
+      select: {
+        id: true,
+        type: true,
+        title: true,
+        message: true,
+        orderId: true,
+        read: true,
+        createdAt: true
+      }
+    }),
+    prisma.notification.count({ where: { userId, read: false } })
+  ]);
+
+  return { notifications, unreadCount };
+}
+
+/**
+ * Mark one notification read. Returns false when it does not belong to the user.
+ */
+async function markNotificationRead(userId, notificationId) {
+  const { count } = await prisma.notification.updateMany({
+    where: { id: notificationId, userId },
+    data: { read: true, readAt: new Date() }
+  });
+  return count > 0;
+}
+
+/**
+ * Mark every unread notification read. Returns how many changed.
+ */
+async function markAllNotificationsRead(userId) {
+  const { count } = await prisma.notification.updateMany({
+    where: { userId, read: false },
+    data: { read: true, readAt: new Date() }
+  });
+  return count;
+}
+
+module.exports = {
+  buildNotifications,
+  notifyTrackingEvents,
+  listNotifications,
+  markNotificationRead,
+  markAllNotificationsRead
+};
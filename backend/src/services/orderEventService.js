@@ -0,0 +1,54 @@
+// services/orderEventService.js
+// OrderEvent rows written after every tracking check (used by impact metrics)
+
+const prisma = require('../db/prisma');
+
+/**
+ * Events for one tracking check: always tracking_checked, plus
+ * status_changed / risk_changed when those moved
+ */
+function buildTrackingEvents(order, trackingResult, risk) {
+  const events = [{
+    orderId: order.id,
+    type: 'tracking_checked',
+    metadata: {
+      status: trackingResult.status,
+      carrier: trackingResult.carrier || order.carrier || null
+    }
+  }];
+
+  if (order.lastStatus !== trackingResult.status) {
+    events.push({
+      orderId: order.id,
+      type: 'status_changed',
+      metadata: { from: order.lastStatus, to: trackingResult.status }
+    });
+  }
+
+  if (order.riskLevel !== risk.riskLevel) {
+    events.push({
+      orderId: order.id,
+      type: 'risk_changed',
+      metadata: {
+        from: order.riskLevel,
+        to: risk.riskLevel,
+        reasons: risk.reasons.map(reason => reason.code)
+      }
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Store the events for a tracking check and return the rows, with their ids
+ */
+async function logTrackingEvents(order, trackingResult, risk) {
+  const events = buildTrackingEvents(order, trackingResult, risk);
+  return prisma.orderEvent.createManyAndReturn({ data: events });
+}
+
+module.exports = {
+  buildTrackingEvents,
+  logTrackingEvents
+};
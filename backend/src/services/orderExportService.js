@@ -0,0 +1,451 @@
+// services/orderExportService.js
+// Order exports as CSV, XLSX or NDJSON (GET /api/orders/export).
+//
+// Small exports stream straight to the response. Larger ones become an
+// ExportJob: it starts right away in the background, the file is stored as
+// ExportChunk rows as it is written (never whole in memory), and the
+// requester gets a notification with the download link.
+// POST /api/cron/export-jobs picks up jobs a restart interrupted and purges
+// files past expiresAt.
+
+const prisma = require('../db/prisma');
+const { forEachOrderBatch } = require('./orderQueryService');
+const { toCsvRow } = require('../utils/csv');
+const { createXlsxWriter } = require('../utils/xlsx');
+
+const EXPORT_FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  xlsx: { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' },
+  ndjson: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'ndjson' }
+};
+
+// Optional columns; orderId, tracking, carrier, status, risk, last update and
+// delivered date are always included
+const EXPORT_COLUMNS = ['store', 'createdAt', 'eta', 'riskReasons', 'lastScanLocation', 'statusDays', 'history'];
+
+// Statuses given a "days in" column in CSV/XLSX (NDJSON lists every status seen)
+const STATUS_DAY_COLUMNS = ['pre_transit', 'in_transit', 'out_for_delivery', 'exception', 'delivery_failed'];
+
+// Above this many orders an export runs as a background job
+const EXPORT_SYNC_MAX_ROWS = Number(process.env.ORDER_EXPORT_SYNC_MAX_ROWS || 5000);
+const EXPORT_JOB_TTL_MS = 24 * 60 * 60 * 1000;
+// A running job not finished after this long is assumed lost in a restart
+const EXPORT_JOB_STALE_MS = 15 * 60 * 1000;
+const EXPORT_JOB_BATCH = 5;
+// Job files are saved in parts of about this size
+const EXPORT_CHUNK_BYTES = 1024 * 1024;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fields returned for jobs; the file's chunks are only read on download
+const JOB_SELECT = {
+  id: true,
+  format: true,
+  columns: true,
+  status: true,
+  rowCount: true,
+  fileName: true,
+  error: true,
+  startedAt: true,
+  completedAt: true,
+  expiresAt: true,
+  createdAt: true
+};
+
+function iso(date) {
+  return date ? new Date(date).toISOString() : null;
+}
+
+/**
+ * Days spent in each status, from the order's status_changed events. The
+ * current status counts until now unless it is delivered.
+ */
+function computeStatusDays(statusEvents, now = new Date()) {
+  const totals = {};
+  let current = null;
+  let since = null;
+
+  const add = (status, from, to) => {
+    if (!status || status === 'delivered') return;
+    totals[status] = (totals[status] || 0) + (to - from);
+  };
+
+  for (const event of statusEvents) {
+    add(current, since, event.createdAt);
+    current = event.metadata?.to || null;
+    since = event.createdAt;
+  }
+  add(current, since, now);
+
+  const days = {};
+  for (const [status, ms] of Object.entries(totals)) {
+    days[status] = Math.round((ms / DAY_MS) * 10) / 10;
+  }
+  return days;
+}
+
+// Scans and events for a batch, loaded only for the columns that need them
+async function loadBatchDetails(orders, columns) {
+  const orderIds = orders.map(order => order.id);
+  const lastLocations = new Map();
+  const events = new Map();
+
+  if (columns.includes('lastScanLocation')) {
+    const scans = await prisma.trackingScan.findMany({
+      where: { orderId: { in: orderIds }, location: { not: null } },
+      orderBy: { timestamp: 'desc' },
+      distinct: ['orderId'],
+      select: { orderId: true, location: true }
+    });
+    for (const scan of scans) lastLocations.set(scan.orderId, scan.location);
+  }
+
+  if (columns.includes('statusDays') || columns.includes('history')) {
+    const rows = await prisma.orderEvent.findMany({
+      where: { orderId: { in: orderIds }, type: { in: ['status_changed', 'risk_changed'] } },
+      orderBy: { createdAt: 'asc' },
+      select: { orderId: true, type: true, metadata: true, createdAt: true }
+    });
+    for (const row of rows) {
+      if (!events.has(row.orderId)) events.set(row.orderId, []);
+      events.get(row.orderId).push(row);
+    }
+  }
+
+  return { lastLocations, events };
+}
+
+/**
+ * One exported order as a plain object (the NDJSON line); only the requested
+ * optional columns are present
+ */
+function buildRecord(order, columns, details) {
+  const record = {
+    orderId: order.orderId,
+    trackingNumber: order.trackingNumber,
+    carrier: order.carrier,
+    status: order.lastStatus,
+    riskLevel: order.riskLevel,
+    lastUpdateAt: iso(order.lastUpdateAt),
+    deliveredAt: iso(order.deliveredAt)
+  };
+  const events = details.events.get(order.id) || [];
+
+  if (columns.includes('store')) record.store = order.store?.storeName || null;
+  if (columns.includes('createdAt')) record.createdAt = iso(order.createdAt);
+  if (columns.includes('eta')) {
+    record.expectedDeliveryAt = iso(order.expectedDeliveryAt);
+    record.etaSource = order.etaSource;
+  }
+  if (columns.includes('riskReasons')) record.riskReasons = Array.isArray(order.riskReasons) ? order.riskReasons : [];
+  if (columns.includes('lastScanLocation')) record.lastScanLocation = details.lastLocations.get(order.id) || null;
+  if (columns.includes('statusDays')) {
+    record.statusDays = computeStatusDays(events.filter(event => event.type === 'status_changed'));
+  }
+  if (columns.includes('history')) {
+    record.history = events.map(event => ({
+      at: iso(event.createdAt),
+      type: event.type,
+      from: event.metadata?.from ?? null,
+      to: event.metadata?.to ?? null
+    }));
+  }
+
+  return record;
+}
+
+// Header and value getter per spreadsheet column, for CSV and XLSX
+function tabularColumns(columns) {
+  const table = [
+    ['Order ID', record => record.orderId],
+    ['Tracking Number', record => record.trackingNumber],
+    ['Carrier', record => record.carrier],
+    ['Status', record => record.status],
+    ['Risk Level', record => record.riskLevel],
+    ['Last Update', record => record.lastUpdateAt],
+    ['Delivered At', record => record.deliveredAt]
+  ];
+
+  if (columns.includes('store')) table.push(['Store', record => record.store]);
+  if (columns.includes('createdAt')) table.push(['Created At', record => record.createdAt]);
+  if (columns.includes('eta')) {
+    table.push(['Expected Delivery', record => record.expectedDeliveryAt]);
+    table.push(['ETA Source', record => record.etaSource]);
+  }
+  if (columns.includes('riskReasons')) {
+    table.push(['Risk Reasons', record => record.riskReasons.map(reason => reason.message || reason.code).join('; ')]);
+  }
+  if (columns.includes('lastScanLocation')) table.push(['Last Scan Location', record => record.lastScanLocation]);
+  if (columns.includes('statusDays')) {
+    for (const status of STATUS_DAY_COLUMNS) {
+      table.push([`Days ${status.replace(/_/g, ' ')}`, record => record.statusDays[status] ?? 0]);
+    }
+  }
+  if (columns.includes('history')) {
+    table.push(['Event History', record => record.history
+      .map(event => `${event.at} ${event.type === 'risk_changed' ? 'risk' : 'status'} ${event.from || '-'} -> ${event.to || '-'}`)
+      .join('; ')]);
+  }
+
+  return table;
+}
+
+/**
+ * Write the export of every order matching `filters` in `storeIds`.
+ * `write(chunk)` receives strings (CSV, NDJSON) or Buffers (XLSX, zipped
+ * batch by batch) and is awaited, so a response stream can apply
+ * backpressure. Returns the number of orders exported.
+ */
+async function writeOrderExport(storeIds, { format, columns, filters }, write) {
+  const table = format === 'ndjson' ? null : tabularColumns(columns);
+  const sheet = format === 'xlsx' ? createXlsxWriter({ sheetName: 'Orders' }) : null;
+  let rowCount = 0;
+
+  if (format === 'csv') {
+    // BOM so Excel reads the file as UTF-8
+    await write('\uFEFF' + toCsvRow(table.map(([header]) => header)));
+  } else if (format === 'xlsx') {
+    await write(Buffer.concat([sheet.start(), sheet.addRows([table.map(([header]) => header)])]));
+  }
+
+  await forEachOrderBatch(storeIds, filters, async (orders) => {
+    const details = await loadBatchDetails(orders, columns);
+    const records = orders.map(order => buildRecord(order, columns, details));
+    rowCount += records.length;
+
+    if (format === 'ndjson') {
+      await write(records.map(record => JSON.stringify(record) + '\n').join(''));
+    } else if (format === 'csv') {
+      await write(records.map(record => toCsvRow(table.map(([, value]) => value(record)))).join(''));
+    } else {
+      await write(sheet.addRows(records.map(record => table.map(([, value]) => value(record)))));
+    }
+  });
+
+  if (format === 'xlsx') {
+    await write(sheet.finish());
+  }
+
+  return rowCount;
+}
+
+function exportFileName(format, date = new Date()) {
+  return `orderwarden-orders-${date.toISOString().split('T')[0]}.${EXPORT_FORMATS[format].extension}`;
+}
+
+function serializeJob(job) {
+  return {
+    ...job,
+    downloadUrl: job.status === 'completed' ? `/api/orders/export/jobs/${job.id}/download` : null
+  };
+}
+
+/**
+ * Queue an export for `userId` and start it without waiting
+ */
+async function createExportJob(organizationId, userId, storeIds, { format, columns, filters }) {
+  const job = await prisma.exportJob.create({
+    // Dates become ISO strings in the Json column; see reviveFilters
+    data: { organizationId, userId, storeIds, format, columns, filters: JSON.parse(JSON.stringify(filters)) },
+    select: JOB_SELECT
+  });
+
+  runExportJob(job.id).catch(error => {
+    console.error(`[Export] Job ${job.id} crashed:`, error.message);
+  });
+
+  return serializeJob(job);
+}
+
+// Filters come back from JSON with dates as strings
+function reviveFilters(filters) {
+  return {
+    ...filters,
+    createdFrom: filters.createdFrom ? new Date(filters.createdFrom) : null,
+    createdTo: filters.createdTo ? new Date(filters.createdTo) : null,
+    cursor: null
+  };
+}
+
+/**
+ * Build a job's file. Claims the job first so the cron sweep and the request
+ * that created it never both run it. Returns the final status, or null when
+ * the job was not claimable.
+ */
+async function runExportJob(jobId) {
+  const now = new Date();
+  const claimed = await prisma.exportJob.updateMany({
+    where: {
+      id: jobId,
+      OR: [
+        { status: 'pending' },
+        { status: 'running', startedAt: { lt: new Date(now.getTime() - EXPORT_JOB_STALE_MS) } }
+      ]
+    },
+    data: { status: 'running', startedAt: now, error: null }
+  });
+  if (claimed.count === 0) return null;
+
+  const job = await prisma.exportJob.findUnique({ where: { id: jobId } });
+
+  try {
+    // A job resumed after a restart starts its file over
+    await prisma.exportChunk.deleteMany({ where: { jobId } });
+
+    let pending = [];
+    let pendingBytes = 0;
+    let index = 0;
+    const flush = async () => {
+      if (pendingBytes === 0) return;
+      await prisma.exportChunk.create({ data: { jobId, index, data: Buffer.concat(pending) } });
+      index++;
+      pending = [];
+      pendingBytes = 0;
+    };
+
+    const rowCount = await writeOrderExport(
+      job.storeIds,
+      { format: job.format, columns: job.columns, filters: reviveFilters(job.filters) },
+      async (chunk) => {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, 'utf8');
+        pending.push(buffer);
+        pendingBytes += buffer.length;
+        if (pendingBytes >= EXPORT_CHUNK_BYTES) await flush();
+      }
+    );
+    await flush();
+
+    const completedAt = new Date();
+    const fileName = exportFileName(job.format, completedAt);
+    await prisma.exportJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'completed',
+        rowCount,
+        fileName,
+        completedAt,
+        expiresAt: new Date(completedAt.getTime() + EXPORT_JOB_TTL_MS)
+      }
+    });
+
+    await prisma.notification.create({
+      data: {
+        userId: job.userId,
+        type: 'system',
+        title: 'Your order export is ready',
+        message: `${fileName} (${rowCount} orders) can be downloaded for the next 24 hours.`,
+        metadata: { exportJobId: job.id, downloadUrl: `/api/orders/export/jobs/${job.id}/download` }
+      }
+    });
+
+    console.log(`[Export] Job ${job.id}: ${rowCount} orders as ${job.format}`);
+    return 'completed';
+  } catch (error) {
+    console.error(`[Export] Job ${job.id} failed:`, error.message);
+    await prisma.exportChunk.deleteMany({ where: { jobId } });
+    await prisma.exportJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'failed',
+        error: error.message,
+        completedAt: new Date(),
+        expiresAt: new Date(Date.now() + EXPORT_JOB_TTL_MS)
+      }
+    });
+    return 'failed';
+  }
+}
+
+/**
+ * The user's recent export jobs in an organization, newest first
+ */
+async function listExportJobs(organizationId, userId, { limit = 20 } = {}) {
+  const jobs = await prisma.exportJob.findMany({
+    where: { organizationId, userId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    select: JOB_SELECT
+  });
+  return jobs.map(serializeJob);
+}
+
+async function findExportJob(organizationId, userId, jobId) {
+  const job = await prisma.exportJob.findFirst({
+    where: { id: jobId, organizationId, userId },
+    select: JOB_SELECT
+  });
+  return job ? serializeJob(job) : null;
+}
+
+/**
+ * A completed job's file, or null when it is missing, unfinished or expired.
+ * `read()` yields its chunks one at a time.
+ */
+async function getExportFile(organizationId, userId, jobId) {
+  const job = await prisma.exportJob.findFirst({
+    where: { id: jobId, organizationId, userId, status: 'completed', expiresAt: { gt: new Date() } },
+    select: { id: true, format: true, fileName: true, _count: { select: { chunks: true } } }
+  });
+  if (!job || job._count.chunks === 0) return null;
+
+  return {
+    fileName: job.fileName,
+    contentType: EXPORT_FORMATS[job.format].contentType,
+    async *read() {
+      for (let index = 0; index < job._count.chunks; index++) {
+        const chunk = await prisma.exportChunk.findUnique({
+          where: { jobId_index: { jobId: job.id, index } },
+          select: { data: true }
+        });
+        if (!chunk) throw new Error(`Export ${job.id} is missing chunk ${index}`);
+        yield Buffer.from(chunk.data);
+      }
+    }
+  };
+}
+
+/**
+ * Cron sweep: run jobs left pending or stalled by a restart, and delete jobs
+ * whose files have expired
+ */
+async function processExportJobs() {
+  const staleBefore = new Date(Date.now() - EXPORT_JOB_STALE_MS);
+  const due = await prisma.exportJob.findMany({
+    where: {
+      OR: [
+        { status: 'pending' },
+        { status: 'running', startedAt: { lt: staleBefore } }
+      ]
+    },
+    orderBy: { createdAt: 'asc' },
+    take: EXPORT_JOB_BATCH,
+    select: { id: true }
+  });
+
+  const summary = { due: due.length, completed: 0, failed: 0, purged: 0 };
+  for (const { id } of due) {
+    const status = await runExportJob(id);
+    if (status === 'completed') summary.completed++;
+    if (status === 'failed') summary.failed++;
+  }
+
+  const { count } = await prisma.exportJob.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+  summary.purged = count;
+
+  return summary;
+}
+
+module.exports = {
+  EXPORT_FORMATS,
+  EXPORT_COLUMNS,
+  EXPORT_SYNC_MAX_ROWS,
+  computeStatusDays,
+  writeOrderExport,
+  exportFileName,
+  createExportJob,
+  runExportJob,
+  listExportJobs,
+  findExportJob,
+  getExportFile,
+  processExportJobs
+};
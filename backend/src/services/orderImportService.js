@@ -0,0 +1,207 @@
+// services/orderImportService.js
+// Bulk order import from CSV (POST /api/orders/import).
+//
+// readImportCsv() parses the file and maps its columns to order fields;
+// importOrders() runs each row through validateOrderCreate, fills in missing
+// carriers, handles orderIds that already exist and reports a result per row.
+// With dryRun nothing is written, which is how the dashboard previews a file.
+
+const prisma = require('../db/prisma');
+const { parseCsv } = require('../utils/csv');
+const { validateOrderCreate } = require('../utils/validation');
+const { detectCarrier } = require('./trackingService');
+
+const IMPORT_FIELDS = ['orderId', 'trackingNumber', 'carrier'];
+const REQUIRED_FIELDS = ['orderId', 'trackingNumber'];
+
+// Header names recognised per field, compared lowercase without punctuation
+const HEADER_ALIASES = {
+  orderId: ['orderid', 'order', 'ordernumber', 'orderno', 'receiptid', 'receipt', 'saleid'],
+  trackingNumber: ['trackingnumber', 'tracking', 'trackingno', 'trackingcode', 'trackingid'],
+  carrier: ['carrier', 'carriername', 'shippingcarrier', 'courier']
+};
+
+const MAX_IMPORT_ROWS = Number(process.env.ORDER_IMPORT_MAX_ROWS || 1000);
+
+function normalizeHeader(header) {
+  return String(header).toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Guess which header holds each field
+ */
+function detectMapping(headers) {
+  const mapping = {};
+  for (const field of IMPORT_FIELDS) {
+    mapping[field] = headers.find(header => HEADER_ALIASES[field].includes(normalizeHeader(header))) || null;
+  }
+  return mapping;
+}
+
+/**
+ * Parse an import file. `mapping` ({ orderId: 'Order #', ... }) overrides the
+ * detected header for each field it names; null leaves a field unmapped.
+ * Returns { ok, error } or { ok, value: { headers, mapping, rows } } where rows
+ * are { row, orderId, trackingNumber, carrier } and `row` is the line number
+ * in the file (the header is line 1).
+ */
+function readImportCsv(csv, mapping = {}) {
+  let records;
+  try {
+    records = parseCsv(csv);
+  } catch (error) {
+    return { ok: false, error: `Could not parse CSV: ${error.message}.` };
+  }
+
+  if (records.length < 2) {
+    return { ok: false, error: 'The file needs a header row and at least one order.' };
+  }
+  if (records.length - 1 > MAX_IMPORT_ROWS) {
+    return { ok: false, error: `Import at most ${MAX_IMPORT_ROWS} orders at a time.` };
+  }
+
+  const headers = records[0].map(header => header.trim());
+  const resolved = { ...detectMapping(headers), ...mapping };
+
+  for (const field of IMPORT_FIELDS) {
+    if (resolved[field] && !headers.includes(resolved[field])) {
+      return { ok: false, error: `Column "${resolved[field]}" mapped to ${field} is not in the file.` };
+    }
+  }
+  const unmapped = REQUIRED_FIELDS.filter(field => !resolved[field]);
+  if (unmapped.length > 0) {
+    return {
+      ok: false,
+      error: `Map a column to ${unmapped.join(' and ')}.`,
+      headers,
+      mapping: resolved
+    };
+  }
+
+  const columns = {};
+  for (const field of IMPORT_FIELDS) {
+    columns[field] = resolved[field] ? headers.indexOf(resolved[field]) : -1;
+  }
+
+  const rows = records.slice(1).map((fields, index) => {
+    const row = { row: index + 2 };
+    for (const field of IMPORT_FIELDS) {
+      row[field] = columns[field] >= 0 ? (fields[columns[field]] || '') : '';
+    }
+    return row;
+  });
+
+  return { ok: true, value: { headers, mapping: resolved, rows } };
+}
+
+function emptySummary(total) {
+  return { total, created: 0, updated: 0, skipped: 0, invalid: 0, failed: 0 };
+}
+
+/**
+ * Import parsed rows into `storeId`.
+ *   storeIds   - the organization's stores; orderIds elsewhere are reported, not touched
+ *   duplicates - 'skip' or 'update' (tracking number and carrier) for existing orderIds
+ *   quota      - how many new orders the plan still allows (Infinity for Pro)
+ *   dryRun     - report what would happen without writing
+ * Returns { dryRun, summary, results } with one result per row:
+ * { row, orderId, status: created|updated|skipped|invalid|failed, carrier, carrierDetected, message }.
+ */
+async function importOrders(rows, { storeId, storeIds, duplicates = 'skip', quota = Infinity, dryRun = false }) {
+  const summary = emptySummary(rows.length);
+  const results = [];
+
+  const orderIds = rows.map(row => row.orderId.trim()).filter(Boolean);
+  const existing = await prisma.order.findMany({
+    where: { orderId: { in: orderIds } },
+    select: { id: true, orderId: true, storeId: true, trackingNumber: true, carrier: true }
+  });
+  const existingByOrderId = new Map(existing.map(order => [order.orderId, order]));
+  const firstRowByOrderId = new Map();
+
+  const record = (result) => {
+    summary[result.status]++;
+    results.push(result);
+  };
+
+  for (const row of rows) {
+    const validation = validateOrderCreate({ ...row, storeId });
+    if (!validation.ok) {
+      record({ row: row.row, orderId: row.orderId.trim() || null, status: 'invalid', message: validation.error });
+      continue;
+    }
+
+    const { orderId, trackingNumber } = validation.value;
+    const carrier = validation.value.carrier || detectCarrier(trackingNumber);
+    const base = { row: row.row, orderId, carrier, carrierDetected: !validation.value.carrier };
+
+    if (firstRowByOrderId.has(orderId)) {
+      record({ ...base, status: 'skipped', message: `Same orderId as row ${firstRowByOrderId.get(orderId)}` });
+      continue;
+    }
+    firstRowByOrderId.set(orderId, row.row);
+
+    const current = existingByOrderId.get(orderId);
+    try {
+      if (current) {
+        if (!storeIds.includes(current.storeId)) {
+          record({ ...base, status: 'failed', message: 'orderId is already used outside this workspace' });
+        } else if (duplicates !== 'update') {
+          record({ ...base, status: 'skipped', message: 'Order already exists' });
+        } else if (current.trackingNumber === trackingNumber && current.carrier === carrier) {
+          record({ ...base, status: 'skipped', message: 'Order already up to date' });
+        } else {
+          if (!dryRun) {
+            await prisma.order.update({
+              where: { id: current.id },
+              data: current.trackingNumber === trackingNumber
+                ? { carrier }
+                : {
+                    // A new tracking number starts over: checked on the next sweep
+                    trackingNumber,
+                    carrier,
+                    lastStatus: null,
+                    riskLevel: 'green',
+                    riskReasons: [],
+                    expectedDeliveryAt: null,
+                    etaSource: null,
+                    deliveredAt: null,
+                    nextCheckAt: null
+                  }
+            });
+          }
+          record({ ...base, status: 'updated' });
+        }
+        continue;
+      }
+
+      if (summary.created >= quota) {
+        record({ ...base, status: 'skipped', message: 'Monthly order limit reached' });
+        continue;
+      }
+
+      if (!dryRun) {
+        await prisma.order.create({
+          data: { orderId, trackingNumber, carrier, storeId, riskLevel: 'green' }
+        });
+      }
+      record({ ...base, status: 'created' });
+    } catch (error) {
+      console.error(`[OrderImport] Row ${row.row} (${orderId}) failed:`, error.message);
+      record({
+        ...base,
+        status: 'failed',
+        message: error.code === 'P2002' ? 'Order with this orderId already exists' : 'Could not save order'
+      });
+    }
+  }
+
+  return { dryRun, summary, results };
+}
+
+module.exports = {
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  readImportCsv,
+  importOrders
+};
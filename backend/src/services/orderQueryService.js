@@ -0,0 +1,210 @@
+// services/orderQueryService.js
+// Filtering, sorting and cursor pagination for GET /api/orders.
+//
+// Pages are keyset-based: the cursor holds the sort value and id of the last
+// order on a page, so the next page starts right after it however many orders
+// are added or removed meanwhile. Nullable sort fields put nulls last in both
+// directions.
+
+const prisma = require('../db/prisma');
+
+// Sortable fields; riskLevel sorts by severity through the generated riskRank column
+const ORDER_SORT_FIELDS = {
+  createdAt: { column: 'createdAt', type: 'date', nullable: false },
+  orderId: { column: 'orderId', type: 'string', nullable: false },
+  trackingNumber: { column: 'trackingNumber', type: 'string', nullable: false },
+  lastStatus: { column: 'lastStatus', type: 'string', nullable: true },
+  riskLevel: { column: 'riskRank', type: 'number', nullable: true },
+  lastUpdateAt: { column: 'lastUpdateAt', type: 'date', nullable: true },
+  expectedDeliveryAt: { column: 'expectedDeliveryAt', type: 'date', nullable: true }
+};
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Position of an order in the (sort value, id) ordering
+function cursorFor(order, sort) {
+  const { column } = ORDER_SORT_FIELDS[sort];
+  return { value: order[column] ?? null, id: order.id };
+}
+
+function encodeOrderCursor(order, sort, direction) {
+  const { value, id } = cursorFor(order, sort);
+  const encoded = value instanceof Date ? value.toISOString() : value;
+  return Buffer.from(JSON.stringify({ s: sort, d: direction, v: encoded, id })).toString('base64url');
+}
+
+/**
+ * Decode a cursor from a previous page. Null when it is malformed or was
+ * issued for another sort.
+ */
+function decodeOrderCursor(cursor, sort, direction) {
+  let decoded;
+  try {
+    decoded = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+  } catch (error) {
+    return null;
+  }
+  if (!decoded || decoded.s !== sort || decoded.d !== direction || typeof decoded.id !== 'string') {
+    return null;
+  }
+
+  const { type } = ORDER_SORT_FIELDS[sort];
+  let value = decoded.v ?? null;
+  if (value !== null && type === 'date') {
+    value = new Date(value);
+    if (Number.isNaN(value.getTime())) return null;
+  }
+  return { value, id: decoded.id };
+}
+
+/**
+ * Prisma where for the list filters (see validateOrderList), within `storeIds`
+ */
+function buildOrderWhere(storeIds, filters) {
+  const where = { storeId: { in: storeIds } };
+  const and = [];
+
+  if (filters.risk?.length) where.riskLevel = { in: filters.risk };
+  if (filters.status?.length) where.lastStatus = { in: filters.status };
+
+  if (filters.carrier?.length) {
+    // Carriers are stored as typed ("USPS") or detected ("usps")
+    and.push({ OR: filters.carrier.map(carrier => ({ carrier: { equals: carrier, mode: 'insensitive' } })) });
+  }
+
+  if (filters.createdFrom || filters.createdTo) {
+    where.createdAt = {};
+    if (filters.createdFrom) where.createdAt.gte = filters.createdFrom;
+    if (filters.createdTo) where.createdAt.lte = filters.createdTo;
+  }
+
+  if (filters.q) {
+    and.push({
+      OR: [
+        { orderId: { contains: filters.q, mode: 'insensitive' } },
+        { trackingNumber: { contains: filters.q, mode: 'insensitive' } }
+      ]
+    });
+  }
+
+  if (and.length > 0) where.AND = and;
+  return where;
+}
+
+// Orders after the cursor in (sort value, id) order, nulls last
+function afterCursor(sort, direction, cursor) {
+  const { column, nullable } = ORDER_SORT_FIELDS[sort];
+  const beyond = direction === 'asc' ? 'gt' : 'lt';
+
+  if (cursor.value === null) {
+    return { [column]: null, id: { [beyond]: cursor.id } };
+  }
+
+  const conditions = [
+    { [column]: { [beyond]: cursor.value } },
+    { [column]: cursor.value, id: { [beyond]: cursor.id } }
+  ];
+  if (nullable) conditions.push({ [column]: null });
+  return { OR: conditions };
+}
+
+// `limit` orders after `cursor` in list order, and whether more follow
+async function findOrderPage(storeIds, filters) {
+  const { sort = 'createdAt', direction = 'desc', limit = DEFAULT_PAGE_SIZE, cursor = null } = filters;
+  const { column, nullable } = ORDER_SORT_FIELDS[sort];
+
+  const where = buildOrderWhere(storeIds, filters);
+  const rows = await prisma.order.findMany({
+    where: cursor ? { AND: [where, afterCursor(sort, direction, cursor)] } : where,
+    include: { store: { select: { storeName: true } } },
+    orderBy: [
+      { [column]: nullable ? { sort: direction, nulls: 'last' } : direction },
+      { id: direction }
+    ],
+    take: limit + 1
+  });
+
+  const hasMore = rows.length > limit;
+  return { orders: hasMore ? rows.slice(0, limit) : rows, hasMore };
+}
+
+/**
+ * One page of orders plus the total matching the filters.
+ * @returns {Promise<{ orders: Array, totalCount: number, pageInfo: { limit, hasMore, nextCursor } }>}
+ */
+async function listOrders(storeIds, filters) {
+  const { sort = 'createdAt', direction = 'desc', limit = DEFAULT_PAGE_SIZE } = filters;
+
+  const [{ orders, hasMore }, totalCount] = await Promise.all([
+    findOrderPage(storeIds, filters),
+    countOrders(storeIds, filters)
+  ]);
+
+  return {
+    orders,
+    totalCount,
+    pageInfo: {
+      limit,
+      hasMore,
+      nextCursor: hasMore ? encodeOrderCursor(orders[orders.length - 1], sort, direction) : null
+    }
+  };
+}
+
+/**
+ * Number of orders matching the filters
+ */
+async function countOrders(storeIds, filters) {
+  return prisma.order.count({ where: buildOrderWhere(storeIds, filters) });
+}
+
+/**
+ * Walk every order matching the filters, in list order, `batchSize` at a
+ * time. `handler(orders)` is awaited before the next batch is read.
+ */
+async function forEachOrderBatch(storeIds, filters, handler, { batchSize = MAX_PAGE_SIZE } = {}) {
+  const sort = filters.sort || 'createdAt';
+  let cursor = null;
+
+  for (;;) {
+    const { orders, hasMore } = await findOrderPage(storeIds, { ...filters, limit: batchSize, cursor });
+    if (orders.length > 0) await handler(orders);
+    if (!hasMore) return;
+    cursor = cursorFor(orders[orders.length - 1], sort);
+  }
+}
+
+/**
+ * Counts by risk level and status for the orders matching the filters
+ */
+async function summarizeOrders(storeIds, filters) {
+  const where = buildOrderWhere(storeIds, filters);
+
+  const [byRisk, byStatus] = await Promise.all([
+    prisma.order.groupBy({ by: ['riskLevel'], where, _count: { id: true } }),
+    prisma.order.groupBy({ by: ['lastStatus'], where, _count: { id: true } })
+  ]);
+
+  const tally = (groups, key) => groups.reduce((acc, group) => {
+    acc[group[key] || 'unknown'] = group._count.id;
+    return acc;
+  }, {});
+
+  return {
+    total: byRisk.reduce((sum, group) => sum + group._count.id, 0),
+    byRisk: tally(byRisk, 'riskLevel'),
+    byStatus: tally(byStatus, 'lastStatus')
+  };
+}
+
+module.exports = {
+  ORDER_SORT_FIELDS,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  decodeOrderCursor,
+  listOrders,
+  countOrders,
+  forEachOrderBatch,
+  summarizeOrders
+};
@@ -0,0 +1,134 @@
+// services/orderTrackingService.js
+// Applies a fresh tracking result to an order: ETA, risk, the order row,
+// scan history, tracking events, notifications, outbound webhooks and
+// messaging rules. Manual checks, the cron sweep and carrier push webhooks
+// all go through applyTrackingResult.
+
+const prisma = require('../db/prisma');
+const { saveTrackingScans } = require('./trackingScanService');
+const { evaluateRisk, isInternationalShipment } = require('./riskEngine');
+const { AUTO_CHECK_INTERVALS, getRiskRuleSet, getUserSettings } = require('./settingsService');
+const { estimateOrderDelivery } = require('./etaService');
+const { computeNextCheckAt } = require('./checkScheduler');
+const { logTrackingEvents } = require('./orderEventService');
+const { notifyTrackingEvents } = require('./notificationService');
+const { dispatchOrderWebhooks } = require('./webhookService');
+const { scheduleRuleMessages } = require('./messagingRuleService');
+
+/**
+ * Risk rules and check interval for one user
+ * @returns {Promise<{ userId: string, ruleSet: object, intervalHours: number }>}
+ */
+async function loadTrackingContext(userId) {
+  const [ruleSet, settings] = await Promise.all([
+    getRiskRuleSet(userId),
+    getUserSettings(userId)
+  ]);
+
+  return {
+    userId,
+    ruleSet,
+    intervalHours: AUTO_CHECK_INTERVALS[settings.autoCheckInterval],
+    shipFromCountry: settings.shipFromCountry
+  };
+}
+
+/**
+ * Per-run loader for batch callers: each user's context is loaded once and
+ * every ETA shares one delivered-order history cache
+ */
+function createTrackingContextLoader() {
+  const contexts = new Map();
+  const historyCache = new Map();
+
+  return async function contextFor(userId) {
+    if (!contexts.has(userId)) {
+      contexts.set(userId, { ...(await loadTrackingContext(userId)), historyCache });
+    }
+    return contexts.get(userId);
+  };
+}
+
+/**
+ * Evaluate a tracking result against an order and persist everything it changes.
+ * Scan history, events, notifications, webhooks and rule messages are best effort; the order update is not.
+ * @param {object} order - Order row
+ * @param {object} trackingResult - normalized provider result
+ * @param {object} context - from loadTrackingContext / createTrackingContextLoader
+ * @returns {Promise<{ order: object, risk: object, eta: object, events: Array, notificationsCreated: number }>}
+ */
+async function applyTrackingResult(order, trackingResult, context) {
+  const { userId, ruleSet, intervalHours, shipFromCountry, historyCache } = context;
+
+  const eta = await estimateOrderDelivery(order, trackingResult, {
+    userId,
+    timezone: ruleSet.timezone,
+    shipFromCountry,
+    historyCache
+  });
+  const risk = evaluateRisk({
+    status: trackingResult.status,
+    lastScanAt: trackingResult.lastUpdate,
+    expectedDeliveryAt: eta.expectedDeliveryAt,
+    international: isInternationalShipment(order.trackingNumber, { shipToCountry: order.shipToCountry, shipFromCountry }),
+    orderValue: typeof order.orderTotalCents === 'number' ? order.orderTotalCents / 100 : null,
+    shipToCountry: order.shipToCountry
+  }, ruleSet);
+
+  const deliveredAt = order.deliveredAt || trackingResult.lastUpdate;
+  const updatedOrder = await prisma.order.update({
+    where: { id: order.id },
+    data: {
+      lastStatus: trackingResult.status,
+      lastUpdateAt: new Date(),
+      riskLevel: risk.riskLevel,
+      riskReasons: risk.reasons,
+      expectedDeliveryAt: eta.expectedDeliveryAt,
+      etaSource: eta.source,
+      deliveredAt: trackingResult.status === 'delivered' ? deliveredAt : null,
+      nextCheckAt: computeNextCheckAt({
+        status: trackingResult.status,
+        riskLevel: risk.riskLevel,
+        expectedDeliveryAt: eta.expectedDeliveryAt,
+        deliveredAt
+      }, intervalHours),
+      checkFailures: 0,
+      carrier: trackingResult.carrier || order.carrier // Update carrier if detected
+    }
+  });
+
+  try {
+    await saveTrackingScans(order.id, trackingResult);
+  } catch (error) {
+    console.error(`[OrderTracking] Scan history error for ${order.id}:`, error);
+  }
+
+  let events = [];
+  let notificationsCreated = 0;
+  try {
+    events = await logTrackingEvents(order, trackingResult, risk);
+    notificationsCreated = await notifyTrackingEvents(userId, order, events, risk);
+  } catch (error) {
+    console.error(`[OrderTracking] Event log error for ${order.id}:`, error);
+  }
+
+  try {
+    await dispatchOrderWebhooks(updatedOrder, events);
+  } catch (error) {
+    console.error(`[OrderTracking] Webhook error for ${order.id}:`, error);
+  }
+
+  try {
+    await scheduleRuleMessages(updatedOrder, events);
+  } catch (error) {
+    console.error(`[OrderTracking] Messaging rule error for ${order.id}:`, error);
+  }
+
+  return { order: updatedOrder, risk, eta, events, notificationsCreated };
+}
+
+module.exports = {
+  loadTrackingContext,
+  createTrackingContextLoader,
+  applyTrackingResult
+};
@@ -0,0 +1,347 @@
+// services/organizationService.js
+// Shared workspaces. Stores (with their orders and Etsy shops) belong to an
+// organization; users reach them through a Membership whose role decides
+// what they may do. Every user has at least one organization: a personal
+// workspace is created the first time they show up.
+
+const crypto = require('crypto');
+const prisma = require('../db/prisma');
+
+const ROLES = ['owner', 'admin', 'agent', 'viewer'];
+
+// Owners are made, not invited; ownership is never handed out by invitation
+const INVITABLE_ROLES = ['admin', 'agent', 'viewer'];
+
+const INVITATION_TTL_DAYS = Number(process.env.INVITATION_TTL_DAYS || 7);
+
+// What each role may do. Reading is open to every member.
+const PERMISSIONS = {
+  'orders:read': ['owner', 'admin', 'agent', 'viewer'],
+  'orders:write': ['owner', 'admin', 'agent'],
+  'orders:delete': ['owner', 'admin'],
+  'metrics:read': ['owner', 'admin', 'agent', 'viewer'],
+  'stores:read': ['owner', 'admin', 'agent', 'viewer'],
+  'stores:manage': ['owner', 'admin'],
+  'etsy:read': ['owner', 'admin', 'agent', 'viewer'],
+  'etsy:sync': ['owner', 'admin', 'agent'],
+  'etsy:manage': ['owner', 'admin'],
+  'billing:read': ['owner', 'admin', 'agent', 'viewer'],
+  'billing:manage': ['owner'],
+  'organization:manage': ['owner', 'admin'],
+  'members:manage': ['owner', 'admin'],
+  'webhooks:manage': ['owner', 'admin'],
+  'messages:manage': ['owner', 'admin']
+};
+
+function hasPermission(role, permission) {
+  return Boolean(PERMISSIONS[permission]?.includes(role));
+}
+
+function permissionsFor(role) {
+  return Object.keys(PERMISSIONS).filter(permission => hasPermission(role, permission));
+}
+
+async function ensureUser(userId) {
+  await prisma.user.upsert({
+    where: { id: userId },
+    update: {},
+    create: { id: userId, email: `${userId}@orderwarden.local` }
+  });
+}
+
+/**
+ * Create a workspace owned by `userId` and make it their active one
+ */
+async function createOrganization(userId, name = 'My Workspace') {
+  await ensureUser(userId);
+
+  const organization = await prisma.organization.create({
+    data: {
+      name,
+      memberships: { create: { userId, role: 'owner' } }
+    }
+  });
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { activeOrganizationId: organization.id }
+  });
+
+  return organization;
+}
+
+/**
+ * The membership a request acts through.
+ * With `organizationId` (x-organization-id) that organization, or null when
+ * the user is not a member. Otherwise the user's active organization, falling
+ * back to their oldest membership, and to a new personal workspace.
+ * @returns {Promise<{ id, role, organization: { id, name } }|null>}
+ */
+async function resolveMembership(userId, organizationId = null) {
+  const include = { organization: { select: { id: true, name: true } } };
+
+  if (organizationId) {
+    return prisma.membership.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+      include
+    });
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { activeOrganizationId: true }
+  });
+
+  if (user?.activeOrganizationId) {
+    const active = await prisma.membership.findUnique({
+      where: { organizationId_userId: { organizationId: user.activeOrganizationId, userId } },
+      include
+    });
+    if (active) return active;
+  }
+
+  const first = await prisma.membership.findFirst({
+    where: { userId },
+    include,
+    orderBy: { createdAt: 'asc' }
+  });
+  if (first) return first;
+
+  const organization = await createOrganization(userId);
+  return prisma.membership.findUnique({
+    where: { organizationId_userId: { organizationId: organization.id, userId } },
+    include
+  });
+}
+
+/**
+ * Switch the user's active organization. Returns the membership, or null
+ * when the user is not a member.
+ */
+async function setActiveOrganization(userId, organizationId) {
+  const membership = await prisma.membership.findUnique({
+    where: { organizationId_userId: { organizationId, userId } },
+    include: { organization: { select: { id: true, name: true } } }
+  });
+  if (!membership) return null;
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { activeOrganizationId: organizationId }
+  });
+  return membership;
+}
+
+/**
+ * Every organization the user belongs to, with their role in it
+ */
+async function listMemberships(userId) {
+  const [memberships, user] = await Promise.all([
+    prisma.membership.findMany({
+      where: { userId },
+      include: { organization: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.user.findUnique({ where: { id: userId }, select: { activeOrganizationId: true } })
+  ]);
+
+  return memberships.map(membership => ({
+    id: membership.organization.id,
+    name: membership.organization.name,
+    role: membership.role,
+    active: membership.organization.id === user?.activeOrganizationId
+  }));
+}
+
+/**
+ * The user whose subscription covers the organization (its owner)
+ */
+async function getOrganizationOwnerId(organizationId) {
+  const owner = await prisma.membership.findFirst({
+    where: { organizationId, role: 'owner' },
+    select: { userId: true },
+    orderBy: { createdAt: 'asc' }
+  });
+  return owner?.userId || null;
+}
+
+async function listMembers(organizationId) {
+  const memberships = await prisma.membership.findMany({
+    where: { organizationId },
+    include: { user: { select: { email: true } } },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  return memberships.map(membership => ({
+    userId: membership.userId,
+    email: membership.user.email.endsWith('@orderwarden.local') ? null : membership.user.email,
+    role: membership.role,
+    joinedAt: membership.createdAt
+  }));
+}
+
+async function listPendingInvitations(organizationId) {
+  return prisma.invitation.findMany({
+    where: { organizationId, status: 'pending', expiresAt: { gt: new Date() } },
+    select: { id: true, email: true, role: true, expiresAt: true, createdAt: true },
+    orderBy: { createdAt: 'desc' }
+  });
+}
+
+/**
+ * Change a member's role. The owner's role is fixed.
+ */
+async function updateMemberRole(organizationId, userId, role) {
+  const membership = await prisma.membership.findUnique({
+    where: { organizationId_userId: { organizationId, userId } }
+  });
+  if (!membership) {
+    return { ok: false, status: 404, error: 'Member not found' };
+  }
+  if (membership.role === 'owner') {
+    return { ok: false, status: 403, error: "The owner's role cannot be changed" };
+  }
+
+  const updated = await prisma.membership.update({
+    where: { id: membership.id },
+    data: { role }
+  });
+  return { ok: true, value: { userId, role: updated.role } };
+}
+
+/**
+ * Remove a member (or let them leave). The owner cannot be removed. Stores and
+ * Etsy shops the member connected pass to the owner, whose settings then drive
+ * their tracking checks.
+ */
+async function removeMember(organizationId, userId) {
+  const membership = await prisma.membership.findUnique({
+    where: { organizationId_userId: { organizationId, userId } }
+  });
+  if (!membership) {
+    return { ok: false, status: 404, error: 'Member not found' };
+  }
+  if (membership.role === 'owner') {
+    return { ok: false, status: 403, error: 'The owner cannot be removed' };
+  }
+
+  const ownerId = await getOrganizationOwnerId(organizationId);
+
+  await prisma.$transaction([
+    prisma.membership.delete({ where: { id: membership.id } }),
+    prisma.store.updateMany({
+      where: { organizationId, userId },
+      data: { userId: ownerId }
+    }),
+    prisma.etsyConnection.updateMany({
+      where: { organizationId, userId },
+      data: { userId: ownerId }
+    }),
+    prisma.user.updateMany({
+      where: { id: userId, activeOrganizationId: organizationId },
+      data: { activeOrganizationId: null }
+    })
+  ]);
+  return { ok: true, value: { userId } };
+}
+
+/**
+ * Invite an email address. A pending invitation for the same address is replaced.
+ */
+async function createInvitation(organizationId, { email, role }, invitedById) {
+  await prisma.invitation.updateMany({
+    where: { organizationId, email, status: 'pending' },
+    data: { status: 'revoked' }
+  });
+
+  return prisma.invitation.create({
+    data: {
+      organizationId,
+      email,
+      role,
+      invitedById,
+      token: crypto.randomBytes(32).toString('hex'),
+      expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000)
+    },
+    include: { organization: { select: { name: true } } }
+  });
+}
+
+/**
+ * Revoke a pending invitation. Returns false when there was none.
+ */
+async function revokeInvitation(organizationId, invitationId) {
+  const { count } = await prisma.invitation.updateMany({
+    where: { id: invitationId, organizationId, status: 'pending' },
+    data: { status: 'revoked' }
+  });
+  return count > 0;
+}
+
+/**
+ * Pending, unexpired invitation for a token, or null
+ */
+async function findOpenInvitation(token) {
+  const invitation = await prisma.invitation.findUnique({
+    where: { token },
+    include: { organization: { select: { id: true, name: true } } }
+  });
+
+  if (!invitation || invitation.status !== 'pending' || invitation.expiresAt <= new Date()) {
+    return null;
+  }
+  return invitation;
+}
+
+/**
+ * Join the invitation's organization and switch to it. Members who already
+ * belong keep their current role.
+ */
+async function acceptInvitation(token, userId) {
+  const invitation = await findOpenInvitation(token);
+  if (!invitation) {
+    return { ok: false, error: 'Invitation not found or expired' };
+  }
+
+  await ensureUser(userId);
+
+  const membership = await prisma.membership.upsert({
+    where: { organizationId_userId: { organizationId: invitation.organizationId, userId } },
+    update: {},
+    create: { organizationId: invitation.organizationId, userId, role: invitation.role }
+  });
+
+  await prisma.$transaction([
+    prisma.invitation.update({
+      where: { id: invitation.id },
+      data: { status: 'accepted', acceptedById: userId, acceptedAt: new Date() }
+    }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { activeOrganizationId: invitation.organizationId }
+    })
+  ]);
+
+  return { ok: true, value: { organization: invitation.organization, role: membership.role } };
+}
+
+module.exports = {
+  ROLES,
+  INVITABLE_ROLES,
+  PERMISSIONS,
+  hasPermission,
+  permissionsFor,
+  createOrganization,
+  resolveMembership,
+  setActiveOrganization,
+  listMemberships,
+  getOrganizationOwnerId,
+  listMembers,
+  updateMemberRole,
+  removeMember,
+  listPendingInvitations,
+  createInvitation,
+  revokeInvitation,
+  findOpenInvitation,
+  acceptInvitation
+};
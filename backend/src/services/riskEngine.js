@@ -1,22 +1,182 @@
-function calculateRisk({ status, lastUpdateAt }) {
-  const now = Date.now();
-  const lastUpdate = lastUpdateAt ? new Date(lastUpdateAt).getTime() : null;
+// services/riskEngine.js
+// Rules-based delivery risk. Every rule carries a reason code so the
+// dashboard can explain why an order is yellow or red.
+//
+// Rule types:
+//   status   - { statuses, level }          matches when the tracking status is listed
+//   no_scan  - { statuses, hours, level }   matches when the status is listed and the
+//                                           last carrier scan is older than `hours`;
+//                                           with `withoutEta` only when there is no ETA
+//   late     - { statuses, hours, level }   matches when the status is listed and the
+//                                           expected delivery date passed over `hours` ago
+//   grace    - { scope, hours }             adds `hours` to every no_scan threshold
+//                                           for matching orders (scope: "international")
+//
+// status, no_scan and late rules can be narrowed to some orders:
+//   minOrderValue - only orders whose total is at least this (major units, any
+//                   currency); orders without a known total never match
+//   countries     - only orders shipping to one of these ISO country codes
+
+const RISK_LEVELS = ["green", "yellow", "red"];
+
+const RULE_TYPES = ["status", "no_scan", "late", "grace"];
 
-  if (!status) return "yellow";
+const GRACE_SCOPES = ["international"];
 
-  const normalized = String(status).toLowerCase();
+// Multiplier applied to no_scan and late thresholds per sensitivity setting
+const SENSITIVITY_FACTORS = {
+  low: 1.5,
+  medium: 1,
+  high: 0.75
+};
 
-  if (normalized.includes("delivered")) return "green";
-  if (normalized.includes("exception")) return "red";
-  if (normalized.includes("failed")) return "red";
+const DEFAULT_RULES = [
+  { code: "carrier_exception", type: "status", statuses: ["exception", "delivery_failed"], level: "red" },
+  { code: "lost", type: "status", statuses: ["lost"], level: "red" },
+  { code: "unknown_status", type: "status", statuses: ["unknown"], level: "yellow" },
+  { code: "late_delivery", type: "late", statuses: ["pre_transit", "in_transit", "out_for_delivery"], hours: 0, level: "yellow" },
+  { code: "late_delivery_critical", type: "late", statuses: ["pre_transit", "in_transit", "out_for_delivery"], hours: 72, level: "red" },
+  { code: "in_transit_no_scan", type: "no_scan", statuses: ["in_transit"], hours: 48, level: "yellow", withoutEta: true },
+  { code: "in_transit_no_scan_critical", type: "no_scan", statuses: ["in_transit"], hours: 72, level: "red", withoutEta: true },
+  { code: "pre_transit_no_pickup", type: "no_scan", statuses: ["pre_transit"], hours: 120, level: "yellow" },
+  { code: "international_grace", type: "grace", scope: "international", hours: 72 }
+];
+
+function levelRank(level) {
+  return RISK_LEVELS.indexOf(level);
+}
 
-  if (lastUpdate) {
-    const days = (now - lastUpdate) / (1000 * 60 * 60 * 24);
-    if (days > 14) return "red";
-    if (days > 5) return "yellow";
+function describeStatus(status) {
+  return String(status).replace(/_/g, " ");
+}
+
+// Calendar date (YYYY-MM-DD) in the user's time zone
+function formatDate(timestamp, timeZone) {
+  try {
+    return new Intl.DateTimeFormat("en-CA", { timeZone: timeZone || "UTC" }).format(new Date(timestamp));
+  } catch (error) {
+    return new Date(timestamp).toISOString().slice(0, 10);
   }
+}
+
+function describeLateness(hours) {
+  return hours >= 48 ? `${Math.floor(hours / 24)} days` : `${Math.floor(hours)}h`;
+}
+
+// Whether a rule's minOrderValue / countries conditions hold for the order
+function appliesToOrder(rule, context) {
+  if (rule.minOrderValue !== undefined) {
+    if (typeof context.orderValue !== "number" || context.orderValue < rule.minOrderValue) return false;
+  }
+  if (rule.countries?.length) {
+    if (!context.shipToCountry || !rule.countries.includes(String(context.shipToCountry).toUpperCase())) return false;
+  }
+  return true;
+}
+
+/**
+ * Evaluate risk for an order
+ * @param {object} context - { status, lastScanAt, expectedDeliveryAt, international, orderValue, shipToCountry }
+ * @param {object} ruleSet - { sensitivity, timezone, rules } (defaults when omitted)
+ * @returns {{ riskLevel: string, reasons: Array<{ code, level, message }> }}
+ */
+function evaluateRisk(context, ruleSet = {}) {
+  const rules = ruleSet.rules || DEFAULT_RULES;
+  const factor = SENSITIVITY_FACTORS[ruleSet.sensitivity] || SENSITIVITY_FACTORS.medium;
+
+  const status = String(context.status || "unknown").toLowerCase();
+  const lastScanAt = context.lastScanAt ? new Date(context.lastScanAt).getTime() : null;
+  const hoursSinceScan = lastScanAt ? (Date.now() - lastScanAt) / (1000 * 60 * 60) : null;
+  const expectedAt = context.expectedDeliveryAt ? new Date(context.expectedDeliveryAt).getTime() : null;
+  const hoursLate = expectedAt ? (Date.now() - expectedAt) / (1000 * 60 * 60) : null;
+
+  // Grace hours apply before any no_scan rule is checked
+  let graceHours = 0;
+  for (const rule of rules) {
+    if (rule.type === "grace" && rule.enabled !== false && rule.scope === "international" && context.international) {
+      graceHours += rule.hours;
+    }
+  }
+
+  const reasons = [];
+  for (const rule of rules) {
+    if (rule.enabled === false || !rule.statuses?.includes(status)) continue;
+    if (!appliesToOrder(rule, context)) continue;
+
+    if (rule.type === "status") {
+      reasons.push({
+        code: rule.code,
+        level: rule.level,
+        message: `Carrier reports ${describeStatus(status)}`
+      });
+    }
+
+    if (rule.type === "no_scan" && hoursSinceScan !== null && !(rule.withoutEta && expectedAt)) {
+      const limit = rule.hours * factor + graceHours;
+      if (hoursSinceScan > limit) {
+        reasons.push({
+          code: rule.code,
+          level: rule.level,
+          message: `No carrier scan for ${Math.floor(hoursSinceScan)}h while ${describeStatus(status)} (limit ${Math.round(limit)}h)`
+        });
+      }
+    }
+
+    if (rule.type === "late" && hoursLate !== null) {
+      const limit = rule.hours * factor;
+      if (hoursLate > limit) {
+        reasons.push({
+          code: rule.code,
+          level: rule.level,
+          message: `${describeLateness(hoursLate)} past the expected delivery date of ${formatDate(expectedAt, ruleSet.timezone)}`
+        });
+      }
+    }
+  }
+
+  const riskLevel = reasons.reduce(
+    (worst, reason) => (levelRank(reason.level) > levelRank(worst) ? reason.level : worst),
+    "green"
+  );
+
+  // Most severe reasons first
+  reasons.sort((a, b) => levelRank(b.level) - levelRank(a.level));
+
+  return { riskLevel, reasons };
+}
+
+/**
+ * Risk level with the default rules and no ETA - used by tracking providers
+ */
+function calculateRisk({ status, lastUpdateAt }) {
+  return evaluateRisk({ status, lastScanAt: lastUpdateAt }).riskLevel;
+}
+
+/**
+ * Whether a shipment crosses a border. Decided by the destination and the
+ * seller's ship-from country when both are known; otherwise a best guess from
+ * the number, as UPU S10 numbers (e.g. LX123456789CN) are only issued for
+ * international mail.
+ */
+function isInternationalShipment(trackingNumber, { shipToCountry = null, shipFromCountry = null } = {}) {
+  if (shipToCountry && shipFromCountry) {
+    return String(shipToCountry).toUpperCase() !== String(shipFromCountry).toUpperCase();
+  }
+  return isS10Number(trackingNumber);
+}
 
-  return "green";
+function isS10Number(trackingNumber) {
+  return /^[A-Z]{2}\d{9}[A-Z]{2}$/i.test(String(trackingNumber || "").trim());
 }
 
-module.exports = { calculateRisk };
+module.exports = {
+  RISK_LEVELS,
+  RULE_TYPES,
+  GRACE_SCOPES,
+  SENSITIVITY_FACTORS,
+  DEFAULT_RULES,
+  evaluateRisk,
+  calculateRisk,
+  isInternationalShipment,
+  isS10Number
+};
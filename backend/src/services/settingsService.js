@@ -0,0 +1,132 @@
+// services/settingsService.js
+// Per-user settings with defaults for users who never saved any
+
+const { Prisma } = require('@prisma/client');
+const prisma = require('../db/prisma');
+const { DEFAULT_RULES } = require('./riskEngine');
+
+const DEFAULT_RISK_SENSITIVITY = 'medium';
+
+// autoCheckInterval values and how many hours each one means
+const AUTO_CHECK_INTERVALS = {
+  '6hours': 6,
+  '12hours': 12,
+  '24hours': 24,
+  '48hours': 48
+};
+
+// Same as the schema defaults
+const DEFAULT_SETTINGS = {
+  emailOnRiskChange: true,
+  emailOnDelivery: false,
+  emailOnException: true,
+  autoCheckInterval: '6hours',
+  riskSensitivity: DEFAULT_RISK_SENSITIVITY,
+  timezone: 'UTC',
+  shipFromCountry: null,
+  defaultStoreId: null
+};
+
+const SETTINGS_SELECT = {
+  emailOnRiskChange: true,
+  emailOnDelivery: true,
+  emailOnException: true,
+  autoCheckInterval: true,
+  riskSensitivity: true,
+  timezone: true,
+  shipFromCountry: true,
+  defaultStoreId: true
+};
+
+// Settings hang off the user row, which may not exist yet
+async function ensureUser(userId) {
+  await prisma.user.upsert({
+    where: { id: userId },
+    update: {},
+    create: { id: userId, email: `${userId}@orderwarden.local` }
+  });
+}
+
+/**
+ * All settings for a user, defaults filled in
+ */
+async function getUserSettings(userId) {
+  const settings = userId
+    ? await prisma.userSettings.findUnique({ where: { userId }, select: SETTINGS_SELECT })
+    : null;
+
+  return { ...DEFAULT_SETTINGS, ...settings };
+}
+
+/**
+ * Save a (validated) partial settings update and return the full settings
+ */
+async function saveUserSettings(userId, values) {
+  await ensureUser(userId);
+
+  await prisma.userSettings.upsert({
+    where: { userId },
+    update: values,
+    create: { userId, ...values }
+  });
+
+  return getUserSettings(userId);
+}
+
+/**
+ * Get the rule set the risk engine should use for a user
+ * @returns {Promise<{ sensitivity: string, timezone: string, rules: Array, custom: boolean }>}
+ */
+async function getRiskRuleSet(userId) {
+  const settings = userId
+    ? await prisma.userSettings.findUnique({
+        where: { userId },
+        select: { riskSensitivity: true, riskRules: true, timezone: true }
+      })
+    : null;
+
+  return {
+    sensitivity: settings?.riskSensitivity || DEFAULT_RISK_SENSITIVITY,
+    timezone: settings?.timezone || DEFAULT_SETTINGS.timezone,
+    rules: Array.isArray(settings?.riskRules) ? settings.riskRules : DEFAULT_RULES,
+    custom: Array.isArray(settings?.riskRules)
+  };
+}
+
+/**
+ * Save risk sensitivity and/or custom rules. `rules: null` restores the defaults.
+ */
+async function saveRiskRuleSet(userId, { sensitivity, rules }) {
+  const data = {};
+  if (sensitivity !== undefined) data.riskSensitivity = sensitivity;
+  if (rules !== undefined) data.riskRules = rules === null ? Prisma.DbNull : rules;
+
+  await ensureUser(userId);
+
+  await prisma.userSettings.upsert({
+    where: { userId },
+    update: data,
+    create: { userId, ...data }
+  });
+
+  return getRiskRuleSet(userId);
+}
+
+/**
+ * Which alert emails a user wants
+ */
+async function getEmailPreferences(userId) {
+  const { emailOnRiskChange, emailOnDelivery, emailOnException } = await getUserSettings(userId);
+  return { emailOnRiskChange, emailOnDelivery, emailOnException };
+}
+
+module.exports = {
+  AUTO_CHECK_INTERVALS,
+  DEFAULT_RISK_SENSITIVITY,
+  DEFAULT_SETTINGS,
+  getUserSettings,
+  saveUserSettings,
+  getRiskRuleSet,
+  saveRiskRuleSet,
+  getEmailPreferences
+};
@@ -0,0 +1,106 @@
+// services/storeService.js
+// An organization's stores. Every order belongs to one store and an Etsy shop
+// is connected per store, so a seller with several shops has one store each.
+
+const prisma = require('../db/prisma');
+
+const STORE_PLATFORMS = ['etsy', 'manual'];
+
+// Shape returned by /api/stores
+const STORE_SELECT = {
+  id: true,
+  platform: true,
+  storeName: true,
+  createdAt: true,
+  _count: { select: { orders: true } },
+  etsyConnection: {
+    select: { shopName: true, etsyShopId: true, lastSyncAt: true, syncEnabled: true }
+  }
+};
+
+function formatStore(store, defaultStoreId) {
+  const connection = store.etsyConnection;
+  return {
+    id: store.id,
+    platform: store.platform,
+    storeName: store.storeName,
+    createdAt: store.createdAt,
+    orderCount: store._count.orders,
+    isDefault: store.id === defaultStoreId,
+    etsy: connection && connection.etsyShopId
+      ? { shopName: connection.shopName, lastSyncAt: connection.lastSyncAt, syncEnabled: connection.syncEnabled }
+      : null
+  };
+}
+
+/**
+ * IDs of every store in an organization, oldest first
+ */
+async function getOrganizationStoreIds(organizationId) {
+  const stores = await prisma.store.findMany({
+    where: { organizationId },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' }
+  });
+  return stores.map(store => store.id);
+}
+
+/**
+ * Store IDs of an organization, creating a first store when it has none
+ */
+async function ensureOrganizationStore(organizationId, userId) {
+  const storeIds = await getOrganizationStoreIds(organizationId);
+  if (storeIds.length > 0) return storeIds;
+
+  const store = await prisma.store.create({
+    data: {
+      userId,
+      organizationId,
+      platform: 'etsy',
+      storeName: 'My Store'
+    },
+    select: { id: true }
+  });
+  return [store.id];
+}
+
+/**
+ * Narrow an organization's store IDs to the one requested (?storeId=).
+ * Returns null when the requested store is not in the organization.
+ */
+function scopeStoreIds(storeIds, storeId) {
+  if (!storeId) return storeIds;
+  return storeIds.includes(storeId) ? [storeId] : null;
+}
+
+/**
+ * Stores with order counts and Etsy connection status
+ */
+async function listStores(organizationId, defaultStoreId = null) {
+  const stores = await prisma.store.findMany({
+    where: { organizationId },
+    select: STORE_SELECT,
+    orderBy: { createdAt: 'asc' }
+  });
+  return stores.map(store => formatStore(store, defaultStoreId));
+}
+
+/**
+ * One store, only if it is in the organization
+ */
+async function getStore(organizationId, storeId, defaultStoreId = null) {
+  const store = await prisma.store.findFirst({
+    where: { id: storeId, organizationId },
+    select: STORE_SELECT
+  });
+  return store ? formatStore(store, defaultStoreId) : null;
+}
+
+module.exports = {
+  STORE_PLATFORMS,
+  getOrganizationStoreIds,
+  ensureOrganizationStore,
+  scopeStoreIds,
+  listStores,
+  getStore
+};
@@ -0,0 +1,228 @@
+// services/tracking/common.js
+// Shared helpers for tracking providers
+
+const crypto = require('crypto');
+const { calculateRisk } = require('../riskEngine');
+
+const TRACKING_TIMEOUT_MS = Number(process.env.TRACKING_TIMEOUT_MS || process.env.TRACK17_TIMEOUT_MS || 12000);
+
+function fetchWithTimeout(url, options, timeoutMs = TRACKING_TIMEOUT_MS) {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  return fetch(url, { ...options, signal: controller.signal })
+    .finally(() => clearTimeout(timeoutId));
+}
+
+/**
+ * Space calls so no more than `ratePerSecond` start in any one second.
+ * A rate of 0 disables limiting.
+ */
+function createRateLimiter(ratePerSecond) {
+  const interval = ratePerSecond > 0 ? 1000 / ratePerSecond : 0;
+  let nextSlot = 0;
+
+  return async function acquire() {
+    if (!interval) return;
+
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + interval;
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  };
+}
+
+/**
+ * Map over items running at most `limit` calls at once, preserving order
+ */
+async function mapWithConcurrency(items, limit, fn) {
+  const results = new Array(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * Split an array into chunks of at most `size` items
+ */
+function chunk(items, size) {
+  const chunks = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Cache an OAuth client-credentials token until shortly before it expires.
+ * `requestToken` must resolve to { access_token, expires_in }.
+ */
+function createTokenCache(requestToken) {
+  let cached = null;
+
+  return async function getToken() {
+    if (cached && cached.expiresAt > Date.now() + 60 * 1000) {
+      return cached.token;
+    }
+
+    const data = await requestToken();
+    cached = {
+      token: data.access_token,
+      expiresAt: Date.now() + Number(data.expires_in || 3600) * 1000
+    };
+    return cached.token;
+  };
+}
+
+/**
+ * Detect carrier name from tracking number format
+ */
+function detectCarrier(trackingNumber) {
+  if (!trackingNumber) return 'usps';
+
+  // USPS: 20-22 digits or specific formats (94, 92, 93, 95, 42 prefix)
+  if (/^\d{20,22}$/.test(trackingNumber) || /^(94|92|93|95|42)\d{18,}$/.test(trackingNumber)) {
+    return 'usps';
+  }
+
+  // UPS: 1Z followed by 16 characters
+  if (/^1Z[A-Z0-9]{16}$/i.test(trackingNumber)) {
+    return 'ups';
+  }
+
+  // FedEx: 12-14 digits or 22 digits
+  if (/^\d{12,14}$/.test(trackingNumber) || /^\d{22}$/.test(trackingNumber)) {
+    return 'fedex';
+  }
+
+  return 'usps'; // Default to USPS for Etsy sellers
+}
+
+
+/**
+ * Parse location from a tracking event
+ */
+function parseEventLocation(event) {
+  if (event?.location && typeof event.location === 'string') {
+    return event.location;
+  }
+  if (event?.address) {
+    const addr = event.address;
+    const parts = [];
+    if (addr.city) parts.push(addr.city);
+    if (addr.state) parts.push(addr.state);
+    if (addr.country) parts.push(addr.country);
+    return parts.join(', ') || null;
+  }
+  return null;
+}
+
+
+/**
+ * Calculate risk level based on tracking status and time, using the
+ * default rule set. Per-user rules are applied later by the routes.
+ */
+function calculateRiskLevel(status, lastUpdateTime) {
+  return calculateRisk({ status, lastUpdateAt: lastUpdateTime });
+}
+
+
+/**
+ * Constant-time comparison of a received signature with the expected one.
+ * A length mismatch fails first, as timingSafeEqual needs equal lengths.
+ */
+function signaturesMatch(received, expected) {
+  const a = Buffer.from(String(received || ''));
+  const b = Buffer.from(String(expected));
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+
+/**
+ * Result returned when a provider has no usable data for a number
+ */
+function unknownResult(carrier, message) {
+  return {
+    status: "unknown",
+    riskLevel: "yellow",
+    carrier: carrier || "unknown",
+    lastUpdate: new Date(),
+    location: null,
+    message: message || "No tracking data available",
+    deliveryDate: null,
+    events: []
+  };
+}
+
+
+/**
+ * Build the standard tracking result every provider returns:
+ * { status, riskLevel, carrier, lastUpdate, location, message, deliveryDate, events }
+ *
+ * `events` are { timestamp, location, description, statusCode } and may be in
+ * any order. A placeholder event flagged `synthetic` is added when there are
+ * no scans; it is shown to the user but never stored as scan history.
+ */
+function buildTrackingResult({ status, carrier, events = [], deliveryDate = null }) {
+  const sorted = events
+    .filter(evt => evt && evt.timestamp)
+    .map(evt => ({
+      timestamp: new Date(evt.timestamp).toISOString(),
+      location: evt.location || null,
+      description: evt.description || 'Status update',
+      statusCode: evt.statusCode || null
+    }))
+    .sort((a, b) => new Date(b.timestamp) - new Date(a.timestamp));
+
+  const latest = sorted[0];
+  const lastUpdate = latest ? new Date(latest.timestamp) : new Date();
+  const location = latest?.location || null;
+  const message = latest?.description || null;
+
+  // Always ensure at least one event exists
+  if (sorted.length === 0) {
+    sorted.push({
+      timestamp: lastUpdate.toISOString(),
+      location: 'Location pending',
+      description: `Package status: ${status.replace('_', ' ')}`,
+      statusCode: null,
+      synthetic: true
+    });
+  }
+
+  return {
+    status,
+    riskLevel: calculateRiskLevel(status, lastUpdate),
+    carrier: carrier || 'unknown',
+    lastUpdate,
+    location,
+    message,
+    deliveryDate,
+    events: sorted
+  };
+}
+
+module.exports = {
+  fetchWithTimeout,
+  createRateLimiter,
+  mapWithConcurrency,
+  chunk,
+  createTokenCache,
+  detectCarrier,
+  parseEventLocation,
+  calculateRiskLevel,
+  signaturesMatch,
+  unknownResult,
+  buildTrackingResult
+};
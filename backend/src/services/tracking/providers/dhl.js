@@ -0,0 +1,85 @@
+// services/tracking/providers/dhl.js
+// DHL Shipment Tracking - Unified API (direct)
+
+const { fetchWithTimeout, createRateLimiter, buildTrackingResult, unknownResult } = require('../common');
+
+const DHL_API_KEY = process.env.DHL_API_KEY;
+const DHL_API_URL = process.env.DHL_API_URL || 'https://api-eu.dhl.com';
+
+const rateLimit = createRateLimiter(Number(process.env.DHL_RATE_PER_SECOND || 5));
+
+// DHL unified statusCode -> our status
+const STATUS_MAP = {
+  'pre-transit': 'pre_transit',
+  'transit': 'in_transit',
+  'delivered': 'delivered',
+  'failure': 'exception',
+  'unknown': 'unknown'
+};
+
+function isConfigured() {
+  return Boolean(DHL_API_KEY);
+}
+
+/**
+ * Track a single number through the DHL API
+ */
+async function track(trackingNumber) {
+  const params = new URLSearchParams({ trackingNumber });
+  await rateLimit();
+
+  const response = await fetchWithTimeout(`${DHL_API_URL}/track/shipments?${params.toString()}`, {
+    headers: { 'DHL-API-Key': DHL_API_KEY }
+  });
+
+  if (response.status === 404) {
+    return unknownResult('dhl');
+  }
+
+  if (!response.ok) {
+    throw new Error(`DHL tracking failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return normalizeDhlData(data);
+}
+
+function formatLocation(loc) {
+  const addr = loc?.address;
+  if (!addr) return null;
+  return [addr.addressLocality, addr.countryCode].filter(Boolean).join(', ') || null;
+}
+
+function normalizeDhlData(data) {
+  const shipment = data.shipments?.[0];
+  if (!shipment) {
+    return unknownResult('dhl');
+  }
+
+  let status = STATUS_MAP[shipment.status?.statusCode] || 'unknown';
+  // DHL reports out-for-delivery as a transit status with a distinct status text
+  if (status === 'in_transit' && /out for delivery/i.test(shipment.status?.status || '')) {
+    status = 'out_for_delivery';
+  }
+
+  const events = (shipment.events || []).map(evt => ({
+    timestamp: evt.timestamp,
+    location: formatLocation(evt.location),
+    description: evt.description || evt.status,
+    statusCode: evt.statusCode || null
+  }));
+
+  return buildTrackingResult({
+    status,
+    carrier: 'dhl',
+    events,
+    deliveryDate: shipment.estimatedTimeOfDelivery ? new Date(shipment.estimatedTimeOfDelivery) : null
+  });
+}
+
+module.exports = {
+  name: 'dhl',
+  supports: carrier => carrier === 'dhl',
+  isConfigured,
+  track
+};
@@ -0,0 +1,80 @@
+// services/tracking/providers/fake.js
+// Local fake provider - no network. Used when no real provider is configured
+// and by tests, which can script per-number results with setFakeTracking().
+
+const { buildTrackingResult } = require('../common');
+
+// trackingNumber -> { status, carrier?, events?, deliveryDate? } or { error }
+const scripted = new Map();
+
+function isConfigured() {
+  return true;
+}
+
+/**
+ * Script the result for a tracking number. `events` default to a single
+ * scan at the current time. With `error` the lookup fails with that message.
+ */
+function setFakeTracking(trackingNumber, { status, carrier, events, deliveryDate = null, error = null }) {
+  scripted.set(trackingNumber, { status, carrier, events, deliveryDate, error });
+}
+
+function clearFakeTracking() {
+  scripted.clear();
+}
+
+async function track(trackingNumber, carrier) {
+  const script = scripted.get(trackingNumber);
+  if (script?.error) {
+    throw new Error(script.error);
+  }
+  if (script) {
+    return buildTrackingResult({
+      status: script.status,
+      carrier: script.carrier || carrier,
+      events: script.events || [{
+        timestamp: new Date().toISOString(),
+        location: null,
+        description: `Package status: ${script.status.replace('_', ' ')}`
+      }],
+      deliveryDate: script.deliveryDate
+    });
+  }
+
+  console.log('[FakeProvider] Using mock data');
+
+  const now = new Date();
+  const yesterday = new Date(now - 24 * 60 * 60 * 1000);
+  const twoDaysAgo = new Date(now - 2 * 24 * 60 * 60 * 1000);
+
+  return buildTrackingResult({
+    status: 'in_transit',
+    carrier: carrier || 'usps',
+    events: [
+      {
+        timestamp: now.toISOString(),
+        location: "Distribution Center, CA",
+        description: "Package in transit to destination"
+      },
+      {
+        timestamp: yesterday.toISOString(),
+        location: "Los Angeles, CA",
+        description: "Package arrived at carrier facility"
+      },
+      {
+        timestamp: twoDaysAgo.toISOString(),
+        location: "Los Angeles, CA",
+        description: "Shipping label created"
+      }
+    ]
+  });
+}
+
+module.exports = {
+  name: 'fake',
+  supports: () => true,
+  isConfigured,
+  track,
+  setFakeTracking,
+  clearFakeTracking
+};
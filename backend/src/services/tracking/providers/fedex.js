@@ -0,0 +1,114 @@
+// services/tracking/providers/fedex.js
+// FedEx Track API (direct)
+
+const { fetchWithTimeout, createRateLimiter, createTokenCache, buildTrackingResult, unknownResult } = require('../common');
+
+const FEDEX_CLIENT_ID = process.env.FEDEX_CLIENT_ID;
+const FEDEX_CLIENT_SECRET = process.env.FEDEX_CLIENT_SECRET;
+const FEDEX_API_URL = process.env.FEDEX_API_URL || 'https://apis.fedex.com';
+
+const rateLimit = createRateLimiter(Number(process.env.FEDEX_RATE_PER_SECOND || 5));
+
+// FedEx derived status code -> our status
+const STATUS_MAP = {
+  OC: 'pre_transit',
+  PU: 'in_transit',
+  IT: 'in_transit',
+  AR: 'in_transit',
+  DP: 'in_transit',
+  OD: 'out_for_delivery',
+  DL: 'delivered',
+  DE: 'exception',
+  SE: 'exception',
+  CA: 'exception',
+  RS: 'exception',
+  DY: 'in_transit'
+};
+
+function isConfigured() {
+  return Boolean(FEDEX_CLIENT_ID && FEDEX_CLIENT_SECRET);
+}
+
+const getToken = createTokenCache(async () => {
+  const response = await fetchWithTimeout(`${FEDEX_API_URL}/oauth/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: FEDEX_CLIENT_ID,
+      client_secret: FEDEX_CLIENT_SECRET
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`FedEx token request failed: ${response.status}`);
+  }
+
+  return response.json();
+});
+
+/**
+ * Track a single number through the FedEx API
+ */
+async function track(trackingNumber) {
+  const token = await getToken();
+  await rateLimit();
+
+  const response = await fetchWithTimeout(`${FEDEX_API_URL}/track/v1/trackingnumbers`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      includeDetailedScans: true,
+      trackingInfo: [{ trackingNumberInfo: { trackingNumber } }]
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`FedEx tracking failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return normalizeFedexData(data);
+}
+
+function formatScanLocation(loc) {
+  if (!loc) return null;
+  return [loc.city, loc.stateOrProvinceCode, loc.countryCode].filter(Boolean).join(', ') || null;
+}
+
+function normalizeFedexData(data) {
+  const result = data.output?.completeTrackResults?.[0]?.trackResults?.[0];
+  if (!result || result.error) {
+    return unknownResult('fedex', result?.error?.message);
+  }
+
+  const code = result.latestStatusDetail?.derivedCode || result.latestStatusDetail?.code;
+  const status = STATUS_MAP[code] || 'unknown';
+
+  const events = (result.scanEvents || []).map(evt => ({
+    timestamp: evt.date,
+    location: formatScanLocation(evt.scanLocation),
+    description: evt.eventDescription,
+    statusCode: evt.derivedStatusCode || evt.eventType || null
+  }));
+
+  const estimated = result.estimatedDeliveryTimeWindow?.window?.ends
+    || (result.dateAndTimes || []).find(d => d.type === 'ESTIMATED_DELIVERY')?.dateTime;
+
+  return buildTrackingResult({
+    status,
+    carrier: 'fedex',
+    events,
+    deliveryDate: estimated ? new Date(estimated) : null
+  });
+}
+
+module.exports = {
+  name: 'fedex',
+  supports: carrier => carrier === 'fedex',
+  isConfigured,
+  track
+};
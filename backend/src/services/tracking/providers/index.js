@@ -0,0 +1,77 @@
+// services/tracking/providers/index.js
+// Carrier provider registry
+//
+// Every provider exports the same contract:
+//   name          - provider id used in config ("17track", "usps", ...)
+//   supports      - (carrier) => boolean, true when it can track that carrier
+//   isConfigured  - () => boolean, true when credentials are present
+//   track         - (trackingNumber, carrier) => Promise<{ status, riskLevel,
+//                   carrier, lastUpdate, location, message, deliveryDate, events }>
+// Batch-capable providers also export:
+//   batchSize     - max numbers per trackMany call
+//   trackMany     - ([{ trackingNumber, carrier }]) => Promise<result[]> in input order
+// Providers that can push updates (POST /api/tracking/webhook) also export:
+//   parseWebhook  - (payload) => [{ trackingNumber, result }] with results in
+//                   the same shape as track()
+//   verifyWebhook - optional, (rawBody, headers) => boolean for providers that
+//                   sign pushes their own way; without it pushes need the
+//                   generic x-signature (see routes/tracking.js)
+//
+// Provider choice per carrier comes from TRACKING_PROVIDERS, e.g.
+//   TRACKING_PROVIDERS="usps=usps,ups=ups,default=17track"
+// Unconfigured choices fall back to the default, then to 17TRACK, then to fake.
+
+const providers = {
+  '17track': require('./track17'),
+  usps: require('./usps'),
+  ups: require('./ups'),
+  fedex: require('./fedex'),
+  dhl: require('./dhl'),
+  fake: require('./fake')
+};
+
+function parseProviderConfig(value) {
+  const config = {};
+  for (const entry of String(value || '').split(',')) {
+    const [carrier, provider] = entry.split('=').map(s => s && s.trim().toLowerCase());
+    if (carrier && provider) {
+      config[carrier] = provider;
+    }
+  }
+  return config;
+}
+
+const providerConfig = parseProviderConfig(process.env.TRACKING_PROVIDERS);
+
+function getProvider(name) {
+  return providers[name] || null;
+}
+
+function isUsable(provider, carrier) {
+  return Boolean(provider && provider.isConfigured() && provider.supports(carrier));
+}
+
+/**
+ * Pick the provider that should track a given carrier
+ */
+function resolveProvider(carrier) {
+  const candidates = [
+    providerConfig[carrier],
+    providerConfig.default,
+    '17track'
+  ];
+
+  for (const name of candidates) {
+    const provider = getProvider(name);
+    if (isUsable(provider, carrier)) {
+      return provider;
+    }
+  }
+
+  return providers.fake;
+}
+
+module.exports = {
+  getProvider,
+  resolveProvider
+};
@@ -0,0 +1,324 @@
+// services/tracking/providers/track17.js
+// 17TRACK aggregator - covers every carrier we support
+
+const crypto = require('crypto');
+const { fetchWithTimeout, createRateLimiter, parseEventLocation, calculateRiskLevel, signaturesMatch } = require('../common');
+
+const TRACK17_API_KEY = process.env.TRACK17_API_KEY;
+const TRACK17_API_URL = 'https://api.17track.net/track/v2.2';
+
+// 17TRACK accepts up to 40 numbers per register/gettrackinfo call
+const TRACK17_BATCH_SIZE = 40;
+
+// 17TRACK allows 3 requests per second per key by default
+const rateLimit = createRateLimiter(Number(process.env.TRACK17_RATE_PER_SECOND || 3));
+
+// 17TRACK carrier codes
+const CARRIER_CODES = {
+  usps: 21051,
+  ups: 100002,
+  fedex: 100003,
+  dhl: 100001
+};
+
+function isConfigured() {
+  return Boolean(TRACK17_API_KEY);
+}
+
+/**
+ * Track a single number through 17TRACK
+ */
+async function track(trackingNumber, carrier) {
+  const [result] = await trackMany([{ trackingNumber, carrier }]);
+  return result;
+}
+
+
+/**
+ * Track up to TRACK17_BATCH_SIZE numbers with one register and one
+ * gettrackinfo call. Results are returned in the same order as `items`.
+ */
+async function trackMany(items) {
+  const body = items.map(item => ({
+    number: item.trackingNumber,
+    carrier: getCarrierCode(item.carrier)
+  }));
+
+  // First, register the tracking (17TRACK requires this)
+  await registerTracking(body);
+
+  // Then get tracking info
+  const trackingData = await getTrackingInfo(body);
+
+  // Normalize the 17TRACK response per number
+  return items.map(item => normalize17TrackData(trackingData, item.trackingNumber));
+}
+
+
+/**
+ * Register tracking numbers with 17TRACK
+ */
+async function registerTracking(body) {
+  console.log(`[Track17] Registering tracking for ${body.length} number(s)`);
+
+  await rateLimit();
+
+  const response = await fetchWithTimeout(`${TRACK17_API_URL}/register`, {
+    method: 'POST',
+    headers: {
+      '17token': TRACK17_API_KEY,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  });
+
+  const data = await response.json();
+
+  // 17TRACK returns code 0 for success, but also accepts already registered
+  if (data.code !== 0) {
+    console.log(`[Track17] Register note: code=${data.code}, message=${data.data?.errors?.[0]?.message || 'unknown'}`);
+  }
+
+  return data;
+}
+
+
+/**
+ * Get tracking info from 17TRACK
+ */
+async function getTrackingInfo(body) {
+  console.log(`[Track17] Getting tracking info for ${body.length} number(s)`);
+
+  await rateLimit();
+
+  const response = await fetchWithTimeout(`${TRACK17_API_URL}/gettrackinfo`, {
+    method: 'POST',
+    headers: {
+      '17token': TRACK17_API_KEY,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  });
+
+  const data = await response.json();
+
+  if (data.code !== 0) {
+    throw new Error(data.data?.errors?.[0]?.message || `API error: code ${data.code}`);
+  }
+
+  return data;
+}
+
+
+/**
+ * Normalize 17TRACK response to our standard format
+ */
+function normalize17TrackData(apiResponse, trackingNumber) {
+  // Find the tracking data in the response
+  const accepted = apiResponse.data?.accepted || [];
+  const tracking = accepted.find(t => t.number === trackingNumber);
+
+  if (!tracking) {
+    return {
+      status: "unknown",
+      riskLevel: "yellow",
+      carrier: "unknown",
+      lastUpdate: new Date(),
+      location: null,
+      message: "No tracking data available",
+      events: []
+    };
+  }
+
+  // 17TRACK v2.2 uses track_info structure
+  const trackInfo = tracking.track_info;
+
+  if (!trackInfo) {
+    return {
+      status: "unknown",
+      riskLevel: "yellow",
+      carrier: getCarrierName(tracking.carrier) || "unknown",
+      lastUpdate: new Date(),
+      location: null,
+      message: "No tracking info available",
+      events: []
+    };
+  }
+
+  // Map 17TRACK status to our status
+  // 17TRACK statuses: NotFound, InfoReceived, InTransit, OutForDelivery,
+  //                   AvailableForPickup, Delivered, Exception, Expired
+  const statusMap = {
+    'NotFound': 'unknown',
+    'InfoReceived': 'pre_transit',
+    'InTransit': 'in_transit',
+    'OutForDelivery': 'out_for_delivery',
+    'AvailableForPickup': 'out_for_delivery',
+    'Delivered': 'delivered',
+    'Exception': 'exception',
+    'Expired': 'lost'
+  };
+
+  const latestStatus = trackInfo.latest_status?.status || 'NotFound';
+  const status = statusMap[latestStatus] || 'unknown';
+
+  // Get latest event info
+  const latestEvent = trackInfo.latest_event;
+
+  // Parse last update time
+  let lastUpdate = new Date();
+  if (latestEvent?.time_utc) {
+    lastUpdate = new Date(latestEvent.time_utc);
+  } else if (latestEvent?.time_iso) {
+    lastUpdate = new Date(latestEvent.time_iso);
+  }
+
+  // Get location from latest event
+  const location = parseEventLocation(latestEvent);
+
+  // Get message from latest event
+  const message = latestEvent?.description || null;
+
+  // Calculate risk level
+  const riskLevel = calculateRiskLevel(status, lastUpdate);
+
+  // Get carrier name
+  const carrierName = getCarrierName(tracking.carrier) || 'unknown';
+
+  // Parse all tracking events - check multiple possible locations in 17TRACK response
+  let events = [];
+
+  // Try providers array first (17TRACK sometimes uses this structure)
+  const providers = trackInfo.tracking?.providers || [];
+  for (const provider of providers) {
+    const providerEvents = provider.events || [];
+    for (const evt of providerEvents) {
+      events.push({
+        timestamp: evt.time_utc || evt.time_iso || new Date().toISOString(),
+        location: parseEventLocation(evt),
+        description: evt.description || 'Status update',
+        statusCode: evt.sub_status || evt.stage || null
+      });
+    }
+  }
+
+  // Also try direct events array if present (alternative 17TRACK structure)
+  const directEvents = trackInfo.tracking?.events || trackInfo.events || [];
+  for (const evt of directEvents) {
+    events.push({
+      timestamp: evt.time_utc || evt.time_iso || new Date().toISOString(),
+      location: parseEventLocation(evt),
+      description: evt.description || 'Status update',
+      statusCode: evt.sub_status || evt.stage || null
+    });
+  }
+
+  // Sort events by timestamp (newest first)
+  events.sort((a, b) => new Date(b.timestamp) - new Date(a.timestamp));
+
+  // Always ensure at least one event exists
+  if (events.length === 0) {
+    if (latestEvent) {
+      events.push({
+        timestamp: latestEvent.time_utc || latestEvent.time_iso || new Date().toISOString(),
+        location: location,
+        description: latestEvent.description || 'Status update',
+        statusCode: latestEvent.sub_status || latestEvent.stage || null
+      });
+    } else {
+      // Ultimate fallback - create event from status/location data
+      events.push({
+        timestamp: lastUpdate.toISOString(),
+        location: location || 'Location pending',
+        description: message || `Package status: ${status.replace('_', ' ')}`,
+        statusCode: latestStatus,
+        synthetic: true
+      });
+    }
+  }
+
+  // Carrier estimate, when 17TRACK has one (a window; use the late end)
+  const estimate = trackInfo.time_metrics?.estimated_delivery_date;
+  const estimatedAt = estimate?.to || estimate?.from;
+  const deliveryDate = estimatedAt && !Number.isNaN(new Date(estimatedAt).getTime())
+    ? new Date(estimatedAt)
+    : null;
+
+  return {
+    status,
+    riskLevel,
+    carrier: carrierName,
+    lastUpdate,
+    location,
+    message,
+    deliveryDate,
+    events
+  };
+}
+
+
+/**
+ * Check a 17TRACK push: its `sign` header is the hex SHA-256 of the raw body,
+ * "/" and the API key
+ */
+function verifyWebhook(rawBody, headers) {
+  if (!TRACK17_API_KEY || !headers.sign) return false;
+
+  const expected = crypto.createHash('sha256')
+    .update(Buffer.concat([Buffer.from(rawBody), Buffer.from(`/${TRACK17_API_KEY}`)]))
+    .digest('hex');
+  return signaturesMatch(String(headers.sign).toLowerCase(), expected);
+}
+
+
+/**
+ * Parse a 17TRACK push notification into normalized results.
+ * TRACKING_UPDATED carries the same { number, carrier, track_info } entry
+ * gettrackinfo returns; TRACKING_STOPPED has nothing to apply.
+ */
+function parseWebhook(payload) {
+  if (payload?.event !== 'TRACKING_UPDATED' || !payload.data?.number) {
+    return [];
+  }
+
+  const trackingNumber = payload.data.number;
+  return [{
+    trackingNumber,
+    result: normalize17TrackData({ data: { accepted: [payload.data] } }, trackingNumber)
+  }];
+}
+
+
+/**
+ * Get 17TRACK carrier code from carrier name
+ */
+function getCarrierCode(carrier) {
+  if (!carrier) return CARRIER_CODES.usps;
+
+  const normalized = carrier.toLowerCase();
+  return CARRIER_CODES[normalized] || CARRIER_CODES.usps;
+}
+
+
+/**
+ * Get carrier name from 17TRACK carrier code
+ */
+function getCarrierName(carrierCode) {
+  for (const [name, code] of Object.entries(CARRIER_CODES)) {
+    if (code === carrierCode) return name;
+  }
+  return 'unknown';
+}
+
+module.exports = {
+  name: '17track',
+  // Unmapped carriers are still looked up; 17TRACK falls back to USPS codes
+  supports: () => true,
+  batchSize: TRACK17_BATCH_SIZE,
+  isConfigured,
+  track,
+  trackMany,
+  verifyWebhook,
+  parseWebhook,
+  normalize17TrackData
+};
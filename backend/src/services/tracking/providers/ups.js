@@ -0,0 +1,120 @@
+// services/tracking/providers/ups.js
+// UPS Track API (direct)
+
+const crypto = require('crypto');
+const { fetchWithTimeout, createRateLimiter, createTokenCache, buildTrackingResult, unknownResult } = require('../common');
+
+const UPS_CLIENT_ID = process.env.UPS_CLIENT_ID;
+const UPS_CLIENT_SECRET = process.env.UPS_CLIENT_SECRET;
+const UPS_API_URL = process.env.UPS_API_URL || 'https://onlinetools.ups.com';
+
+const rateLimit = createRateLimiter(Number(process.env.UPS_RATE_PER_SECOND || 5));
+
+// UPS activity status type -> our status
+// M = manifest, P = pickup, I = in transit, O = out for delivery,
+// D = delivered, X = exception, RS = returned to shipper
+const STATUS_MAP = {
+  M: 'pre_transit',
+  P: 'in_transit',
+  I: 'in_transit',
+  O: 'out_for_delivery',
+  D: 'delivered',
+  X: 'exception',
+  RS: 'exception'
+};
+
+function isConfigured() {
+  return Boolean(UPS_CLIENT_ID && UPS_CLIENT_SECRET);
+}
+
+const getToken = createTokenCache(async () => {
+  const credentials = Buffer.from(`${UPS_CLIENT_ID}:${UPS_CLIENT_SECRET}`).toString('base64');
+  const response = await fetchWithTimeout(`${UPS_API_URL}/security/v1/oauth/token`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${credentials}`,
+      'Content-Type': 'application/x-www-form-urlencoded'
+    },
+    body: new URLSearchParams({ grant_type: 'client_credentials' })
+  });
+
+  if (!response.ok) {
+    throw new Error(`UPS token request failed: ${response.status}`);
+  }
+
+  return response.json();
+});
+
+/**
+ * Track a single number through the UPS API
+ */
+async function track(trackingNumber) {
+  const token = await getToken();
+  await rateLimit();
+
+  const response = await fetchWithTimeout(
+    `${UPS_API_URL}/api/track/v1/details/${encodeURIComponent(trackingNumber)}`,
+    {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'transId': crypto.randomUUID(),
+        'transactionSrc': 'orderwarden'
+      }
+    }
+  );
+
+  if (response.status === 404) {
+    return unknownResult('ups');
+  }
+
+  if (!response.ok) {
+    throw new Error(`UPS tracking failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return normalizeUpsData(data);
+}
+
+// UPS dates are YYYYMMDD and times HHMMSS, local to the scan
+function parseUpsTimestamp(date, time) {
+  if (!date) return null;
+  const t = (time || '000000').padStart(6, '0');
+  return `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}T${t.slice(0, 2)}:${t.slice(2, 4)}:${t.slice(4, 6)}Z`;
+}
+
+function normalizeUpsData(data) {
+  const pkg = data.trackResponse?.shipment?.[0]?.package?.[0];
+  if (!pkg) {
+    return unknownResult('ups');
+  }
+
+  const activity = pkg.activity || [];
+  const currentType = pkg.currentStatus?.type || activity[0]?.status?.type;
+  const status = STATUS_MAP[currentType] || 'unknown';
+
+  const events = activity.map(evt => {
+    const addr = evt.location?.address || {};
+    return {
+      timestamp: parseUpsTimestamp(evt.date, evt.time),
+      location: [addr.city, addr.stateProvince, addr.country].filter(Boolean).join(', ') || null,
+      description: evt.status?.description,
+      statusCode: evt.status?.code || evt.status?.type || null
+    };
+  });
+
+  const delivery = (pkg.deliveryDate || []).find(d => d.type === 'SDD' || d.type === 'RDD');
+
+  return buildTrackingResult({
+    status,
+    carrier: 'ups',
+    events,
+    deliveryDate: delivery ? new Date(parseUpsTimestamp(delivery.date)) : null
+  });
+}
+
+module.exports = {
+  name: 'ups',
+  supports: carrier => carrier === 'ups',
+  isConfigured,
+  track
+};
@@ -0,0 +1,96 @@
+// services/tracking/providers/usps.js
+// USPS Tracking API v3 (direct)
+
+const { fetchWithTimeout, createRateLimiter, createTokenCache, buildTrackingResult, unknownResult } = require('../common');
+
+const USPS_CLIENT_ID = process.env.USPS_CLIENT_ID;
+const USPS_CLIENT_SECRET = process.env.USPS_CLIENT_SECRET;
+const USPS_API_URL = process.env.USPS_API_URL || 'https://apis.usps.com';
+
+const rateLimit = createRateLimiter(Number(process.env.USPS_RATE_PER_SECOND || 5));
+
+// USPS statusCategory -> our status
+const STATUS_MAP = {
+  'pre-shipment': 'pre_transit',
+  'accepted': 'in_transit',
+  'in transit': 'in_transit',
+  'out for delivery': 'out_for_delivery',
+  'available for pickup': 'out_for_delivery',
+  'delivered': 'delivered',
+  'delivery attempt': 'delivery_failed',
+  'alert': 'exception',
+  'return to sender': 'exception',
+  'returned to sender': 'exception'
+};
+
+function isConfigured() {
+  return Boolean(USPS_CLIENT_ID && USPS_CLIENT_SECRET);
+}
+
+const getToken = createTokenCache(async () => {
+  const response = await fetchWithTimeout(`${USPS_API_URL}/oauth2/v3/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      grant_type: 'client_credentials',
+      client_id: USPS_CLIENT_ID,
+      client_secret: USPS_CLIENT_SECRET
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`USPS token request failed: ${response.status}`);
+  }
+
+  return response.json();
+});
+
+/**
+ * Track a single number through the USPS API
+ */
+async function track(trackingNumber) {
+  const token = await getToken();
+  await rateLimit();
+
+  const response = await fetchWithTimeout(
+    `${USPS_API_URL}/tracking/v3/tracking/${encodeURIComponent(trackingNumber)}?expand=DETAIL`,
+    { headers: { 'Authorization': `Bearer ${token}` } }
+  );
+
+  if (response.status === 404) {
+    return unknownResult('usps');
+  }
+
+  if (!response.ok) {
+    throw new Error(`USPS tracking failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return normalizeUspsData(data);
+}
+
+function normalizeUspsData(data) {
+  const category = String(data.statusCategory || '').toLowerCase();
+  const status = STATUS_MAP[category] || 'unknown';
+
+  const events = (data.trackingEvents || []).map(evt => ({
+    timestamp: evt.eventTimestamp,
+    location: [evt.eventCity, evt.eventState, evt.eventCountry].filter(Boolean).join(', ') || null,
+    description: evt.eventType,
+    statusCode: evt.eventCode || null
+  }));
+
+  return buildTrackingResult({
+    status,
+    carrier: 'usps',
+    events,
+    deliveryDate: data.expectedDeliveryDate ? new Date(data.expectedDeliveryDate) : null
+  });
+}
+
+module.exports = {
+  name: 'usps',
+  supports: carrier => carrier === 'usps',
+  isConfigured,
+  track
+};
@@ -0,0 +1,55 @@
+// services/trackingScanService.js
+// Persists carrier scan history so the timeline can be served without a paid lookup
+
+const prisma = require('../db/prisma');
+
+/**
+ * Store the scans from a tracking result. Scans already stored for the order
+ * (same timestamp and description) are skipped by the unique constraint.
+ * Returns the number of new scans.
+ */
+async function saveTrackingScans(orderId, trackingResult) {
+  const scans = (trackingResult.events || [])
+    .filter(evt => !evt.synthetic && evt.timestamp)
+    .map(evt => ({
+      orderId,
+      timestamp: new Date(evt.timestamp),
+      location: evt.location || null,
+      description: evt.description || 'Status update',
+      statusCode: evt.statusCode ? String(evt.statusCode) : null,
+      provider: trackingResult.provider || 'unknown'
+    }))
+    .filter(scan => !Number.isNaN(scan.timestamp.getTime()));
+
+  if (scans.length === 0) return 0;
+
+  const { count } = await prisma.trackingScan.createMany({
+    data: scans,
+    skipDuplicates: true
+  });
+
+  return count;
+}
+
+/**
+ * Get stored scans for an order, newest first
+ */
+async function getTrackingScans(orderId) {
+  return prisma.trackingScan.findMany({
+    where: { orderId },
+    orderBy: { timestamp: 'desc' },
+    select: {
+      id: true,
+      timestamp: true,
+      location: true,
+      description: true,
+      statusCode: true,
+      provider: true
+    }
+  });
+}
+
+module.exports = {
+  saveTrackingScans,
+  getTrackingScans
+};
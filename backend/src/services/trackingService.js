@@ -1,381 +1,97 @@
 // services/trackingService.js
-// 17TRACK API integration
+// Tracking entry point - delegates to the configured carrier provider
 
-const TRACK17_API_KEY = process.env.TRACK17_API_KEY;
-const TRACK17_API_URL = 'https://api.17track.net/track/v2.2';
-const TRACK17_TIMEOUT_MS = Number(process.env.TRACK17_TIMEOUT_MS || 12000);
+const { resolveProvider } = require('./tracking/providers');
+const { calculateRiskLevel, detectCarrier, mapWithConcurrency, chunk } = require('./tracking/common');
 
-// 17TRACK carrier codes
-const CARRIER_CODES = {
-  usps: 21051,
-  ups: 100002,
-  fedex: 100003,
-  dhl: 100001
-};
-
-function fetchWithTimeout(url, options, timeoutMs = TRACK17_TIMEOUT_MS) {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-  return fetch(url, { ...options, signal: controller.signal })
-    .finally(() => clearTimeout(timeoutId));
-}
+// Max provider calls in flight at once during batch checks
+const TRACKING_CONCURRENCY = Number(process.env.TRACKING_CONCURRENCY || 4);
 
 /**
- * Check tracking status for a package using 17TRACK
+ * Check tracking status for a package using the provider configured for its carrier
  */
 async function checkTrackingStatus(trackingNumber, carrier = null) {
   console.log(`[TrackingService] Checking ${trackingNumber} (carrier: ${carrier || "auto-detect"})`);
 
-  try {
-    // If no API key, fall back to mock data
-    if (!TRACK17_API_KEY) {
-      console.warn('[TrackingService] No 17TRACK API key - using mock data');
-      return getMockTrackingData(trackingNumber, carrier);
-    }
-
-    // Detect carrier code if not provided
-    const carrierCode = carrier ? getCarrierCode(carrier) : detectCarrierCode(trackingNumber);
-
-    // First, register the tracking (17TRACK requires this)
-    await registerTracking(trackingNumber, carrierCode);
-
-    // Then get tracking info
-    const trackingData = await getTrackingInfo(trackingNumber, carrierCode);
+  const carrierName = normalizeCarrierSlug(carrier) || detectCarrier(trackingNumber);
+  const provider = resolveProvider(carrierName);
 
-    // Normalize the 17TRACK response
-    const normalized = normalize17TrackData(trackingData, trackingNumber);
-    console.log(`[TrackingService] Result - Status: ${normalized.status}, Risk: ${normalized.riskLevel}`);
+  try {
+    const result = await provider.track(trackingNumber, carrierName);
+    console.log(`[TrackingService] Result via ${provider.name} - Status: ${result.status}, Risk: ${result.riskLevel}`);
 
-    return normalized;
+    return { ...result, provider: provider.name };
 
   } catch (error) {
-    console.error(`[TrackingService] Error checking ${trackingNumber}:`, error.message);
-
-    return {
-      status: "unknown",
-      riskLevel: "yellow",
-      carrier: carrier || getCarrierName(detectCarrierCode(trackingNumber)) || "unknown",
-      lastUpdate: new Date(),
-      location: null,
-      message: null,
-      error: error.message
-    };
-  }
-}
-
-
-/**
- * Register tracking number with 17TRACK
- */
-async function registerTracking(trackingNumber, carrierCode) {
-  const body = [{
-    number: trackingNumber,
-    carrier: carrierCode
-  }];
-
-  console.log(`[TrackingService] Registering tracking:`, JSON.stringify(body));
-
-  const response = await fetchWithTimeout(`${TRACK17_API_URL}/register`, {
-    method: 'POST',
-    headers: {
-      '17token': TRACK17_API_KEY,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(body)
-  });
-
-  const data = await response.json();
-  console.log(`[TrackingService] Register response:`, JSON.stringify(data));
-
-  // 17TRACK returns code 0 for success, but also accepts already registered
-  if (data.code !== 0 && data.code !== 0) {
-    console.log(`[TrackingService] Register note: code=${data.code}, message=${data.data?.errors?.[0]?.message || 'unknown'}`);
+    console.error(`[TrackingService] Error checking ${trackingNumber} via ${provider.name}:`, error.message);
+    return errorResult(carrierName, provider, error);
   }
-
-  return data;
 }
 
 
 /**
- * Get tracking info from 17TRACK
+ * Check many packages at once. Items are { trackingNumber, carrier } and
+ * results come back in the same order. Numbers are grouped by provider;
+ * batch-capable providers get up to `batchSize` numbers per call, and at
+ * most TRACKING_CONCURRENCY calls run at the same time.
  */
-async function getTrackingInfo(trackingNumber, carrierCode) {
-  const body = [{
-    number: trackingNumber,
-    carrier: carrierCode
-  }];
-
-  console.log(`[TrackingService] Getting tracking info:`, JSON.stringify(body));
-
-  const response = await fetchWithTimeout(`${TRACK17_API_URL}/gettrackinfo`, {
-    method: 'POST',
-    headers: {
-      '17token': TRACK17_API_KEY,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(body)
+async function checkTrackingStatusBatch(items) {
+  const results = new Array(items.length);
+  const groups = new Map();
+
+  items.forEach((item, index) => {
+    const carrierName = normalizeCarrierSlug(item.carrier) || detectCarrier(item.trackingNumber);
+    const provider = resolveProvider(carrierName);
+    if (!groups.has(provider)) groups.set(provider, []);
+    groups.get(provider).push({ index, trackingNumber: item.trackingNumber, carrier: carrierName });
   });
 
-  const data = await response.json();
-  console.log(`[TrackingService] GetTrackInfo response:`, JSON.stringify(data));
-
-  if (data.code !== 0) {
-    throw new Error(data.data?.errors?.[0]?.message || `API error: code ${data.code}`);
-  }
-
-  return data;
-}
-
-
-/**
- * Parse location from a tracking event
- */
-function parseEventLocation(event) {
-  if (event?.location) {
-    return event.location;
-  }
-  if (event?.address) {
-    const addr = event.address;
-    const parts = [];
-    if (addr.city) parts.push(addr.city);
-    if (addr.state) parts.push(addr.state);
-    if (addr.country) parts.push(addr.country);
-    return parts.join(', ') || null;
-  }
-  return null;
-}
-
-
-/**
- * Normalize 17TRACK response to our standard format
- */
-function normalize17TrackData(apiResponse, trackingNumber) {
-  // Find the tracking data in the response
-  const accepted = apiResponse.data?.accepted || [];
-  const tracking = accepted.find(t => t.number === trackingNumber);
-
-  if (!tracking) {
-    return {
-      status: "unknown",
-      riskLevel: "yellow",
-      carrier: "unknown",
-      lastUpdate: new Date(),
-      location: null,
-      message: "No tracking data available",
-      events: []
-    };
-  }
-
-  // 17TRACK v2.2 uses track_info structure
-  const trackInfo = tracking.track_info;
-
-  // Debug: Log the trackInfo structure to understand what 17TRACK returns
-  console.log('[TrackingService] trackInfo structure:', JSON.stringify(trackInfo, null, 2));
-
-  if (!trackInfo) {
-    return {
-      status: "unknown",
-      riskLevel: "yellow",
-      carrier: getCarrierName(tracking.carrier) || "unknown",
-      lastUpdate: new Date(),
-      location: null,
-      message: "No tracking info available",
-      events: []
-    };
-  }
-
-  // Map 17TRACK status to our status
-  // 17TRACK statuses: NotFound, InfoReceived, InTransit, OutForDelivery,
-  //                   AvailableForPickup, Delivered, Exception, Expired
-  const statusMap = {
-    'NotFound': 'unknown',
-    'InfoReceived': 'pre_transit',
-    'InTransit': 'in_transit',
-    'OutForDelivery': 'out_for_delivery',
-    'AvailableForPickup': 'out_for_delivery',
-    'Delivered': 'delivered',
-    'Exception': 'exception',
-    'Expired': 'lost'
-  };
-
-  const latestStatus = trackInfo.latest_status?.status || 'NotFound';
-  const status = statusMap[latestStatus] || 'unknown';
-
-  // Get latest event info
-  const latestEvent = trackInfo.latest_event;
-
-  // Parse last update time
-  let lastUpdate = new Date();
-  if (latestEvent?.time_utc) {
-    lastUpdate = new Date(latestEvent.time_utc);
-  } else if (latestEvent?.time_iso) {
-    lastUpdate = new Date(latestEvent.time_iso);
-  }
-
-  // Get location from latest event
-  const location = parseEventLocation(latestEvent);
-
-  // Get message from latest event
-  const message = latestEvent?.description || null;
-
-  // Calculate risk level
-  const riskLevel = calculateRiskLevel(status, lastUpdate);
-
-  // Get carrier name
-  const carrierName = getCarrierName(tracking.carrier) || 'unknown';
-
-  // Parse all tracking events - check multiple possible locations in 17TRACK response
-  let events = [];
-
-  // Try providers array first (17TRACK sometimes uses this structure)
-  const providers = trackInfo.tracking?.providers || [];
-  for (const provider of providers) {
-    const providerEvents = provider.events || [];
-    for (const evt of providerEvents) {
-      events.push({
-        timestamp: evt.time_utc || evt.time_iso || new Date().toISOString(),
-        location: parseEventLocation(evt),
-        description: evt.description || 'Status update'
-      });
+  // One unit of work per provider call
+  const calls = [];
+  for (const [provider, entries] of groups) {
+    const size = provider.trackMany ? provider.batchSize : 1;
+    for (const batch of chunk(entries, size)) {
+      calls.push({ provider, batch });
     }
   }
 
-  // Also try direct events array if present (alternative 17TRACK structure)
-  const directEvents = trackInfo.tracking?.events || trackInfo.events || [];
-  for (const evt of directEvents) {
-    events.push({
-      timestamp: evt.time_utc || evt.time_iso || new Date().toISOString(),
-      location: parseEventLocation(evt),
-      description: evt.description || 'Status update'
-    });
-  }
+  console.log(`[TrackingService] Batch checking ${items.length} numbers in ${calls.length} provider calls`);
 
-  // Sort events by timestamp (newest first)
-  events.sort((a, b) => new Date(b.timestamp) - new Date(a.timestamp));
+  await mapWithConcurrency(calls, TRACKING_CONCURRENCY, async ({ provider, batch }) => {
+    try {
+      const batchResults = provider.trackMany
+        ? await provider.trackMany(batch)
+        : [await provider.track(batch[0].trackingNumber, batch[0].carrier)];
 
-  console.log(`[TrackingService] Found ${events.length} events from providers/direct arrays`);
-
-  // Always ensure at least one event exists
-  if (events.length === 0) {
-    if (latestEvent) {
-      console.log('[TrackingService] Using latest_event as fallback');
-      events.push({
-        timestamp: latestEvent.time_utc || latestEvent.time_iso || new Date().toISOString(),
-        location: location,
-        description: latestEvent.description || 'Status update'
-      });
-    } else {
-      // Ultimate fallback - create event from status/location data
-      console.log('[TrackingService] Creating synthetic event from status');
-      events.push({
-        timestamp: lastUpdate.toISOString(),
-        location: location || 'Location pending',
-        description: message || `Package status: ${status.replace('_', ' ')}`
+      batch.forEach((entry, i) => {
+        results[entry.index] = { ...batchResults[i], provider: provider.name };
       });
+    } catch (error) {
+      console.error(`[TrackingService] Batch error via ${provider.name} (${batch.length} numbers):`, error.message);
+      for (const entry of batch) {
+        results[entry.index] = errorResult(entry.carrier, provider, error);
+      }
     }
-  }
-
-  return {
-    status,
-    riskLevel,
-    carrier: carrierName,
-    lastUpdate,
-    location,
-    message,
-    deliveryDate: null,
-    events
-  };
-}
-
-
-/**
- * Calculate risk level based on tracking status and time
- */
-function calculateRiskLevel(status, lastUpdateTime) {
-  const normalizedStatus = status.toLowerCase();
-
-  // Red flags - high risk
-  if (["exception", "delivery_failed", "lost"].includes(normalizedStatus)) {
-    return "red";
-  }
-
-  // Green - all good
-  if (["delivered", "out_for_delivery"].includes(normalizedStatus)) {
-    return "green";
-  }
-
-  // Pre-transit is always green - label created, waiting for carrier pickup
-  if (normalizedStatus === "pre_transit") {
-    return "green";
-  }
-
-  // Check time since last update for in_transit packages
-  if (normalizedStatus === "in_transit") {
-    const hoursSinceUpdate = (Date.now() - new Date(lastUpdateTime)) / (1000 * 60 * 60);
-    if (hoursSinceUpdate > 72) return "red";
-    if (hoursSinceUpdate > 48) return "yellow";
-  }
-
-  // Unknown status
-  if (normalizedStatus === "unknown") return "yellow";
-
-  return "green";
-}
-
-
-/**
- * Get 17TRACK carrier code from carrier name
- */
-function getCarrierCode(carrier) {
-  if (!carrier) return CARRIER_CODES.usps;
-
-  const normalized = carrier.toLowerCase();
-  return CARRIER_CODES[normalized] || CARRIER_CODES.usps;
-}
-
-
-/**
- * Get carrier name from 17TRACK carrier code
- */
-function getCarrierName(carrierCode) {
-  for (const [name, code] of Object.entries(CARRIER_CODES)) {
-    if (code === carrierCode) return name;
-  }
-  return 'unknown';
-}
-
-
-/**
- * Detect carrier code from tracking number format
- */
-function detectCarrierCode(trackingNumber) {
-  if (!trackingNumber) return CARRIER_CODES.usps;
-
-  // USPS: 20-22 digits or specific formats (94, 92, 93, 95, 42 prefix)
-  if (/^\d{20,22}$/.test(trackingNumber) || /^(94|92|93|95|42)\d{18,}$/.test(trackingNumber)) {
-    return CARRIER_CODES.usps;
-  }
-
-  // UPS: 1Z followed by 16 characters
-  if (/^1Z[A-Z0-9]{16}$/i.test(trackingNumber)) {
-    return CARRIER_CODES.ups;
-  }
-
-  // FedEx: 12-14 digits or 22 digits
-  if (/^\d{12,14}$/.test(trackingNumber) || /^\d{22}$/.test(trackingNumber)) {
-    return CARRIER_CODES.fedex;
-  }
+  });
 
-  return CARRIER_CODES.usps; // Default to USPS for Etsy sellers
+  return results;
 }
 
 
 /**
- * Detect carrier name from tracking number (for backwards compatibility)
+ * Result returned when a provider call fails
  */
-function detectCarrier(trackingNumber) {
-  const code = detectCarrierCode(trackingNumber);
-  return getCarrierName(code);
+function errorResult(carrierName, provider, error) {
+  return {
+    status: "unknown",
+    riskLevel: "yellow",
+    carrier: carrierName || "unknown",
+    lastUpdate: new Date(),
+    location: null,
+    message: null,
+    provider: provider.name,
+    error: error.message
+  };
 }
 
 
@@ -387,47 +103,9 @@ function normalizeCarrierSlug(carrier) {
   return carrier.toLowerCase();
 }
 
-
-/**
- * Mock tracking data (fallback when no API key)
- */
-function getMockTrackingData(trackingNumber, carrier) {
-  console.log('[TrackingService] Using mock data');
-
-  const now = new Date();
-  const yesterday = new Date(now - 24 * 60 * 60 * 1000);
-  const twoDaysAgo = new Date(now - 2 * 24 * 60 * 60 * 1000);
-
-  return {
-    status: "in_transit",
-    riskLevel: "green",
-    carrier: carrier || detectCarrier(trackingNumber) || "usps",
-    lastUpdate: now,
-    location: "In Transit",
-    message: "Package is on its way",
-    deliveryDate: null,
-    events: [
-      {
-        timestamp: now.toISOString(),
-        location: "Distribution Center, CA",
-        description: "Package in transit to destination"
-      },
-      {
-        timestamp: yesterday.toISOString(),
-        location: "Los Angeles, CA",
-        description: "Package arrived at carrier facility"
-      },
-      {
-        timestamp: twoDaysAgo.toISOString(),
-        location: "Los Angeles, CA",
-        description: "Shipping label created"
-      }
-    ]
-  };
-}
-
 module.exports = {
   checkTrackingStatus,
+  checkTrackingStatusBatch,
   calculateRiskLevel,
   detectCarrier,
   normalizeCarrierSlug
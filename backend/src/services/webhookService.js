@@ -0,0 +1,417 @@
+// services/webhookService.js
+// Outbound webhooks: order events POSTed to the URLs an organization registers.
+//
+// Each event becomes one WebhookDelivery row per subscribed endpoint and is
+// sent right away. Failed sends are retried with exponential backoff by
+// POST /api/cron/webhook-deliveries until WEBHOOK_MAX_ATTEMPTS is reached.
+//
+// Requests carry the headers
+//   X-OrderWarden-Event:     order.risk_changed
+//   X-OrderWarden-Delivery:  delivery ID (changes on redelivery)
+//   X-OrderWarden-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+// signed with the endpoint's secret, so receivers can verify and reject replays.
+//
+// Endpoint hosts must resolve to public addresses: checked when an endpoint is
+// saved and again on every delivery, at connect time (see utils/networkGuard).
+// Receivers' responses are not kept, only their status code.
+
+const crypto = require('crypto');
+const http = require('http');
+const https = require('https');
+const prisma = require('../db/prisma');
+const { resolvePublicAddress, guardedLookup } = require('../utils/networkGuard');
+
+// OrderEvent type -> webhook event type
+const WEBHOOK_EVENT_TYPES = {
+  status_changed: 'order.status_changed',
+  risk_changed: 'order.risk_changed'
+};
+
+const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS || 8);
+const WEBHOOK_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS || 10000);
+
+// Retry n waits RETRY_BASE_MS * 2^(n-1), capped: 1m, 2m, 4m ... 6h
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
+const DEFAULT_DELIVERY_LIMIT = 50;
+const RETRY_BATCH_SIZE = 100;
+
+const ENDPOINT_SELECT = {
+  id: true,
+  url: true,
+  description: true,
+  secret: true,
+  eventTypes: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true
+};
+
+const DELIVERY_SELECT = {
+  id: true,
+  eventId: true,
+  eventType: true,
+  payload: true,
+  status: true,
+  attempts: true,
+  nextAttemptAt: true,
+  responseStatus: true,
+  error: true,
+  deliveredAt: true,
+  createdAt: true
+};
+
+function generateSecret() {
+  return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Signature header value for a request body sent at `timestamp` (unix seconds)
+ */
+function signPayload(secret, body, timestamp = Math.floor(Date.now() / 1000)) {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+function retryDelayMs(attempts) {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+}
+
+// ---------------------------------------------------------------------------
+// Endpoints
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether an endpoint URL's host resolves to public addresses only
+ * @returns {Promise<{ ok: true } | { ok: false, error: string }>}
+ */
+async function checkEndpointUrl(url) {
+  const result = await resolvePublicAddress(new URL(url).hostname);
+  return result.ok ? { ok: true } : result;
+}
+
+async function listEndpoints(organizationId) {
+  return prisma.webhookEndpoint.findMany({
+    where: { organizationId },
+    select: ENDPOINT_SELECT,
+    orderBy: { createdAt: 'asc' }
+  });
+}
+
+async function findEndpoint(organizationId, endpointId) {
+  return prisma.webhookEndpoint.findFirst({
+    where: { id: endpointId, organizationId },
+    select: ENDPOINT_SELECT
+  });
+}
+
+async function createEndpoint(organizationId, { url, description, eventTypes, active }) {
+  return prisma.webhookEndpoint.create({
+    data: {
+      organizationId,
+      url,
+      description,
+      eventTypes,
+      active,
+      secret: generateSecret()
+    },
+    select: ENDPOINT_SELECT
+  });
+}
+
+/**
+ * Update an endpoint. `rotateSecret` issues a new signing secret.
+ * Returns null when the endpoint is not in the organization.
+ */
+async function updateEndpoint(organizationId, endpointId, { rotateSecret, ...changes }) {
+  const existing = await findEndpoint(organizationId, endpointId);
+  if (!existing) return null;
+
+  return prisma.webhookEndpoint.update({
+    where: { id: endpointId },
+    data: {
+      ...changes,
+      ...(rotateSecret ? { secret: generateSecret() } : {})
+    },
+    select: ENDPOINT_SELECT
+  });
+}
+
+async function deleteEndpoint(organizationId, endpointId) {
+  const { count } = await prisma.webhookEndpoint.deleteMany({
+    where: { id: endpointId, organizationId }
+  });
+  return count > 0;
+}
+
+/**
+ * Newest deliveries for an endpoint, optionally only one status
+ */
+async function listDeliveries(endpointId, { limit = DEFAULT_DELIVERY_LIMIT, status = null } = {}) {
+  const where = { endpointId };
+  if (status) where.status = status;
+
+  return prisma.webhookDelivery.findMany({
+    where,
+    select: DELIVERY_SELECT,
+    orderBy: { createdAt: 'desc' },
+    take: limit
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Sending
+// ---------------------------------------------------------------------------
+
+/**
+ * Take a pending delivery for one attempt. The lease keeps the retry sweep and
+ * an immediate send from posting the same delivery twice; false when another
+ * sender got there first.
+ */
+async function claimDelivery(delivery) {
+  const { count } = await prisma.webhookDelivery.updateMany({
+    where: { id: delivery.id, status: 'pending', nextAttemptAt: delivery.nextAttemptAt },
+    data: { nextAttemptAt: new Date(Date.now() + 2 * WEBHOOK_TIMEOUT_MS) }
+  });
+  return count > 0;
+}
+
+/**
+ * POST `body` to `url` and resolve with the response status. The body of the
+ * response is discarded. Connections go only to addresses guardedLookup allows.
+ */
+function postJson(url, { headers, body, signal }) {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const transport = target.protocol === 'https:' ? https : http;
+
+    const request = transport.request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+      lookup: guardedLookup,
+      signal
+    }, (response) => {
+      resolve(response.statusCode);
+      response.destroy();
+    });
+
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+async function postDelivery(delivery, endpoint) {
+  const body = JSON.stringify(delivery.payload);
+
+  // IP literals never reach guardedLookup, so the host is checked up front too
+  const target = await checkEndpointUrl(endpoint.url);
+  if (!target.ok) {
+    return { ok: false, responseStatus: null, error: target.error };
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+
+  try {
+    const status = await postJson(endpoint.url, {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'OrderWarden-Webhooks/1.0',
+        'X-OrderWarden-Event': delivery.eventType,
+        'X-OrderWarden-Delivery': delivery.id,
+        'X-OrderWarden-Signature': signPayload(endpoint.secret, body)
+      },
+      body,
+      signal: controller.signal
+    });
+    const ok = status >= 200 && status < 300;
+
+    return {
+      ok,
+      responseStatus: status,
+      error: ok ? null : `Endpoint responded with ${status}`
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      responseStatus: null,
+      error: error.name === 'AbortError' ? `Timed out after ${WEBHOOK_TIMEOUT_MS}ms` : error.message
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Make one attempt at a pending delivery and record the outcome: succeeded,
+ * pending with the next retry scheduled, or failed once out of attempts.
+ * Returns the updated delivery, or null when it was not ours to send.
+ */
+async function attemptDelivery(delivery, endpoint) {
+  if (!(await claimDelivery(delivery))) return null;
+
+  const result = await postDelivery(delivery, endpoint);
+  const attempts = delivery.attempts + 1;
+
+  let outcome;
+  if (result.ok) {
+    outcome = { status: 'succeeded', nextAttemptAt: null, deliveredAt: new Date() };
+  } else if (attempts >= WEBHOOK_MAX_ATTEMPTS) {
+    outcome = { status: 'failed', nextAttemptAt: null };
+  } else {
+    outcome = { status: 'pending', nextAttemptAt: new Date(Date.now() + retryDelayMs(attempts)) };
+  }
+
+  if (!result.ok) {
+    console.error(`[Webhooks] Delivery ${delivery.id} to ${endpoint.url} failed (attempt ${attempts}): ${result.error}`);
+  }
+
+  return prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      ...outcome,
+      attempts,
+      responseStatus: result.responseStatus,
+      error: result.error
+    },
+    select: DELIVERY_SELECT
+  });
+}
+
+function buildOrderPayload(eventId, eventType, order, event) {
+  return {
+    id: eventId,
+    type: eventType,
+    createdAt: new Date().toISOString(),
+    data: {
+      order: {
+        id: order.id,
+        orderId: order.orderId,
+        storeId: order.storeId,
+        trackingNumber: order.trackingNumber,
+        carrier: order.carrier,
+        status: order.lastStatus,
+        riskLevel: order.riskLevel,
+        riskReasons: order.riskReasons || [],
+        expectedDeliveryAt: order.expectedDeliveryAt,
+        deliveredAt: order.deliveredAt
+      },
+      change: event.metadata
+    }
+  };
+}
+
+/**
+ * Queue deliveries for the status_changed / risk_changed events of a tracking
+ * check (see orderEventService) to every active endpoint of the order's
+ * organization subscribed to them, then send them without waiting.
+ * `order` is the updated order row. Returns the number of deliveries queued.
+ */
+async function dispatchOrderWebhooks(order, events) {
+  const webhookEvents = events.filter(evt => WEBHOOK_EVENT_TYPES[evt.type]);
+  if (webhookEvents.length === 0 || !order.storeId) return 0;
+
+  const store = await prisma.store.findUnique({
+    where: { id: order.storeId },
+    select: { organizationId: true }
+  });
+  if (!store?.organizationId) return 0;
+
+  const endpoints = await prisma.webhookEndpoint.findMany({
+    where: { organizationId: store.organizationId, active: true },
+    select: { id: true, url: true, secret: true, eventTypes: true }
+  });
+  if (endpoints.length === 0) return 0;
+
+  const now = new Date();
+  const rows = [];
+  for (const event of webhookEvents) {
+    const eventType = WEBHOOK_EVENT_TYPES[event.type];
+    const eventId = `evt_${crypto.randomBytes(12).toString('hex')}`;
+    const payload = buildOrderPayload(eventId, eventType, order, event);
+
+    for (const endpoint of endpoints) {
+      if (!endpoint.eventTypes.includes(eventType)) continue;
+      rows.push({ endpointId: endpoint.id, eventId, eventType, payload, nextAttemptAt: now });
+    }
+  }
+  if (rows.length === 0) return 0;
+
+  const deliveries = await prisma.webhookDelivery.createManyAndReturn({ data: rows });
+  const endpointsById = new Map(endpoints.map(endpoint => [endpoint.id, endpoint]));
+
+  // Slow receivers must not hold up tracking checks; failures are retried by the cron sweep
+  Promise.all(deliveries.map(delivery => attemptDelivery(delivery, endpointsById.get(delivery.endpointId))))
+    .catch(error => console.error('[Webhooks] Dispatch error:', error));
+
+  return deliveries.length;
+}
+
+/**
+ * Send an earlier delivery's event again, as a new delivery with the same
+ * eventId and payload. Returns the new delivery after its first attempt, or
+ * null when the delivery does not belong to the endpoint.
+ */
+async function redeliver(endpoint, deliveryId) {
+  const original = await prisma.webhookDelivery.findFirst({
+    where: { id: deliveryId, endpointId: endpoint.id }
+  });
+  if (!original) return null;
+
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      endpointId: endpoint.id,
+      eventId: original.eventId,
+      eventType: original.eventType,
+      payload: original.payload,
+      nextAttemptAt: new Date()
+    }
+  });
+
+  return (await attemptDelivery(delivery, endpoint)) || delivery;
+}
+
+/**
+ * Retry pending deliveries whose next attempt is due (POST /api/cron/webhook-deliveries).
+ * Deliveries to disabled endpoints wait until the endpoint is enabled again.
+ */
+async function retryDueDeliveries({ limit = RETRY_BATCH_SIZE } = {}) {
+  const due = await prisma.webhookDelivery.findMany({
+    where: {
+      status: 'pending',
+      nextAttemptAt: { lte: new Date() },
+      endpoint: { active: true }
+    },
+    include: { endpoint: { select: { id: true, url: true, secret: true } } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: limit
+  });
+
+  const summary = { due: due.length, succeeded: 0, retrying: 0, failed: 0, skipped: 0 };
+
+  for (const delivery of due) {
+    const result = await attemptDelivery(delivery, delivery.endpoint);
+    if (!result) summary.skipped++;
+    else if (result.status === 'succeeded') summary.succeeded++;
+    else if (result.status === 'failed') summary.failed++;
+    else summary.retrying++;
+  }
+
+  return summary;
+}
+
+module.exports = {
+  WEBHOOK_EVENT_TYPES,
+  signPayload,
+  checkEndpointUrl,
+  listEndpoints,
+  findEndpoint,
+  createEndpoint,
+  updateEndpoint,
+  deleteEndpoint,
+  listDeliveries,
+  dispatchOrderWebhooks,
+  redeliver,
+  retryDueDeliveries
+};
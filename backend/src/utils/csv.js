@@ -0,0 +1,81 @@
+// utils/csv.js
+// Minimal RFC 4180 CSV parsing: quoted fields, doubled quotes, commas and
+// line breaks inside quotes, CRLF or LF line endings and a leading BOM.
+// toCsvRow() writes the same dialect.
+
+/**
+ * Parse CSV text into rows of string fields. Blank lines are dropped.
+ * Throws when a quoted field is never closed.
+ */
+function parseCsv(text) {
+  const input = String(text || "").replace(/^﻿/, "");
+  const rows = [];
+  let row = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Unterminated quoted field");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.some(value => value.trim() !== ""));
+}
+
+// Text a spreadsheet would run as a formula (buyer names and item titles come
+// from Etsy buyers)
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * One CSV line (with CRLF) for the given values. null and undefined become
+ * empty fields; text starting like a formula gets a leading "'"; fields with
+ * commas, quotes or line breaks are quoted.
+ */
+function toCsvRow(values) {
+  return values.map((value) => {
+    let field = value === null || value === undefined ? "" : String(value);
+    if (typeof value === "string" && FORMULA_START.test(field)) {
+      field = `'${field}`;
+    }
+    return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+  }).join(",") + "\r\n";
+}
+
+module.exports = {
+  parseCsv,
+  toCsvRow
+};
@@ -0,0 +1,188 @@
+// utils/messageTemplateTranslations.js
+// Built-in buyer message wording in languages other than English, by locale
+// and template key. English lives with the template definitions in
+// utils/messageTemplates.js; a key missing here falls back to it.
+//
+// Greetings carry a fallback that reads naturally in each language when the
+// buyer's name is unknown.
+
+const TRANSLATED_TEMPLATES = {
+  de: {
+    exception: {
+      subject: "Wichtige Neuigkeiten zu Ihrer Bestellung {{orderId}}",
+      body: "Hallo {{buyerFirstName|liebe Kundin, lieber Kunde}}! Ich melde mich wegen Ihrer Bestellung {{orderId}}. Laut Sendungsverfolgung gab es ein Problem bei der Zustellung. Ich kläre das bereits mit dem Versanddienstleister und melde mich innerhalb von 24 Stunden mit einem Update bei Ihnen. Ihre Zufriedenheit hat für mich oberste Priorität!"
+    },
+    stalled: {
+      subject: "Kurze Rückfrage zu Ihrer Bestellung {{orderId}}",
+      body: "Hallo {{buyerFirstName|liebe Kundin, lieber Kunde}}! Mir ist aufgefallen, dass die Sendungsverfolgung Ihrer Bestellung {{orderId}} seit einiger Zeit nicht aktualisiert wurde. Ich frage gerade beim Versanddienstleister nach. Wenn sich in den nächsten 48 Stunden nichts tut, schicke ich Ihnen umgehend Ersatz. Vielen Dank für Ihre Geduld!"
+    },
+    delayed: {
+      subject: "Ihre Bestellung {{orderId}} ist unterwegs!",
+      body: "Hallo {{buyerFirstName|liebe Kundin, lieber Kunde}}! Ein kurzes Update: Ihre Bestellung {{orderId}} ist unterwegs, braucht aber etwas länger als üblich. Bei den Versanddienstleistern kommt es gerade zu Verzögerungen, aber Ihr Paket bewegt sich. Hier können Sie es verfolgen: {{trackingLink}}. Ich behalte es im Blick und melde mich, falls sich etwas ändert!"
+    },
+    delivered: {
+      subject: "Ihre Bestellung {{orderId}} wurde zugestellt!",
+      body: "Hallo {{buyerFirstName|liebe Kundin, lieber Kunde}}, gute Nachrichten! Ihre Bestellung {{orderId}} wurde laut Sendungsverfolgung zugestellt. Ich hoffe, sie gefällt Ihnen! Wenn Sie Fragen haben, melden Sie sich jederzeit gern. Über eine Bewertung würde ich mich sehr freuen. Vielen Dank für Ihre Bestellung!"
+    },
+    out_for_delivery: {
+      subject: "Ihre Bestellung {{orderId}} wird heute zugestellt!",
+      body: "Hallo {{buyerFirstName|liebe Kundin, lieber Kunde}}, schöne Neuigkeiten! Ihre Bestellung {{orderId}} ist in der Zustellung und sollte heute bei Ihnen ankommen. Bei Fragen bin ich gern für Sie da!"
+    },
+    in_transit: {
+      subject: "Ihre Bestellung {{orderId}} ist auf dem Weg!",
+      body: "Hallo {{buyerFirstName|liebe Kundin, lieber Kunde}}! Ihre Bestellung {{orderId}} ist unterwegs und kommt gut voran. Sie sollte bald bei Ihnen ankommen, und hier können Sie sie verfolgen: {{trackingLink}}. Ich behalte die Sendung im Blick und melde mich, falls es Neuigkeiten gibt. Vielen Dank für Ihre Bestellung!"
+    },
+    review_request: {
+      subject: "Wie gefällt Ihnen Ihre Bestellung {{orderId}}?",
+      body: "Hallo {{buyerFirstName|liebe Kundin, lieber Kunde}}! Ihre Bestellung {{orderId}} ist vor ein paar Tagen angekommen, und ich hoffe, sie gefällt Ihnen. Wenn Sie einen Moment Zeit haben, würde eine Bewertung auf Etsy {{shopName|meinem kleinen Shop}} sehr helfen. Und falls etwas nicht stimmt, antworten Sie einfach auf diese Nachricht – ich kümmere mich darum!"
+    },
+    general: {
+      subject: "Neuigkeiten zu Ihrer Bestellung {{orderId}}",
+      body: "Hallo {{buyerFirstName|liebe Kundin, lieber Kunde}}! Ich wollte mich kurz wegen Ihrer Bestellung {{orderId}} melden. Ich behalte die Sendungsverfolgung im Blick und halte Sie auf dem Laufenden. Bei Fragen können Sie sich jederzeit gern an mich wenden!"
+    }
+  },
+
+  fr: {
+    exception: {
+      subject: "Information importante sur votre commande {{orderId}}",
+      body: "Bonjour {{buyerFirstName|à vous}} ! Je vous contacte au sujet de votre commande {{orderId}}. Le suivi indique un problème de livraison. Je suis déjà en contact avec le transporteur pour le résoudre et je reviens vers vous d'ici 24 heures. Votre satisfaction est ma priorité !"
+    },
+    stalled: {
+      subject: "Petit point sur votre commande {{orderId}}",
+      body: "Bonjour {{buyerFirstName|à vous}} ! J'ai remarqué que le suivi de votre commande {{orderId}} n'a pas été mis à jour depuis un moment. Je me renseigne auprès du transporteur. Si le colis ne bouge pas dans les 48 prochaines heures, je vous envoie un remplacement immédiatement. Merci pour votre patience !"
+    },
+    delayed: {
+      subject: "Votre commande {{orderId}} est en route !",
+      body: "Bonjour {{buyerFirstName|à vous}} ! Un petit point rapide : votre commande {{orderId}} est en cours d'acheminement, mais un peu plus lentement que d'habitude. Les transporteurs connaissent quelques retards, mais votre colis avance. Vous pouvez le suivre ici : {{trackingLink}}. Je garde un œil dessus et vous préviens en cas de changement !"
+    },
+    delivered: {
+      subject: "Votre commande {{orderId}} a été livrée !",
+      body: "Bonjour {{buyerFirstName|à vous}}, bonne nouvelle ! Votre commande {{orderId}} apparaît comme livrée. J'espère qu'elle vous plaira ! Pour toute question, n'hésitez pas à me contacter. Un avis de votre part me ferait très plaisir. Merci pour votre commande !"
+    },
+    out_for_delivery: {
+      subject: "Votre commande {{orderId}} est livrée aujourd'hui !",
+      body: "Bonjour {{buyerFirstName|à vous}}, bonne nouvelle ! Votre commande {{orderId}} est en cours de livraison et devrait arriver aujourd'hui. Je reste disponible pour toute question !"
+    },
+    in_transit: {
+      subject: "Votre commande {{orderId}} est en chemin !",
+      body: "Bonjour {{buyerFirstName|à vous}} ! Votre commande {{orderId}} est en cours d'acheminement et progresse bien. Elle devrait arriver bientôt, et vous pouvez la suivre ici : {{trackingLink}}. Je suis le colis de près et vous préviendrai s'il y a du nouveau. Merci pour votre commande !"
+    },
+    review_request: {
+      subject: "Que pensez-vous de votre commande {{orderId}} ?",
+      body: "Bonjour {{buyerFirstName|à vous}} ! Votre commande {{orderId}} est arrivée il y a quelques jours et j'espère qu'elle vous plaît. Si vous avez un moment, un avis sur Etsy compterait beaucoup pour {{shopName|ma petite boutique}}. Et si quelque chose ne va pas, répondez simplement à ce message, je m'en occupe !"
+    },
+    general: {
+      subject: "Des nouvelles de votre commande {{orderId}}",
+      body: "Bonjour {{buyerFirstName|à vous}} ! Je vous écris au sujet de votre commande {{orderId}}. Je surveille le suivi et vous préviendrai de toute évolution. N'hésitez pas à me contacter si vous avez des questions !"
+    }
+  },
+
+  es: {
+    exception: {
+      subject: "Información importante sobre tu pedido {{orderId}}",
+      body: "¡Hola, {{buyerFirstName|qué tal}}! Te escribo por tu pedido {{orderId}}. El seguimiento indica que ha habido un problema con la entrega. Ya estoy trabajando con la empresa de transporte para resolverlo y te daré noticias en menos de 24 horas. ¡Tu satisfacción es mi prioridad!"
+    },
+    stalled: {
+      subject: "Consulta rápida sobre tu pedido {{orderId}}",
+      body: "¡Hola, {{buyerFirstName|qué tal}}! He visto que el seguimiento de tu pedido {{orderId}} no se actualiza desde hace un tiempo. Lo estoy consultando con la empresa de transporte. Si no vemos movimiento en las próximas 48 horas, te enviaré un reemplazo enseguida. ¡Gracias por tu paciencia!"
+    },
+    delayed: {
+      subject: "¡Tu pedido {{orderId}} está en camino!",
+      body: "¡Hola, {{buyerFirstName|qué tal}}! Solo quería darte una actualización rápida: tu pedido {{orderId}} está en tránsito, aunque va algo más lento de lo habitual. Las empresas de transporte están teniendo algunos retrasos, pero tu paquete avanza. Puedes seguirlo aquí: {{trackingLink}}. Lo estoy vigilando y te avisaré si algo cambia."
+    },
+    delivered: {
+      subject: "¡Tu pedido {{orderId}} ha sido entregado!",
+      body: "¡Hola, {{buyerFirstName|qué tal}}! ¡Buenas noticias! Tu pedido {{orderId}} figura como entregado. ¡Espero que te encante! Si tienes cualquier pregunta, no dudes en escribirme. Te agradecería mucho que dejaras una reseña cuando puedas. ¡Gracias por tu pedido!"
+    },
+    out_for_delivery: {
+      subject: "¡Tu pedido {{orderId}} se entrega hoy!",
+      body: "¡Hola, {{buyerFirstName|qué tal}}! ¡Buenas noticias! Tu pedido {{orderId}} está en reparto y debería llegar hoy. Si tienes alguna pregunta, aquí estoy para ayudarte."
+    },
+    in_transit: {
+      subject: "¡Tu pedido {{orderId}} va de camino!",
+      body: "¡Hola, {{buyerFirstName|qué tal}}! Tu pedido {{orderId}} está en tránsito y avanza bien. Debería llegar pronto, y puedes seguirlo aquí: {{trackingLink}}. Lo sigo de cerca y te avisaré si hay novedades. ¡Gracias por tu pedido!"
+    },
+    review_request: {
+      subject: "¿Qué tal tu pedido {{orderId}}?",
+      body: "¡Hola, {{buyerFirstName|qué tal}}! Tu pedido {{orderId}} llegó hace unos días y espero que te esté encantando. Si tienes un momento, una reseña en Etsy significaría mucho para {{shopName|mi pequeña tienda}}. Y si algo no está bien, responde a este mensaje y lo solucionaré."
+    },
+    general: {
+      subject: "Novedades sobre tu pedido {{orderId}}",
+      body: "¡Hola, {{buyerFirstName|qué tal}}! Quería escribirte sobre tu pedido {{orderId}}. Estoy pendiente del seguimiento y te mantendré al tanto de cualquier novedad. ¡Si tienes preguntas, escríbeme cuando quieras!"
+    }
+  },
+
+  it: {
+    exception: {
+      subject: "Aggiornamento importante sul suo ordine {{orderId}}",
+      body: "Gentile {{buyerName|cliente}}, la contatto riguardo al suo ordine {{orderId}}. Il tracciamento indica un problema con la consegna. Sto già lavorando con il corriere per risolverlo e le invierò un aggiornamento entro 24 ore. La sua soddisfazione è la mia priorità!"
+    },
+    stalled: {
+      subject: "Un breve aggiornamento sul suo ordine {{orderId}}",
+      body: "Gentile {{buyerName|cliente}}, ho notato che il tracciamento del suo ordine {{orderId}} non si aggiorna da un po'. Sto verificando con il corriere. Se non vediamo movimenti nelle prossime 48 ore, le spedirò subito un sostituto. Grazie per la pazienza!"
+    },
+    delayed: {
+      subject: "Il suo ordine {{orderId}} è in viaggio!",
+      body: "Gentile {{buyerName|cliente}}, un breve aggiornamento: il suo ordine {{orderId}} è in transito, ma un po' più lentamente del solito. I corrieri stanno avendo qualche ritardo, ma il pacco si sta muovendo. Può seguirlo qui: {{trackingLink}}. Lo tengo d'occhio e le farò sapere se qualcosa cambia!"
+    },
+    delivered: {
+      subject: "Il suo ordine {{orderId}} è stato consegnato!",
+      body: "Gentile {{buyerName|cliente}}, ottime notizie! Il suo ordine {{orderId}} risulta consegnato. Spero che le piaccia! Per qualsiasi domanda non esiti a contattarmi. Una sua recensione, quando ha un momento, mi farebbe molto piacere. Grazie per il suo ordine!"
+    },
+    out_for_delivery: {
+      subject: "Il suo ordine {{orderId}} è in consegna oggi!",
+      body: "Gentile {{buyerName|cliente}}, belle notizie! Il suo ordine {{orderId}} è in consegna e dovrebbe arrivare oggi. Per qualsiasi domanda sono a sua disposizione!"
+    },
+    in_transit: {
+      subject: "Il suo ordine {{orderId}} è in arrivo!",
+      body: "Gentile {{buyerName|cliente}}, il suo ordine {{orderId}} è in transito e procede bene. Dovrebbe arrivare presto e può seguirlo qui: {{trackingLink}}. Lo seguo da vicino e le farò sapere se ci sono novità. Grazie per il suo ordine!"
+    },
+    review_request: {
+      subject: "Come si trova con il suo ordine {{orderId}}?",
+      body: "Gentile {{buyerName|cliente}}, il suo ordine {{orderId}} è arrivato qualche giorno fa e spero che le piaccia. Se ha un momento, una recensione su Etsy significherebbe molto per {{shopName|il mio piccolo negozio}}. E se qualcosa non va, risponda pure a questo messaggio e sistemerò tutto!"
+    },
+    general: {
+      subject: "Aggiornamento sul suo ordine {{orderId}}",
+      body: "Gentile {{buyerName|cliente}}, le scrivo riguardo al suo ordine {{orderId}}. Sto monitorando il tracciamento e le farò sapere ogni novità. Per qualsiasi domanda, mi contatti pure quando vuole!"
+    }
+  },
+
+  ja: {
+    exception: {
+      subject: "ご注文 {{orderId}} に関する重要なお知らせ",
+      body: "{{buyerName|お客}}様、ご注文 {{orderId}} についてご連絡いたします。追跡情報によると、配送中に問題が発生したようです。現在配送業者と連携して対応しており、24時間以内に改めてご連絡いたします。ご迷惑をおかけして申し訳ございません。"
+    },
+    stalled: {
+      subject: "ご注文 {{orderId}} の配送状況について",
+      body: "{{buyerName|お客}}様、ご注文 {{orderId}} の追跡情報がしばらく更新されていないため、現在配送業者に確認しております。48時間以内に動きがない場合は、すぐに代わりの商品をお送りいたします。今しばらくお待ちください。"
+    },
+    delayed: {
+      subject: "ご注文 {{orderId}} は配送中です",
+      body: "{{buyerName|お客}}様、ご注文 {{orderId}} は現在配送中ですが、通常より少し時間がかかっております。配送業者で遅延が発生していますが、荷物は移動しています。こちらから追跡できます：{{trackingLink}}。引き続き状況を確認し、変化があればお知らせいたします。"
+    },
+    delivered: {
+      subject: "ご注文 {{orderId}} のお届けが完了しました",
+      body: "{{buyerName|お客}}様、ご注文 {{orderId}} のお届けが完了したことを確認いたしました。気に入っていただけますと幸いです。ご不明な点がございましたら、お気軽にお問い合わせください。よろしければレビューをいただけますと大変励みになります。ご注文ありがとうございました。"
+    },
+    out_for_delivery: {
+      subject: "ご注文 {{orderId}} は本日お届け予定です",
+      body: "{{buyerName|お客}}様、ご注文 {{orderId}} は配達中で、本日お届けの予定です。ご不明な点がございましたら、お気軽にお問い合わせください。"
+    },
+    in_transit: {
+      subject: "ご注文 {{orderId}} はお届けに向かっています",
+      body: "{{buyerName|お客}}様、ご注文 {{orderId}} は順調に配送中で、まもなくお届けできる見込みです。こちらから追跡できます：{{trackingLink}}。状況を確認し、何かあればお知らせいたします。ご注文ありがとうございます。"
+    },
+    review_request: {
+      subject: "ご注文 {{orderId}} はいかがでしょうか",
+      body: "{{buyerName|お客}}様、ご注文 {{orderId}} がお手元に届いてから数日が経ちましたが、お楽しみいただけていますでしょうか。お時間がございましたら、Etsyでレビューをいただけますと{{shopName|当ショップ}}の大きな励みになります。もし何か問題がございましたら、このメッセージにご返信ください。すぐに対応いたします。"
+    },
+    general: {
+      subject: "ご注文 {{orderId}} についてのお知らせ",
+      body: "{{buyerName|お客}}様、ご注文 {{orderId}} についてご連絡いたします。追跡情報を確認しており、新しい情報があり次第お知らせいたします。ご不明な点がございましたら、いつでもお気軽にお問い合わせください。"
+    }
+  }
+};
+
+module.exports = {
+  TRANSLATED_TEMPLATES
+};
@@ -1,90 +1,272 @@
 // utils/messageTemplates.js
 // Generates ready-to-send messages for Etsy sellers to send to buyers
+//
+// Each situation (status + risk) maps to a template key. Templates are text
+// with {{variable}} placeholders, or {{variable|fallback}} for values an order
+// may not have. Organizations can replace the wording of any key (see
+// services/messageTemplateService.js); the built-ins below are the fallback.
+//
+// Messages are written in one of MESSAGE_LOCALES. The built-ins below are
+// English; other languages come from utils/messageTemplateTranslations.js,
+// and anything unsupported or untranslated falls back to English.
 
-function getMessageTemplate(status, riskLevel, orderId) {
-  // Normalize inputs
+const { carrierTrackingUrl } = require("./trackingUtils");
+const { TRANSLATED_TEMPLATES } = require("./messageTemplateTranslations");
+
+// Placeholders a template may use, with what they stand for
+const MESSAGE_TEMPLATE_VARIABLES = {
+  orderId: "Order number",
+  buyerFirstName: "Buyer's first name",
+  buyerName: "Buyer's full name",
+  shopName: "Your shop or store name",
+  carrier: "Carrier name (USPS, UPS, ...)",
+  trackingNumber: "Tracking number",
+  trackingLink: "Link to the carrier's tracking page",
+  eta: "Expected delivery date",
+  lastLocation: "Location of the latest carrier scan"
+};
+
+const BUILT_IN_TEMPLATES = {
+  exception: {
+    when: "High risk: delivery exception or failed delivery",
+    tone: "urgent",
+    subject: "Important update about your order {{orderId}}",
+    body: "Hi {{buyerFirstName|there}}! I wanted to reach out about your order {{orderId}}. The tracking shows there's been a delivery issue. I'm actively working with the carrier to resolve this and will send you an update within 24 hours. Your satisfaction is my priority!"
+  },
+  stalled: {
+    when: "High risk: tracking stopped updating",
+    tone: "urgent",
+    subject: "Quick check-in about your order {{orderId}}",
+    body: "Hi {{buyerFirstName|there}}! I noticed the tracking for your order {{orderId}} hasn't updated in a while. I'm checking with the carrier now. If we don't see movement in the next 48 hours, I'll send a replacement right away. Thanks for your patience!"
+  },
+  delayed: {
+    when: "Watch: in transit but running slow",
+    tone: "reassuring",
+    subject: "Your order {{orderId}} is on its way!",
+    body: "Hi {{buyerFirstName|there}}! Just wanted to give you a quick update - your order {{orderId}} is in transit but running a bit slower than usual. Carriers are experiencing some delays, but your package is moving. You can follow it here: {{trackingLink}}. I'm keeping an eye on it and will update you if anything changes!"
+  },
+  delivered: {
+    when: "Delivered",
+    tone: "positive",
+    subject: "Your order {{orderId}} has been delivered!",
+    body: "Hi {{buyerFirstName|there}}, great news! Your order {{orderId}} shows as delivered. I hope you love it! If you have any questions or concerns, please don't hesitate to reach out. I'd really appreciate it if you could leave a review when you get a chance. Thanks for your order!"
+  },
+  out_for_delivery: {
+    when: "Out for delivery",
+    tone: "positive",
+    subject: "Your order {{orderId}} is out for delivery today!",
+    body: "Hi {{buyerFirstName|there}}, exciting news! Your order {{orderId}} is out for delivery and should arrive today. Keep an eye out for the carrier. If you have any questions, I'm here to help!"
+  },
+  in_transit: {
+    when: "In transit, on schedule",
+    tone: "neutral",
+    subject: "Your order {{orderId}} is on the way!",
+    body: "Hi {{buyerFirstName|there}}! Your order {{orderId}} is in transit and making good progress. You can expect it to arrive soon, and you can follow it here: {{trackingLink}}. I'm tracking it closely and will let you know if there are any updates. Thanks for your order!"
+  },
+  review_request: {
+    when: "A few days after delivery (messaging rules only)",
+    tone: "positive",
+    subject: "How are you enjoying your order {{orderId}}?",
+    body: "Hi {{buyerFirstName|there}}! Your order {{orderId}} arrived a few days ago and I hope you're loving it. If you have a moment, a review on Etsy would mean a lot to a small shop like {{shopName|mine}}. And if anything isn't right, just reply here and I'll make it right!"
+  },
+  general: {
+    when: "Anything else",
+    tone: "neutral",
+    subject: "Update on your order {{orderId}}",
+    body: "Hi {{buyerFirstName|there}}! I wanted to check in about your order {{orderId}}. I'm monitoring the tracking and will keep you posted on any updates. If you have any questions, feel free to reach out anytime!"
+  }
+};
+
+const MESSAGE_TEMPLATE_KEYS = Object.keys(BUILT_IN_TEMPLATES);
+
+// Languages with built-in wording, by locale code
+const MESSAGE_LOCALES = {
+  en: "English",
+  de: "Deutsch",
+  fr: "Français",
+  es: "Español",
+  it: "Italiano",
+  ja: "日本語"
+};
+
+const DEFAULT_LOCALE = "en";
+
+// Buyer country (ISO 3166-1 alpha-2) to message locale; others get DEFAULT_LOCALE
+const COUNTRY_LOCALES = {
+  DE: "de", AT: "de", CH: "de", LI: "de",
+  FR: "fr", BE: "fr", LU: "fr", MC: "fr",
+  ES: "es", MX: "es", AR: "es", CO: "es", CL: "es", PE: "es", UY: "es",
+  IT: "it", SM: "it",
+  JP: "ja"
+};
+
+// Date formatting for each locale
+const DATE_LOCALES = { en: "en-US", de: "de-DE", fr: "fr-FR", es: "es-ES", it: "it-IT", ja: "ja-JP" };
+
+// Details used to preview a template without a real order
+const PREVIEW_DETAILS = {
+  orderId: "3960433496",
+  buyerName: "Jane Doe",
+  shopName: "Your Shop",
+  carrier: "usps",
+  trackingNumber: "9400111899223197428490",
+  expectedDeliveryAt: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000),
+  lastLocation: "Chicago, IL"
+};
+
+const CARRIER_NAMES = { usps: "USPS", ups: "UPS", fedex: "FedEx", dhl: "DHL" };
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z]+)\s*(?:\|([^}]*))?\}\}/g;
+
+// First name for greetings ("Jane" from "Jane Doe"), or null
+function firstName(buyerName) {
+  const name = String(buyerName || "").trim().split(/\s+/)[0];
+  return name || null;
+}
+
+function formatEta(date, timeZone, locale = DEFAULT_LOCALE) {
+  if (!date) return null;
+  const options = { weekday: "long", month: "long", day: "numeric" };
+  const dateLocale = DATE_LOCALES[locale] || DATE_LOCALES[DEFAULT_LOCALE];
+  try {
+    return new Intl.DateTimeFormat(dateLocale, { ...options, timeZone: timeZone || "UTC" }).format(new Date(date));
+  } catch (error) {
+    return new Intl.DateTimeFormat(dateLocale, { ...options, timeZone: "UTC" }).format(new Date(date));
+  }
+}
+
+/**
+ * The supported locale for a language tag ("de", "de-AT", "fr_CA", "JA"),
+ * or null when there is no built-in wording for its language
+ */
+function normalizeLocale(locale) {
+  if (typeof locale !== "string") return null;
+  const language = locale.trim().toLowerCase().split(/[-_]/)[0];
+  return Object.hasOwn(MESSAGE_LOCALES, language) ? language : null;
+}
+
+/**
+ * Language to write to an order's buyer in, and why: the one chosen by hand
+ * ("manual"), the language of the country the order ships to ("country"), or
+ * DEFAULT_LOCALE ("default"). Etsy does not share the buyer's own language.
+ * @returns {{ locale: string, source: 'manual' | 'country' | 'default' }}
+ */
+function detectOrderLocale(order) {
+  const manual = normalizeLocale(order.messageLocale);
+  if (manual) return { locale: manual, source: "manual" };
+
+  const country = COUNTRY_LOCALES[String(order.shipToCountry || "").toUpperCase()];
+  if (country) return { locale: country, source: "country" };
+
+  return { locale: DEFAULT_LOCALE, source: "default" };
+}
+
+/**
+ * Built-in subject and body of a template in a locale, falling back to English
+ */
+function localizedTemplate(key, locale) {
+  const builtIn = BUILT_IN_TEMPLATES[key];
+  const translated = TRANSLATED_TEMPLATES[locale]?.[key];
+  return translated
+    ? { subject: translated.subject, body: translated.body }
+    : { subject: builtIn.subject, body: builtIn.body };
+}
+
+/**
+ * Which template fits a status and risk level
+ */
+function selectTemplateKey(status, riskLevel) {
   const normalizedStatus = (status || "unknown").toLowerCase();
   const normalizedRisk = (riskLevel || "green").toLowerCase();
-  
-  // High risk scenarios - urgent messages
+
   if (normalizedRisk === "red") {
-    if (normalizedStatus === "exception" || normalizedStatus === "delivery_failed") {
-      return {
-        subject: `Important update about your order ${orderId}`,
-        message: `Hi there! I wanted to reach out about your order ${orderId}. The tracking shows there's been a delivery issue. I'm actively working with the carrier to resolve this and will send you an update within 24 hours. Your satisfaction is my priority!`,
-        tone: "urgent",
-        copyable: true
-      };
-    }
-    
-    if (normalizedStatus === "lost" || normalizedStatus === "unknown") {
-      return {
-        subject: `Quick check-in about your order ${orderId}`,
-        message: `Hi! I noticed the tracking for your order ${orderId} hasn't updated in a while. I'm checking with the carrier now. If we don't see movement in the next 48 hours, I'll send a replacement right away. Thanks for your patience!`,
-        tone: "urgent",
-        copyable: true
-      };
-    }
-  }
-  
-  // Yellow risk - proactive but calm
-  if (normalizedRisk === "yellow") {
-    if (normalizedStatus === "in_transit" || normalizedStatus === "pre_transit") {
-      return {
-        subject: `Your order ${orderId} is on its way!`,
-        message: `Hi! Just wanted to give you a quick update - your order ${orderId} is in transit but running a bit slower than usual. Carriers are experiencing some delays, but your package is moving. I'm keeping an eye on it and will update you if anything changes!`,
-        tone: "reassuring",
-        copyable: true
-      };
-    }
+    if (normalizedStatus === "exception" || normalizedStatus === "delivery_failed") return "exception";
+    if (normalizedStatus === "lost" || normalizedStatus === "unknown") return "stalled";
   }
-  
-  // Green/normal scenarios
-  if (normalizedStatus === "delivered") {
-    return {
-      subject: `Your order ${orderId} has been delivered!`,
-      message: `Great news! Your order ${orderId} shows as delivered. I hope you love it! If you have any questions or concerns, please don't hesitate to reach out. I'd really appreciate it if you could leave a review when you get a chance. Thanks for your order!`,
-      tone: "positive",
-      copyable: true
-    };
+  if (normalizedRisk === "yellow" && (normalizedStatus === "in_transit" || normalizedStatus === "pre_transit")) {
+    return "delayed";
   }
-  
-  if (normalizedStatus === "out_for_delivery") {
-    return {
-      subject: `Your order ${orderId} is out for delivery today!`,
-      message: `Exciting news! Your order ${orderId} is out for delivery and should arrive today. Keep an eye out for the carrier. If you have any questions, I'm here to help!`,
-      tone: "positive",
-      copyable: true
-    };
-  }
-  
-  if (normalizedStatus === "in_transit") {
-    return {
-      subject: `Your order ${orderId} is on the way!`,
-      message: `Hi! Your order ${orderId} is in transit and making good progress. You can expect it to arrive soon. I'm tracking it closely and will let you know if there are any updates. Thanks for your order!`,
-      tone: "neutral",
-      copyable: true
-    };
-  }
-  
-  // Default/fallback
+  if (normalizedStatus === "delivered") return "delivered";
+  if (normalizedStatus === "out_for_delivery") return "out_for_delivery";
+  if (normalizedStatus === "in_transit") return "in_transit";
+  return "general";
+}
+
+/**
+ * Values for every template variable. `details` may hold buyerName, shopName,
+ * carrier, trackingNumber, expectedDeliveryAt, lastLocation, timezone and
+ * locale (for the ETA date); anything missing is left null.
+ */
+function buildMessageVariables(orderId, details = {}) {
+  const carrier = details.carrier && details.carrier !== "unknown" ? details.carrier : null;
+
   return {
-    subject: `Update on your order ${orderId}`,
-    message: `Hi! I wanted to check in about your order ${orderId}. I'm monitoring the tracking and will keep you posted on any updates. If you have any questions, feel free to reach out anytime!`,
-    tone: "neutral",
+    orderId: orderId || null,
+    buyerFirstName: firstName(details.buyerName),
+    buyerName: details.buyerName || null,
+    shopName: details.shopName || null,
+    carrier: carrier ? (CARRIER_NAMES[carrier.toLowerCase()] || carrier) : null,
+    trackingNumber: details.trackingNumber || null,
+    trackingLink: details.trackingNumber ? carrierTrackingUrl(carrier, details.trackingNumber) : null,
+    eta: formatEta(details.expectedDeliveryAt, details.timezone, normalizeLocale(details.locale) || DEFAULT_LOCALE),
+    lastLocation: details.lastLocation || null
+  };
+}
+
+/**
+ * Fill in {{variable}} and {{variable|fallback}} placeholders. Variables
+ * without a value use the fallback, or nothing.
+ */
+function renderTemplate(text, variables) {
+  return String(text).replace(PLACEHOLDER_PATTERN, (match, name, fallback) => {
+    const value = variables[name];
+    if (value !== null && value !== undefined && value !== "") return String(value);
+    return fallback !== undefined ? fallback.trim() : "";
+  });
+}
+
+/**
+ * Names of the variables a template uses
+ */
+function templateVariablesIn(text) {
+  return [...String(text).matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]);
+}
+
+/**
+ * Message for an order's status and risk. `details` fills the variables (see
+ * buildMessageVariables). `details.locale` is the language to write in; an
+ * unsupported one falls back to English. `details.templates`
+ * ({ [key]: { subject, body } }) holds the organization's own wording in that
+ * language, used instead of the built-in. `details.key` picks a template
+ * instead of the one for the status and risk.
+ */
+function getMessageTemplate(status, riskLevel, orderId, details = {}) {
+  const key = details.key && BUILT_IN_TEMPLATES[details.key] ? details.key : selectTemplateKey(status, riskLevel);
+  const locale = normalizeLocale(details.locale) || DEFAULT_LOCALE;
+  const text = localizedTemplate(key, locale);
+  const override = details.templates?.[key];
+  const variables = buildMessageVariables(orderId, { ...details, locale });
+
+  return {
+    key,
+    locale,
+    subject: renderTemplate(override ? override.subject : text.subject, variables),
+    message: renderTemplate(override ? override.body : text.body, variables),
+    tone: BUILT_IN_TEMPLATES[key].tone,
+    custom: Boolean(override),
     copyable: true
   };
 }
 
 // Helper to get just the message text (without metadata)
-function getMessageText(status, riskLevel, orderId) {
-  const template = getMessageTemplate(status, riskLevel, orderId);
+function getMessageText(status, riskLevel, orderId, details) {
+  const template = getMessageTemplate(status, riskLevel, orderId, details);
   return template.message;
 }
 
 // Helper to get message with subject line for email
-function getFullMessage(status, riskLevel, orderId) {
-  const template = getMessageTemplate(status, riskLevel, orderId);
+function getFullMessage(status, riskLevel, orderId, details) {
+  const template = getMessageTemplate(status, riskLevel, orderId, details);
   return {
     subject: template.subject,
     body: template.message
@@ -92,6 +274,20 @@ function getFullMessage(status, riskLevel, orderId) {
 }
 
 module.exports = {
+  MESSAGE_TEMPLATE_VARIABLES,
+  MESSAGE_TEMPLATE_KEYS,
+  MESSAGE_LOCALES,
+  DEFAULT_LOCALE,
+  COUNTRY_LOCALES,
+  BUILT_IN_TEMPLATES,
+  PREVIEW_DETAILS,
+  normalizeLocale,
+  detectOrderLocale,
+  localizedTemplate,
+  selectTemplateKey,
+  buildMessageVariables,
+  renderTemplate,
+  templateVariablesIn,
   getMessageTemplate,
   getMessageText,
   getFullMessage
@@ -0,0 +1,111 @@
+// utils/networkGuard.js
+// Keeps requests to user-supplied URLs (outbound webhooks) off the server's own
+// networks: loopback, private, link-local (cloud metadata at 169.254.169.254),
+// carrier-grade NAT, multicast and reserved addresses, and internal hostnames.
+//
+// checkHostname() is the synchronous check validators can run on a URL;
+// resolvePublicAddress() resolves the host and rejects it when any address is
+// blocked; guardedLookup() does the same as the `lookup` of an http(s) request,
+// so the address connected to is the one that was checked.
+
+const dns = require("dns");
+const net = require("net");
+
+const blocked = new net.BlockList();
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4]
+].forEach(([address, prefix]) => blocked.addSubnet(address, prefix, "ipv4"));
+[
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8]
+].forEach(([address, prefix]) => blocked.addSubnet(address, prefix, "ipv6"));
+
+const INTERNAL_SUFFIXES = [".localhost", ".local", ".internal", ".intranet", ".lan", ".home.arpa"];
+
+/**
+ * Whether an IP address is on a network outbound requests must not reach
+ */
+const isBlockedAddress = (address) => {
+  const family = net.isIP(address);
+  if (family === 4) return blocked.check(address, "ipv4");
+  if (family !== 6) return true;
+
+  // IPv4-mapped (::ffff:10.0.0.1) is checked as the IPv4 address
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return blocked.check(mapped[1], "ipv4");
+  return blocked.check(address, "ipv6");
+};
+
+/**
+ * Reason a URL hostname may not be requested, or null. IP literals are checked
+ * against the blocked networks; names must be dotted and not internal.
+ */
+const checkHostname = (hostname) => {
+  const host = String(hostname || "").toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (net.isIP(host)) {
+    return isBlockedAddress(host) ? "url must not point to a private, loopback or link-local address." : null;
+  }
+  if (!host.includes(".") || host === "localhost" || INTERNAL_SUFFIXES.some((suffix) => host.endsWith(suffix))) {
+    return "url must use a public hostname.";
+  }
+  return null;
+};
+
+/**
+ * Resolve a URL hostname and fail unless every address it resolves to is public
+ * @returns {Promise<{ ok: true, value: string[] } | { ok: false, error: string }>}
+ */
+const resolvePublicAddress = async (hostname) => {
+  const reason = checkHostname(hostname);
+  if (reason) return { ok: false, error: reason };
+
+  let addresses;
+  try {
+    addresses = await dns.promises.lookup(hostname.replace(/^\[|\]$/g, ""), { all: true });
+  } catch (error) {
+    return { ok: false, error: `url host ${hostname} could not be resolved.` };
+  }
+  if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+    return { ok: false, error: "url must not point to a private, loopback or link-local address." };
+  }
+  return { ok: true, value: addresses.map(({ address }) => address) };
+};
+
+/**
+ * dns.lookup replacement for http(s).request that refuses blocked addresses
+ */
+const guardedLookup = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+
+    const refused = addresses.find(({ address }) => isBlockedAddress(address));
+    if (refused || addresses.length === 0) {
+      const blockedError = new Error(`Refused to connect to ${hostname}: not a public address`);
+      blockedError.code = "EADDRBLOCKED";
+      return callback(blockedError);
+    }
+
+    if (options.all) return callback(null, addresses);
+    return callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+module.exports = {
+  isBlockedAddress,
+  checkHostname,
+  resolvePublicAddress,
+  guardedLookup
+};
@@ -20,6 +20,20 @@ const detectCarrier = (trackingNumber) => {
   return "unknown";
 };
 
+// Public tracking page for a shipment; a web search when the carrier has none we know
+const carrierTrackingUrl = (carrier, trackingNumber) => {
+  const number = encodeURIComponent(String(trackingNumber).replace(/\s+/g, ""));
+  const urls = {
+    usps: `https://tools.usps.com/go/TrackConfirmAction?tLabels=${number}`,
+    ups: `https://www.ups.com/track?tracknum=${number}`,
+    fedex: `https://www.fedex.com/fedextrack/?trknbr=${number}`,
+    dhl: `https://www.dhl.com/en/express/tracking.html?AWB=${number}`
+  };
+  return urls[String(carrier || "").toLowerCase()] ||
+    `https://www.google.com/search?q=${encodeURIComponent(`${carrier || ""} tracking`.trim())}+${number}`;
+};
+
 module.exports = {
-  detectCarrier
+  detectCarrier,
+  carrierTrackingUrl
 };
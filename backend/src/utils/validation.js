@@ -1,5 +1,36 @@
+const {
+  RISK_LEVELS,
+  RULE_TYPES,
+  GRACE_SCOPES,
+  SENSITIVITY_FACTORS
+} = require("../services/riskEngine");
+const { AUTO_CHECK_INTERVALS } = require("../services/settingsService");
+const { STORE_PLATFORMS } = require("../services/storeService");
+const { INVITABLE_ROLES } = require("../services/organizationService");
+const { API_KEY_SCOPES } = require("../services/apiKeyService");
+const { WEBHOOK_EVENT_TYPES } = require("../services/webhookService");
+const {
+  ORDER_SORT_FIELDS,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  decodeOrderCursor
+} = require("../services/orderQueryService");
+const { EXPORT_FORMATS, EXPORT_COLUMNS } = require("../services/orderExportService");
+const { MESSAGE_ACTIONS } = require("../services/messageTemplateService");
+const { RULE_TRIGGERS, ORDER_STATUSES } = require("../services/messagingRuleService");
+const {
+  MESSAGE_TEMPLATE_KEYS,
+  MESSAGE_TEMPLATE_VARIABLES,
+  MESSAGE_LOCALES,
+  DEFAULT_LOCALE,
+  templateVariablesIn
+} = require("./messageTemplates");
+const { checkHostname } = require("./networkGuard");
+
 const trimString = (value) => (typeof value === "string" ? value.trim() : value);
 
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
 const validateOrderCheck = (payload) => {
   if (!payload || typeof payload !== "object") {
     return { ok: false, error: "Request body must be a JSON object." };
@@ -74,18 +105,1015 @@ const validateOrderCreate = (payload) => {
   };
 };
 
-const validateOrderList = (query) => {
-  const storeId = trimString(query?.storeId);
+// Fields a column can be mapped to, as in services/orderImportService.js
+const ORDER_ITEMS_MAX = 100;
 
-  if (!storeId) {
-    return { ok: false, error: "storeId query parameter is required." };
+// Amount in major units (12.5) as hundredths (1250)
+const toCents = (amount) => Math.round(amount * 100);
+
+const validateOrderItem = (item, index) => {
+  const label = `items[${index}]`;
+  if (!item || typeof item !== "object") {
+    return { ok: false, error: `${label} must be an object.` };
+  }
+
+  const title = trimString(item.title);
+  if (!title || typeof title !== "string" || title.length > 200) {
+    return { ok: false, error: `${label}.title is required (at most 200 characters).` };
+  }
+
+  const quantity = item.quantity === undefined ? 1 : item.quantity;
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    return { ok: false, error: `${label}.quantity must be a positive integer.` };
+  }
+
+  if (item.price !== undefined && item.price !== null &&
+    (typeof item.price !== "number" || !Number.isFinite(item.price) || item.price < 0)) {
+    return { ok: false, error: `${label}.price must be a non-negative number.` };
+  }
+
+  const sku = trimString(item.sku);
+  if (sku !== undefined && sku !== null && typeof sku !== "string") {
+    return { ok: false, error: `${label}.sku must be a string.` };
+  }
+
+  return {
+    ok: true,
+    value: {
+      title,
+      quantity,
+      priceCents: typeof item.price === "number" ? toCents(item.price) : null,
+      sku: sku || null
+    }
+  };
+};
+
+// Buyer, destination, language, total, ship date and items for manual entry.
+// Only the fields present are returned, so it serves both create and update;
+// null clears a field. orderTotal and item prices are in major units (12.50).
+const validateOrderDetails = (payload) => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: "Request body must be a JSON object." };
+  }
+
+  const value = {};
+
+  for (const field of ["buyerName", "shipToCity"]) {
+    if (payload[field] === undefined) continue;
+    const text = trimString(payload[field]);
+    if (text !== null && (typeof text !== "string" || text.length > 200)) {
+      return { ok: false, error: `${field} must be a string of at most 200 characters.` };
+    }
+    value[field] = text || null;
+  }
+
+  if (payload.buyerEmail !== undefined) {
+    const email = trimString(payload.buyerEmail);
+    if (email && (typeof email !== "string" || !EMAIL_PATTERN.test(email))) {
+      return { ok: false, error: "buyerEmail must be an email address." };
+    }
+    value.buyerEmail = email ? email.toLowerCase() : null;
+  }
+
+  if (payload.shipToCountry !== undefined) {
+    const country = trimString(payload.shipToCountry);
+    if (country && (typeof country !== "string" || !/^[A-Za-z]{2}$/.test(country))) {
+      return { ok: false, error: "shipToCountry must be a two-letter country code." };
+    }
+    value.shipToCountry = country ? country.toUpperCase() : null;
+  }
+
+  if (payload.messageLocale !== undefined) {
+    if (payload.messageLocale !== null && payload.messageLocale !== "") {
+      const locale = validateMessageLocale(payload.messageLocale);
+      if (!locale.ok) return { ok: false, error: locale.error.replace(/^locale/, "messageLocale") };
+      value.messageLocale = locale.value;
+    } else {
+      value.messageLocale = null;
+    }
+  }
+
+  if (payload.orderTotal !== undefined) {
+    if (payload.orderTotal !== null &&
+      (typeof payload.orderTotal !== "number" || !Number.isFinite(payload.orderTotal) || payload.orderTotal < 0)) {
+      return { ok: false, error: "orderTotal must be a non-negative number." };
+    }
+    value.orderTotalCents = payload.orderTotal === null ? null : toCents(payload.orderTotal);
+  }
+
+  if (payload.currency !== undefined) {
+    const currency = trimString(payload.currency);
+    if (currency && (typeof currency !== "string" || !/^[A-Za-z]{3}$/.test(currency))) {
+      return { ok: false, error: "currency must be a three-letter currency code." };
+    }
+    value.currency = currency ? currency.toUpperCase() : null;
+  }
+
+  if (payload.shippedAt !== undefined) {
+    if (payload.shippedAt === null || payload.shippedAt === "") {
+      value.shippedAt = null;
+    } else {
+      const shippedAt = new Date(payload.shippedAt);
+      if (Number.isNaN(shippedAt.getTime())) {
+        return { ok: false, error: "shippedAt must be an ISO date." };
+      }
+      value.shippedAt = shippedAt;
+    }
+  }
+
+  if (payload.items !== undefined) {
+    if (!Array.isArray(payload.items) || payload.items.length > ORDER_ITEMS_MAX) {
+      return { ok: false, error: `items must be an array of at most ${ORDER_ITEMS_MAX} items.` };
+    }
+    const items = [];
+    for (const [index, item] of payload.items.entries()) {
+      const result = validateOrderItem(item, index);
+      if (!result.ok) return result;
+      items.push(result.value);
+    }
+    value.items = items;
+  }
+
+  return { ok: true, value };
+};
+
+const IMPORT_FIELDS = ["orderId", "trackingNumber", "carrier"];
+const IMPORT_DUPLICATE_MODES = ["skip", "update"];
+
+// The CSV travels as text in a JSON body; see services/orderImportService.js
+const validateOrderImport = (payload) => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: "Request body must be a JSON object." };
+  }
+
+  if (typeof payload.csv !== "string" || !payload.csv.trim()) {
+    return { ok: false, error: "csv is required and must be the file contents as a string." };
+  }
+
+  const mapping = {};
+  if (payload.mapping !== undefined && payload.mapping !== null) {
+    if (typeof payload.mapping !== "object" || Array.isArray(payload.mapping)) {
+      return { ok: false, error: "mapping must be an object of field: column header." };
+    }
+    for (const [field, header] of Object.entries(payload.mapping)) {
+      if (!IMPORT_FIELDS.includes(field)) {
+        return { ok: false, error: `mapping fields must be among: ${IMPORT_FIELDS.join(", ")}.` };
+      }
+      if (header !== null && typeof header !== "string") {
+        return { ok: false, error: `mapping.${field} must be a column header or null.` };
+      }
+      mapping[field] = header ? header.trim() : null;
+    }
+  }
+
+  const storeId = trimString(payload.storeId) || null;
+  if (storeId !== null && typeof storeId !== "string") {
+    return { ok: false, error: "storeId must be a string when provided." };
+  }
+
+  const duplicates = payload.duplicates || "skip";
+  if (!IMPORT_DUPLICATE_MODES.includes(duplicates)) {
+    return { ok: false, error: `duplicates must be one of: ${IMPORT_DUPLICATE_MODES.join(", ")}.` };
+  }
+
+  if (payload.dryRun !== undefined && typeof payload.dryRun !== "boolean") {
+    return { ok: false, error: "dryRun must be a boolean when provided." };
+  }
+
+  return {
+    ok: true,
+    value: { csv: payload.csv, mapping, storeId, duplicates, dryRun: payload.dryRun === true }
+  };
+};
+
+const SEARCH_MAX_LENGTH = 100;
+
+// "a,b" or repeated ?x=a&x=b
+const parseListParam = (value) => {
+  if (value === undefined || value === null || value === "") return [];
+  const parts = (Array.isArray(value) ? value : [value]).flatMap((part) => String(part).split(","));
+  return [...new Set(parts.map((part) => part.trim()).filter(Boolean))];
+};
+
+const parseDateParam = (value, name) => {
+  if (value === undefined || value === "") return { ok: true, value: null };
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    return { ok: false, error: `${name} must be an ISO date.` };
+  }
+  return { ok: true, value: date };
+};
+
+// Query for GET /api/orders and /api/orders/summary; see services/orderQueryService.js
+const validateOrderList = (query = {}) => {
+  const storeId = trimString(query.storeId) || null;
+  if (storeId !== null && typeof storeId !== "string") {
+    return { ok: false, error: "storeId must be a string." };
+  }
+
+  const risk = parseListParam(query.risk);
+  const unknownRisk = risk.filter((level) => !RISK_LEVELS.includes(level));
+  if (unknownRisk.length > 0) {
+    return { ok: false, error: `risk must be among: ${RISK_LEVELS.join(", ")}.` };
+  }
+
+  const status = parseListParam(query.status);
+  const carrier = parseListParam(query.carrier);
+
+  const createdFrom = parseDateParam(query.createdFrom, "createdFrom");
+  if (!createdFrom.ok) return createdFrom;
+  const createdTo = parseDateParam(query.createdTo, "createdTo");
+  if (!createdTo.ok) return createdTo;
+
+  const q = typeof query.q === "string" ? query.q.trim() : "";
+  if (q.length > SEARCH_MAX_LENGTH) {
+    return { ok: false, error: `q must be at most ${SEARCH_MAX_LENGTH} characters.` };
+  }
+
+  const sort = query.sort || "createdAt";
+  if (typeof sort !== "string" || !Object.hasOwn(ORDER_SORT_FIELDS, sort)) {
+    return { ok: false, error: `sort must be one of: ${Object.keys(ORDER_SORT_FIELDS).join(", ")}.` };
+  }
+  const direction = query.order || "desc";
+  if (!["asc", "desc"].includes(direction)) {
+    return { ok: false, error: "order must be asc or desc." };
+  }
+
+  let limit = DEFAULT_PAGE_SIZE;
+  if (query.limit !== undefined) {
+    limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return { ok: false, error: `limit must be an integer from 1 to ${MAX_PAGE_SIZE}.` };
+    }
+  }
+
+  let cursor = null;
+  if (query.cursor) {
+    cursor = decodeOrderCursor(query.cursor, sort, direction);
+    if (!cursor) {
+      return { ok: false, error: "cursor is invalid or was issued for a different sort." };
+    }
+  }
+
+  return {
+    ok: true,
+    value: {
+      storeId,
+      risk,
+      status,
+      carrier,
+      createdFrom: createdFrom.value,
+      createdTo: createdTo.value,
+      q: q || null,
+      sort,
+      direction,
+      limit,
+      cursor
+    }
+  };
+};
+
+// Query for GET /api/orders/export: the list filters and sort, plus format,
+// optional columns ("all" for every one) and background=true to force a job
+const validateOrderExport = (query = {}) => {
+  const { limit, cursor, ...listQuery } = query;
+  const list = validateOrderList(listQuery);
+  if (!list.ok) return list;
+
+  const filters = { ...list.value };
+  delete filters.limit;
+  delete filters.cursor;
+
+  const format = query.format || "csv";
+  if (typeof format !== "string" || !Object.hasOwn(EXPORT_FORMATS, format)) {
+    return { ok: false, error: `format must be one of: ${Object.keys(EXPORT_FORMATS).join(", ")}.` };
+  }
+
+  let columns = parseListParam(query.columns);
+  if (columns.includes("all")) {
+    columns = [...EXPORT_COLUMNS];
+  }
+  const unknownColumns = columns.filter((column) => !EXPORT_COLUMNS.includes(column));
+  if (unknownColumns.length > 0) {
+    return { ok: false, error: `columns must be among: ${EXPORT_COLUMNS.join(", ")} (or all).` };
+  }
+
+  if (query.background !== undefined && !["true", "false"].includes(query.background)) {
+    return { ok: false, error: "background must be true or false." };
+  }
+
+  return {
+    ok: true,
+    value: { format, columns, filters, background: query.background === "true" }
+  };
+};
+
+const validateRiskRule = (rule, index) => {
+  const label = `rules[${index}]`;
+
+  if (!rule || typeof rule !== "object") {
+    return { ok: false, error: `${label} must be an object.` };
+  }
+
+  const code = trimString(rule.code);
+  if (!code || typeof code !== "string") {
+    return { ok: false, error: `${label}.code is required and must be a non-empty string.` };
+  }
+
+  if (!RULE_TYPES.includes(rule.type)) {
+    return { ok: false, error: `${label}.type must be one of: ${RULE_TYPES.join(", ")}.` };
+  }
+
+  if (rule.enabled !== undefined && typeof rule.enabled !== "boolean") {
+    return { ok: false, error: `${label}.enabled must be a boolean when provided.` };
+  }
+
+  const value = { code, type: rule.type };
+  if (rule.enabled !== undefined) value.enabled = rule.enabled;
+
+  if (rule.type === "status" || rule.type === "no_scan" || rule.type === "late") {
+    if (
+      !Array.isArray(rule.statuses) ||
+      rule.statuses.length === 0 ||
+      !rule.statuses.every(status => typeof status === "string" && status.trim())
+    ) {
+      return { ok: false, error: `${label}.statuses must be a non-empty array of strings.` };
+    }
+
+    if (!RISK_LEVELS.includes(rule.level)) {
+      return { ok: false, error: `${label}.level must be one of: ${RISK_LEVELS.join(", ")}.` };
+    }
+
+    value.statuses = rule.statuses.map(status => status.trim().toLowerCase());
+    value.level = rule.level;
+
+    if (rule.minOrderValue !== undefined) {
+      if (typeof rule.minOrderValue !== "number" || !Number.isFinite(rule.minOrderValue) || rule.minOrderValue < 0) {
+        return { ok: false, error: `${label}.minOrderValue must be a non-negative number when provided.` };
+      }
+      value.minOrderValue = rule.minOrderValue;
+    }
+
+    if (rule.countries !== undefined) {
+      if (
+        !Array.isArray(rule.countries) ||
+        !rule.countries.every(country => typeof country === "string" && /^[A-Za-z]{2}$/.test(country.trim()))
+      ) {
+        return { ok: false, error: `${label}.countries must be an array of two-letter country codes.` };
+      }
+      value.countries = rule.countries.map(country => country.trim().toUpperCase());
+    }
+  }
+
+  if (rule.type === "no_scan" || rule.type === "late" || rule.type === "grace") {
+    if (typeof rule.hours !== "number" || !Number.isFinite(rule.hours) || rule.hours < 0) {
+      return { ok: false, error: `${label}.hours must be a non-negative number.` };
+    }
+    value.hours = rule.hours;
+  }
+
+  if (rule.type === "no_scan" && rule.withoutEta !== undefined) {
+    if (typeof rule.withoutEta !== "boolean") {
+      return { ok: false, error: `${label}.withoutEta must be a boolean when provided.` };
+    }
+    value.withoutEta = rule.withoutEta;
+  }
+
+  if (rule.type === "grace") {
+    if (!GRACE_SCOPES.includes(rule.scope)) {
+      return { ok: false, error: `${label}.scope must be one of: ${GRACE_SCOPES.join(", ")}.` };
+    }
+    value.scope = rule.scope;
+  }
+
+  return { ok: true, value };
+};
+
+const validateRiskRuleSet = (payload) => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: "Request body must be a JSON object." };
+  }
+
+  const value = {};
+
+  if (payload.sensitivity !== undefined) {
+    if (!Object.keys(SENSITIVITY_FACTORS).includes(payload.sensitivity)) {
+      return {
+        ok: false,
+        error: `sensitivity must be one of: ${Object.keys(SENSITIVITY_FACTORS).join(", ")}.`
+      };
+    }
+    value.sensitivity = payload.sensitivity;
+  }
+
+  // null resets to the default rules
+  if (payload.rules === null) {
+    value.rules = null;
+  } else if (payload.rules !== undefined) {
+    if (!Array.isArray(payload.rules)) {
+      return { ok: false, error: "rules must be an array or null." };
+    }
+
+    const rules = [];
+    const codes = new Set();
+    for (const [index, rule] of payload.rules.entries()) {
+      const result = validateRiskRule(rule, index);
+      if (!result.ok) return result;
+
+      if (codes.has(result.value.code)) {
+        return { ok: false, error: `Duplicate rule code "${result.value.code}".` };
+      }
+      codes.add(result.value.code);
+      rules.push(result.value);
+    }
+    value.rules = rules;
+  }
+
+  return { ok: true, value };
+};
+
+const SETTINGS_TOGGLES = ["emailOnRiskChange", "emailOnDelivery", "emailOnException"];
+
+const isValidTimezone = (timezone) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Partial update: only the fields present are validated and returned.
+// defaultStoreId ownership is checked by the route.
+const validateSettingsUpdate = (payload) => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: "Request body must be a JSON object." };
+  }
+
+  const value = {};
+
+  for (const toggle of SETTINGS_TOGGLES) {
+    if (payload[toggle] === undefined) continue;
+    if (typeof payload[toggle] !== "boolean") {
+      return { ok: false, error: `${toggle} must be a boolean.` };
+    }
+    value[toggle] = payload[toggle];
+  }
+
+  if (payload.autoCheckInterval !== undefined) {
+    if (!Object.keys(AUTO_CHECK_INTERVALS).includes(payload.autoCheckInterval)) {
+      return {
+        ok: false,
+        error: `autoCheckInterval must be one of: ${Object.keys(AUTO_CHECK_INTERVALS).join(", ")}.`
+      };
+    }
+    value.autoCheckInterval = payload.autoCheckInterval;
+  }
+
+  if (payload.riskSensitivity !== undefined) {
+    if (!Object.keys(SENSITIVITY_FACTORS).includes(payload.riskSensitivity)) {
+      return {
+        ok: false,
+        error: `riskSensitivity must be one of: ${Object.keys(SENSITIVITY_FACTORS).join(", ")}.`
+      };
+    }
+    value.riskSensitivity = payload.riskSensitivity;
+  }
+
+  if (payload.timezone !== undefined) {
+    const timezone = trimString(payload.timezone);
+    if (!timezone || typeof timezone !== "string" || !isValidTimezone(timezone)) {
+      return { ok: false, error: "timezone must be a valid IANA time zone (e.g. America/New_York)." };
+    }
+    value.timezone = timezone;
+  }
+
+  if (payload.shipFromCountry !== undefined) {
+    const country = trimString(payload.shipFromCountry);
+    if (country && (typeof country !== "string" || !/^[A-Za-z]{2}$/.test(country))) {
+      return { ok: false, error: "shipFromCountry must be a two-letter country code or null." };
+    }
+    value.shipFromCountry = country ? country.toUpperCase() : null;
+  }
+
+  if (payload.defaultStoreId !== undefined) {
+    const defaultStoreId = trimString(payload.defaultStoreId);
+    if (defaultStoreId !== null && (typeof defaultStoreId !== "string" || !defaultStoreId)) {
+      return { ok: false, error: "defaultStoreId must be a non-empty string or null." };
+    }
+    value.defaultStoreId = defaultStoreId;
+  }
+
+  return { ok: true, value };
+};
+
+const STORE_NAME_MAX_LENGTH = 100;
+
+const validateStoreName = (value) => {
+  const storeName = trimString(value);
+  if (!storeName || typeof storeName !== "string") {
+    return { ok: false, error: "storeName is required and must be a non-empty string." };
+  }
+  if (storeName.length > STORE_NAME_MAX_LENGTH) {
+    return { ok: false, error: `storeName must be at most ${STORE_NAME_MAX_LENGTH} characters.` };
+  }
+  return { ok: true, value: storeName };
+};
+
+const validateStoreCreate = (payload) => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: "Request body must be a JSON object." };
+  }
+
+  const name = validateStoreName(payload.storeName);
+  if (!name.ok) return name;
+
+  const platform = trimString(payload.platform) || "etsy";
+  if (!STORE_PLATFORMS.includes(platform)) {
+    return { ok: false, error: `platform must be one of: ${STORE_PLATFORMS.join(", ")}.` };
+  }
+
+  return { ok: true, value: { storeName: name.value, platform } };
+};
+
+// Only the name can change; the platform is fixed once orders exist
+const validateStoreUpdate = (payload) => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: "Request body must be a JSON object." };
+  }
+
+  const name = validateStoreName(payload.storeName);
+  if (!name.ok) return name;
+
+  return { ok: true, value: { storeName: name.value } };
+};
+
+const ORGANIZATION_NAME_MAX_LENGTH = 100;
+
+const validateOrganizationUpdate = (payload) => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: "Request body must be a JSON object." };
+  }
+
+  const name = trimString(payload.name);
+  if (!name || typeof name !== "string") {
+    return { ok: false, error: "name is required and must be a non-empty string." };
+  }
+  if (name.length > ORGANIZATION_NAME_MAX_LENGTH) {
+    return { ok: false, error: `name must be at most ${ORGANIZATION_NAME_MAX_LENGTH} characters.` };
+  }
+
+  return { ok: true, value: { name } };
+};
+
+const validateRole = (value) => {
+  if (!INVITABLE_ROLES.includes(value)) {
+    return { ok: false, error: `role must be one of: ${INVITABLE_ROLES.join(", ")}.` };
+  }
+  return { ok: true, value };
+};
+
+const validateInvitation = (payload) => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: "Request body must be a JSON object." };
+  }
+
+  const email = trimString(payload.email);
+  if (!email || typeof email !== "string" || !EMAIL_PATTERN.test(email)) {
+    return { ok: false, error: "email is required and must be a valid email address." };
+  }
+
+  const role = validateRole(payload.role);
+  if (!role.ok) return role;
+
+  return { ok: true, value: { email: email.toLowerCase(), role: role.value } };
+};
+
+// Ownership is never assigned this way; see INVITABLE_ROLES
+const validateMemberUpdate = (payload) => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: "Request body must be a JSON object." };
+  }
+
+  const role = validateRole(payload.role);
+  if (!role.ok) return role;
+
+  return { ok: true, value: { role: role.value } };
+};
+
+const MAX_API_KEY_NAME_LENGTH = 100;
+
+const validateApiKeyCreate = (payload) => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: "Request body must be a JSON object." };
+  }
+
+  const name = trimString(payload.name);
+  if (!name || typeof name !== "string") {
+    return { ok: false, error: "name is required and must be a non-empty string." };
+  }
+  if (name.length > MAX_API_KEY_NAME_LENGTH) {
+    return { ok: false, error: `name must be at most ${MAX_API_KEY_NAME_LENGTH} characters.` };
+  }
+
+  const { scopes } = payload;
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    return { ok: false, error: "scopes must be a non-empty array." };
+  }
+  const unknown = scopes.filter((scope) => !API_KEY_SCOPES.includes(scope));
+  if (unknown.length > 0) {
+    return {
+      ok: false,
+      error: `Unknown scopes: ${unknown.join(", ")}. Allowed: ${API_KEY_SCOPES.join(", ")}.`
+    };
+  }
+
+  return { ok: true, value: { name, scopes: [...new Set(scopes)] } };
+};
+
+const WEBHOOK_URL_MAX_LENGTH = 2000;
+const WEBHOOK_DESCRIPTION_MAX_LENGTH = 200;
+const WEBHOOK_EVENTS = Object.values(WEBHOOK_EVENT_TYPES);
+
+const validateWebhookUrl = (value) => {
+  const url = trimString(value);
+  if (!url || typeof url !== "string" || url.length > WEBHOOK_URL_MAX_LENGTH) {
+    return { ok: false, error: "url is required and must be a valid http(s) URL." };
+  }
+  let parsed;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    return { ok: false, error: "url is required and must be a valid http(s) URL." };
+  }
+  if (!["http:", "https:"].includes(parsed.protocol)) {
+    return { ok: false, error: "url is required and must be a valid http(s) URL." };
+  }
+  // The host is resolved again on save and before every delivery (see webhookService)
+  const hostError = checkHostname(parsed.hostname);
+  if (hostError) {
+    return { ok: false, error: hostError };
+  }
+  return { ok: true, value: parsed.toString() };
+};
+
+const validateWebhookEventTypes = (value) => {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { ok: false, error: `eventTypes must be a non-empty array of: ${WEBHOOK_EVENTS.join(", ")}.` };
+  }
+  const unknown = value.filter((type) => !WEBHOOK_EVENTS.includes(type));
+  if (unknown.length > 0) {
+    return { ok: false, error: `Unknown eventTypes: ${unknown.join(", ")}. Allowed: ${WEBHOOK_EVENTS.join(", ")}.` };
+  }
+  return { ok: true, value: [...new Set(value)] };
+};
+
+// Create needs url and eventTypes; an update may change any subset of the
+// fields, and rotateSecret: true issues a new signing secret
+const validateWebhookEndpoint = (payload, { partial = false } = {}) => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: "Request body must be a JSON object." };
+  }
+
+  const value = {};
+
+  if (!partial || payload.url !== undefined) {
+    const url = validateWebhookUrl(payload.url);
+    if (!url.ok) return url;
+    value.url = url.value;
+  }
+
+  if (!partial || payload.eventTypes !== undefined) {
+    const eventTypes = validateWebhookEventTypes(payload.eventTypes);
+    if (!eventTypes.ok) return eventTypes;
+    value.eventTypes = eventTypes.value;
+  }
+
+  if (payload.description !== undefined && payload.description !== null) {
+    const description = trimString(payload.description);
+    if (typeof description !== "string" || description.length > WEBHOOK_DESCRIPTION_MAX_LENGTH) {
+      return {
+        ok: false,
+        error: `description must be a string of at most ${WEBHOOK_DESCRIPTION_MAX_LENGTH} characters.`
+      };
+    }
+    value.description = description || null;
+  } else if (payload.description === null) {
+    value.description = null;
+  }
+
+  if (payload.active !== undefined) {
+    if (typeof payload.active !== "boolean") {
+      return { ok: false, error: "active must be a boolean when provided." };
+    }
+    value.active = payload.active;
+  }
+
+  if (partial && payload.rotateSecret !== undefined) {
+    if (typeof payload.rotateSecret !== "boolean") {
+      return { ok: false, error: "rotateSecret must be a boolean when provided." };
+    }
+    value.rotateSecret = payload.rotateSecret;
+  }
+
+  if (partial && Object.keys(value).length === 0) {
+    return { ok: false, error: "Provide at least one field to update." };
+  }
+
+  return { ok: true, value };
+};
+
+const MESSAGE_SUBJECT_MAX_LENGTH = 200;
+const MESSAGE_BODY_MAX_LENGTH = 5000;
+
+// Required text of at most `maxLength` characters using only known variables
+const validateTemplateText = (value, field, maxLength) => {
+  const text = trimString(value);
+  if (typeof text !== "string" || text.length === 0 || text.length > maxLength) {
+    return { ok: false, error: `${field} is required and must be at most ${maxLength} characters.` };
+  }
+
+  const unknown = templateVariablesIn(text).filter(name => !Object.hasOwn(MESSAGE_TEMPLATE_VARIABLES, name));
+  if (unknown.length > 0) {
+    return {
+      ok: false,
+      error: `Unknown variable {{${unknown[0]}}} in ${field}. Use: ${Object.keys(MESSAGE_TEMPLATE_VARIABLES).join(", ")}.`
+    };
+  }
+
+  return { ok: true, value: text };
+};
+
+// A locale with built-in wording; omitted means `fallback`
+const validateMessageLocale = (locale, { fallback = DEFAULT_LOCALE } = {}) => {
+  if (locale === undefined || locale === null) return { ok: true, value: fallback };
+  if (typeof locale !== "string" || !Object.hasOwn(MESSAGE_LOCALES, locale)) {
+    return { ok: false, error: `locale must be one of: ${Object.keys(MESSAGE_LOCALES).join(", ")}.` };
+  }
+  return { ok: true, value: locale };
+};
+
+const validateTemplateKey = (key, { required = true } = {}) => {
+  if (key === undefined || key === null) {
+    return required
+      ? { ok: false, error: `key must be one of: ${MESSAGE_TEMPLATE_KEYS.join(", ")}.` }
+      : { ok: true, value: null };
+  }
+  if (!MESSAGE_TEMPLATE_KEYS.includes(key)) {
+    return { ok: false, error: `key must be one of: ${MESSAGE_TEMPLATE_KEYS.join(", ")}.` };
+  }
+  return { ok: true, value: key };
+};
+
+// PUT /api/message-templates/:key - { subject, body }
+const validateMessageTemplate = (payload) => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: "Request body must be a JSON object." };
+  }
+
+  const subject = validateTemplateText(payload.subject, "subject", MESSAGE_SUBJECT_MAX_LENGTH);
+  if (!subject.ok) return subject;
+  const body = validateTemplateText(payload.body, "body", MESSAGE_BODY_MAX_LENGTH);
+  if (!body.ok) return body;
+
+  return { ok: true, value: { subject: subject.value, body: body.value } };
+};
+
+// POST /api/message-templates/preview - { key, locale?, subject?, body?, orderId? };
+// without subject and body the template in effect is previewed, and without
+// locale the order's language (or English for sample data) is used
+const validateMessagePreview = (payload) => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: "Request body must be a JSON object." };
+  }
+
+  const key = validateTemplateKey(payload.key);
+  if (!key.ok) return key;
+  const locale = validateMessageLocale(payload.locale, { fallback: null });
+  if (!locale.ok) return locale;
+  const value = { key: key.value, locale: locale.value, template: null, orderId: null };
+
+  if (payload.subject !== undefined || payload.body !== undefined) {
+    const template = validateMessageTemplate(payload);
+    if (!template.ok) return template;
+    value.template = template.value;
+  }
+
+  if (payload.orderId !== undefined && payload.orderId !== null) {
+    if (typeof payload.orderId !== "string" || payload.orderId.trim() === "") {
+      return { ok: false, error: "orderId must be a non-empty string when provided." };
+    }
+    value.orderId = payload.orderId.trim();
+  }
+
+  return { ok: true, value };
+};
+
+// POST /api/orders/:id/messages - { action, templateKey?, locale?, subject?, message }
+const validateMessageLog = (payload) => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: "Request body must be a JSON object." };
+  }
+
+  if (!MESSAGE_ACTIONS.includes(payload.action)) {
+    return { ok: false, error: `action must be one of: ${MESSAGE_ACTIONS.join(", ")}.` };
+  }
+
+  const templateKey = validateTemplateKey(payload.templateKey, { required: false });
+  if (!templateKey.ok) return { ok: false, error: templateKey.error.replace(/^key/, "templateKey") };
+  const locale = validateMessageLocale(payload.locale, { fallback: null });
+  if (!locale.ok) return locale;
+
+  let subject = null;
+  if (payload.subject !== undefined && payload.subject !== null) {
+    subject = trimString(payload.subject);
+    if (typeof subject !== "string" || subject.length > MESSAGE_SUBJECT_MAX_LENGTH) {
+      return { ok: false, error: `subject must be a string of at most ${MESSAGE_SUBJECT_MAX_LENGTH} characters.` };
+    }
+  }
+
+  const message = trimString(payload.message);
+  if (typeof message !== "string" || message.length === 0 || message.length > MESSAGE_BODY_MAX_LENGTH) {
+    return { ok: false, error: `message is required and must be at most ${MESSAGE_BODY_MAX_LENGTH} characters.` };
+  }
+
+  return {
+    ok: true,
+    value: {
+      action: payload.action,
+      templateKey: templateKey.value,
+      locale: locale.value,
+      subject: subject || null,
+      message
+    }
+  };
+};
+
+// POST /api/orders/:id/messages/send - { key?, locale?, subject?, message? };
+// omitted fields come from the recommended message
+const validateMessageSend = (payload) => {
+  const body = payload && typeof payload === "object" ? payload : {};
+
+  const key = validateTemplateKey(body.key, { required: false });
+  if (!key.ok) return key;
+  const locale = validateMessageLocale(body.locale, { fallback: null });
+  if (!locale.ok) return locale;
+
+  const value = { key: key.value, locale: locale.value, subject: null, message: null };
+  if (body.subject !== undefined && body.subject !== null) {
+    const subject = trimString(body.subject);
+    if (typeof subject !== "string" || subject.length === 0 || subject.length > MESSAGE_SUBJECT_MAX_LENGTH) {
+      return { ok: false, error: `subject must be a non-empty string of at most ${MESSAGE_SUBJECT_MAX_LENGTH} characters.` };
+    }
+    value.subject = subject;
+  }
+  if (body.message !== undefined && body.message !== null) {
+    const message = trimString(body.message);
+    if (typeof message !== "string" || message.length === 0 || message.length > MESSAGE_BODY_MAX_LENGTH) {
+      return { ok: false, error: `message must be a non-empty string of at most ${MESSAGE_BODY_MAX_LENGTH} characters.` };
+    }
+    value.message = message;
+  }
+
+  return { ok: true, value };
+};
+
+const MESSAGING_RULE_NAME_MAX_LENGTH = 100;
+const MESSAGING_RULE_MAX_DELAY_HOURS = 30 * 24;
+const MESSAGING_RULE_MAX_PER_ORDER = 10;
+
+const validateHour = (value, field) => {
+  if (value === null) return { ok: true, value: null };
+  if (!Number.isInteger(value) || value < 0 || value > 23) {
+    return { ok: false, error: `${field} must be an hour from 0 to 23, or null.` };
+  }
+  return { ok: true, value };
+};
+
+// Create needs name, trigger and toValues; an update may change any subset,
+// with trigger and toValues sent together. toValues are risk levels for
+// risk_changed and statuses for status_changed.
+const validateMessagingRule = (payload, { partial = false } = {}) => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, error: "Request body must be a JSON object." };
+  }
+
+  const value = {};
+
+  if (!partial || payload.name !== undefined) {
+    const name = trimString(payload.name);
+    if (typeof name !== "string" || name.length === 0 || name.length > MESSAGING_RULE_NAME_MAX_LENGTH) {
+      return { ok: false, error: `name is required and must be at most ${MESSAGING_RULE_NAME_MAX_LENGTH} characters.` };
+    }
+    value.name = name;
+  }
+
+  // toValues only make sense for one trigger, so they change together
+  if (!partial || payload.trigger !== undefined || payload.toValues !== undefined) {
+    if (!RULE_TRIGGERS.includes(payload.trigger)) {
+      return { ok: false, error: `trigger must be one of: ${RULE_TRIGGERS.join(", ")}.` };
+    }
+    value.trigger = payload.trigger;
+
+    const allowed = value.trigger === "status_changed" ? ORDER_STATUSES : RISK_LEVELS;
+    if (
+      !Array.isArray(payload.toValues) ||
+      payload.toValues.length === 0 ||
+      payload.toValues.some((entry) => !allowed.includes(entry))
+    ) {
+      return { ok: false, error: `toValues must be a non-empty array of: ${allowed.join(", ")}.` };
+    }
+    value.toValues = [...new Set(payload.toValues)];
+  }
+
+  if (payload.statuses !== undefined) {
+    if (!Array.isArray(payload.statuses) || payload.statuses.some((status) => !ORDER_STATUSES.includes(status))) {
+      return { ok: false, error: `statuses must be an array of: ${ORDER_STATUSES.join(", ")}.` };
+    }
+    value.statuses = [...new Set(payload.statuses)];
+  } else if (!partial) {
+    value.statuses = [];
+  }
+
+  if (payload.templateKey !== undefined) {
+    const templateKey = validateTemplateKey(payload.templateKey, { required: false });
+    if (!templateKey.ok) return { ok: false, error: templateKey.error.replace(/^key/, "templateKey") };
+    value.templateKey = templateKey.value;
+  }
+
+  if (payload.delayHours !== undefined) {
+    if (!Number.isInteger(payload.delayHours) || payload.delayHours < 0 || payload.delayHours > MESSAGING_RULE_MAX_DELAY_HOURS) {
+      return { ok: false, error: `delayHours must be a whole number from 0 to ${MESSAGING_RULE_MAX_DELAY_HOURS}.` };
+    }
+    value.delayHours = payload.delayHours;
+  }
+
+  if (payload.quietHoursStart !== undefined || payload.quietHoursEnd !== undefined) {
+    const start = validateHour(payload.quietHoursStart ?? null, "quietHoursStart");
+    if (!start.ok) return start;
+    const end = validateHour(payload.quietHoursEnd ?? null, "quietHoursEnd");
+    if (!end.ok) return end;
+    if ((start.value === null) !== (end.value === null)) {
+      return { ok: false, error: "quietHoursStart and quietHoursEnd must be set together." };
+    }
+    if (start.value !== null && start.value === end.value) {
+      return { ok: false, error: "quietHoursStart and quietHoursEnd must differ." };
+    }
+    value.quietHoursStart = start.value;
+    value.quietHoursEnd = end.value;
+  }
+
+  if (payload.timezone !== undefined) {
+    const timezone = trimString(payload.timezone);
+    if (!timezone || typeof timezone !== "string" || !isValidTimezone(timezone)) {
+      return { ok: false, error: "timezone must be a valid IANA time zone (e.g. America/New_York)." };
+    }
+    value.timezone = timezone;
+  }
+
+  if (payload.maxPerOrder !== undefined) {
+    if (!Number.isInteger(payload.maxPerOrder) || payload.maxPerOrder < 1 || payload.maxPerOrder > MESSAGING_RULE_MAX_PER_ORDER) {
+      return { ok: false, error: `maxPerOrder must be a whole number from 1 to ${MESSAGING_RULE_MAX_PER_ORDER}.` };
+    }
+    value.maxPerOrder = payload.maxPerOrder;
+  }
+
+  for (const field of ["requireApproval", "active"]) {
+    if (payload[field] !== undefined) {
+      if (typeof payload[field] !== "boolean") {
+        return { ok: false, error: `${field} must be a boolean when provided.` };
+      }
+      value[field] = payload[field];
+    }
+  }
+
+  if (partial && Object.keys(value).length === 0) {
+    return { ok: false, error: "Provide at least one field to update." };
   }
 
-  return { ok: true, value: { storeId } };
+  return { ok: true, value };
 };
 
 module.exports = {
+  validateApiKeyCreate,
+  validateInvitation,
+  validateMemberUpdate,
+  validateMessageLocale,
+  validateMessageLog,
+  validateMessagePreview,
+  validateMessageSend,
+  validateMessageTemplate,
+  validateMessagingRule,
   validateOrderCheck,
   validateOrderCreate,
-  validateOrderList
+  validateOrderDetails,
+  validateOrderImport,
+  validateOrderList,
+  validateOrderExport,
+  validateOrganizationUpdate,
+  validateRiskRuleSet,
+  validateSettingsUpdate,
+  validateStoreCreate,
+  validateStoreUpdate,
+  validateWebhookEndpoint
 };
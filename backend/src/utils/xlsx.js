@@ -0,0 +1,217 @@
+// utils/xlsx.js
+// Minimal XLSX writer: one worksheet of strings, numbers and dates, zipped
+// with zlib as the rows come in. Enough for exports that open in Excel,
+// Numbers and Sheets without pulling in a spreadsheet library.
+
+const zlib = require("zlib");
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+// `previous` continues the checksum of data that came before `buffer`
+function crc32(buffer, previous = 0) {
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+const UTF8_NAMES = 0x0800;
+// Sizes and CRC follow the data in a descriptor, for entries written as they go
+const DATA_DESCRIPTOR = 0x0008;
+
+function localHeader(entry) {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(20, 4); // version needed
+  header.writeUInt16LE(entry.flags, 6);
+  header.writeUInt16LE(8, 8); // deflate
+  if (!(entry.flags & DATA_DESCRIPTOR)) {
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+  }
+  header.writeUInt16LE(entry.name.length, 26);
+  return Buffer.concat([header, entry.name]);
+}
+
+function centralHeader(entry) {
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(0x02014b50, 0);
+  header.writeUInt16LE(20, 4); // version made by
+  header.writeUInt16LE(20, 6);
+  header.writeUInt16LE(entry.flags, 8);
+  header.writeUInt16LE(8, 10);
+  header.writeUInt32LE(entry.crc, 16);
+  header.writeUInt32LE(entry.compressedSize, 20);
+  header.writeUInt32LE(entry.size, 24);
+  header.writeUInt16LE(entry.name.length, 28);
+  header.writeUInt32LE(entry.offset, 42);
+  return Buffer.concat([header, entry.name]);
+}
+
+/**
+ * ZIP archive (deflated entries, no zip64) written piece by piece. file()
+ * adds a whole entry; stream() opens one whose data arrives in parts, each
+ * deflated on its own with a sync flush, so the parts concatenate into one
+ * valid deflate stream. end() returns the central directory.
+ */
+function createZipWriter() {
+  const entries = [];
+  let offset = 0;
+
+  const emit = (buffers) => {
+    const buffer = Buffer.concat(buffers);
+    offset += buffer.length;
+    return buffer;
+  };
+
+  return {
+    file(name, data) {
+      const raw = Buffer.isBuffer(data) ? data : Buffer.from(data, "utf8");
+      const compressed = zlib.deflateRawSync(raw);
+      const entry = {
+        name: Buffer.from(name, "utf8"),
+        flags: UTF8_NAMES,
+        crc: crc32(raw),
+        compressedSize: compressed.length,
+        size: raw.length,
+        offset
+      };
+      entries.push(entry);
+      return emit([localHeader(entry), compressed]);
+    },
+
+    stream(name) {
+      const entry = { name: Buffer.from(name, "utf8"), flags: UTF8_NAMES | DATA_DESCRIPTOR, crc: 0, compressedSize: 0, size: 0, offset };
+      entries.push(entry);
+      let header = localHeader(entry);
+
+      const part = (data, final) => {
+        const raw = Buffer.from(data, "utf8");
+        const compressed = zlib.deflateRawSync(raw, {
+          finishFlush: final ? zlib.constants.Z_FINISH : zlib.constants.Z_SYNC_FLUSH
+        });
+        entry.crc = crc32(raw, entry.crc);
+        entry.size += raw.length;
+        entry.compressedSize += compressed.length;
+        const buffers = header ? [header, compressed] : [compressed];
+        header = null;
+        return buffers;
+      };
+
+      return {
+        write: (data) => emit(part(data, false)),
+        close(data = "") {
+          const buffers = part(data, true);
+          const descriptor = Buffer.alloc(16);
+          descriptor.writeUInt32LE(0x08074b50, 0);
+          descriptor.writeUInt32LE(entry.crc, 4);
+          descriptor.writeUInt32LE(entry.compressedSize, 8);
+          descriptor.writeUInt32LE(entry.size, 12);
+          return emit([...buffers, descriptor]);
+        }
+      };
+    },
+
+    end() {
+      const directory = Buffer.concat(entries.map(centralHeader));
+      const record = Buffer.alloc(22);
+      record.writeUInt32LE(0x06054b50, 0);
+      record.writeUInt16LE(entries.length, 8);
+      record.writeUInt16LE(entries.length, 10);
+      record.writeUInt32LE(directory.length, 12);
+      record.writeUInt32LE(offset, 16);
+      return emit([directory, record]);
+    }
+  };
+}
+
+// Control characters are not allowed in XML 1.0
+function escapeXml(value) {
+  return String(value)
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// A1-style column letters for a zero-based index
+function columnName(index) {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function cellXml(value, ref) {
+  if (value === null || value === undefined || value === "") return "";
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c r="${ref}"><v>${value}</v></c>`;
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+/**
+ * XLSX file with one sheet, written as it goes so large sheets never sit in
+ * memory whole: start() returns the first bytes, addRows(rows) the bytes for
+ * more rows (arrays of cell values, the first usually the header) and
+ * finish() the rest. Dates are written as ISO 8601 text.
+ */
+function createXlsxWriter({ sheetName = "Sheet1" } = {}) {
+  const archive = createZipWriter();
+  let sheet = null;
+  let rowCount = 0;
+
+  return {
+    start() {
+      const parts = [
+        archive.file("[Content_Types].xml", '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+          + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+          + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+          + '<Default Extension="xml" ContentType="application/xml"/>'
+          + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+          + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+          + "</Types>"),
+        archive.file("_rels/.rels", '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+          + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+          + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+          + "</Relationships>"),
+        archive.file("xl/workbook.xml", '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+          + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+          + `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>`
+          + "</workbook>"),
+        archive.file("xl/_rels/workbook.xml.rels", '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+          + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+          + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+          + "</Relationships>")
+      ];
+      sheet = archive.stream("xl/worksheets/sheet1.xml");
+      parts.push(sheet.write('<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>'));
+      return Buffer.concat(parts);
+    },
+
+    addRows(rows) {
+      const xml = rows.map((values) => {
+        rowCount++;
+        const cells = values.map((value, columnIndex) => cellXml(value, `${columnName(columnIndex)}${rowCount}`)).join("");
+        return `<row r="${rowCount}">${cells}</row>`;
+      }).join("");
+      return sheet.write(xml);
+    },
+
+    finish() {
+      return Buffer.concat([sheet.close("</sheetData></worksheet>"), archive.end()]);
+    }
+  };
+}
+
+module.exports = {
+  createXlsxWriter
+};
@@ -0,0 +1,119 @@
+// test/authenticate.test.js
+// Session tokens through middleware/authenticate.js, signed by the local
+// stand-in for Clerk and checked by the real verifier.
+
+const { describe, it, before, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { installPrismaStub } = require('./helpers/prisma');
+
+const upserts = [];
+installPrismaStub({
+  user: {
+    upsert: async (args) => {
+      upserts.push(args);
+      return args.create;
+    }
+  }
+});
+
+const { authenticate } = require('../src/middleware/authenticate');
+const { setSessionVerifier } = require('../src/services/auth');
+const { createSessionVerifier } = require('../src/services/auth/sessionTokens');
+const { createLocalSigner } = require('../src/services/auth/localSigner');
+
+const signer = createLocalSigner();
+
+/**
+ * Run the middleware for an Authorization header. Resolves with the request,
+ * whether next() was called, and the status and body of any response sent.
+ */
+function runAuthenticate(authorization) {
+  return new Promise((resolve) => {
+    const req = { headers: authorization ? { authorization } : {} };
+    const res = {
+      statusCode: 200,
+      status(code) {
+        this.statusCode = code;
+        return this;
+      },
+      json(body) {
+        resolve({ req, nextCalled: false, status: this.statusCode, body });
+      }
+    };
+    authenticate(req, res, () => resolve({ req, nextCalled: true, status: null, body: null }));
+  });
+}
+
+before(() => {
+  setSessionVerifier(createSessionVerifier({ jwks: signer.jwks, issuer: signer.issuer }));
+});
+
+beforeEach(() => {
+  upserts.length = 0;
+});
+
+describe('authenticate', () => {
+  it('passes requests without a bearer token through unauthenticated', async () => {
+    const result = await runAuthenticate(null);
+
+    assert.equal(result.nextCalled, true);
+    assert.equal(result.req.auth, undefined);
+  });
+
+  it('sets req.auth from a valid session token', async () => {
+    const result = await runAuthenticate(`Bearer ${signer.sign({ sub: 'user_123', sid: 'sess_1' })}`);
+
+    assert.equal(result.nextCalled, true);
+    assert.equal(result.req.auth.userId, 'user_123');
+    assert.equal(result.req.auth.sessionId, 'sess_1');
+  });
+
+  it('stores the email from the session token claims', async () => {
+    await runAuthenticate(`Bearer ${signer.sign({ sub: 'user_456', email: 'Seller@Example.com' })}`);
+    await new Promise(resolve => setImmediate(resolve));
+
+    assert.equal(upserts.length, 1);
+    assert.deepEqual(upserts[0].where, { id: 'user_456' });
+    assert.equal(upserts[0].update.email, 'seller@example.com');
+  });
+
+  it('rejects an expired token', async () => {
+    const token = signer.sign({ sub: 'user_123', exp: Math.floor(Date.now() / 1000) - 3600 });
+    const result = await runAuthenticate(`Bearer ${token}`);
+
+    assert.equal(result.status, 401);
+    assert.equal(result.body.message, 'Token expired');
+  });
+
+  it('rejects a token signed with another key', async () => {
+    const other = createLocalSigner();
+    const result = await runAuthenticate(`Bearer ${other.sign({ sub: 'user_123' })}`);
+
+    assert.equal(result.status, 401);
+    assert.equal(result.body.message, 'Invalid signature');
+  });
+
+  it('rejects a token from another issuer', async () => {
+    const result = await runAuthenticate(`Bearer ${signer.sign({ sub: 'user_123', iss: 'https://evil.example' })}`);
+
+    assert.equal(result.status, 401);
+    assert.equal(result.body.message, 'Unexpected issuer');
+  });
+
+  it('rejects a malformed token', async () => {
+    const result = await runAuthenticate('Bearer not-a-jwt');
+
+    assert.equal(result.status, 401);
+    assert.equal(result.body.message, 'Malformed token');
+  });
+
+  it('answers 503 when no verifier is configured', async () => {
+    setSessionVerifier(null);
+    try {
+      const result = await runAuthenticate(`Bearer ${signer.sign({ sub: 'user_123' })}`);
+      assert.equal(result.status, 503);
+    } finally {
+      setSessionVerifier(createSessionVerifier({ jwks: signer.jwks, issuer: signer.issuer }));
+    }
+  });
+});
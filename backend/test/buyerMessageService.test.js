@@ -0,0 +1,68 @@
+// test/buyerMessageService.test.js
+// Etsy's Open API v3 cannot send buyer messages: "send to buyer" has to say
+// so instead of calling Etsy or logging anything.
+
+const { describe, it, before, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { installPrismaStub } = require('./helpers/prisma');
+
+const messageWrites = [];
+let connection;
+
+installPrismaStub({
+  etsyConnection: { findUnique: async () => connection },
+  messageTemplate: {
+    create: async (args) => messageWrites.push(args),
+    update: async (args) => messageWrites.push(args)
+  }
+});
+
+const order = {
+  id: 'order-1',
+  orderId: '1001',
+  etsyReceiptId: '1001',
+  storeId: 'store-1',
+  etsyBuyerId: '555',
+  lastStatus: 'in_transit',
+  riskLevel: 'yellow'
+};
+
+let buyerMessages;
+
+before(() => {
+  buyerMessages = require('../src/services/buyerMessageService');
+});
+
+beforeEach(() => {
+  connection = { etsyShopId: '42' };
+  messageWrites.length = 0;
+});
+
+describe('buyerMessageService', () => {
+  it('offers no Etsy send for orders of a connected shop and says why', async () => {
+    const delivery = await buyerMessages.describeDelivery(order, 'delayed');
+
+    assert.deepEqual(delivery, {
+      channel: 'etsy',
+      ready: false,
+      reason: buyerMessages.MESSAGING_UNSUPPORTED,
+      sent: null
+    });
+  });
+
+  it('answers 501 to a send and logs nothing', async () => {
+    const result = await buyerMessages.sendBuyerMessage(order, { userId: 'user-1' });
+
+    assert.deepEqual(result, { ok: false, status: 501, error: buyerMessages.MESSAGING_UNSUPPORTED });
+    assert.equal(messageWrites.length, 0);
+  });
+
+  it('answers 400 for orders outside a connected Etsy shop', async () => {
+    connection = null;
+
+    const result = await buyerMessages.sendBuyerMessage(order, { userId: 'user-1' });
+
+    assert.equal(result.status, 400);
+    assert.equal(messageWrites.length, 0);
+  });
+});
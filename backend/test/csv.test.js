@@ -0,0 +1,36 @@
+// test/csv.test.js
+// CSV writing: spreadsheet formula neutralization, quoting and line breaks,
+// and that parseCsv reads back what toCsvRow writes.
+
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const { parseCsv, toCsvRow } = require('../src/utils/csv');
+
+describe('toCsvRow', () => {
+  it('prefixes text that starts like a formula with a quote', () => {
+    assert.equal(toCsvRow(['=HYPERLINK("http://x")']), `"'=HYPERLINK(""http://x"")"\r\n`);
+    assert.equal(toCsvRow(['+1 555 0100']), `'+1 555 0100\r\n`);
+    assert.equal(toCsvRow(['-2+3']), `'-2+3\r\n`);
+    assert.equal(toCsvRow(['@SUM(A1)']), `'@SUM(A1)\r\n`);
+    assert.equal(toCsvRow(['\t=1']), `'\t=1\r\n`);
+    assert.equal(toCsvRow(['\r=1']), `"'\r=1"\r\n`);
+  });
+
+  it('leaves numbers and ordinary text alone', () => {
+    assert.equal(toCsvRow([-12.5, 0, 'Jane Doe', 'a=b']), '-12.5,0,Jane Doe,a=b\r\n');
+  });
+
+  it('writes null and undefined as empty fields', () => {
+    assert.equal(toCsvRow([null, 'x', undefined]), ',x,\r\n');
+  });
+
+  it('quotes fields with commas, quotes and line breaks', () => {
+    assert.equal(toCsvRow(['a,b', 'say "hi"', 'line 1\nline 2', 'cr\r\nlf']),
+      '"a,b","say ""hi""","line 1\nline 2","cr\r\nlf"\r\n');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const values = ['a,b', 'say "hi"', 'line 1\nline 2', '=cmd'];
+    assert.deepEqual(parseCsv(toCsvRow(values)), [['a,b', 'say "hi"', 'line 1\nline 2', "'=cmd"]]);
+  });
+});
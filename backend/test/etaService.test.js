@@ -0,0 +1,29 @@
+// test/etaService.test.js
+// Shipment scope: countries first, the tracking number as a fallback.
+
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const { installPrismaStub } = require('./helpers/prisma');
+
+installPrismaStub();
+const { getShipmentProfile } = require('../src/services/etaService');
+
+const DOMESTIC_NUMBER = '9400100000000000000000';
+const S10_NUMBER = 'LX123456789CN';
+
+describe('getShipmentProfile scope', () => {
+  it('is international when the order ships to another country', () => {
+    const profile = getShipmentProfile('usps', DOMESTIC_NUMBER, [], { shipToCountry: 'CA', shipFromCountry: 'US' });
+    assert.equal(profile.scope, 'international');
+  });
+
+  it('is domestic when both countries match, whatever the number', () => {
+    const profile = getShipmentProfile('usps', S10_NUMBER, [], { shipToCountry: 'us', shipFromCountry: 'US' });
+    assert.equal(profile.scope, 'domestic');
+  });
+
+  it('falls back to the number when a country is unknown', () => {
+    assert.equal(getShipmentProfile('usps', S10_NUMBER, [], { shipToCountry: 'US' }).scope, 'international');
+    assert.equal(getShipmentProfile('usps', DOMESTIC_NUMBER, [], { shipFromCountry: 'US' }).scope, 'domestic');
+  });
+});
@@ -0,0 +1,63 @@
+// test/helpers/prisma.js
+// In-memory stand-in for src/db/prisma.js. Every model answers reads with
+// nothing (findMany -> [], other reads -> null, writes echo their data); a test
+// passes the models and methods it cares about. Install it before requiring
+// anything that loads the real client.
+
+const path = require('path');
+
+const PRISMA_PATH = path.resolve(__dirname, '../../src/db/prisma.js');
+
+const DEFAULT_METHODS = {
+  findMany: async () => [],
+  findFirst: async () => null,
+  findUnique: async () => null,
+  count: async () => 0,
+  create: async ({ data }) => data,
+  update: async ({ data }) => data,
+  upsert: async ({ create }) => create,
+  delete: async () => null,
+  deleteMany: async () => ({ count: 0 }),
+  updateMany: async () => ({ count: 0 })
+};
+
+/**
+ * Replace the Prisma client with `models` ({ modelName: { method } }),
+ * falling back to DEFAULT_METHODS. Returns the stub.
+ */
+function installPrismaStub(models = {}) {
+  const stub = new Proxy({}, {
+    get(target, name) {
+      if (typeof name !== 'string') return undefined;
+      if (name === '$transaction') {
+        return async (work) => (typeof work === 'function' ? work(stub) : Promise.all(work));
+      }
+      if (!target[name]) {
+        target[name] = { ...DEFAULT_METHODS, ...models[name] };
+      }
+      return target[name];
+    }
+  });
+
+  require.cache[PRISMA_PATH] = {
+    id: PRISMA_PATH,
+    filename: PRISMA_PATH,
+    loaded: true,
+    exports: stub
+  };
+  return stub;
+}
+
+/**
+ * Prisma's unique constraint error
+ */
+function uniqueConstraintError() {
+  const error = new Error('Unique constraint failed');
+  error.code = 'P2002';
+  return error;
+}
+
+module.exports = {
+  installPrismaStub,
+  uniqueConstraintError
+};
@@ -0,0 +1,59 @@
+// test/networkGuard.test.js
+// Addresses and hostnames outbound webhooks must not reach.
+
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const { isBlockedAddress, checkHostname, guardedLookup } = require('../src/utils/networkGuard');
+
+describe('isBlockedAddress', () => {
+  const blocked = {
+    loopback: ['127.0.0.1', '127.255.0.9', '::1'],
+    'RFC 1918': ['10.0.0.1', '172.16.0.1', '172.31.255.254', '192.168.1.1'],
+    'link-local and cloud metadata': ['169.254.169.254', 'fe80::1'],
+    'unique local (fc00::/7)': ['fc00::1', 'fd12:3456::1'],
+    'IPv4-mapped IPv6': ['::ffff:127.0.0.1', '::ffff:10.0.0.1', '::ffff:169.254.169.254', '::ffff:7f00:1'],
+    'unspecified, CGNAT and multicast': ['0.0.0.0', '::', '100.64.0.1', '224.0.0.1'],
+    'not an IP address': ['example.com', '']
+  };
+
+  for (const [kind, addresses] of Object.entries(blocked)) {
+    it(`blocks ${kind}`, () => {
+      for (const address of addresses) {
+        assert.equal(isBlockedAddress(address), true, address);
+      }
+    });
+  }
+
+  it('allows public addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8']) {
+      assert.equal(isBlockedAddress(address), false, address);
+    }
+  });
+});
+
+describe('checkHostname', () => {
+  it('rejects blocked IP literals', () => {
+    for (const host of ['127.0.0.1', '10.0.0.1', '169.254.169.254', '[::1]', '[fc00::1]', '[::ffff:192.168.0.1]']) {
+      assert.match(checkHostname(host), /private, loopback or link-local/, host);
+    }
+  });
+
+  it('rejects single-label and internal names', () => {
+    for (const host of ['localhost', 'intranet', 'metadata', 'printer.local', 'db.internal', 'app.localhost', 'nas.home.arpa', 'localhost.']) {
+      assert.equal(checkHostname(host), 'url must use a public hostname.', host);
+    }
+  });
+
+  it('accepts public names and addresses', () => {
+    for (const host of ['hooks.example.com', 'Example.COM', '93.184.216.34', '[2606:4700::1111]']) {
+      assert.equal(checkHostname(host), null, host);
+    }
+  });
+});
+
+describe('guardedLookup', () => {
+  it('refuses a name that resolves to loopback', async () => {
+    const error = await new Promise(resolve => guardedLookup('localhost', {}, resolve));
+    assert.equal(error.code, 'EADDRBLOCKED');
+  });
+});
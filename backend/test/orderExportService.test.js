@@ -0,0 +1,43 @@
+// test/orderExportService.test.js
+// Days spent per status in exports, from status_changed events.
+
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const { installPrismaStub } = require('./helpers/prisma');
+
+installPrismaStub();
+const { computeStatusDays } = require('../src/services/orderExportService');
+
+const at = (day, hour = 0) => new Date(Date.UTC(2026, 9, day, hour));
+const changed = (to, createdAt) => ({ createdAt, metadata: { to } });
+
+describe('computeStatusDays', () => {
+  it('adds up each status until the next change and the current one until now', () => {
+    const days = computeStatusDays([
+      changed('pre_transit', at(1)),
+      changed('in_transit', at(2)),
+      changed('exception', at(5, 12)),
+      changed('in_transit', at(6))
+    ], at(8));
+
+    assert.deepEqual(days, { pre_transit: 1, in_transit: 5.5, exception: 0.5 });
+  });
+
+  it('stops counting once the order is delivered', () => {
+    const days = computeStatusDays([
+      changed('in_transit', at(1)),
+      changed('delivered', at(4))
+    ], at(20));
+
+    assert.deepEqual(days, { in_transit: 3 });
+  });
+
+  it('rounds to a tenth of a day', () => {
+    const days = computeStatusDays([changed('in_transit', at(1))], at(1, 5));
+    assert.deepEqual(days, { in_transit: 0.2 });
+  });
+
+  it('is empty without status changes', () => {
+    assert.deepEqual(computeStatusDays([], at(1)), {});
+  });
+});
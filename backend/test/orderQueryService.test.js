@@ -0,0 +1,125 @@
+// test/orderQueryService.test.js
+// Keyset pagination over sort columns with nulls and ties. The Prisma stub
+// evaluates the where/orderBy subset the service builds against an array,
+// with SQL semantics: comparisons never match null, nulls sort last.
+
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const { installPrismaStub } = require('./helpers/prisma');
+
+// 14 orders; riskRank and lastUpdateAt repeat and are often null
+const RANKS = [2, null, 1, 2, null, 0, 2, 1, null, 0, 2, null, 1, 2];
+const orders = RANKS.map((riskRank, i) => ({
+  id: `order-${String(i).padStart(2, '0')}`,
+  storeId: 'store-1',
+  orderId: `${1000 + i}`,
+  riskRank,
+  lastUpdateAt: i % 3 === 0 ? null : new Date(Date.UTC(2026, 9, 1 + (i % 4))),
+  createdAt: new Date(Date.UTC(2026, 9, 1, i))
+}));
+
+function compare(a, b) {
+  if (a instanceof Date) return a.getTime() - b.getTime();
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function matches(row, where) {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'AND') return condition.every(part => matches(row, part));
+    if (key === 'OR') return condition.some(part => matches(row, part));
+
+    const value = row[key] ?? null;
+    if (condition === null) return value === null;
+    if (condition instanceof Date || typeof condition !== 'object') {
+      return value !== null && compare(value, condition) === 0;
+    }
+    return Object.entries(condition).every(([op, operand]) => {
+      if (op === 'in') return operand.includes(value);
+      if (value === null) return false;
+      if (op === 'gt') return compare(value, operand) > 0;
+      if (op === 'lt') return compare(value, operand) < 0;
+      throw new Error(`Unsupported operator ${op}`);
+    });
+  });
+}
+
+function sortRows(rows, orderBy) {
+  return [...rows].sort((a, b) => {
+    for (const entry of orderBy) {
+      const [[column, spec]] = Object.entries(entry);
+      const direction = typeof spec === 'string' ? spec : spec.sort;
+      const x = a[column] ?? null;
+      const y = b[column] ?? null;
+      if (x === null && y === null) continue;
+      // nulls: 'last' in either direction
+      if (x === null) return 1;
+      if (y === null) return -1;
+      const result = compare(x, y) * (direction === 'asc' ? 1 : -1);
+      if (result !== 0) return result;
+    }
+    return 0;
+  });
+}
+
+installPrismaStub({
+  order: {
+    findMany: async ({ where, orderBy, take }) => sortRows(orders.filter(row => matches(row, where)), orderBy).slice(0, take),
+    count: async ({ where }) => orders.filter(row => matches(row, where)).length
+  }
+});
+
+const { listOrders, decodeOrderCursor, forEachOrderBatch } = require('../src/services/orderQueryService');
+
+// Every order id in list order, one page at a time, the way GET /api/orders pages
+async function pageThrough(sort, direction, limit) {
+  const ids = [];
+  let cursor = null;
+  for (let page = 0; page < 20; page++) {
+    const result = await listOrders(['store-1'], { sort, direction, limit, cursor });
+    ids.push(...result.orders.map(order => order.id));
+    if (!result.pageInfo.hasMore) return ids;
+    cursor = decodeOrderCursor(result.pageInfo.nextCursor, sort, direction);
+    assert.ok(cursor, 'next cursor decodes');
+  }
+  throw new Error('Pagination did not end');
+}
+
+const expectedOrder = (column, direction) => sortRows(orders, [
+  { [column]: { sort: direction, nulls: 'last' } },
+  { id: direction }
+]).map(order => order.id);
+
+describe('listOrders keyset pagination', () => {
+  for (const [sort, column] of [['riskLevel', 'riskRank'], ['lastUpdateAt', 'lastUpdateAt']]) {
+    for (const direction of ['asc', 'desc']) {
+      for (const limit of [1, 3, 5]) {
+        it(`pages by ${sort} ${direction} in pages of ${limit} without duplicates or gaps`, async () => {
+          const ids = await pageThrough(sort, direction, limit);
+
+          assert.equal(new Set(ids).size, ids.length);
+          assert.deepEqual(ids, expectedOrder(column, direction));
+        });
+      }
+    }
+  }
+
+  it('keeps nulls last in both directions', async () => {
+    for (const direction of ['asc', 'desc']) {
+      const ids = await pageThrough('riskLevel', direction, 4);
+      const ranks = ids.map(id => orders.find(order => order.id === id).riskRank);
+      const firstNull = ranks.indexOf(null);
+      assert.ok(ranks.slice(firstNull).every(rank => rank === null));
+    }
+  });
+});
+
+describe('forEachOrderBatch', () => {
+  it('visits every order once over null and tied sort values', async () => {
+    const ids = [];
+    await forEachOrderBatch(['store-1'], { sort: 'riskLevel', direction: 'desc' }, async (batch) => {
+      ids.push(...batch.map(order => order.id));
+    }, { batchSize: 4 });
+
+    assert.deepEqual(ids, expectedOrder('riskRank', 'desc'));
+  });
+});
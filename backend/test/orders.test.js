@@ -0,0 +1,93 @@
+// test/orders.test.js
+// POST /api/orders/:id/check through the orders router, with the fake
+// provider scripted to fail and an in-memory Prisma stub.
+
+const { describe, it, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const express = require('express');
+const { installPrismaStub } = require('./helpers/prisma');
+
+// Order already delivered, with two failed checks behind it
+const order = {
+  id: 'order-1',
+  orderId: '1001',
+  storeId: 'store-1',
+  trackingNumber: 'FAKE-DOWN',
+  carrier: 'usps',
+  lastStatus: 'delivered',
+  riskLevel: 'green',
+  deliveredAt: new Date('2026-10-10T12:00:00Z'),
+  checkFailures: 2,
+  store: { userId: 'user-1' }
+};
+
+const orderUpdates = [];
+const eventWrites = [];
+
+installPrismaStub({
+  membership: {
+    findFirst: async () => ({ role: 'owner', organization: { id: 'org-1', name: 'Paper Co' } })
+  },
+  store: { findMany: async () => [{ id: 'store-1' }] },
+  order: {
+    findFirst: async () => order,
+    update: async (args) => {
+      orderUpdates.push(args);
+      return { ...order, ...args.data };
+    }
+  },
+  orderEvent: {
+    create: async (args) => eventWrites.push(args),
+    createManyAndReturn: async (args) => {
+      eventWrites.push(args);
+      return [];
+    }
+  }
+});
+
+const { setFakeTracking, clearFakeTracking } = require('../src/services/tracking/providers/fake');
+const ordersRouter = require('../src/routes/orders');
+
+let server;
+let baseUrl;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, next) => {
+    req.auth = { userId: 'user-1' };
+    next();
+  });
+  app.use('/api/orders', ordersRouter);
+
+  server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => new Promise(resolve => server.close(resolve)));
+
+beforeEach(() => {
+  orderUpdates.length = 0;
+  eventWrites.length = 0;
+  clearFakeTracking();
+});
+
+describe('POST /api/orders/:id/check', () => {
+  it('answers 502 on a failed lookup and only pushes the next check back', async () => {
+    setFakeTracking('FAKE-DOWN', { error: 'Carrier API unavailable' });
+
+    const response = await fetch(`${baseUrl}/api/orders/order-1/check`, { method: 'POST' });
+    const body = await response.json();
+
+    assert.equal(response.status, 502);
+    assert.equal(body.message, 'Carrier API unavailable');
+
+    assert.equal(orderUpdates.length, 1);
+    const { data } = orderUpdates[0];
+    assert.deepEqual(Object.keys(data).sort(), ['checkFailures', 'nextCheckAt']);
+    assert.equal(data.checkFailures, 3);
+    assert.ok(data.nextCheckAt > new Date());
+    assert.equal(eventWrites.length, 0);
+  });
+});
@@ -0,0 +1,62 @@
+// test/tracking.test.js
+// POST /api/tracking/webhook with 17TRACK's own `sign` header.
+
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const express = require('express');
+const { installPrismaStub } = require('./helpers/prisma');
+
+process.env.TRACK17_API_KEY = 'test-17track-key';
+installPrismaStub();
+
+const trackingRouter = require('../src/routes/tracking');
+
+const body = JSON.stringify({
+  event: 'TRACKING_UPDATED',
+  data: { number: 'LX123456789CN', carrier: 3011, track_info: null }
+});
+const sign = crypto.createHash('sha256').update(`${body}/test-17track-key`).digest('hex');
+
+let server;
+let baseUrl;
+
+before(async () => {
+  const app = express();
+  app.use('/api/tracking/webhook', express.raw({ type: 'application/json' }));
+  app.use('/api/tracking', trackingRouter);
+
+  server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => new Promise(resolve => server.close(resolve)));
+
+function push(headers, payload = body) {
+  return fetch(`${baseUrl}/api/tracking/webhook?provider=17track`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: payload
+  });
+}
+
+describe('POST /api/tracking/webhook?provider=17track', () => {
+  it('accepts a push signed the 17TRACK way', async () => {
+    const response = await push({ sign });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { received: true, updated: 0, unmatched: 1, errors: 0 });
+  });
+
+  it('rejects a wrong or missing sign', async () => {
+    assert.equal((await push({ sign: sign.replace(/^./, sign[0] === 'a' ? 'b' : 'a') })).status, 401);
+    assert.equal((await push({ sign: sign.slice(0, 10) })).status, 401);
+    assert.equal((await push({})).status, 401);
+  });
+
+  it('rejects a body changed after signing', async () => {
+    const response = await push({ sign }, body.replace('LX123456789CN', 'LX000000000CN'));
+    assert.equal(response.status, 401);
+  });
+});
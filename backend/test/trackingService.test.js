@@ -0,0 +1,101 @@
+// test/trackingService.test.js
+// Single and batch lookups through the provider registry. With no provider
+// credentials set every number goes to the scripted fake provider; batching is
+// checked by standing in for 17TRACK's trackMany.
+
+const { describe, it, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { setFakeTracking, clearFakeTracking } = require('../src/services/tracking/providers/fake');
+const track17 = require('../src/services/tracking/providers/track17');
+const { checkTrackingStatus, checkTrackingStatusBatch } = require('../src/services/trackingService');
+
+const { isConfigured, trackMany } = track17;
+
+afterEach(() => {
+  clearFakeTracking();
+  Object.assign(track17, { isConfigured, trackMany });
+});
+
+describe('fake provider', () => {
+  it('returns the result scripted for a number', async () => {
+    setFakeTracking('FAKE-DELIVERED', {
+      status: 'delivered',
+      carrier: 'ups',
+      events: [{ timestamp: '2026-10-01T12:00:00Z', location: 'Austin, TX', description: 'Delivered' }]
+    });
+
+    const result = await checkTrackingStatus('FAKE-DELIVERED');
+
+    assert.equal(result.provider, 'fake');
+    assert.equal(result.status, 'delivered');
+    assert.equal(result.carrier, 'ups');
+    assert.equal(result.location, 'Austin, TX');
+    assert.equal(result.message, 'Delivered');
+  });
+
+  it('falls back to mock in-transit data once cleared', async () => {
+    setFakeTracking('FAKE-LOST', { status: 'exception' });
+    clearFakeTracking();
+
+    const result = await checkTrackingStatus('FAKE-LOST', 'usps');
+
+    assert.equal(result.provider, 'fake');
+    assert.equal(result.status, 'in_transit');
+    assert.equal(result.events.length, 3);
+  });
+});
+
+describe('checkTrackingStatusBatch', () => {
+  it('returns results in input order', async () => {
+    setFakeTracking('FAKE-1', { status: 'delivered' });
+    setFakeTracking('FAKE-2', { status: 'exception' });
+    setFakeTracking('FAKE-3', { status: 'out_for_delivery' });
+
+    const results = await checkTrackingStatusBatch([
+      { trackingNumber: 'FAKE-3', carrier: 'usps' },
+      { trackingNumber: 'FAKE-1', carrier: 'usps' },
+      { trackingNumber: 'FAKE-2', carrier: 'usps' }
+    ]);
+
+    assert.deepEqual(results.map(result => result.status), ['out_for_delivery', 'delivered', 'exception']);
+    assert.ok(results.every(result => result.provider === 'fake'));
+  });
+
+  it('sends batch providers up to batchSize numbers per call', async () => {
+    const calls = [];
+    Object.assign(track17, {
+      isConfigured: () => true,
+      trackMany: async (batch) => {
+        calls.push(batch.map(entry => entry.trackingNumber));
+        return batch.map(entry => ({ status: 'in_transit', carrier: entry.carrier, number: entry.trackingNumber }));
+      }
+    });
+
+    const items = Array.from({ length: track17.batchSize + 5 }, (_, i) => ({ trackingNumber: `BATCH-${i}`, carrier: 'usps' }));
+    const results = await checkTrackingStatusBatch(items);
+
+    assert.deepEqual(calls.map(call => call.length), [track17.batchSize, 5]);
+    assert.deepEqual(results.map(result => result.number), items.map(item => item.trackingNumber));
+    assert.ok(results.every(result => result.provider === '17track'));
+  });
+
+  it('marks only the numbers of a failed call as errors', async () => {
+    Object.assign(track17, {
+      isConfigured: () => true,
+      trackMany: async (batch) => {
+        if (batch.some(entry => entry.trackingNumber === 'BATCH-0')) {
+          throw new Error('17TRACK unavailable');
+        }
+        return batch.map(() => ({ status: 'delivered' }));
+      }
+    });
+
+    const items = Array.from({ length: track17.batchSize + 1 }, (_, i) => ({ trackingNumber: `BATCH-${i}`, carrier: 'usps' }));
+    const results = await checkTrackingStatusBatch(items);
+
+    assert.ok(results.slice(0, track17.batchSize).every(result => result.error === '17TRACK unavailable'));
+    assert.equal(results[track17.batchSize].status, 'delivered');
+    assert.equal(results[track17.batchSize].error, undefined);
+  });
+});
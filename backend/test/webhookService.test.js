@@ -0,0 +1,52 @@
+// test/webhookService.test.js
+// Outbound webhook signatures and the endpoint URL check.
+
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const { installPrismaStub } = require('./helpers/prisma');
+
+installPrismaStub();
+const { signPayload, checkEndpointUrl } = require('../src/services/webhookService');
+
+const BODY = '{"id":"evt_1","type":"order.risk_changed"}';
+
+describe('signPayload', () => {
+  it('signs "<t>.<body>" with the endpoint secret as t=,v1=', () => {
+    assert.equal(
+      signPayload('whsec_test', BODY, 1760000000),
+      't=1760000000,v1=2a08cd3e57a7a457da71a8d06dbb2bd64277e4bd97e8e7542d35a6771e5e921c'
+    );
+  });
+
+  it('verifies the way a receiver would', () => {
+    const header = signPayload('whsec_test', BODY, 1760000123);
+    const { t, v1 } = Object.fromEntries(header.split(',').map(part => part.split('=')));
+    const expected = crypto.createHmac('sha256', 'whsec_test').update(`${t}.${BODY}`).digest('hex');
+
+    assert.equal(t, '1760000123');
+    assert.equal(v1, expected);
+  });
+});
+
+describe('checkEndpointUrl', () => {
+  for (const url of [
+    'https://127.0.0.1/hook',
+    'https://10.1.2.3/hook',
+    'https://169.254.169.254/latest/meta-data',
+    'https://[::1]/hook',
+    'https://[::ffff:192.168.1.1]/hook',
+    'https://localhost/hook',
+    'https://intranet/hook'
+  ]) {
+    it(`refuses ${url}`, async () => {
+      const result = await checkEndpointUrl(url);
+      assert.equal(result.ok, false);
+      assert.match(result.error, /^url must/);
+    });
+  }
+
+  it('accepts a public IP address', async () => {
+    assert.deepEqual(await checkEndpointUrl('https://93.184.216.34/hook'), { ok: true });
+  });
+});
@@ -1,15 +1,16 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
+import { useApiFetch } from '@/lib/api';
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
+const POLL_INTERVAL_MS = 60000;
 
 interface Notification {
   id: string;
   type: 'risk_alert' | 'delivery' | 'exception' | 'system';
   title: string;
   message: string;
-  orderId?: string;
+  orderId: string | null;
   read: boolean;
   createdAt: string;
 }
@@ -24,14 +25,16 @@ export function NotificationBell({ userId, onOrderClick }: NotificationBellProps
   const [isOpen, setIsOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const apiFetch = useApiFetch();
 
   const unreadCount = notifications.filter(n => !n.read).length;
 
-  // Fetch notifications on mount
+  // Fetch notifications on mount, then poll for new alerts
   useEffect(() => {
-    if (userId) {
-      fetchNotifications();
-    }
+    if (!userId) return;
+    fetchNotifications();
+    const interval = setInterval(() => fetchNotifications(false), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
   }, [userId]);
 
   // Close dropdown when clicking outside
@@ -46,39 +49,43 @@ export function NotificationBell({ userId, onOrderClick }: NotificationBellProps
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const fetchNotifications = async () => {
-    // TODO: Implement backend endpoint GET /api/notifications
-    // For now, use empty array - notifications will be populated when backend is ready
+  const fetchNotifications = async (showSpinner = true) => {
     try {
-      setLoading(true);
-      // const response = await fetch(`${API_URL}/api/notifications`, {
-      //   headers: { 'x-clerk-user-id': userId },
-      // });
-      // if (response.ok) {
-      //   const data = await response.json();
-      //   setNotifications(data.notifications);
-      // }
-
-      // Mock data for UI demonstration
-      // Remove this when backend is implemented
-      setNotifications([]);
+      if (showSpinner) setLoading(true);
+      const response = await apiFetch(`/api/notifications`);
+      if (response.ok) {
+        const data = await response.json();
+        setNotifications(data.notifications);
+      }
     } catch (err) {
       console.error('Failed to fetch notifications:', err);
     } finally {
-      setLoading(false);
+      if (showSpinner) setLoading(false);
     }
   };
 
   const markAsRead = async (notificationId: string) => {
-    // TODO: Implement backend endpoint POST /api/notifications/:id/read
     setNotifications(prev =>
       prev.map(n => n.id === notificationId ? { ...n, read: true } : n)
     );
+    try {
+      await apiFetch(`/api/notifications/${notificationId}/read`, {
+        method: 'POST',
+      });
+    } catch (err) {
+      console.error('Failed to mark notification as read:', err);
+    }
   };
 
   const markAllAsRead = async () => {
-    // TODO: Implement backend endpoint POST /api/notifications/read-all
     setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    try {
+      await apiFetch(`/api/notifications/read-all`, {
+        method: 'POST',
+      });
+    } catch (err) {
+      console.error('Failed to mark notifications as read:', err);
+    }
   };
 
   const handleNotificationClick = (notification: Notification) => {
@@ -147,7 +154,10 @@ export function NotificationBell({ userId, onOrderClick }: NotificationBellProps
     <div className="relative" ref={dropdownRef}>
       {/* Bell Button */}
       <button
-        onClick={() => setIsOpen(!isOpen)}
+        onClick={() => {
+          if (!isOpen) fetchNotifications(false);
+          setIsOpen(!isOpen);
+        }}
         className="relative p-2 rounded-full hover:bg-slate-700 transition-colors"
         aria-label="Notifications"
       >
@@ -0,0 +1,29 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useAuth } from '@clerk/nextjs';
+
+export const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
+
+/**
+ * fetch() for the OrderWarden API that sends the Clerk session token as a
+ * bearer token. Paths are relative to API_URL; pass `{ local: true }` for
+ * this app's own routes (e.g. /api/billing/create-checkout).
+ */
+export function useApiFetch() {
+  const { getToken } = useAuth();
+
+  return useCallback(
+    async (path: string, init: RequestInit = {}, { local = false }: { local?: boolean } = {}) => {
+      const token = await getToken();
+      return fetch(`${local ? '' : API_URL}${path}`, {
+        ...init,
+        headers: {
+          ...(init.headers as Record<string, string> | undefined),
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+      });
+    },
+    [getToken]
+  );
+}